@@ -1,13 +1,17 @@
 /**
  * App Root with Routing
  *
- * Sets up React Router with two main routes:
+ * Sets up React Router with the main routes:
  * - / : Timeline view (existing functionality)
- * - /dashboard : Metrics dashboard view (new)
+ * - /dashboard : Metrics dashboard view
+ * - /sessions : Reconstructed sessions and subagent threads
+ * - /agent-tags : Agent tag rule editor
  */
 
 import { BrowserRouter, Route, Routes } from 'react-router-dom';
+import AgentTags from './pages/AgentTags';
 import Dashboard from './pages/Dashboard';
+import Sessions from './pages/Sessions';
 import Timeline from './pages/Timeline';
 
 export default function App() {
@@ -16,6 +20,8 @@ export default function App() {
       <Routes>
         <Route path="/" element={<Timeline />} />
         <Route path="/dashboard" element={<Dashboard />} />
+        <Route path="/sessions" element={<Sessions />} />
+        <Route path="/agent-tags" element={<AgentTags />} />
       </Routes>
     </BrowserRouter>
   );
@@ -0,0 +1,192 @@
+import type { AgentTagRuleDefinition, AgentTagRulePreview } from '../../../shared/types';
+
+/**
+ * Editable form state for one agent tag rule. Pattern lists are edited as one pattern
+ * per line; headers as `name: pattern` lines.
+ */
+export interface AgentTagRuleDraft {
+  key: number;
+  id: string;
+  label: string;
+  description: string;
+  text: string;
+  background: string;
+  border: string;
+  systemPrompt: string;
+  tools: string;
+  model: string;
+  headers: string;
+}
+
+function splitLines(value: string): string[] {
+  return value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+export function ruleToDraft(rule: AgentTagRuleDefinition, key: number): AgentTagRuleDraft {
+  return {
+    key,
+    id: rule.id,
+    label: rule.label,
+    description: rule.description ?? '',
+    text: rule.theme.text,
+    background: rule.theme.background,
+    border: rule.theme.border,
+    systemPrompt: (rule.match.systemPrompt ?? []).join('\n'),
+    tools: (rule.match.tools ?? []).join('\n'),
+    model: (rule.match.model ?? []).join('\n'),
+    headers: Object.entries(rule.match.headers ?? {})
+      .map(([name, pattern]) => `${name}: ${pattern}`)
+      .join('\n'),
+  };
+}
+
+export function draftToRule(draft: AgentTagRuleDraft): AgentTagRuleDefinition {
+  const match: AgentTagRuleDefinition['match'] = {};
+  const systemPrompt = splitLines(draft.systemPrompt);
+  const tools = splitLines(draft.tools);
+  const model = splitLines(draft.model);
+  if (systemPrompt.length > 0) {
+    match.systemPrompt = systemPrompt;
+  }
+  if (tools.length > 0) {
+    match.tools = tools;
+  }
+  if (model.length > 0) {
+    match.model = model;
+  }
+  const headers: Record<string, string> = {};
+  for (const line of splitLines(draft.headers)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+  if (Object.keys(headers).length > 0) {
+    match.headers = headers;
+  }
+
+  const rule: AgentTagRuleDefinition = {
+    id: draft.id.trim(),
+    label: draft.label.trim(),
+    theme: { text: draft.text, background: draft.background, border: draft.border },
+    match,
+  };
+  if (draft.description.trim()) {
+    rule.description = draft.description.trim();
+  }
+  return rule;
+}
+
+interface AgentTagRuleCardProps {
+  draft: AgentTagRuleDraft;
+  index: number;
+  ruleCount: number;
+  preview: AgentTagRulePreview | undefined;
+  scanned: number | null;
+  onChange: (draft: AgentTagRuleDraft) => void;
+  onMove: (offset: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+export default function AgentTagRuleCard({
+  draft,
+  index,
+  ruleCount,
+  preview,
+  scanned,
+  onChange,
+  onMove,
+  onRemove,
+}: AgentTagRuleCardProps) {
+  const update = (field: keyof Omit<AgentTagRuleDraft, 'key'>) =>
+    (event: { target: { value: string } }) => onChange({ ...draft, [field]: event.target.value });
+
+  return (
+    <li className="agent-tag-rule">
+      <div className="agent-tag-rule__header">
+        <span
+          className="agent-chip"
+          style={{ color: draft.text, backgroundColor: draft.background, borderColor: draft.border }}
+        >
+          {draft.label || draft.id || 'New rule'}
+        </span>
+        {preview && scanned !== null && (
+          <span className="agent-tag-rule__preview">
+            Matches {preview.matchCount} of {scanned} recent logs
+            {preview.changedCount > 0 && ` · ${preview.changedCount} would change`}
+          </span>
+        )}
+        <div className="agent-tag-rule__actions">
+          <button type="button" className="text-button" onClick={() => onMove(-1)} disabled={index === 0}>
+            ↑
+          </button>
+          <button
+            type="button"
+            className="text-button"
+            onClick={() => onMove(1)}
+            disabled={index === ruleCount - 1}
+          >
+            ↓
+          </button>
+          <button type="button" className="text-button" onClick={onRemove}>
+            Remove
+          </button>
+        </div>
+      </div>
+      <div className="replay-form agent-tag-rule__form">
+        <label className="replay-form__field">
+          Id
+          <input value={draft.id} onChange={update('id')} placeholder="my-agent" />
+        </label>
+        <label className="replay-form__field">
+          Label
+          <input value={draft.label} onChange={update('label')} placeholder="My Agent" />
+        </label>
+        <label className="replay-form__field replay-form__field--wide">
+          Description
+          <input value={draft.description} onChange={update('description')} />
+        </label>
+        <label className="replay-form__field">
+          System prompt patterns (one per line)
+          <textarea rows={3} value={draft.systemPrompt} onChange={update('systemPrompt')} />
+        </label>
+        <label className="replay-form__field">
+          Tool name patterns (one per line)
+          <textarea rows={3} value={draft.tools} onChange={update('tools')} />
+        </label>
+        <label className="replay-form__field">
+          Model patterns (one per line)
+          <textarea rows={2} value={draft.model} onChange={update('model')} />
+        </label>
+        <label className="replay-form__field">
+          Header patterns (name: pattern)
+          <textarea rows={2} value={draft.headers} onChange={update('headers')} />
+        </label>
+        <div className="agent-tag-rule__colors replay-form__field--wide">
+          <label className="replay-form__field">
+            Text color
+            <input value={draft.text} onChange={update('text')} />
+          </label>
+          <label className="replay-form__field">
+            Background
+            <input value={draft.background} onChange={update('background')} />
+          </label>
+          <label className="replay-form__field">
+            Border
+            <input value={draft.border} onChange={update('border')} />
+          </label>
+        </div>
+      </div>
+      {preview && preview.sampleFileNames.length > 0 && (
+        <ul className="agent-tag-rule__samples">
+          {preview.sampleFileNames.map((fileName) => (
+            <li key={fileName}>{fileName}</li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
@@ -1,4 +1,5 @@
 import { Link } from 'react-router-dom';
+import ProjectSwitcher from './ProjectSwitcher';
 
 interface AppHeaderProps {
   isLoading: boolean;
@@ -28,9 +29,16 @@ export default function AppHeader({
         <p className="app-tagline">Claude Code Inspector</p>
       </div>
       <div className="header-actions">
+        <ProjectSwitcher />
         <Link to="/dashboard" state={{ logIds: filteredFileNames }} className="secondary-button">
           Dashboard
         </Link>
+        <Link to="/sessions" className="secondary-button">
+          Sessions
+        </Link>
+        <Link to="/agent-tags" className="secondary-button">
+          Agent Tags
+        </Link>
         <button
           type="button"
           className="secondary-button"
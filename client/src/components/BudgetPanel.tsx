@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import type {
+  BudgetAction,
+  BudgetRule,
+  BudgetScope,
+  BudgetStatus,
+  BudgetStatusResponse,
+  BudgetUnit,
+  BudgetUsage,
+} from '../../../shared/types';
+import { apiUrl } from '../utils/api';
+import { formatCost, formatTimestamp } from '../utils/formatting';
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  total: 'All requests',
+  session: 'Per session',
+  label: 'Per label',
+  agentTag: 'Per agent tag',
+};
+
+const ACTION_LABELS: Record<BudgetAction, string> = {
+  block: 'blocks',
+  downgrade: 'downgrades',
+  warn: 'warns',
+};
+
+/** Key of the single counter of a `per: 'total'` budget */
+const TOTAL_KEY = '*';
+
+function formatAmount(amount: number, unit: BudgetUnit): string {
+  return unit === 'usd' ? formatCost(amount) : `${Math.round(amount).toLocaleString()} tokens`;
+}
+
+function describeRule(rule: BudgetRule): string {
+  const scope = rule.per === 'label' ? `${SCOPE_LABELS.label} "${rule.label}"` : SCOPE_LABELS[rule.per];
+  const match = rule.match && rule.per !== 'total' ? ` = ${rule.match}` : '';
+  const window = rule.window === 'day' ? 'today' : 'since last reset';
+  const action =
+    rule.action === 'downgrade' ? `${ACTION_LABELS.downgrade} to ${rule.downgradeTo}` : ACTION_LABELS[rule.action];
+  return `${scope}${match} · ${formatAmount(rule.limit, rule.unit)} ${window} · ${action} when exceeded`;
+}
+
+interface BudgetUsageRowProps {
+  rule: BudgetRule;
+  usage: BudgetUsage;
+  onUpdated: (status: BudgetStatus) => void;
+}
+
+function BudgetUsageRow({ rule, usage, onUpdated }: BudgetUsageRowProps) {
+  const [limitInput, setLimitInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const key = usage.key === TOTAL_KEY ? null : usage.key;
+  const percent = usage.limit > 0 ? Math.min(100, (usage.spent / usage.limit) * 100) : 100;
+
+  const send = async (action: 'reset' | 'override', body: Record<string, unknown>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(apiUrl(`/api/budgets/${encodeURIComponent(rule.id)}/${action}`), {
+        method: action === 'reset' ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key, ...body }),
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(payload?.error ?? `Update failed: ${response.statusText}`);
+      }
+      onUpdated((await response.json()) as BudgetStatus);
+      setLimitInput('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const newLimit = Number(limitInput);
+  const canOverride = limitInput.trim() !== '' && Number.isFinite(newLimit) && newLimit >= 0;
+
+  return (
+    <li className={`budget-usage${usage.exceeded ? ' budget-usage--exceeded' : ''}`}>
+      <div className="budget-usage__header">
+        <strong>{usage.key === TOTAL_KEY ? 'All requests' : usage.key}</strong>
+        <span className="budget-usage__amount">
+          {formatAmount(usage.spent, rule.unit)} of {formatAmount(usage.limit, rule.unit)}
+          {usage.overridden && ' (overridden)'}
+        </span>
+      </div>
+      <div className="budget-usage__bar">
+        <div className="budget-usage__fill" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="budget-usage__actions">
+        <span className="budget-usage__since">since {formatTimestamp(new Date(usage.sinceMs).toISOString())}</span>
+        <button type="button" className="text-button" onClick={() => send('reset', {})} disabled={isSaving}>
+          Reset
+        </button>
+        <input
+          type="number"
+          min={0}
+          value={limitInput}
+          onChange={(event) => setLimitInput(event.target.value)}
+          placeholder={rule.unit === 'usd' ? 'Limit ($)' : 'Limit (tokens)'}
+        />
+        <button
+          type="button"
+          className="text-button"
+          onClick={() => send('override', { limit: newLimit })}
+          disabled={isSaving || !canOverride}
+        >
+          Set Limit
+        </button>
+        {usage.overridden && (
+          <button
+            type="button"
+            className="text-button"
+            onClick={() => send('override', { limit: null })}
+            disabled={isSaving}
+          >
+            Clear Override
+          </button>
+        )}
+        {error && <span className="error-text">{error}</span>}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Spend against each configured budget (BUDGETS_FILE), with reset and limit overrides.
+ * Renders nothing when no budgets are configured.
+ */
+export default function BudgetPanel() {
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function fetchBudgets() {
+      try {
+        const response = await fetch(apiUrl('/api/budgets'));
+        if (!response.ok) {
+          throw new Error(`Failed to fetch budgets: ${response.statusText}`);
+        }
+        const payload = (await response.json()) as BudgetStatusResponse;
+        if (!cancelled) {
+          setBudgets(payload.budgets);
+        }
+      } catch (err) {
+        console.error('Error fetching budgets:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      }
+    }
+    fetchBudgets();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleUpdated = (status: BudgetStatus) => {
+    setBudgets((current) => current.map((budget) => (budget.rule.id === status.rule.id ? status : budget)));
+  };
+
+  if (error) {
+    return (
+      <div className="dashboard-error">
+        <p>Error loading budgets: {error}</p>
+      </div>
+    );
+  }
+  if (budgets.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="dashboard-section budget-panel">
+      <h2>Budgets</h2>
+      {budgets.map(({ rule, usage }) => (
+        <div key={rule.id} className={`budget${rule.enabled === false ? ' budget--disabled' : ''}`}>
+          <div className="budget__header">
+            <strong>{rule.id}</strong>
+            <span className="budget__meta">
+              {describeRule(rule)}
+              {rule.enabled === false && ' · disabled'}
+            </span>
+          </div>
+          {usage.length === 0 ? (
+            <p className="budget__meta">No spend in the current window</p>
+          ) : (
+            <ul className="budget__usage">
+              {usage.map((entry) => (
+                <BudgetUsageRow key={entry.key} rule={rule} usage={entry} onUpdated={handleUpdated} />
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -5,20 +5,21 @@ import type {
   LogSummary
 } from '../../../shared/types';
 import { formatDuration, formatTimestamp, prettifyJson } from '../utils/formatting';
-import {
-  buildCustomBreakdowns,
-  buildTokenChips,
-  formatTokenCount,
-} from '../utils/tokenHelpers';
+import { buildTokenChips } from '../utils/tokenHelpers';
 import ChatPreviewModal, {
   type ChatPreviewMetadata,
   type ChatPreviewSegment,
 } from './ChatPreviewModal';
+import ReplayPanel from './ReplayPanel';
+import RewriteDiff from './RewriteDiff';
+import StreamPlayback from './StreamPlayback';
+import TokenSummarySection from './TokenSummarySection';
 
 const DETAIL_TABS = [
   { id: 'overview', label: 'Overview' },
   { id: 'request', label: 'Request' },
   { id: 'response', label: 'Response' },
+  { id: 'replay', label: 'Replay' },
   { id: 'raw', label: 'Raw JSON' },
 ] as const;
 
@@ -159,9 +160,70 @@ function extractToolDefinitions(source: unknown): unknown[] | null {
   return null;
 }
 
+const TOOL_USE_TITLES: Record<string, string> = {
+  tool_use: 'Tool Use',
+  server_tool_use: 'Server Tool Use',
+  mcp_tool_use: 'MCP Tool Use',
+};
+
+/** `web_search_tool_result` → `Web Search` */
+function formatToolResultType(type: string): string {
+  const words = type.replace(/_tool_result$/, '').split('_');
+  return words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * Body of a server or MCP tool result: search results as title and URL lines, errors
+ * by their code, anything else as rich content.
+ */
+function formatServerToolResult(content: unknown): string {
+  if (isPlainRecord(content) && typeof content.error_code === 'string') {
+    return `Error: ${content.error_code}`;
+  }
+  if (Array.isArray(content) && content.every((item) => isPlainRecord(item) && typeof item.url === 'string')) {
+    return content
+      .map((item) => {
+        const result = item as { url: string; title?: unknown; page_age?: unknown };
+        const title = typeof result.title === 'string' ? result.title : result.url;
+        const age = typeof result.page_age === 'string' ? ` (${result.page_age})` : '';
+        return `${title}${age}\n${result.url}`;
+      })
+      .join('\n\n');
+  }
+  return formatRichContent(content);
+}
+
+/** Citations attached to a text block, one per line */
+function formatCitations(citations: unknown): string {
+  if (!Array.isArray(citations) || citations.length === 0) return '';
+  const lines = citations.map((citation) => {
+    if (!isPlainRecord(citation)) return `- ${prettifyJson(citation)}`;
+    const quote = typeof citation.cited_text === 'string' ? `"${citation.cited_text}"` : '';
+    const source = [citation.title, citation.url ?? citation.document_title]
+      .filter((part): part is string => typeof part === 'string' && part.length > 0)
+      .join(' · ');
+    return `- ${[quote, source].filter(Boolean).join(' — ')}`;
+  });
+  return `Citations:\n${lines.join('\n')}`;
+}
+
+/**
+ * The assistant message of a response body: Anthropic's message itself, or the first
+ * choice of an OpenAI chat completion.
+ */
+function extractResponseMessage(body: unknown): Record<string, unknown> | null {
+  const record = coerceRecord(body);
+  if (!record) return null;
+  if (Array.isArray(record.content)) return { role: 'assistant', content: record.content };
+  const choice = Array.isArray(record.choices) ? record.choices[0] : undefined;
+  if (isPlainRecord(choice) && isPlainRecord(choice.message)) return choice.message;
+  return null;
+}
+
 function buildChatPreviewSegments(
   payload: unknown,
-  fallbackRequest?: unknown
+  fallbackRequest?: unknown,
+  responseBody?: unknown
 ): ChatPreviewSegment[] {
   const basePayload = resolveChatPayload(payload, fallbackRequest);
   if (!basePayload) return [];
@@ -187,8 +249,11 @@ function buildChatPreviewSegments(
   if (tools && tools.length > 0) {
     tools.forEach((tool, toolIndex) => {
       const toolRecord = isPlainRecord(tool) ? tool : null;
+      // OpenAI Chat Completions nests the definition under `function`
+      const definition =
+        toolRecord && isPlainRecord(toolRecord.function) ? toolRecord.function : toolRecord;
       const name =
-        (toolRecord && typeof toolRecord.name === 'string' && toolRecord.name.trim()) ||
+        (definition && typeof definition.name === 'string' && definition.name.trim()) ||
         `Tool Definition ${toolIndex + 1}`;
       const subtitle =
         toolRecord && typeof toolRecord.type === 'string' ? toolRecord.type : undefined;
@@ -202,18 +267,20 @@ function buildChatPreviewSegments(
     });
   }
 
-  const messages = Array.isArray(basePayload.messages) ? basePayload.messages : null;
-  if (!messages) return segments;
-
-  messages.forEach((message, messageIndex) => {
+  const addMessage = (message: unknown, messageIndex: number, titleOverride?: string) => {
     if (!isPlainRecord(message)) return;
     const role =
       typeof message.role === 'string' && message.role.length > 0
         ? message.role
         : `message-${messageIndex}`;
-    const title = formatRoleLabel(role);
+    const title = titleOverride ?? formatRoleLabel(role);
     const variant = roleToVariant(role);
-    const subtitle = typeof message.name === 'string' ? message.name : undefined;
+    const subtitle =
+      typeof message.name === 'string'
+        ? message.name
+        : typeof message.tool_call_id === 'string'
+          ? `tool_call_id: ${message.tool_call_id}`
+          : undefined;
     const content = message.content;
 
     const pushTextSegment = (text: string) => {
@@ -221,6 +288,30 @@ function buildChatPreviewSegments(
       addSegment({ role, title, subtitle, body: text, variant });
     };
 
+    // OpenAI Chat Completions: assistant tool calls live next to the content
+    const pushToolCalls = () => {
+      if (!Array.isArray(message.tool_calls)) return;
+      message.tool_calls.forEach((call) => {
+        if (!isPlainRecord(call) || !isPlainRecord(call.function)) return;
+        const fn = call.function;
+        let input: unknown = fn.arguments ?? {};
+        if (typeof input === 'string') {
+          try {
+            input = JSON.parse(input) as unknown;
+          } catch {
+            // keep the raw arguments
+          }
+        }
+        addSegment({
+          role: 'tool',
+          title: typeof fn.name === 'string' ? `Tool Use · ${fn.name}` : 'Tool Use',
+          subtitle: typeof call.id === 'string' ? `tool_call_id: ${call.id}` : undefined,
+          body: formatToolPayload(input),
+          variant: 'tool-use',
+        });
+      });
+    };
+
     if (Array.isArray(content)) {
       let textBuffer: string[] = [];
       const flushBuffer = () => {
@@ -233,16 +324,21 @@ function buildChatPreviewSegments(
         if (isPlainRecord(entry)) {
           const type = typeof entry.type === 'string' ? entry.type : '';
           if ((type === 'text' || type === 'input_text') && typeof entry.text === 'string') {
-            textBuffer.push(entry.text);
+            const citations = formatCitations(entry.citations);
+            textBuffer.push(citations ? `${entry.text}\n\n${citations}` : entry.text);
             return;
           }
-          if (type === 'tool_use') {
+          const toolUseTitle = TOOL_USE_TITLES[type];
+          if (toolUseTitle) {
             flushBuffer();
             const toolSubtitle =
               typeof entry.id === 'string' ? `tool_use_id: ${entry.id}` : undefined;
+            const toolName = [entry.server_name, entry.name]
+              .filter((part): part is string => typeof part === 'string' && part.length > 0)
+              .join('/');
             addSegment({
               role: 'tool',
-              title: entry.name ? `Tool Use · ${entry.name}` : 'Tool Use',
+              title: toolName ? `${toolUseTitle} · ${toolName}` : toolUseTitle,
               subtitle: toolSubtitle,
               body: formatToolPayload(entry.input ?? {}),
               variant: 'tool-use',
@@ -264,6 +360,31 @@ function buildChatPreviewSegments(
             });
             return;
           }
+          if (type.endsWith('_tool_result')) {
+            // Server and MCP tool results (web search, code execution, ...)
+            flushBuffer();
+            addSegment({
+              role: 'tool',
+              title: `Tool Return · ${formatToolResultType(type)}`,
+              subtitle:
+                typeof entry.tool_use_id === 'string' ? `tool_use_id: ${entry.tool_use_id}` : undefined,
+              body: formatServerToolResult(entry.content),
+              variant: 'tool-return',
+            });
+            return;
+          }
+          if (type === 'redacted_thinking') {
+            flushBuffer();
+            const data = typeof entry.data === 'string' ? entry.data : '';
+            addSegment({
+              role,
+              title: `${title} · Redacted Thinking`,
+              subtitle,
+              body: `Thinking redacted by safety systems (${data.length} characters of encrypted data).`,
+              variant: 'thinking',
+            });
+            return;
+          }
           if (type === 'thinking') {
             flushBuffer();
             const thinkingEntry = entry as {
@@ -296,12 +417,22 @@ function buildChatPreviewSegments(
         textBuffer.push(prettifyJson(entry));
       });
       flushBuffer();
+      pushToolCalls();
       return;
     }
 
     const formatted = formatRichContent(content);
     pushTextSegment(formatted);
-  });
+    pushToolCalls();
+  };
+
+  const messages = Array.isArray(basePayload.messages) ? basePayload.messages : [];
+  messages.forEach((message, messageIndex) => addMessage(message, messageIndex));
+
+  const responseMessage = extractResponseMessage(responseBody);
+  if (responseMessage) {
+    addMessage(responseMessage, messages.length, 'Response');
+  }
 
   return segments;
 }
@@ -336,14 +467,14 @@ export default function DetailsPanel({
     [selectedTokenUsage?.system_totals]
   );
 
-  const selectedCustomBreakdowns = useMemo(
-    () => buildCustomBreakdowns(selectedTokenUsage?.custom),
-    [selectedTokenUsage?.custom]
-  );
-
   const chatPreviewSegments = useMemo(
-    () => buildChatPreviewSegments(selectedLog?.request.body, selectedLog?.request),
-    [selectedLog?.request.body, selectedLog?.request]
+    () =>
+      buildChatPreviewSegments(
+        selectedLog?.request.body,
+        selectedLog?.request,
+        selectedLog?.response?.body
+      ),
+    [selectedLog?.request.body, selectedLog?.request, selectedLog?.response?.body]
   );
 
   const activeAgentTag = selectedSummary?.agentTag ?? selectedLog?.agentTag ?? null;
@@ -368,22 +499,6 @@ export default function DetailsPanel({
 
   const hasChatPreview = chatPreviewSegments.length > 0;
 
-  const totalUsageTokens = useMemo(() => {
-    const totals = selectedTokenUsage?.system_totals;
-    if (!totals) return null;
-    const values: Array<number | null | undefined> = [
-      totals.inputTokens,
-      totals.outputTokens,
-      totals.cacheCreationInputTokens,
-      totals.cacheReadInputTokens,
-    ];
-    const numeric = values.filter(
-      (value): value is number => typeof value === 'number' && Number.isFinite(value)
-    );
-    if (numeric.length === 0) return null;
-    return numeric.reduce((acc, value) => acc + value, 0);
-  }, [selectedTokenUsage?.system_totals]);
-
   const hasStreamChunks = (selectedLog?.response?.streamChunks?.length ?? 0) > 0;
   const responseToggleAvailable = Boolean(selectedLog?.response);
 
@@ -468,100 +583,10 @@ export default function DetailsPanel({
                 />
               </button>
               {!isTokenSummaryCollapsed && (
-                <div className="token-summary__content">
-              <div className="token-summary__section token-summary__section--system">
-                <div className="token-summary__title">System Usage</div>
-                <div className="token-summary__chips">
-                  {selectedSystemChips.length > 0 ? (
-                    selectedSystemChips.map((chip) => (
-                      <span
-                        key={chip.key}
-                        className={`timeline-row__token-chip timeline-row__token-chip--${chip.key}`}
-                      >
-                        {chip.label} {chip.value}
-                      </span>
-                    ))
-                  ) : (
-                    <span className="token-summary__empty">Not reported by Anthropic</span>
-                  )}
-                </div>
-                <div className="token-summary__meta">
-                  Cache created {formatTokenCount(selectedTokenUsage.system_totals.cacheCreationInputTokens)} · Cache read{' '}
-                  {formatTokenCount(selectedTokenUsage.system_totals.cacheReadInputTokens)}
-                </div>
-                {totalUsageTokens !== null && (
-                  <div className="token-summary__total">
-                    Total (In + Out + Cache Created + Cache Read):{' '}
-                    <strong>{formatTokenCount(totalUsageTokens)}</strong>
-                  </div>
-                )}
-              </div>
-              <div className="token-summary__section token-summary__section--custom">
-                <div className="token-summary__title">
-                  Custom Counts
-                  {selectedTokenUsage.custom && (
-                    <span className="token-summary__subtitle"></span>
-                  )}
-                </div>
-                {selectedCustomBreakdowns ? (
-                  <div className="token-summary__io-container">
-                    <div className="token-summary__io-section">
-                      <div className="token-summary__io-header">
-                        <span className="token-summary__io-label">Input</span>
-                        <span className="token-summary__io-total">
-                          {formatTokenCount(selectedCustomBreakdowns.input.total)}
-                        </span>
-                      </div>
-                      <div className="token-summary__grid">
-                        {selectedCustomBreakdowns.input.rows.map((row) => (
-                          <div
-                            className={`token-summary__row token-summary__row--${row.variant}`}
-                            key={row.key}
-                          >
-                            <span className="token-summary__row-label">{row.label}</span>
-                            <span className="token-summary__row-value">{row.value}</span>
-                            <span className="token-summary__row-detail">{row.detail}</span>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                    <div className="token-summary__io-section">
-                      <div className="token-summary__io-header">
-                        <span className="token-summary__io-label">Output</span>
-                        <span className="token-summary__io-total">
-                          {formatTokenCount(selectedCustomBreakdowns.output.total)}
-                        </span>
-                      </div>
-                      <div className="token-summary__grid">
-                        {selectedCustomBreakdowns.output.rows.map((row) => (
-                          <div
-                            className={`token-summary__row token-summary__row--${row.variant}`}
-                            key={row.key}
-                          >
-                            <span className="token-summary__row-label">{row.label}</span>
-                            <span className="token-summary__row-value">{row.value}</span>
-                            <span className="token-summary__row-detail">{row.detail}</span>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                    {selectedTokenUsage.custom && (
-                      <div className="token-summary__row token-summary__row--total">
-                        <span className="token-summary__row-label">Total</span>
-                        <span className="token-summary__row-value">
-                          {formatTokenCount(selectedTokenUsage.custom.totalTokens)}
-                        </span>
-                        <span className="token-summary__row-detail">provider estimate</span>
-                      </div>
-                    )}
-                  </div>
-                ) : (
-                  <div className="token-summary__empty">
-                    Custom estimator did not run for this log.
-                  </div>
-                )}
-              </div>
-                </div>
+                <TokenSummarySection
+                  tokenUsage={selectedTokenUsage}
+                  cost={selectedLog.cost ?? selectedSummary?.cost ?? null}
+                />
               )}
             </div>
           )}
@@ -647,6 +672,12 @@ export default function DetailsPanel({
                         <dt>Has Body</dt>
                         <dd>{selectedLog.request.body ? 'Yes' : 'No'}</dd>
                       </div>
+                      {selectedLog.attempts && selectedLog.attempts.length > 0 && (
+                        <div className="detail-property">
+                          <dt>Upstream</dt>
+                          <dd>{selectedLog.attempts[selectedLog.attempts.length - 1]!.upstream}</dd>
+                        </div>
+                      )}
                     </dl>
                   </div>
                 </div>
@@ -681,10 +712,70 @@ export default function DetailsPanel({
                     </dl>
                   </div>
                 </div>
+                {selectedLog.attempts && selectedLog.attempts.length > 1 && (
+                  <div className="detail-card">
+                    <div className="detail-card__header">
+                      Upstream Attempts ({selectedLog.attempts.length})
+                    </div>
+                    <div className="detail-card__body">
+                      <ol className="attempt-list">
+                        {selectedLog.attempts.map((attempt) => (
+                          <li key={attempt.startedAtMs} className="attempt-list__item">
+                            <span className="attempt-list__upstream">{attempt.upstream}</span>
+                            <span>{attempt.status ?? 'no response'}</span>
+                            <span>{formatDuration(attempt.durationMs)}</span>
+                            {attempt.error && <span className="attempt-list__error">{attempt.error}</span>}
+                            {attempt.retryDelayMs !== undefined && (
+                              <span>retried after {formatDuration(attempt.retryDelayMs)}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  </div>
+                )}
+                {selectedLog.response?.streamWarnings && (
+                  <div className="detail-card">
+                    <div className="detail-card__header">
+                      Stream Warnings ({selectedLog.response.streamWarnings.length})
+                    </div>
+                    <div className="detail-card__body">
+                      <ul className="stream-warning-list">
+                        {selectedLog.response.streamWarnings.map((warning, index) => (
+                          <li key={index}>{warning}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                )}
+                {selectedLog.redactions && (
+                  <div className="detail-card">
+                    <div className="detail-card__header">
+                      Redactions ({selectedLog.redactions.total}, {selectedLog.redactions.mode})
+                    </div>
+                    <div className="detail-card__body">
+                      <ul className="redaction-list">
+                        {selectedLog.redactions.findings.map((finding) => (
+                          <li
+                            key={`${finding.detector}:${finding.location}`}
+                            className="redaction-list__item"
+                          >
+                            <span className="redaction-list__detector">{finding.detector}</span>
+                            <span className="redaction-list__location">{finding.location}</span>
+                            {finding.count > 1 && (
+                              <span className="redaction-list__count">×{finding.count}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
             {activeTab === 'request' && (
               <div className="detail-stack">
+                <RewriteDiff log={selectedLog} />
                 <div className="detail-card detail-card--collapsible">
                   <button
                     type="button"
@@ -748,6 +839,7 @@ export default function DetailsPanel({
                     </pre>
                   )}
                 </div>
+                <StreamPlayback log={selectedLog} />
                 <div className="detail-card detail-card--grow">
                   <div className="detail-card__header detail-card__header--with-toggle">
                     <span>Response Body</span>
@@ -799,6 +891,9 @@ export default function DetailsPanel({
                 </div>
               </div>
             )}
+            {activeTab === 'replay' && (
+              <ReplayPanel log={selectedLog} fileName={selectedSummary?.fileName ?? null} />
+            )}
             {activeTab === 'raw' && (
               <div className="detail-stack">
                 <div className="detail-card detail-card--grow">
@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import type { AgentCluster, AgentDiscoveryResult, AgentTagRuleDefinition } from '../../../shared/types';
+import { apiUrl } from '../utils/api';
+import { formatTimestamp } from '../utils/formatting';
+
+const VISIBLE_TOOLS = 8;
+
+interface DiscoveredAgentsProps {
+  /** Called after a cluster was saved as a tag rule */
+  onRuleSaved: (rule: AgentTagRuleDefinition) => void;
+}
+
+interface ClusterCardProps {
+  cluster: AgentCluster;
+  onRuleSaved: (rule: AgentTagRuleDefinition) => void;
+}
+
+function ClusterCard({ cluster, onRuleSaved }: ClusterCardProps) {
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedRule, setSavedRule] = useState<AgentTagRuleDefinition | null>(null);
+  const isUnknown = cluster.agentTagId === 'untagged';
+
+  const handleName = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(apiUrl(`/api/agent-tags/clusters/${encodeURIComponent(cluster.id)}/name`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: name }),
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(payload?.error ?? `Naming failed: ${response.statusText}`);
+      }
+      const rule = (await response.json()) as AgentTagRuleDefinition;
+      setSavedRule(rule);
+      onRuleSaved(rule);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <li className={`agent-cluster${isUnknown ? ' agent-cluster--unknown' : ''}`}>
+      <div className="agent-cluster__header">
+        <strong>{savedRule ? savedRule.label : cluster.label}</strong>
+        <span className="agent-cluster__meta">
+          {cluster.logCount} logs · {cluster.variantCount} prompt variants
+          {cluster.models.length > 0 && ` · ${cluster.models.join(', ')}`} · last seen{' '}
+          {formatTimestamp(cluster.lastSeen)}
+        </span>
+      </div>
+      {cluster.tools.length > 0 && (
+        <p className="agent-cluster__tools">
+          Tools: {cluster.tools.slice(0, VISIBLE_TOOLS).join(', ')}
+          {cluster.tools.length > VISIBLE_TOOLS && ` +${cluster.tools.length - VISIBLE_TOOLS} more`}
+        </p>
+      )}
+      {cluster.samplePrompts.map((prompt, index) => (
+        <details key={index} className="agent-cluster__prompt">
+          <summary>Sample prompt {index + 1}</summary>
+          <pre>{prompt}</pre>
+        </details>
+      ))}
+      {isUnknown && !savedRule && (
+        <div className="agent-cluster__name">
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Name this agent"
+          />
+          <button
+            type="button"
+            className="secondary-button"
+            onClick={handleName}
+            disabled={isSaving || !name.trim()}
+          >
+            {isSaving ? 'Saving…' : 'Save as Tag'}
+          </button>
+        </div>
+      )}
+      {savedRule && (
+        <p className="agent-cluster__meta">Saved as rule "{savedRule.id}"; matching logs are being re-tagged.</p>
+      )}
+      {error && <span className="error-text">{error}</span>}
+    </li>
+  );
+}
+
+/**
+ * Agent types discovered by clustering recent logs on their system prompt and tools.
+ */
+export default function DiscoveredAgents({ onRuleSaved }: DiscoveredAgentsProps) {
+  const [result, setResult] = useState<AgentDiscoveryResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function fetchClusters() {
+      try {
+        setIsLoading(true);
+        const response = await fetch(apiUrl('/api/agent-tags/clusters'));
+        if (!response.ok) {
+          throw new Error(`Failed to fetch discovered agents: ${response.statusText}`);
+        }
+        const payload = (await response.json()) as AgentDiscoveryResult;
+        if (!cancelled) {
+          setResult(payload);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Error fetching discovered agents:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+    fetchClusters();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadCount]);
+
+  return (
+    <section className="agent-clusters">
+      <div className="agent-tags-toolbar">
+        <h2>Discovered Agents</h2>
+        <div className="agent-tags-toolbar__actions">
+          <button
+            type="button"
+            className="secondary-button"
+            onClick={() => setReloadCount((count) => count + 1)}
+            disabled={isLoading}
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+      {isLoading && <div className="dashboard-loading">Clustering recent logs...</div>}
+      {error && (
+        <div className="dashboard-error">
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+      {!isLoading && !error && result && (
+        <>
+          <p className="agent-tags-toolbar__status">
+            {result.clusters.length} agent types across {result.scanned} recent logs
+          </p>
+          {result.clusters.length === 0 && <div className="dashboard-empty">No logs with a system prompt yet</div>}
+          <ul className="agent-tags-list">
+            {result.clusters.map((cluster) => (
+              <ClusterCard key={cluster.id} cluster={cluster} onRuleSaved={onRuleSaved} />
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+}
@@ -1,5 +1,5 @@
-import type { ChangeEvent } from 'react';
-import type { EndpointFilter, AgentFilter } from '../hooks';
+import type { ChangeEvent, FormEvent } from 'react';
+import type { EndpointFilter, AgentFilter, LabelFilter } from '../hooks';
 
 const MAX_FILTER_DAYS = 30;
 
@@ -14,14 +14,28 @@ interface FilterControlsProps {
   endpointFilter: EndpointFilter;
   agentFilter: AgentFilter;
   agentFilterOptions: Array<{ id: AgentFilter; label: string }>;
+  labelFilter: LabelFilter;
+  labelFilterOptions: Array<{ id: LabelFilter; label: string }>;
   logIdSearch: string;
+  contentSearch: string;
+  isSearching: boolean;
+  searchError: string | null;
+  /** Null until a content search has been run */
+  searchMatchCount: number | null;
+  visibleMatchCount: number;
+  activeMatchIndex: number;
   selectionActive: boolean;
   filteredFileNamesCount: number;
   isExporting: boolean;
   onTimeWindowChange: (event: ChangeEvent<HTMLInputElement>) => void;
   onEndpointFilterChange: (event: ChangeEvent<HTMLSelectElement>) => void;
   onAgentFilterChange: (event: ChangeEvent<HTMLSelectElement>) => void;
+  onLabelFilterChange: (event: ChangeEvent<HTMLSelectElement>) => void;
   onLogIdSearchChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  onContentSearchChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  onContentSearchSubmit: (event?: FormEvent) => void;
+  onClearContentSearch: () => void;
+  onGoToMatch: (direction: 1 | -1) => void;
   onClearTimeSelection: () => void;
   onExportFiltered: () => void;
 }
@@ -31,17 +45,43 @@ export default function FilterControls({
   endpointFilter,
   agentFilter,
   agentFilterOptions,
+  labelFilter,
+  labelFilterOptions,
   logIdSearch,
+  contentSearch,
+  isSearching,
+  searchError,
+  searchMatchCount,
+  visibleMatchCount,
+  activeMatchIndex,
   selectionActive,
   filteredFileNamesCount,
   isExporting,
   onTimeWindowChange,
   onEndpointFilterChange,
   onAgentFilterChange,
+  onLabelFilterChange,
   onLogIdSearchChange,
+  onContentSearchChange,
+  onContentSearchSubmit,
+  onClearContentSearch,
+  onGoToMatch,
   onClearTimeSelection,
   onExportFiltered,
 }: FilterControlsProps) {
+  let matchStatus: string | null = null;
+  if (searchError) {
+    matchStatus = searchError;
+  } else if (isSearching) {
+    matchStatus = 'Searching…';
+  } else if (searchMatchCount !== null) {
+    const position = activeMatchIndex >= 0 ? `${activeMatchIndex + 1} of ` : '';
+    const hidden = searchMatchCount - visibleMatchCount;
+    matchStatus = `${position}${visibleMatchCount} match${visibleMatchCount === 1 ? '' : 'es'}${
+      hidden > 0 ? ` (${hidden} hidden by filters)` : ''
+    }`;
+  }
+
   return (
     <div className="timeseries-controls">
       <div className="timeseries-controls__left">
@@ -76,6 +116,18 @@ export default function FilterControls({
             ))}
           </select>
         </label>
+        {labelFilterOptions.length > 1 && (
+          <label className="timeseries-controls__endpoint">
+            Label
+            <select value={labelFilter} onChange={onLabelFilterChange}>
+              {labelFilterOptions.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
         <label className="timeseries-controls__search">
           Log ID
           <input
@@ -85,6 +137,47 @@ export default function FilterControls({
             placeholder="Search..."
           />
         </label>
+        <form className="timeseries-controls__content-search" onSubmit={onContentSearchSubmit}>
+          <label className="timeseries-controls__search">
+            Content
+            <input
+              type="search"
+              value={contentSearch}
+              onChange={onContentSearchChange}
+              placeholder="Prompts, tools, errors…"
+            />
+          </label>
+          <button
+            type="button"
+            className="text-button"
+            onClick={() => onGoToMatch(-1)}
+            disabled={visibleMatchCount === 0}
+            aria-label="Previous match"
+          >
+            ‹
+          </button>
+          <button
+            type="button"
+            className="text-button"
+            onClick={() => onGoToMatch(1)}
+            disabled={visibleMatchCount === 0}
+            aria-label="Next match"
+          >
+            ›
+          </button>
+          {searchMatchCount !== null && (
+            <button type="button" className="text-button" onClick={onClearContentSearch}>
+              Clear
+            </button>
+          )}
+          {matchStatus && (
+            <span
+              className={`timeseries-controls__match-status${searchError ? ' error-text' : ''}`}
+            >
+              {matchStatus}
+            </span>
+          )}
+        </form>
         <button
           type="button"
           className="text-button"
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import type { InFlightInteraction } from '../../../shared/types';
+import { formatDuration, formatTimeOfDay, formatTimestamp, isPlainRecord } from '../utils/formatting';
+
+/** Characters of each streaming block shown in the running row */
+const BLOCK_TAIL_CHARS = 240;
+
+interface LiveBlock {
+  key: string;
+  label: string;
+  text: string;
+}
+
+function tail(value: string): string {
+  return value.length > BLOCK_TAIL_CHARS ? `…${value.slice(-BLOCK_TAIL_CHARS)}` : value;
+}
+
+/**
+ * Turn the partial assistant message into one line per content block.
+ */
+function buildLiveBlocks(partialResponse: unknown): LiveBlock[] {
+  if (!isPlainRecord(partialResponse) || !Array.isArray(partialResponse.content)) {
+    return [];
+  }
+  return partialResponse.content.flatMap((block, index): LiveBlock[] => {
+    if (!isPlainRecord(block)) {
+      return [];
+    }
+    const key = `${index}`;
+    if (block.type === 'text' && typeof block.text === 'string') {
+      return [{ key, label: 'Text', text: tail(block.text) }];
+    }
+    if (block.type === 'thinking' && typeof block.thinking === 'string') {
+      return [{ key, label: 'Thinking', text: tail(block.thinking) }];
+    }
+    if (block.type === 'tool_use') {
+      const name = typeof block.name === 'string' ? block.name : 'tool';
+      const input =
+        typeof block.input === 'string' ? block.input : JSON.stringify(block.input ?? {});
+      return [{ key, label: `Tool: ${name}`, text: tail(input) }];
+    }
+    return [];
+  });
+}
+
+interface InFlightListItemProps {
+  interaction: InFlightInteraction;
+}
+
+export default function InFlightListItem({ interaction }: InFlightListItemProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const blocks = buildLiveBlocks(interaction.partialResponse);
+  const elapsedLabel = formatDuration(Math.max(now - interaction.timestampMs, interaction.elapsedMs));
+
+  return (
+    <li className="timeline-row timeline-row--running">
+      <div className="timeline-row__content">
+        <div className="timeline-row__main">
+          <div className="timeline-row__model-line">
+            <div className="timeline-row__model">{interaction.model ?? 'Unknown model'}</div>
+            <span className="running-chip">
+              <span className="running-chip__dot" />
+              {interaction.streaming ? 'Streaming' : 'Waiting for upstream'}
+            </span>
+          </div>
+          {blocks.length > 0 && (
+            <div className="timeline-row__live-blocks">
+              {blocks.map((block) => (
+                <div key={block.key} className="timeline-row__live-block">
+                  <span className="timeline-row__live-label">{block.label}</span>
+                  <span className="timeline-row__live-text">{block.text}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+      <div className="timeline-row__footer">
+        <span className="timeline-row__footer-time" title={formatTimestamp(interaction.timestamp)}>
+          {formatTimeOfDay(interaction.timestamp)}
+        </span>
+        <span className="timeline-row__footer-duration">{elapsedLabel}</span>
+        <span className="timeline-row__footer-text">
+          {typeof interaction.status === 'number' ? String(interaction.status) : 'Running…'}
+        </span>
+      </div>
+    </li>
+  );
+}
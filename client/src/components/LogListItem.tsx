@@ -1,6 +1,14 @@
-import type { AgentTagInfo, LogSummary } from '../../../shared/types';
+import { useEffect, useRef } from 'react';
+import type {
+  AgentTagInfo,
+  BudgetAction,
+  FaultType,
+  LogSummary,
+  SearchField,
+  SearchResult,
+} from '../../../shared/types';
 import { ENDPOINT_STYLES, getEndpointCategory } from '../hooks';
-import { formatDuration, formatTimeOfDay, formatTimestamp } from '../utils/formatting';
+import { formatCost, formatDuration, formatTimeOfDay, formatTimestamp } from '../utils/formatting';
 import { buildTokenChips } from '../utils/tokenHelpers';
 
 const FALLBACK_AGENT_TAG: AgentTagInfo = {
@@ -14,8 +22,51 @@ const FALLBACK_AGENT_TAG: AgentTagInfo = {
   },
 };
 
+const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  system: 'System',
+  user: 'User',
+  assistant: 'Assistant',
+  thinking: 'Thinking',
+  tool_use: 'Tool call',
+  tool_result: 'Tool result',
+  output: 'Response',
+};
+
+const FAULT_LABELS: Record<FaultType, string> = {
+  latency: 'Latency',
+  rate_limit: '429',
+  overloaded: '529',
+  stream_cut: 'Stream cut',
+  malformed_sse: 'Malformed SSE',
+  slow_drip: 'Slow drip',
+};
+
+const BUDGET_LABELS: Record<BudgetAction, string> = {
+  block: 'Blocked',
+  downgrade: 'Downgraded',
+  warn: 'Over',
+};
+
+function renderHighlightedText(text: string, highlights: Array<[number, number]>) {
+  const parts = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], index) => {
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start));
+    }
+    parts.push(<mark key={index}>{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor));
+  }
+  return parts;
+}
+
 interface LogListItemProps {
   entry: LogSummary;
+  /** Present when this entry matched the current content search */
+  searchMatch?: SearchResult | undefined;
   isActive: boolean;
   isChecked: boolean;
   maxDuration: number;
@@ -25,6 +76,7 @@ interface LogListItemProps {
 
 export default function LogListItem({
   entry,
+  searchMatch,
   isActive,
   isChecked,
   maxDuration,
@@ -51,10 +103,22 @@ export default function LogListItem({
     ? 'timeline-row__footer-text timeline-row__footer-text--error'
     : 'timeline-row__footer-text';
   const agentChip = entry.agentTag ?? FALLBACK_AGENT_TAG;
+  const snippet = searchMatch?.snippets[0];
+  const rowRef = useRef<HTMLLIElement>(null);
+
+  // Bring search matches into view when they become the active row
+  useEffect(() => {
+    if (isActive && searchMatch) {
+      rowRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [isActive, searchMatch]);
 
   return (
     <li
-      className={`timeline-row${isActive ? ' timeline-row--active' : ''}`}
+      ref={rowRef}
+      className={`timeline-row${isActive ? ' timeline-row--active' : ''}${
+        searchMatch ? ' timeline-row--match' : ''
+      }${entry.fault ? ' timeline-row--fault' : ''}`}
       onClick={onClick}
       style={{
         backgroundColor: endpointTheme.cardBg,
@@ -86,6 +150,63 @@ export default function LogListItem({
             >
               {agentChip.label}
             </span>
+            {entry.replayOf && (
+              <span className="replay-chip" title={`Replay of ${entry.replayOf}`}>
+                Replay
+              </span>
+            )}
+            {entry.cassette?.playedFrom && (
+              <span
+                className="replay-chip replay-chip--cassette"
+                title={`Played from ${entry.cassette.playedFrom}`}
+              >
+                Cassette
+              </span>
+            )}
+            {entry.provider === 'openai' && (
+              <span className="fault-chip provider-chip" title="OpenAI-compatible Chat Completions">
+                OpenAI
+              </span>
+            )}
+            {entry.fault && (
+              <span
+                className="fault-chip"
+                title={`Injected fault (rule ${entry.fault.ruleId}): ${entry.fault.detail}`}
+              >
+                Fault: {FAULT_LABELS[entry.fault.type]}
+              </span>
+            )}
+            {entry.rewriteRuleIds && (
+              <span className="fault-chip rewrite-chip" title={`Rewritten by ${entry.rewriteRuleIds.join(', ')}`}>
+                Rewritten
+              </span>
+            )}
+            {(entry.attemptCount || (entry.upstream && entry.upstream !== 'default')) && (
+              <span
+                className="fault-chip upstream-chip"
+                title={`Answered by upstream ${entry.upstream}${
+                  entry.attemptCount ? ` after ${entry.attemptCount} attempts` : ''
+                }`}
+              >
+                {entry.upstream}
+                {entry.attemptCount ? ` ×${entry.attemptCount}` : ''}
+              </span>
+            )}
+            {entry.budget && (
+              <span
+                className="fault-chip budget-chip"
+                title={`Budget ${entry.budget.ruleId}${entry.budget.key === '*' ? '' : ` (${entry.budget.key})`} exceeded${
+                  entry.budget.model ? `; ${entry.budget.originalModel ?? 'request'} → ${entry.budget.model}` : ''
+                }`}
+              >
+                Budget: {BUDGET_LABELS[entry.budget.action]}
+              </span>
+            )}
+            {Object.entries(entry.labels ?? {}).map(([key, value]) => (
+              <span key={key} className="label-chip" title={`Label ${key}=${value}`}>
+                {key}: {value}
+              </span>
+            ))}
           </div>
           {tokenChips.length > 0 && (
             <div className="timeline-row__tokens">
@@ -97,6 +218,24 @@ export default function LogListItem({
                   {chip.label} {chip.value}
                 </span>
               ))}
+              {entry.cost && (
+                <span
+                  className="timeline-row__token-chip timeline-row__token-chip--cost"
+                  title={`Priced as ${entry.cost.pricingModel}`}
+                >
+                  {formatCost(entry.cost.costUsd)}
+                </span>
+              )}
+            </div>
+          )}
+          {snippet && (
+            <div className="timeline-row__snippet" title={`${searchMatch?.matchCount ?? 0} matches`}>
+              <span className="timeline-row__snippet-field">
+                {SEARCH_FIELD_LABELS[snippet.field]}
+              </span>
+              <span className="timeline-row__snippet-text">
+                {renderHighlightedText(snippet.text, snippet.highlights)}
+              </span>
             </div>
           )}
         </div>
@@ -0,0 +1,64 @@
+import { useEffect, useState, type ChangeEvent } from 'react';
+import type { ProjectInfo } from '../../../shared/types';
+import { DEFAULT_PROJECT, getActiveProject, setActiveProject } from '../utils/api';
+
+/**
+ * Select for the project whose logs the UI shows. Hidden while only the default
+ * project is configured.
+ */
+export default function ProjectSwitcher() {
+  const [projects, setProjects] = useState<ProjectInfo[]>([]);
+  const activeProject = getActiveProject();
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const response = await fetch('/api/projects');
+        if (!response.ok) {
+          return;
+        }
+        const data = (await response.json()) as { items: ProjectInfo[] };
+        if (cancelled) {
+          return;
+        }
+        setProjects(data.items);
+        // The stored project was removed from the projects file; fall back to the default.
+        if (!data.items.some((project) => project.name === activeProject)) {
+          setActiveProject(DEFAULT_PROJECT);
+          window.location.reload();
+        }
+      } catch {
+        // Without the list the switcher stays hidden; the active project keeps working.
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProject]);
+
+  const handleChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    setActiveProject(event.target.value);
+    // Every page and hook fetches from the active project, so start over from scratch.
+    window.location.reload();
+  };
+
+  if (projects.length < 2) {
+    return null;
+  }
+
+  return (
+    <label className="project-switcher">
+      Project
+      <select value={activeProject} onChange={handleChange}>
+        {projects.map((project) => (
+          <option key={project.name} value={project.name}>
+            {project.name}
+            {project.port !== null ? ` (:${project.port})` : ''}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
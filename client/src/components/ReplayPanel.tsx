@@ -0,0 +1,230 @@
+import { type FormEvent, useEffect, useMemo, useState } from 'react';
+import type { InteractionLog, ReplayOverrides, ReplayResult } from '../../../shared/types';
+import { apiUrl } from '../utils/api';
+import { diffLines } from '../utils/diff';
+import { formatDuration, isPlainRecord, prettifyJson } from '../utils/formatting';
+import { formatTokenCount } from '../utils/tokenHelpers';
+
+/**
+ * Render an assistant response as plain text for diffing: text as-is, thinking and
+ * tool calls under a bracketed label, anything else as JSON.
+ */
+function responseText(log: InteractionLog): string {
+  const body = log.response?.body;
+  if (log.response?.error) {
+    return `[error] ${log.response.error}`;
+  }
+  if (!isPlainRecord(body) || !Array.isArray(body.content)) {
+    return typeof body === 'string' ? body : prettifyJson(body);
+  }
+  return body.content
+    .map((block) => {
+      if (!isPlainRecord(block)) {
+        return prettifyJson(block);
+      }
+      if (block.type === 'text' && typeof block.text === 'string') {
+        return block.text;
+      }
+      if (block.type === 'thinking' && typeof block.thinking === 'string') {
+        return `[thinking]\n${block.thinking}`;
+      }
+      if (block.type === 'tool_use') {
+        return `[tool_use ${String(block.name ?? '')}]\n${prettifyJson(block.input)}`;
+      }
+      return prettifyJson(block);
+    })
+    .join('\n\n');
+}
+
+function requestModel(log: InteractionLog): string {
+  const body = log.request.body;
+  return isPlainRecord(body) && typeof body.model === 'string' ? body.model : 'Unknown model';
+}
+
+interface Comparison {
+  original: InteractionLog;
+  replay: InteractionLog;
+}
+
+interface ReplayPanelProps {
+  log: InteractionLog;
+  fileName: string | null;
+}
+
+/**
+ * Resend the selected interaction (optionally with overrides) and compare its output
+ * side by side with the original. For a log that is itself a replay, compares it with
+ * the interaction it replayed.
+ */
+export default function ReplayPanel({ log, fileName }: ReplayPanelProps) {
+  const [model, setModel] = useState('');
+  const [maxTokens, setMaxTokens] = useState('');
+  const [system, setSystem] = useState('');
+  const [tools, setTools] = useState('');
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+
+  useEffect(() => {
+    setComparison(null);
+    setError(null);
+    if (!log.replayOf) {
+      return;
+    }
+    let cancelled = false;
+    async function fetchOriginal(originalFileName: string) {
+      try {
+        const response = await fetch(apiUrl(`/api/logs/${encodeURIComponent(originalFileName)}`));
+        if (!response.ok) {
+          throw new Error(`Failed to load the original interaction: ${response.statusText}`);
+        }
+        const original = (await response.json()) as InteractionLog;
+        if (!cancelled) {
+          setComparison({ original, replay: log });
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      }
+    }
+    fetchOriginal(log.replayOf);
+    return () => {
+      cancelled = true;
+    };
+  }, [log]);
+
+  const rows = useMemo(
+    () =>
+      comparison ? diffLines(responseText(comparison.original), responseText(comparison.replay)) : [],
+    [comparison]
+  );
+  const changedRows = rows.filter((row) => row.kind !== 'same').length;
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!fileName) {
+      return;
+    }
+
+    const overrides: ReplayOverrides = {};
+    if (model.trim()) {
+      overrides.model = model.trim();
+    }
+    if (maxTokens.trim()) {
+      overrides.max_tokens = Number.parseInt(maxTokens, 10);
+    }
+    if (system.trim()) {
+      overrides.system = system;
+    }
+    if (tools.trim()) {
+      try {
+        overrides.tools = JSON.parse(tools) as unknown[];
+      } catch {
+        setError('Tools must be valid JSON.');
+        return;
+      }
+    }
+
+    setIsReplaying(true);
+    setError(null);
+    try {
+      const response = await fetch(apiUrl(`/api/logs/${encodeURIComponent(fileName)}/replay`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(overrides),
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(payload?.error ?? `Replay failed: ${response.statusText}`);
+      }
+      const result = (await response.json()) as ReplayResult;
+      setComparison({ original: log, replay: result.log });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
+  return (
+    <div className="detail-stack">
+      {!log.replayOf && (
+        <div className="detail-card">
+          <div className="detail-card__header">Replay Request</div>
+          <form className="replay-form" onSubmit={handleSubmit}>
+            <label className="replay-form__field">
+              <span>Model</span>
+              <input
+                type="text"
+                value={model}
+                placeholder={requestModel(log)}
+                onChange={(event) => setModel(event.target.value)}
+              />
+            </label>
+            <label className="replay-form__field">
+              <span>Max tokens</span>
+              <input
+                type="number"
+                min={1}
+                value={maxTokens}
+                placeholder="Original"
+                onChange={(event) => setMaxTokens(event.target.value)}
+              />
+            </label>
+            <label className="replay-form__field replay-form__field--wide">
+              <span>System prompt</span>
+              <textarea
+                rows={3}
+                value={system}
+                placeholder="Leave empty to keep the original system prompt"
+                onChange={(event) => setSystem(event.target.value)}
+              />
+            </label>
+            <label className="replay-form__field replay-form__field--wide">
+              <span>Tools (JSON array)</span>
+              <textarea
+                rows={3}
+                value={tools}
+                placeholder="Leave empty to keep the original tools"
+                onChange={(event) => setTools(event.target.value)}
+              />
+            </label>
+            <div className="replay-form__actions">
+              <button type="submit" className="secondary-button" disabled={isReplaying || !fileName}>
+                {isReplaying ? 'Replaying…' : 'Replay'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+      {error && <span className="error-text">{error}</span>}
+      {comparison && (
+        <div className="detail-card detail-card--grow">
+          <div className="detail-card__header">
+            Output Comparison · {changedRows === 0 ? 'identical' : `${changedRows} differing lines`}
+          </div>
+          <div className="replay-diff">
+            <div className="replay-diff__header">
+              {[comparison.original, comparison.replay].map((side, index) => (
+                <div key={side.id} className="replay-diff__meta">
+                  <strong>{index === 0 ? 'Original' : 'Replay'}</strong> · {requestModel(side)} ·{' '}
+                  {side.response?.status ?? '—'} · {formatDuration(side.durationMs)} · Out{' '}
+                  {formatTokenCount(side.tokenUsage.system_totals.outputTokens)}
+                </div>
+              ))}
+            </div>
+            <div className="replay-diff__rows">
+              {rows.map((row, index) => (
+                <div key={index} className={`replay-diff__row replay-diff__row--${row.kind}`}>
+                  <pre className="replay-diff__cell replay-diff__cell--left">{row.left ?? ''}</pre>
+                  <pre className="replay-diff__cell replay-diff__cell--right">{row.right ?? ''}</pre>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useMemo } from 'react';
+import type { InteractionLog } from '../../../shared/types';
+import { diffLines, type DiffRow } from '../utils/diff';
+import { prettifyJson } from '../utils/formatting';
+
+interface RewriteDiffProps {
+  log: InteractionLog;
+}
+
+function DiffRows({ title, rows }: { title: string; rows: DiffRow[] }) {
+  return (
+    <div className="replay-diff">
+      <div className="replay-diff__header">
+        <div className="replay-diff__meta">
+          <strong>{title}</strong> · sent by client
+        </div>
+        <div className="replay-diff__meta">
+          <strong>{title}</strong> · forwarded upstream
+        </div>
+      </div>
+      <div className="replay-diff__rows">
+        {rows.map((row, index) => (
+          <div key={index} className={`replay-diff__row replay-diff__row--${row.kind}`}>
+            <pre className="replay-diff__cell replay-diff__cell--left">{row.left ?? ''}</pre>
+            <pre className="replay-diff__cell replay-diff__cell--right">{row.right ?? ''}</pre>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Side-by-side diff of a request as the client sent it and as the rewrite rules
+ * (REWRITE_RULES_FILE) forwarded it. Headers are only shown when a rule changed them.
+ */
+export default function RewriteDiff({ log }: RewriteDiffProps) {
+  const rewrite = log.rewrite;
+  const bodyRows = useMemo(
+    () => (rewrite ? diffLines(prettifyJson(rewrite.originalBody), prettifyJson(log.request.body)) : []),
+    [rewrite, log.request.body]
+  );
+  const headerRows = useMemo(
+    () =>
+      rewrite?.originalHeaders
+        ? diffLines(prettifyJson(rewrite.originalHeaders), prettifyJson(log.request.headers))
+        : [],
+    [rewrite, log.request.headers]
+  );
+
+  if (!rewrite) {
+    return null;
+  }
+  const changedRows = [...bodyRows, ...headerRows].filter((row) => row.kind !== 'same').length;
+
+  return (
+    <div className="detail-card rewrite-diff">
+      <div className="detail-card__header">
+        Rewritten by {rewrite.ruleIds.join(', ')} · {changedRows} differing lines
+      </div>
+      {headerRows.length > 0 && <DiffRows title="Headers" rows={headerRows} />}
+      <DiffRows title="Body" rows={bodyRows} />
+    </div>
+  );
+}
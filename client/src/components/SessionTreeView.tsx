@@ -0,0 +1,95 @@
+import type { SessionThreadNode, SessionTree } from '../../../shared/types';
+import { formatCost, formatDuration, formatTimeOfDay } from '../utils/formatting';
+
+interface ThreadNodeViewProps {
+  node: SessionThreadNode;
+  selectedFileName: string | null;
+  onSelectLog: (fileName: string) => void;
+}
+
+function ThreadNodeView({ node, selectedFileName, onSelectLog }: ThreadNodeViewProps) {
+  const label = node.agentTag?.label ?? (node.depth === 0 ? 'Primary agent' : 'Subagent');
+  const firstLog = node.logs[0];
+  const spawnedAt = node.parentLogId && firstLog ? formatTimeOfDay(firstLog.timestamp) : null;
+
+  return (
+    <li className="session-thread">
+      <div className="session-thread__header">
+        <span
+          className="agent-chip"
+          style={
+            node.agentTag
+              ? {
+                  color: node.agentTag.theme.text,
+                  backgroundColor: node.agentTag.theme.background,
+                  borderColor: node.agentTag.theme.border,
+                }
+              : undefined
+          }
+        >
+          {label}
+        </span>
+        <span className="session-thread__meta">
+          {node.logs.length} request{node.logs.length === 1 ? '' : 's'}
+          {node.costUsd !== undefined && ` · ${formatCost(node.costUsd)}`}
+          {spawnedAt && ` · spawned ${spawnedAt}`}
+          {node.parentToolUseId && ` · via ${node.parentToolUseId}`}
+        </span>
+      </div>
+      <ol className="session-thread__logs">
+        {node.logs.map((log) => (
+          <li
+            key={log.fileName}
+            className={`session-log${log.fileName === selectedFileName ? ' session-log--active' : ''}`}
+            onClick={() => onSelectLog(log.fileName)}
+          >
+            <span className="session-log__time">{formatTimeOfDay(log.timestamp)}</span>
+            <span className="session-log__model">{log.model ?? 'Unknown model'}</span>
+            <span className="session-log__duration">{formatDuration(log.durationMs)}</span>
+            {log.cost && <span className="session-log__cost">{formatCost(log.cost.costUsd)}</span>}
+            {log.toolsUsed && log.toolsUsed.length > 0 && (
+              <span className="session-log__tools">{log.toolsUsed.join(', ')}</span>
+            )}
+          </li>
+        ))}
+      </ol>
+      {node.children.length > 0 && (
+        <ul className="session-thread__children">
+          {node.children.map((child) => (
+            <ThreadNodeView
+              key={child.threadId}
+              node={child}
+              selectedFileName={selectedFileName}
+              onSelectLog={onSelectLog}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+interface SessionTreeViewProps {
+  session: SessionTree;
+  selectedFileName: string | null;
+  onSelectLog: (fileName: string) => void;
+}
+
+/**
+ * Primary thread with its subagent threads nested under it, each listing its requests.
+ */
+export default function SessionTreeView({
+  session,
+  selectedFileName,
+  onSelectLog,
+}: SessionTreeViewProps) {
+  return (
+    <ul className="session-tree">
+      <ThreadNodeView
+        node={session.root}
+        selectedFileName={selectedFileName}
+        onSelectLog={onSelectLog}
+      />
+    </ul>
+  );
+}
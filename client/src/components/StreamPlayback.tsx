@@ -0,0 +1,185 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { InteractionLog } from '../../../shared/types';
+import { formatDuration, isPlainRecord } from '../utils/formatting';
+
+interface StreamPlaybackProps {
+  log: InteractionLog;
+}
+
+/** Playback advances this many ms of stream time per animation tick */
+const PLAYBACK_TICK_MS = 50;
+
+interface TimedFragment {
+  timeMs: number;
+  text: string;
+}
+
+/**
+ * Output text carried by one SSE data payload: text, thinking and tool input deltas
+ * (Anthropic), or content, reasoning and tool call arguments (OpenAI).
+ */
+function deltaText(payload: unknown): string {
+  if (!isPlainRecord(payload)) return '';
+  const delta = payload.delta;
+  if (isPlainRecord(delta)) {
+    for (const key of ['text', 'thinking', 'partial_json'] as const) {
+      if (typeof delta[key] === 'string') return delta[key];
+    }
+  }
+  const choice = Array.isArray(payload.choices) ? payload.choices[0] : undefined;
+  const choiceDelta = isPlainRecord(choice) ? choice.delta : undefined;
+  if (!isPlainRecord(choiceDelta)) return '';
+  let text = '';
+  for (const key of ['reasoning_content', 'content'] as const) {
+    if (typeof choiceDelta[key] === 'string') text += choiceDelta[key];
+  }
+  if (Array.isArray(choiceDelta.tool_calls)) {
+    for (const call of choiceDelta.tool_calls) {
+      const args = isPlainRecord(call) && isPlainRecord(call.function) ? call.function.arguments : undefined;
+      if (typeof args === 'string') text += args;
+    }
+  }
+  return text;
+}
+
+/**
+ * Split the recorded chunks into SSE events and keep the output text of each, stamped
+ * with the arrival time of the chunk that completed the event.
+ */
+function buildFragments(chunks: string[], timesMs: number[]): TimedFragment[] {
+  const fragments: TimedFragment[] = [];
+  let buffer = '';
+  chunks.forEach((chunk, index) => {
+    buffer += chunk;
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+    for (const event of events) {
+      for (const line of event.split('\n')) {
+        if (!line.startsWith('data:')) continue;
+        try {
+          const text = deltaText(JSON.parse(line.slice(5)));
+          if (text) fragments.push({ timeMs: timesMs[index] ?? 0, text });
+        } catch {
+          // [DONE] and other non-JSON data
+        }
+      }
+    }
+  });
+  return fragments;
+}
+
+/**
+ * Timing of a streamed response: when each content block was generated, plus a
+ * scrubber that replays the output text as it arrived. Shown for logs recorded with
+ * chunk times (`response.streamChunkTimesMs`).
+ */
+export default function StreamPlayback({ log }: StreamPlaybackProps) {
+  const timing = log.streamTiming;
+  const chunks = log.response?.streamChunks;
+  const timesMs = log.response?.streamChunkTimesMs;
+  const fragments = useMemo(
+    () => (chunks && timesMs ? buildFragments(chunks, timesMs) : []),
+    [chunks, timesMs]
+  );
+  const [positionMs, setPositionMs] = useState(timing?.lastChunkMs ?? 0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    setPositionMs(timing?.lastChunkMs ?? 0);
+    setIsPlaying(false);
+  }, [log.id, timing?.lastChunkMs]);
+
+  useEffect(() => {
+    if (!isPlaying || !timing) return;
+    const timer = setInterval(() => {
+      setPositionMs((previous) => {
+        const next = previous + PLAYBACK_TICK_MS;
+        if (next >= timing.lastChunkMs) {
+          setIsPlaying(false);
+          return timing.lastChunkMs;
+        }
+        return next;
+      });
+    }, PLAYBACK_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, timing]);
+
+  if (!timing || timing.lastChunkMs <= 0) {
+    return null;
+  }
+
+  const totalMs = timing.lastChunkMs;
+  const percent = (ms: number) => `${Math.min(100, (ms / totalMs) * 100)}%`;
+  const playedText = fragments
+    .filter((fragment) => fragment.timeMs <= positionMs)
+    .map((fragment) => fragment.text)
+    .join('');
+
+  const togglePlayback = () => {
+    if (!isPlaying && positionMs >= totalMs) {
+      setPositionMs(0);
+    }
+    setIsPlaying((previous) => !previous);
+  };
+
+  return (
+    <div className="detail-card stream-playback">
+      <div className="detail-card__header">
+        Stream Timing · first token {formatDuration(timing.ttftMs)} · total {formatDuration(totalMs)}
+        {timing.outputTokensPerSecond !== undefined && ` · ${timing.outputTokensPerSecond} tokens/s`}
+      </div>
+      <div className="detail-card__body">
+        <div className="stream-playback__lanes">
+          <div className="stream-playback__lane">
+            <span className="stream-playback__lane-label">waiting</span>
+            <div className="stream-playback__track">
+              <div
+                className="stream-playback__bar stream-playback__bar--waiting"
+                style={{ width: percent(timing.ttftMs ?? timing.firstChunkMs) }}
+              />
+              <div className="stream-playback__cursor" style={{ left: percent(positionMs) }} />
+            </div>
+          </div>
+          {timing.blocks.map((block) => (
+            <div key={`${block.index}:${block.startMs}`} className="stream-playback__lane">
+              <span className="stream-playback__lane-label">{block.type}</span>
+              <div className="stream-playback__track">
+                <div
+                  className={`stream-playback__bar stream-playback__bar--${block.type}`}
+                  style={{
+                    left: percent(block.startMs),
+                    width: percent(Math.max(block.endMs - block.startMs, totalMs / 200)),
+                  }}
+                  title={`${formatDuration(block.startMs)} – ${formatDuration(block.endMs)}`}
+                />
+                <div className="stream-playback__cursor" style={{ left: percent(positionMs) }} />
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="stream-playback__controls">
+          <button type="button" className="secondary-button" onClick={togglePlayback}>
+            {isPlaying ? 'Pause' : 'Play'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={totalMs}
+            value={positionMs}
+            onChange={(event) => {
+              setIsPlaying(false);
+              setPositionMs(Number(event.target.value));
+            }}
+            aria-label="Stream position"
+          />
+          <span className="stream-playback__position">
+            {formatDuration(positionMs)} / {formatDuration(totalMs)}
+          </span>
+        </div>
+        <pre className="details-code details-code--light stream-playback__output">
+          {playedText || 'No output yet.'}
+        </pre>
+      </div>
+    </div>
+  );
+}
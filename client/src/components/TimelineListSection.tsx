@@ -1,5 +1,6 @@
-import type { LogSummary } from '../../../shared/types';
-import { formatRelativeDate } from '../utils/formatting';
+import type { InFlightInteraction, LogSummary, SearchResult } from '../../../shared/types';
+import { formatCost, formatRelativeDate } from '../utils/formatting';
+import InFlightListItem from './InFlightListItem';
 import LogListItem from './LogListItem';
 
 type GroupedLogs = Array<{
@@ -39,8 +40,10 @@ function groupLogs(items: LogSummary[]): GroupedLogs {
 
 interface TimelineListSectionProps {
   filteredLogs: LogSummary[];
+  inFlight: InFlightInteraction[];
   selectedFileName: string | null;
   selectedFiles: Set<string>;
+  searchMatches: Map<string, SearchResult> | null;
   hasSelection: boolean;
   selectedCount: number;
   isDeleting: boolean;
@@ -59,8 +62,10 @@ interface TimelineListSectionProps {
 
 export default function TimelineListSection({
   filteredLogs,
+  inFlight,
   selectedFileName,
   selectedFiles,
+  searchMatches,
   hasSelection,
   selectedCount,
   isDeleting,
@@ -77,6 +82,8 @@ export default function TimelineListSection({
   onDeleteSelected,
 }: TimelineListSectionProps) {
   const groupedLogs = groupLogs(filteredLogs);
+  const pricedLogs = filteredLogs.filter((entry) => entry.cost);
+  const totalCostUsd = pricedLogs.reduce((sum, entry) => sum + (entry.cost?.costUsd ?? 0), 0);
 
   return (
     <section className="timeline-panel">
@@ -92,6 +99,14 @@ export default function TimelineListSection({
             {isDeleting ? 'Deleting…' : 'Delete Selected'}
           </button>
           <span className="timeline-selection-count">{selectedCount} selected</span>
+          {pricedLogs.length > 0 && (
+            <span
+              className="timeline-cost-total"
+              title={`Cost of ${pricedLogs.length} priced interactions in view`}
+            >
+              {formatCost(totalCostUsd)}
+            </span>
+          )}
         </div>
         <div className="timeline-toolbar__right">
           <button
@@ -120,6 +135,16 @@ export default function TimelineListSection({
         </div>
       )}
       <div className="timeline-groups">
+        {inFlight.length > 0 && (
+          <div className="timeline-group">
+            <div className="timeline-group__label">Running</div>
+            <ul className="timeline-group__list">
+              {inFlight.map((interaction) => (
+                <InFlightListItem key={interaction.id} interaction={interaction} />
+              ))}
+            </ul>
+          </div>
+        )}
         {groupedLogs.map((group) => (
           <div className="timeline-group" key={group.key}>
             <div className="timeline-group__label">{group.label}</div>
@@ -128,6 +153,7 @@ export default function TimelineListSection({
                 <LogListItem
                   key={entry.fileName}
                   entry={entry}
+                  searchMatch={searchMatches?.get(entry.fileName)}
                   isActive={entry.fileName === selectedFileName}
                   isChecked={selectedFiles.has(entry.fileName)}
                   maxDuration={maxDuration}
@@ -138,7 +164,7 @@ export default function TimelineListSection({
             </ul>
           </div>
         ))}
-        {groupedLogs.length === 0 && (hasFirstPageLoaded || !isLoading) && (
+        {groupedLogs.length === 0 && inFlight.length === 0 && (hasFirstPageLoaded || !isLoading) && (
           <div className="empty-state">No interactions captured yet.</div>
         )}
       </div>
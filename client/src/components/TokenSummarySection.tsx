@@ -1,4 +1,5 @@
-import type { TokenUsageSummary } from '../../../shared/types';
+import type { CostInfo, TokenUsageSummary } from '../../../shared/types';
+import { formatCost } from '../utils/formatting';
 import {
   formatTokenCount,
   buildTokenChips,
@@ -9,10 +10,12 @@ import {
 
 interface TokenSummarySectionProps {
   tokenUsage: TokenUsageSummary;
+  cost?: CostInfo | null;
 }
 
 export default function TokenSummarySection({
   tokenUsage,
+  cost,
 }: TokenSummarySectionProps) {
   const systemChips = buildTokenChips(tokenUsage.system_totals);
   const customBreakdowns = buildCustomBreakdowns(tokenUsage.custom);
@@ -31,7 +34,7 @@ export default function TokenSummarySection({
   const totalUsageTokens = numeric.length === 0 ? null : numeric.reduce((acc, value) => acc + value, 0);
 
   return (
-    <div className="token-summary">
+    <div className="token-summary__content">
       <div className="token-summary__section token-summary__section--system">
         <div className="token-summary__title">System Usage</div>
         <div className="token-summary__chips">
@@ -110,7 +113,9 @@ export default function TokenSummarySection({
                 <span className="token-summary__row-value">
                   {formatTokenCount(tokenUsage.custom.totalTokens)}
                 </span>
-                <span className="token-summary__row-detail">provider estimate</span>
+                <span className="token-summary__row-detail">
+                  {tokenUsage.custom.provider} · {tokenUsage.custom.methodology}
+                </span>
               </div>
             )}
           </div>
@@ -118,6 +123,45 @@ export default function TokenSummarySection({
           <div className="token-summary__empty">Custom estimator did not run for this log.</div>
         )}
       </div>
+      <div className="token-summary__section token-summary__section--cost">
+        <div className="token-summary__title">Cost</div>
+        {cost ? (
+          <>
+            <div className="token-summary__grid">
+              <div className="token-summary__row">
+                <span className="token-summary__row-label">Input</span>
+                <span className="token-summary__row-value">{formatCost(cost.breakdown.inputUsd)}</span>
+                <span className="token-summary__row-detail">${cost.rates.input} / MTok</span>
+              </div>
+              <div className="token-summary__row">
+                <span className="token-summary__row-label">Output</span>
+                <span className="token-summary__row-value">{formatCost(cost.breakdown.outputUsd)}</span>
+                <span className="token-summary__row-detail">${cost.rates.output} / MTok</span>
+              </div>
+              <div className="token-summary__row">
+                <span className="token-summary__row-label">Cache write</span>
+                <span className="token-summary__row-value">
+                  {formatCost(cost.breakdown.cacheWriteUsd)}
+                </span>
+                <span className="token-summary__row-detail">${cost.rates.cacheWrite} / MTok</span>
+              </div>
+              <div className="token-summary__row">
+                <span className="token-summary__row-label">Cache read</span>
+                <span className="token-summary__row-value">
+                  {formatCost(cost.breakdown.cacheReadUsd)}
+                </span>
+                <span className="token-summary__row-detail">${cost.rates.cacheRead} / MTok</span>
+              </div>
+            </div>
+            <div className="token-summary__total">
+              Total: <strong>{formatCost(cost.costUsd)}</strong>
+              <span className="token-summary__subtitle"> priced as {cost.pricingModel}</span>
+            </div>
+          </>
+        ) : (
+          <span className="token-summary__empty">No pricing for this interaction</span>
+        )}
+      </div>
     </div>
   );
 }
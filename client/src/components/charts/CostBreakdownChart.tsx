@@ -0,0 +1,149 @@
+/**
+ * CostBreakdownChart
+ *
+ * Horizontal bar chart of dollar cost grouped by agent tag, model, tool, client
+ * credential or any client-supplied label (x-snoopty-* headers). Agent, model,
+ * credential and label totals sum the per-log cost; tool totals price each tool's
+ * returned tokens at the input rate of the request that carried them.
+ */
+
+import { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { ToolUsageRow, UniqueToolCall } from '../../../../shared/types';
+import { formatCost } from '../../utils/formatting';
+
+/** Built-in dimensions, or `label:<key>` for a label key */
+type CostDimension = 'agent' | 'model' | 'tool' | 'credential' | `label:${string}`;
+
+const LABEL_DIMENSION_PREFIX = 'label:';
+
+const BASE_DIMENSIONS: Array<{ id: CostDimension; label: string }> = [
+  { id: 'agent', label: 'Agent' },
+  { id: 'model', label: 'Model' },
+  { id: 'tool', label: 'Tool' },
+  { id: 'credential', label: 'Credential' },
+];
+
+const BAR_COLOR = '#22c55e';
+
+interface CostBreakdownChartProps {
+  usage: ToolUsageRow[];
+  toolCalls: UniqueToolCall[];
+}
+
+interface ChartDataItem {
+  name: string;
+  costUsd: number;
+  count: number;
+}
+
+function usageGroupKey(row: ToolUsageRow, dimension: CostDimension): string {
+  if (dimension === 'agent') {
+    return row.agentTag ?? 'Untagged';
+  }
+  if (dimension === 'model') {
+    return row.model ?? 'Unknown model';
+  }
+  if (dimension === 'credential') {
+    return row.credential ?? 'No credential';
+  }
+  return row.labels?.[dimension.slice(LABEL_DIMENSION_PREFIX.length)] ?? 'Unlabeled';
+}
+
+function groupCosts<T>(
+  rows: T[],
+  keyOf: (row: T) => string,
+  costOf: (row: T) => number | undefined
+): ChartDataItem[] {
+  const totals = new Map<string, ChartDataItem>();
+  for (const row of rows) {
+    const cost = costOf(row);
+    if (cost === undefined) {
+      continue;
+    }
+    const name = keyOf(row);
+    const existing = totals.get(name) ?? { name, costUsd: 0, count: 0 };
+    existing.costUsd += cost;
+    existing.count += 1;
+    totals.set(name, existing);
+  }
+  return Array.from(totals.values()).sort((a, b) => b.costUsd - a.costUsd);
+}
+
+const CustomTooltip = (props: any) => {
+  const { active, payload } = props;
+
+  if (!active || !payload || !payload.length) {
+    return null;
+  }
+
+  const data = payload[0].payload as ChartDataItem;
+
+  return (
+    <div style={{
+      backgroundColor: 'rgba(255, 255, 255, 0.95)',
+      border: '1px solid #ccc',
+      borderRadius: '4px',
+      padding: '12px',
+      boxShadow: '0 2px 8px rgba(0,0,0,0.15)'
+    }}>
+      <p style={{ margin: '0 0 8px 0', fontWeight: 'bold', fontSize: '14px' }}>{data.name}</p>
+      <p style={{ margin: '4px 0', fontSize: '13px' }}>Cost: {formatCost(data.costUsd)}</p>
+      <p style={{ margin: '4px 0', fontSize: '13px', color: '#666' }}>Priced items: {data.count}</p>
+    </div>
+  );
+};
+
+export default function CostBreakdownChart({ usage, toolCalls }: CostBreakdownChartProps) {
+  const [dimension, setDimension] = useState<CostDimension>('agent');
+
+  const labelKeys = Array.from(new Set(usage.flatMap((row) => Object.keys(row.labels ?? {})))).sort();
+  const dimensions: Array<{ id: CostDimension; label: string }> = [
+    ...BASE_DIMENSIONS,
+    ...labelKeys.map((key) => ({ id: `${LABEL_DIMENSION_PREFIX}${key}` as CostDimension, label: key })),
+  ];
+
+  const chartData =
+    dimension === 'tool'
+      ? groupCosts(toolCalls, (call) => call.toolName, (call) => call.returnCostUsd)
+      : groupCosts(usage, (row) => usageGroupKey(row, dimension), (row) => row.costUsd);
+  const total = chartData.reduce((sum, item) => sum + item.costUsd, 0);
+
+  return (
+    <div className="chart-container">
+      <div className="cost-chart__header">
+        <h3>Cost by {dimensions.find((item) => item.id === dimension)?.label} ({formatCost(total)})</h3>
+        <div className="cost-chart__toggle">
+          {dimensions.map((item) => (
+            <button
+              key={item.id}
+              type="button"
+              className={`cost-chart__toggle-button${
+                item.id === dimension ? ' cost-chart__toggle-button--active' : ''
+              }`}
+              onClick={() => setDimension(item.id)}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {dimension === 'tool' && (
+        <p className="cost-chart__note">Tool returns priced at the input rate of the request that carried them.</p>
+      )}
+      {chartData.length === 0 ? (
+        <div className="chart-empty">No priced interactions</div>
+      ) : (
+        <ResponsiveContainer width="100%" height={Math.max(160, chartData.length * 36 + 40)}>
+          <BarChart data={chartData} layout="vertical" margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" tickFormatter={(value: number) => formatCost(value)} />
+            <YAxis type="category" dataKey="name" width={200} />
+            <Tooltip content={<CustomTooltip />} />
+            <Bar dataKey="costUsd" fill={BAR_COLOR} name="Cost (USD)" />
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+/**
+ * LatencyBreakdownChart
+ *
+ * Stacked horizontal bars of the average latency of streamed responses per model:
+ * waiting for the first chunk, from the first chunk to the first token, and generating
+ * the rest. Only logs recorded with chunk times (see StreamTiming) are included.
+ */
+
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { ToolUsageRow } from '../../../../shared/types';
+import { formatDuration } from '../../utils/formatting';
+
+const SEGMENTS = [
+  { key: 'firstChunkMs', label: 'Until first chunk', color: '#94a3b8' },
+  { key: 'firstTokenMs', label: 'First chunk to first token', color: '#f59e0b' },
+  { key: 'generationMs', label: 'Generation', color: '#6366f1' },
+] as const;
+
+interface LatencyBreakdownChartProps {
+  usage: ToolUsageRow[];
+}
+
+interface ChartDataItem {
+  name: string;
+  count: number;
+  firstChunkMs: number;
+  firstTokenMs: number;
+  generationMs: number;
+  /** Averaged over the streams that reported output tokens */
+  outputTokensPerSecond: number | null;
+}
+
+function averageByModel(usage: ToolUsageRow[]): ChartDataItem[] {
+  const groups = new Map<string, { rows: number; sums: number[]; rates: number[] }>();
+  for (const row of usage) {
+    const timing = row.streamTiming;
+    if (!timing) {
+      continue;
+    }
+    const ttftMs = timing.ttftMs ?? timing.lastChunkMs;
+    const name = row.model ?? 'Unknown model';
+    const group = groups.get(name) ?? { rows: 0, sums: [0, 0, 0], rates: [] };
+    group.rows += 1;
+    group.sums[0]! += timing.firstChunkMs;
+    group.sums[1]! += ttftMs - timing.firstChunkMs;
+    group.sums[2]! += timing.lastChunkMs - ttftMs;
+    if (timing.outputTokensPerSecond !== undefined) {
+      group.rates.push(timing.outputTokensPerSecond);
+    }
+    groups.set(name, group);
+  }
+
+  return Array.from(groups.entries())
+    .map(([name, group]) => ({
+      name,
+      count: group.rows,
+      firstChunkMs: group.sums[0]! / group.rows,
+      firstTokenMs: group.sums[1]! / group.rows,
+      generationMs: group.sums[2]! / group.rows,
+      outputTokensPerSecond:
+        group.rates.length > 0 ? group.rates.reduce((sum, rate) => sum + rate, 0) / group.rates.length : null,
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+const CustomTooltip = (props: any) => {
+  const { active, payload } = props;
+
+  if (!active || !payload || !payload.length) {
+    return null;
+  }
+
+  const data = payload[0].payload as ChartDataItem;
+
+  return (
+    <div style={{
+      backgroundColor: 'rgba(255, 255, 255, 0.95)',
+      border: '1px solid #ccc',
+      borderRadius: '4px',
+      padding: '12px',
+      boxShadow: '0 2px 8px rgba(0,0,0,0.15)'
+    }}>
+      <p style={{ margin: '0 0 8px 0', fontWeight: 'bold', fontSize: '14px' }}>{data.name}</p>
+      {SEGMENTS.map((segment) => (
+        <p key={segment.key} style={{ margin: '4px 0', fontSize: '13px' }}>
+          {segment.label}: {formatDuration(data[segment.key])}
+        </p>
+      ))}
+      <p style={{ margin: '4px 0', fontSize: '13px' }}>
+        Time to first token: {formatDuration(data.firstChunkMs + data.firstTokenMs)}
+      </p>
+      {data.outputTokensPerSecond !== null && (
+        <p style={{ margin: '4px 0', fontSize: '13px' }}>
+          Output: {data.outputTokensPerSecond.toFixed(1)} tokens/s
+        </p>
+      )}
+      <p style={{ margin: '4px 0', fontSize: '13px', color: '#666' }}>Streams: {data.count}</p>
+    </div>
+  );
+};
+
+export default function LatencyBreakdownChart({ usage }: LatencyBreakdownChartProps) {
+  const chartData = averageByModel(usage);
+
+  return (
+    <div className="chart-container">
+      <h3>Streaming Latency by Model (average)</h3>
+      {chartData.length === 0 ? (
+        <div className="chart-empty">No streamed responses with chunk timing</div>
+      ) : (
+        <ResponsiveContainer width="100%" height={Math.max(180, chartData.length * 36 + 80)}>
+          <BarChart data={chartData} layout="vertical" margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" tickFormatter={(value: number) => formatDuration(value)} />
+            <YAxis type="category" dataKey="name" width={200} />
+            <Tooltip content={<CustomTooltip />} />
+            <Legend />
+            {SEGMENTS.map((segment) => (
+              <Bar
+                key={segment.key}
+                dataKey={segment.key}
+                stackId="latency"
+                fill={segment.color}
+                name={segment.label}
+              />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+}
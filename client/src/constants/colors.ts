@@ -37,7 +37,7 @@ export const TOOL_TYPE_COLORS = {
 
 // ============================================================================
 // Agent Tag Colors (used in TokenBreakdownChart scatter plot)
-// These colors match the backend AgentTagAnalyzer.ts TAG_RULES themes
+// These colors match the built-in rule themes in the backend agentTagRules.ts
 // ============================================================================
 export const AGENT_TAG_COLORS: Record<string, string> = {
   'Topic Labeler': '#a855f7',           // Bright purple
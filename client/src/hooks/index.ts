@@ -1,16 +1,29 @@
-export { useLogData, type LogWithTime, type UseLogDataReturn } from './useLogData';
+export {
+  useLogData,
+  type LogWithTime,
+  type UseLogDataParams,
+  type UseLogDataReturn,
+} from './useLogData';
 export {
   useLogFiltering,
   type UseLogFilteringParams,
   type UseLogFilteringReturn,
   type EndpointFilter,
   type AgentFilter,
+  type LabelFilter,
   type EndpointCategory,
   type BrushPoint,
   ENDPOINT_FILTER_OPTIONS,
   ENDPOINT_STYLES,
   getEndpointCategory,
+  loadStoredEndpointFilter,
+  loadStoredTimeWindowDays,
 } from './useLogFiltering';
+export {
+  useLogSearch,
+  type UseLogSearchParams,
+  type UseLogSearchReturn,
+} from './useLogSearch';
 export {
   useLogSelection,
   type UseLogSelectionParams,
@@ -1,5 +1,11 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
-import type { LogSummary } from '../../../shared/types';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type {
+  InFlightInteraction,
+  LogStreamEvent,
+  LogSummary,
+  MetricsFilters,
+} from '../../../shared/types';
+import { apiUrl } from '../utils/api';
 
 export interface LogWithTime extends LogSummary {
   timestampMs: number;
@@ -26,7 +32,7 @@ function areLogsEqual(a: LogSummary[], b: LogSummary[]): boolean {
 // Constants
 // =============================================================================
 
-/** How often to poll for new logs (in milliseconds) */
+/** How often to poll for new logs while the live stream is unavailable (in milliseconds) */
 const DEFAULT_POLL_INTERVAL_MS = 10000;
 
 /** Number of milliseconds in a day */
@@ -35,29 +41,123 @@ const MILLIS_PER_DAY = 24 * 60 * 60 * 1000;
 /** Number of logs to fetch */
 const FETCH_LIMIT = 1000;
 
+/**
+ * Serialize server-side filters into query parameters understood by `/api/logs`
+ * and `/api/logs/search`.
+ */
+export function appendFilterParams(params: URLSearchParams, filters: MetricsFilters | undefined): void {
+  if (filters) {
+    for (const [key, value] of Object.entries(filters)) {
+      if (value === undefined || value === null) {
+        continue;
+      }
+      if (Array.isArray(value)) {
+        if (value.length > 0) {
+          params.set(key, value.join(','));
+        }
+        continue;
+      }
+      params.set(key, String(value));
+    }
+  }
+}
+
+function buildLogQuery(filters: MetricsFilters | undefined): string {
+  const params = new URLSearchParams({ limit: String(FETCH_LIMIT) });
+  appendFilterParams(params, filters);
+  return params.toString();
+}
+
+function buildStreamQuery(filters: MetricsFilters | undefined): string {
+  const params = new URLSearchParams();
+  appendFilterParams(params, filters);
+  return params.toString();
+}
+
+/**
+ * Fold one `/api/logs/stream` event into the current list. Returns `prev` untouched
+ * when the event doesn't affect any held row so React can skip the re-render.
+ */
+function applyLogStreamEvent(prev: LogSummary[], event: LogStreamEvent): LogSummary[] {
+  switch (event.type) {
+    case 'created': {
+      const existingIndex = prev.findIndex((entry) => entry.fileName === event.summary.fileName);
+      if (existingIndex !== -1) {
+        const next = prev.slice();
+        next[existingIndex] = event.summary;
+        return next;
+      }
+      return [event.summary, ...prev].slice(0, FETCH_LIMIT);
+    }
+    case 'patch': {
+      const index = prev.findIndex((entry) => entry.fileName === event.fileName);
+      const existing = prev[index];
+      if (!existing) {
+        return prev;
+      }
+      const next = prev.slice();
+      next[index] = { ...existing, ...event.patch };
+      return next;
+    }
+    case 'deleted': {
+      const removed = new Set(event.fileNames);
+      const next = prev.filter((entry) => !removed.has(entry.fileName));
+      return next.length === prev.length ? prev : next;
+    }
+    default:
+      return prev;
+  }
+}
+
+function applyInFlightEvent(
+  prev: InFlightInteraction[],
+  event: LogStreamEvent
+): InFlightInteraction[] {
+  if (event.type === 'inflight') {
+    const others = prev.filter((item) => item.id !== event.interaction.id);
+    return [event.interaction, ...others].sort((a, b) => b.timestampMs - a.timestampMs);
+  }
+  if (event.type === 'inflight_end') {
+    const next = prev.filter((item) => item.id !== event.id);
+    return next.length === prev.length ? prev : next;
+  }
+  return prev;
+}
+
 // =============================================================================
 // Hook
 // =============================================================================
 
+export interface UseLogDataParams {
+  /** Filters applied by the server before the page is returned */
+  filters?: MetricsFilters;
+}
+
 export interface UseLogDataReturn {
   logs: LogSummary[];
+  /** Requests the proxy is still working on, newest first */
+  inFlight: InFlightInteraction[];
   logsWithTime: LogWithTime[];
   earliestTimestampMs: number;
   latestTimestampMs: number;
   listError: string | null;
   isLoading: boolean;
   hasFirstPageLoaded: boolean;
+  /** True while the `/api/logs/stream` feed is connected; polling is paused meanwhile */
+  isLive: boolean;
   isRecomputing: boolean;
   recomputeMessage: string | null;
   fetchLogs: (options?: { background?: boolean }) => Promise<void>;
   handleRecompute: () => Promise<void>;
 }
 
-export function useLogData(): UseLogDataReturn {
+export function useLogData({ filters }: UseLogDataParams = {}): UseLogDataReturn {
   const [logs, setLogs] = useState<LogSummary[]>([]);
+  const [inFlight, setInFlight] = useState<InFlightInteraction[]>([]);
   const [listError, setListError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [hasFirstPageLoaded, setHasFirstPageLoaded] = useState(false);
+  const [isLive, setIsLive] = useState(false);
   const [isRecomputing, setIsRecomputing] = useState(false);
   const [recomputeMessage, setRecomputeMessage] = useState<string | null>(null);
 
@@ -107,12 +207,16 @@ export function useLogData(): UseLogDataReturn {
     return logsWithTime.reduce((max, entry) => Math.max(max, entry.timestampMs), Date.now());
   }, [logsWithTime]);
 
+  const query = useMemo(() => buildLogQuery(filters), [filters]);
+  const streamQuery = useMemo(() => buildStreamQuery(filters), [filters]);
+  const hasStreamConnectedRef = useRef(false);
+
   const fetchLogs = useCallback(async ({ background = false } = {}) => {
     if (!background) {
       setIsLoading(true);
     }
     try {
-      const response = await fetch(`/api/logs?limit=${FETCH_LIMIT}`);
+      const response = await fetch(apiUrl(`/api/logs?${query}`));
       if (!response.ok) {
         throw new Error(`Failed to load logs: ${response.statusText}`);
       }
@@ -135,13 +239,13 @@ export function useLogData(): UseLogDataReturn {
         setIsLoading(false);
       }
     }
-  }, []);
+  }, [query]);
 
   const handleRecompute = useCallback(async () => {
     setIsRecomputing(true);
     setRecomputeMessage(null);
     try {
-      const response = await fetch('/api/logs/recompute', {
+      const response = await fetch(apiUrl('/api/logs/recompute'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -166,22 +270,87 @@ export function useLogData(): UseLogDataReturn {
     fetchLogs();
   }, [fetchLogs]);
 
-  // Polling
+  const fetchInFlight = useCallback(async () => {
+    try {
+      const response = await fetch(apiUrl('/api/inflight'));
+      if (!response.ok) {
+        throw new Error(`Failed to load running requests: ${response.statusText}`);
+      }
+      const data = (await response.json()) as { items: InFlightInteraction[] };
+      setInFlight(data.items);
+    } catch (error) {
+      console.error('[snoopty] fetchInFlight error', error);
+    }
+  }, []);
+
+  // Live feed
   useEffect(() => {
+    if (typeof window === 'undefined' || typeof EventSource === 'undefined') {
+      return;
+    }
+    hasStreamConnectedRef.current = false;
+    const source = new EventSource(apiUrl(`/api/logs/stream${streamQuery ? `?${streamQuery}` : ''}`));
+
+    const handleEvent = (message: MessageEvent<string>) => {
+      try {
+        const event = JSON.parse(message.data) as LogStreamEvent;
+        if (event.type === 'inflight' || event.type === 'inflight_end') {
+          setInFlight((prev) => applyInFlightEvent(prev, event));
+        } else {
+          setLogs((prev) => applyLogStreamEvent(prev, event));
+        }
+      } catch (error) {
+        console.error('[snoopty] log stream parse error', error);
+      }
+    };
+
+    source.onopen = () => {
+      setIsLive(true);
+      fetchInFlight();
+      // Events sent while we were disconnected are lost; resync once on reconnect.
+      if (hasStreamConnectedRef.current) {
+        fetchLogs({ background: true });
+      }
+      hasStreamConnectedRef.current = true;
+    };
+    source.onerror = () => {
+      // EventSource retries on its own; fall back to polling until it reconnects.
+      setIsLive(false);
+    };
+    source.addEventListener('created', handleEvent);
+    source.addEventListener('patch', handleEvent);
+    source.addEventListener('deleted', handleEvent);
+    source.addEventListener('inflight', handleEvent);
+    source.addEventListener('inflight_end', handleEvent);
+
+    return () => {
+      source.close();
+      setIsLive(false);
+      setInFlight([]);
+    };
+  }, [streamQuery, fetchLogs, fetchInFlight]);
+
+  // Polling fallback while the live feed is down
+  useEffect(() => {
+    if (isLive) {
+      return;
+    }
     const timer = window.setInterval(() => {
       fetchLogs({ background: true });
     }, DEFAULT_POLL_INTERVAL_MS);
     return () => window.clearInterval(timer);
-  }, [fetchLogs]);
+  }, [fetchLogs, isLive]);
 
   return {
     logs,
+    inFlight,
     logsWithTime,
     earliestTimestampMs,
     latestTimestampMs,
     listError,
     isLoading,
     hasFirstPageLoaded,
+    isLive,
     isRecomputing,
     recomputeMessage,
     fetchLogs,
@@ -1,5 +1,5 @@
 import { ChangeEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import type { AgentTagInfo } from '../../../shared/types';
+import type { AgentTagInfo, InteractionLabels } from '../../../shared/types';
 import type { TimeRange } from '../components/TimelineBrush';
 import { clamp } from '../utils/time';
 import type { LogWithTime } from './useLogData';
@@ -11,6 +11,8 @@ import type { LogWithTime } from './useLogData';
 export type EndpointCategory = 'messages' | 'other';
 export type EndpointFilter = 'all' | EndpointCategory;
 export type AgentFilter = 'all' | 'untagged' | string;
+/** 'all' or a `key=value` label pair */
+export type LabelFilter = 'all' | string;
 
 export interface BrushPoint {
   timestampMs: number;
@@ -90,7 +92,7 @@ export function getEndpointCategory(
     return 'other';
   }
 
-  if (normalized.endsWith('/messages')) {
+  if (normalized.endsWith('/messages') || normalized.endsWith('/chat/completions')) {
     return 'messages';
   }
   return 'other';
@@ -130,10 +132,33 @@ function matchesAgentFilter(agentTag: AgentTagInfo | undefined, filter: AgentFil
   return agentTag?.id === filter;
 }
 
+function labelFilterId(key: string, value: string): LabelFilter {
+  return `${key}=${value}`;
+}
+
+function matchesLabelFilter(labels: InteractionLabels | undefined, filter: LabelFilter): boolean {
+  if (filter === 'all') {
+    return true;
+  }
+  return Object.entries(labels ?? {}).some(([key, value]) => labelFilterId(key, value) === filter);
+}
+
 // =============================================================================
 // Hook
 // =============================================================================
 
+/** Time window restored from sessionStorage, in days */
+export function loadStoredTimeWindowDays(): number {
+  const stored = sessionStorage.getItem('snoopty.timeWindowDays');
+  return stored ? Number(stored) : 1;
+}
+
+/** Endpoint filter restored from sessionStorage */
+export function loadStoredEndpointFilter(): EndpointFilter {
+  const stored = sessionStorage.getItem('snoopty.endpointFilter');
+  return (stored as EndpointFilter) || 'messages';
+}
+
 export interface UseLogFilteringParams {
   logsWithTime: LogWithTime[];
   earliestTimestampMs: number;
@@ -146,10 +171,12 @@ export interface UseLogFilteringReturn {
   selectedTimeRange: TimeRange | null;
   endpointFilter: EndpointFilter;
   agentFilter: AgentFilter;
+  labelFilter: LabelFilter;
   logIdSearch: string;
 
   // Computed
   agentFilterOptions: Array<{ id: AgentFilter; label: string }>;
+  labelFilterOptions: Array<{ id: LabelFilter; label: string }>;
   windowRange: TimeRange;
   filteredLogs: LogWithTime[];
   filteredFileNames: string[];
@@ -163,6 +190,7 @@ export interface UseLogFilteringReturn {
   handleTimeWindowInputChange: (event: ChangeEvent<HTMLInputElement>) => void;
   handleEndpointFilterChange: (event: ChangeEvent<HTMLSelectElement>) => void;
   handleAgentFilterChange: (event: ChangeEvent<HTMLSelectElement>) => void;
+  handleLabelFilterChange: (event: ChangeEvent<HTMLSelectElement>) => void;
   handleLogIdSearchChange: (event: ChangeEvent<HTMLInputElement>) => void;
   handleBrushSelection: (range: TimeRange | null) => void;
   handleClearTimeSelection: () => void;
@@ -175,10 +203,7 @@ export function useLogFiltering({
   latestTimestampMs,
 }: UseLogFilteringParams): UseLogFilteringReturn {
   // Load filter state from sessionStorage on mount
-  const [timeWindowDays, setTimeWindowDays] = useState(() => {
-    const stored = sessionStorage.getItem('snoopty.timeWindowDays');
-    return stored ? Number(stored) : 1;
-  });
+  const [timeWindowDays, setTimeWindowDays] = useState(loadStoredTimeWindowDays);
 
   // Selection history for nested zooming - stores stack of time ranges
   const [selectionHistory, setSelectionHistory] = useState<TimeRange[]>(() => {
@@ -190,14 +215,15 @@ export function useLogFiltering({
     ? selectionHistory[selectionHistory.length - 1]!
     : null;
 
-  const [endpointFilter, setEndpointFilter] = useState<EndpointFilter>(() => {
-    const stored = sessionStorage.getItem('snoopty.endpointFilter');
-    return (stored as EndpointFilter) || 'messages';
-  });
+  const [endpointFilter, setEndpointFilter] = useState<EndpointFilter>(loadStoredEndpointFilter);
   const [agentFilter, setAgentFilter] = useState<AgentFilter>(() => {
     const stored = sessionStorage.getItem('snoopty.agentFilter');
     return (stored as AgentFilter) || 'all';
   });
+  const [labelFilter, setLabelFilter] = useState<LabelFilter>(() => {
+    const stored = sessionStorage.getItem('snoopty.labelFilter');
+    return stored || 'all';
+  });
   const [logIdSearch, setLogIdSearch] = useState(() => {
     const stored = sessionStorage.getItem('snoopty.logIdSearch');
     return stored || '';
@@ -220,6 +246,10 @@ export function useLogFiltering({
     sessionStorage.setItem('snoopty.agentFilter', agentFilter);
   }, [agentFilter]);
 
+  useEffect(() => {
+    sessionStorage.setItem('snoopty.labelFilter', labelFilter);
+  }, [labelFilter]);
+
   useEffect(() => {
     sessionStorage.setItem('snoopty.logIdSearch', logIdSearch);
   }, [logIdSearch]);
@@ -254,6 +284,20 @@ export function useLogFiltering({
     return options;
   }, [logsWithTime]);
 
+  const labelFilterOptions = useMemo<Array<{ id: LabelFilter; label: string }>>(() => {
+    const seen = new Map<LabelFilter, { id: LabelFilter; label: string }>();
+    logsWithTime.forEach((entry) => {
+      Object.entries(entry.labels ?? {}).forEach(([key, value]) => {
+        const id = labelFilterId(key, value);
+        if (!seen.has(id)) {
+          seen.set(id, { id, label: `${key}: ${value}` });
+        }
+      });
+    });
+    const sorted = Array.from(seen.values()).sort((a, b) => a.label.localeCompare(b.label));
+    return [{ id: 'all', label: 'All labels' }, ...sorted];
+  }, [logsWithTime]);
+
   const windowStartMs = useMemo(
     () => Math.max(latestTimestampMs - timeWindowDays * MILLIS_PER_DAY, earliestTimestampMs),
     [latestTimestampMs, timeWindowDays, earliestTimestampMs]
@@ -287,15 +331,20 @@ export function useLogFiltering({
     [endpointFilteredLogs, agentFilter]
   );
 
+  const labelFilteredLogs = useMemo(
+    () => agentFilteredLogs.filter((entry) => matchesLabelFilter(entry.labels, labelFilter)),
+    [agentFilteredLogs, labelFilter]
+  );
+
   const logIdFilteredLogs = useMemo(() => {
     if (!logIdSearch.trim()) {
-      return agentFilteredLogs;
+      return labelFilteredLogs;
     }
     const searchLower = logIdSearch.toLowerCase().trim();
-    return agentFilteredLogs.filter((entry) =>
+    return labelFilteredLogs.filter((entry) =>
       entry.id.toLowerCase().includes(searchLower)
     );
-  }, [agentFilteredLogs, logIdSearch]);
+  }, [labelFilteredLogs, logIdSearch]);
 
   // Compute auto range from logs before time selection (to avoid circular dependency)
   const autoTimelineRange = useMemo<TimeRange>(() => {
@@ -404,6 +453,17 @@ export function useLogFiltering({
     }
   }, [agentFilter, agentFilterOptions, logsWithTime.length]);
 
+  // Reset label filter when option disappears (only after initial load)
+  useEffect(() => {
+    if (labelFilter === 'all') {
+      return;
+    }
+    if (logsWithTime.length > 0 && !labelFilterOptions.some((option) => option.id === labelFilter)) {
+      setLabelFilter('all');
+      sessionStorage.setItem('snoopty.labelFilter', 'all');
+    }
+  }, [labelFilter, labelFilterOptions, logsWithTime.length]);
+
   const handleTimeWindowInputChange = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
       const rawValue = Number.parseInt(event.target.value, 10);
@@ -430,6 +490,13 @@ export function useLogFiltering({
     []
   );
 
+  const handleLabelFilterChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      setLabelFilter(event.target.value as LabelFilter);
+    },
+    []
+  );
+
   const handleLogIdSearchChange = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
       setLogIdSearch(event.target.value);
@@ -457,6 +524,7 @@ export function useLogFiltering({
     setSelectionHistory([]);
     setEndpointFilter('messages');
     setAgentFilter('all');
+    setLabelFilter('all');
     setLogIdSearch('');
 
     // Clear sessionStorage as well
@@ -464,6 +532,7 @@ export function useLogFiltering({
     sessionStorage.setItem('snoopty.selectionHistory', '[]');
     sessionStorage.setItem('snoopty.endpointFilter', 'messages');
     sessionStorage.setItem('snoopty.agentFilter', 'all');
+    sessionStorage.setItem('snoopty.labelFilter', 'all');
     sessionStorage.setItem('snoopty.logIdSearch', '');
   }, []);
 
@@ -472,8 +541,10 @@ export function useLogFiltering({
     selectedTimeRange,
     endpointFilter,
     agentFilter,
+    labelFilter,
     logIdSearch,
     agentFilterOptions,
+    labelFilterOptions,
     windowRange,
     filteredLogs,
     filteredFileNames,
@@ -485,6 +556,7 @@ export function useLogFiltering({
     handleTimeWindowInputChange,
     handleEndpointFilterChange,
     handleAgentFilterChange,
+    handleLabelFilterChange,
     handleLogIdSearchChange,
     handleBrushSelection,
     handleClearTimeSelection,
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ChangeEvent, FormEvent } from 'react';
+import type { MetricsFilters, SearchLogsResult, SearchResult } from '../../../shared/types';
+import { apiUrl } from '../utils/api';
+import { appendFilterParams } from './useLogData';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const CONTENT_SEARCH_STORAGE_KEY = 'snoopty.contentSearch';
+
+/** Number of search results to request */
+const SEARCH_LIMIT = 200;
+
+function buildSearchQuery(q: string, filters: MetricsFilters | undefined): string {
+  const params = new URLSearchParams({ q, limit: String(SEARCH_LIMIT) });
+  appendFilterParams(params, filters);
+  return params.toString();
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+export interface UseLogSearchParams {
+  /** Server-side filters so matches are scoped like the timeline */
+  filters?: MetricsFilters;
+  /** File names currently rendered in the timeline, in display order */
+  visibleFileNames: string[];
+}
+
+export interface UseLogSearchReturn {
+  contentSearch: string;
+  isSearching: boolean;
+  searchError: string | null;
+  hasMoreResults: boolean;
+  /** Matches keyed by file name; null when no search has been run */
+  searchMatches: Map<string, SearchResult> | null;
+  /** Matches that are visible in the timeline, in display order */
+  visibleMatchFileNames: string[];
+  activeMatchFileName: string | null;
+  handleContentSearchChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  handleContentSearchSubmit: (event?: FormEvent) => void;
+  clearContentSearch: () => void;
+  goToMatch: (direction: 1 | -1) => void;
+}
+
+export function useLogSearch({ filters, visibleFileNames }: UseLogSearchParams): UseLogSearchReturn {
+  const [contentSearch, setContentSearch] = useState<string>(() => {
+    if (typeof window === 'undefined') {
+      return '';
+    }
+    return window.sessionStorage.getItem(CONTENT_SEARCH_STORAGE_KEY) ?? '';
+  });
+  const [results, setResults] = useState<SearchLogsResult | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [activeMatchFileName, setActiveMatchFileName] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    window.sessionStorage.setItem(CONTENT_SEARCH_STORAGE_KEY, contentSearch);
+  }, [contentSearch]);
+
+  const searchMatches = useMemo(() => {
+    if (!results) {
+      return null;
+    }
+    return new Map(results.items.map((item) => [item.summary.fileName, item]));
+  }, [results]);
+
+  const visibleMatchFileNames = useMemo(() => {
+    if (!searchMatches) {
+      return [];
+    }
+    return visibleFileNames.filter((fileName) => searchMatches.has(fileName));
+  }, [searchMatches, visibleFileNames]);
+
+  const runSearch = useCallback(
+    async (q: string) => {
+      setIsSearching(true);
+      setSearchError(null);
+      try {
+        const response = await fetch(apiUrl(`/api/logs/search?${buildSearchQuery(q, filters)}`));
+        if (!response.ok) {
+          throw new Error(`Search failed: ${response.statusText}`);
+        }
+        const data = (await response.json()) as SearchLogsResult;
+        setResults(data);
+        setActiveMatchFileName(null);
+      } catch (error) {
+        console.error('[snoopty] search error', error);
+        setSearchError(error instanceof Error ? error.message : 'Unknown error while searching');
+        setResults(null);
+      } finally {
+        setIsSearching(false);
+      }
+    },
+    [filters]
+  );
+
+  const handleContentSearchChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    setContentSearch(event.target.value);
+  }, []);
+
+  const clearContentSearch = useCallback(() => {
+    setContentSearch('');
+    setResults(null);
+    setSearchError(null);
+    setActiveMatchFileName(null);
+  }, []);
+
+  const handleContentSearchSubmit = useCallback(
+    (event?: FormEvent) => {
+      event?.preventDefault();
+      const q = contentSearch.trim();
+      if (!q) {
+        clearContentSearch();
+        return;
+      }
+      void runSearch(q);
+    },
+    [contentSearch, runSearch, clearContentSearch]
+  );
+
+  const goToMatch = useCallback(
+    (direction: 1 | -1) => {
+      if (visibleMatchFileNames.length === 0) {
+        return;
+      }
+      const currentIndex = activeMatchFileName
+        ? visibleMatchFileNames.indexOf(activeMatchFileName)
+        : -1;
+      const count = visibleMatchFileNames.length;
+      const nextIndex =
+        currentIndex === -1
+          ? direction === 1
+            ? 0
+            : count - 1
+          : (currentIndex + direction + count) % count;
+      setActiveMatchFileName(visibleMatchFileNames[nextIndex] ?? null);
+    },
+    [visibleMatchFileNames, activeMatchFileName]
+  );
+
+  // Jump to the first visible match as soon as results arrive
+  useEffect(() => {
+    if (results && !activeMatchFileName && visibleMatchFileNames.length > 0) {
+      setActiveMatchFileName(visibleMatchFileNames[0] ?? null);
+    }
+  }, [results, activeMatchFileName, visibleMatchFileNames]);
+
+  return {
+    contentSearch,
+    isSearching,
+    searchError,
+    hasMoreResults: results?.hasMore ?? false,
+    searchMatches,
+    visibleMatchFileNames,
+    activeMatchFileName,
+    handleContentSearchChange,
+    handleContentSearchSubmit,
+    clearContentSearch,
+    goToMatch,
+  };
+}
@@ -1,5 +1,6 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import type { InteractionLog, LogSummary } from '../../../shared/types';
+import { apiUrl } from '../utils/api';
 import type { LogWithTime } from './useLogData';
 
 // =============================================================================
@@ -96,7 +97,7 @@ export function useLogSelection({
   const fetchLogDetails = useCallback(async (fileName: string) => {
     setIsDetailLoading(true);
     try {
-      const response = await fetch(`/api/logs/${encodeURIComponent(fileName)}`);
+      const response = await fetch(apiUrl(`/api/logs/${encodeURIComponent(fileName)}`));
       if (!response.ok) {
         throw new Error(`Failed to load log details: ${response.statusText}`);
       }
@@ -128,7 +129,7 @@ export function useLogSelection({
     setExportError(null);
     setIsDeleting(true);
     try {
-      const response = await fetch('/api/logs', {
+      const response = await fetch(apiUrl('/api/logs'), {
         method: 'DELETE',
         headers: {
           'Content-Type': 'application/json',
@@ -178,7 +179,7 @@ export function useLogSelection({
     setExportError(null);
     setIsExporting(true);
     try {
-      const response = await fetch('/api/logs/export', {
+      const response = await fetch(apiUrl('/api/logs/export'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
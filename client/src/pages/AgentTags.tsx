@@ -0,0 +1,238 @@
+/**
+ * Agent Tags Page
+ *
+ * Editor for the agent tag rules. Rules are tried in order and the first match tags a
+ * log. Candidate rules can be previewed against recent logs before saving; saving
+ * writes the rules file and the server re-tags existing logs in the background.
+ * Below the editor, agent types discovered by prompt clustering can be named, which
+ * appends a rule for them.
+ */
+
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type {
+  AgentTagPreviewResult,
+  AgentTagRuleDefinition,
+  AgentTagRulesState,
+} from '../../../shared/types';
+import AgentTagRuleCard, {
+  draftToRule,
+  ruleToDraft,
+  type AgentTagRuleDraft,
+} from '../components/AgentTagRuleCard';
+import DiscoveredAgents from '../components/DiscoveredAgents';
+import { apiUrl } from '../utils/api';
+
+const NEW_RULE: AgentTagRuleDefinition = {
+  id: '',
+  label: '',
+  theme: { text: '#0f172a', background: 'rgba(15, 23, 42, 0.08)', border: 'rgba(15, 23, 42, 0.2)' },
+  match: {},
+};
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const payload = (await response.json().catch(() => null)) as { error?: string } | null;
+  return payload?.error ?? `${fallback}: ${response.statusText}`;
+}
+
+export default function AgentTags() {
+  const navigate = useNavigate();
+  const [state, setState] = useState<AgentTagRulesState | null>(null);
+  const [drafts, setDrafts] = useState<AgentTagRuleDraft[]>([]);
+  const [nextKey, setNextKey] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [preview, setPreview] = useState<AgentTagPreviewResult | null>(null);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  const applyState = (payload: AgentTagRulesState) => {
+    setState(payload);
+    setDrafts(payload.rules.map((rule, index) => ruleToDraft(rule, index)));
+    setNextKey(payload.rules.length);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    async function fetchRules() {
+      try {
+        setIsLoading(true);
+        const response = await fetch(apiUrl('/api/agent-tags/rules'));
+        if (!response.ok) {
+          throw new Error(`Failed to fetch agent tag rules: ${response.statusText}`);
+        }
+        const payload = (await response.json()) as AgentTagRulesState;
+        if (cancelled) {
+          return;
+        }
+        applyState(payload);
+        setError(null);
+      } catch (err) {
+        console.error('Error fetching agent tag rules:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+    fetchRules();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Any edit invalidates the preview and the last save confirmation.
+  const updateDrafts = (next: AgentTagRuleDraft[]) => {
+    setDrafts(next);
+    setPreview(null);
+    setSavedMessage(null);
+  };
+
+  const handleChange = (index: number, draft: AgentTagRuleDraft) => {
+    updateDrafts(drafts.map((current, currentIndex) => (currentIndex === index ? draft : current)));
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    const moved = drafts[index];
+    const other = drafts[target];
+    if (!moved || !other) {
+      return;
+    }
+    const next = [...drafts];
+    next[index] = other;
+    next[target] = moved;
+    updateDrafts(next);
+  };
+
+  const handleRemove = (index: number) => {
+    updateDrafts(drafts.filter((_, currentIndex) => currentIndex !== index));
+  };
+
+  const handleAdd = () => {
+    updateDrafts([...drafts, ruleToDraft(NEW_RULE, nextKey)]);
+    setNextKey(nextKey + 1);
+  };
+
+  const submitRules = async (url: string, method: 'POST' | 'PUT', fallback: string) => {
+    setIsBusy(true);
+    setActionError(null);
+    try {
+      const response = await fetch(apiUrl(url), {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules: drafts.map(draftToRule) }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, fallback));
+      }
+      return (await response.json()) as unknown;
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    const result = await submitRules('/api/agent-tags/preview', 'POST', 'Preview failed');
+    if (result) {
+      setPreview(result as AgentTagPreviewResult);
+    }
+  };
+
+  // Naming a discovered agent appended a rule on the server; show the saved rules.
+  const handleRuleSaved = async () => {
+    try {
+      const response = await fetch(apiUrl('/api/agent-tags/rules'));
+      if (!response.ok) {
+        throw new Error(`Failed to fetch agent tag rules: ${response.statusText}`);
+      }
+      applyState((await response.json()) as AgentTagRulesState);
+      setPreview(null);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const handleSave = async () => {
+    const result = await submitRules('/api/agent-tags/rules', 'PUT', 'Save failed');
+    if (result) {
+      const saved = result as AgentTagRulesState;
+      applyState(saved);
+      setPreview(null);
+      setSavedMessage(`Saved version ${saved.version}; existing logs are being re-tagged.`);
+    }
+  };
+
+  return (
+    <div className="dashboard-container">
+      <div className="dashboard-header">
+        <h1>Agent Tags</h1>
+        <button onClick={() => navigate(-1)} className="secondary-button">← Back to Timeline</button>
+      </div>
+
+      {isLoading && <div className="dashboard-loading">Loading agent tag rules...</div>}
+
+      {error && (
+        <div className="dashboard-error">
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      {!isLoading && !error && state && (
+        <>
+          <div className="agent-tags-toolbar">
+            <span className="agent-tags-toolbar__status">
+              {state.source === 'file' ? 'Loaded from' : 'Built-in rules; saving creates'}{' '}
+              <code>{state.filePath}</code> · version {state.version}
+            </span>
+            <div className="agent-tags-toolbar__actions">
+              <button type="button" className="secondary-button" onClick={handleAdd} disabled={isBusy}>
+                Add Rule
+              </button>
+              <button type="button" className="secondary-button" onClick={handlePreview} disabled={isBusy}>
+                Preview
+              </button>
+              <button type="button" onClick={handleSave} disabled={isBusy}>
+                Save
+              </button>
+            </div>
+          </div>
+          {actionError && <span className="error-text">{actionError}</span>}
+          {savedMessage && <p className="agent-tags-toolbar__status">{savedMessage}</p>}
+          {preview && (
+            <p className="agent-tags-toolbar__status">
+              Previewed {preview.scanned} recent logs · {preview.untaggedCount} would be untagged
+            </p>
+          )}
+
+          {drafts.length === 0 && <div className="dashboard-empty">No rules; every log will be untagged</div>}
+
+          <ul className="agent-tags-list">
+            {drafts.map((draft, index) => (
+              <AgentTagRuleCard
+                key={draft.key}
+                draft={draft}
+                index={index}
+                ruleCount={drafts.length}
+                preview={preview?.rules.find((rule) => rule.ruleId === draft.id.trim())}
+                scanned={preview?.scanned ?? null}
+                onChange={(next) => handleChange(index, next)}
+                onMove={(offset) => handleMove(index, offset)}
+                onRemove={() => handleRemove(index)}
+              />
+            ))}
+          </ul>
+
+          <DiscoveredAgents onRuleSaved={handleRuleSaved} />
+        </>
+      )}
+    </div>
+  );
+}
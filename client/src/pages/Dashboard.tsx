@@ -14,9 +14,14 @@ import type {
   ToolUsageRow,
   UniqueToolCall,
 } from '../../../shared/types';
+import BudgetPanel from '../components/BudgetPanel';
+import CostBreakdownChart from '../components/charts/CostBreakdownChart';
+import LatencyBreakdownChart from '../components/charts/LatencyBreakdownChart';
 import TokenBreakdownChart from '../components/charts/TokenBreakdownChart';
 import ToolReturnSizeChart from '../components/charts/ToolReturnSizeChart';
 import ToolUsageChart from '../components/charts/ToolUsageChart';
+import { apiUrl } from '../utils/api';
+import { formatCost } from '../utils/formatting';
 
 /**
  * Extract unique tool calls from InteractionLogs using backend-computed tool metrics.
@@ -44,6 +49,9 @@ function extractUniqueToolCalls(logs: InteractionLog[]): UniqueToolCall[] {
             agentTag: agentTagLabel,
             model,
             returnTokens: toolCall.returnTokens,
+            ...(log.cost && toolCall.returnTokens !== undefined
+              ? { returnCostUsd: (toolCall.returnTokens * log.cost.rates.input) / 1_000_000 }
+              : {}),
           });
         }
       }
@@ -82,6 +90,10 @@ function aggregateMetrics(logs: InteractionLog[]): ToolMetricsDataResponse {
       output_thinking_tokens: tokenUsage.custom?.output.segments['thinking']?.tokens || 0,
       agentTag: agentTagLabel,
       model,
+      costUsd: log.cost?.costUsd,
+      labels: log.labels,
+      credential: log.auth?.name ?? log.auth?.identity,
+      streamTiming: log.streamTiming,
       // MCP vs Regular breakdown
       input_tool_definition_mcp_tokens: tokenUsage.custom?.input.segments['tool_mcp']?.tokens || 0,
       input_tool_definition_regular_tokens: tokenUsage.custom?.input.segments['tool_regular']?.tokens || 0,
@@ -122,7 +134,7 @@ export default function Dashboard() {
         // If no log IDs provided, fetch all logs from timeline
         let fileNames = selectedLogIds;
         if (!fileNames || fileNames.length === 0) {
-          const listResponse = await fetch('/api/logs?limit=1000');
+          const listResponse = await fetch(apiUrl('/api/logs?limit=1000'));
           if (!listResponse.ok) {
             throw new Error(`Failed to fetch log list: ${listResponse.statusText}`);
           }
@@ -131,7 +143,7 @@ export default function Dashboard() {
         }
 
         // Fetch full logs via batch endpoint
-        const batchResponse = await fetch('/api/logs/batch', {
+        const batchResponse = await fetch(apiUrl('/api/logs/batch'), {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ fileNames }),
@@ -162,6 +174,7 @@ export default function Dashboard() {
   const totalToolCalls = data?.toolCalls.length ?? 0;
   const toolCallsWithResults = data?.toolCalls.filter(tc => tc.returnTokens !== undefined).length ?? 0;
   const uniqueTools = data ? new Set(data.toolCalls.map((tc) => tc.toolName)).size : 0;
+  const totalCostUsd = data?.usage.reduce((sum, row) => sum + (row.costUsd ?? 0), 0) ?? 0;
 
   return (
     <div className="dashboard-container">
@@ -207,11 +220,19 @@ export default function Dashboard() {
           <div className="stat-label">Unique Tools</div>
           <div className="stat-value">{uniqueTools}</div>
         </div>
+        <div className="stat-card">
+          <div className="stat-label">Total Cost</div>
+          <div className="stat-value">{formatCost(totalCostUsd)}</div>
+        </div>
       </div>
 
       <div className="dashboard-content">
+        <BudgetPanel />
+
         <div className="dashboard-charts">
           <TokenBreakdownChart data={data.usage} toolCalls={data.toolCalls} />
+          <CostBreakdownChart usage={data.usage} toolCalls={data.toolCalls} />
+          <LatencyBreakdownChart usage={data.usage} />
           <ToolUsageChart data={data.toolCalls} />
           <ToolReturnSizeChart data={data.toolCalls} />
         </div>
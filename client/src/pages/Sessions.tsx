@@ -0,0 +1,195 @@
+/**
+ * Sessions Page
+ *
+ * Groups interactions into reconstructed Claude Code sessions. Each session shows its
+ * primary thread with subagent threads nested under the request that spawned them;
+ * selecting a request loads it into the details panel.
+ */
+
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { InteractionLog, LogSummary, SessionTree } from '../../../shared/types';
+import DetailsPanel from '../components/DetailsPanel';
+import SessionTreeView from '../components/SessionTreeView';
+import { apiUrl } from '../utils/api';
+import { formatCost, formatDuration, formatTimestamp } from '../utils/formatting';
+
+const SESSION_FETCH_LIMIT = 50;
+
+interface SessionsResponse {
+  items: SessionTree[];
+  total: number;
+}
+
+function findSummary(node: SessionTree['root'], fileName: string): LogSummary | null {
+  const match = node.logs.find((log) => log.fileName === fileName);
+  if (match) {
+    return match;
+  }
+  for (const child of node.children) {
+    const found = findSummary(child, fileName);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+export default function Sessions() {
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<SessionTree[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null);
+  const [selectedFileName, setSelectedFileName] = useState<string | null>(null);
+  const [selectedLog, setSelectedLog] = useState<InteractionLog | null>(null);
+  const [isDetailLoading, setIsDetailLoading] = useState(false);
+  const [detailError, setDetailError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function fetchSessions() {
+      try {
+        setIsLoading(true);
+        const response = await fetch(apiUrl(`/api/sessions?limit=${SESSION_FETCH_LIMIT}`));
+        if (!response.ok) {
+          throw new Error(`Failed to fetch sessions: ${response.statusText}`);
+        }
+        const payload = (await response.json()) as SessionsResponse;
+        if (cancelled) {
+          return;
+        }
+        setSessions(payload.items);
+        setTotal(payload.total);
+        setExpandedSessionId((current) => current ?? payload.items[0]?.sessionId ?? null);
+        setError(null);
+      } catch (err) {
+        console.error('Error fetching sessions:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+    fetchSessions();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!selectedFileName) {
+      setSelectedLog(null);
+      return;
+    }
+    let cancelled = false;
+    async function fetchDetail(fileName: string) {
+      try {
+        setIsDetailLoading(true);
+        setDetailError(null);
+        const response = await fetch(apiUrl(`/api/logs/${encodeURIComponent(fileName)}`));
+        if (!response.ok) {
+          throw new Error(`Failed to fetch log: ${response.statusText}`);
+        }
+        const payload = (await response.json()) as InteractionLog;
+        if (!cancelled) {
+          setSelectedLog(payload);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setSelectedLog(null);
+          setDetailError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsDetailLoading(false);
+        }
+      }
+    }
+    fetchDetail(selectedFileName);
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFileName]);
+
+  const expandedSession = sessions.find((session) => session.sessionId === expandedSessionId);
+  const selectedSummary =
+    expandedSession && selectedFileName ? findSummary(expandedSession.root, selectedFileName) : null;
+
+  return (
+    <div className="dashboard-container sessions-container">
+      <div className="dashboard-header">
+        <h1>Sessions</h1>
+        <button onClick={() => navigate(-1)} className="secondary-button">← Back to Timeline</button>
+      </div>
+
+      {isLoading && <div className="dashboard-loading">Loading sessions...</div>}
+
+      {error && (
+        <div className="dashboard-error">
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      {!isLoading && !error && sessions.length === 0 && (
+        <div className="dashboard-empty">No sessions reconstructed yet</div>
+      )}
+
+      {!isLoading && !error && sessions.length > 0 && (
+        <div className="sessions-layout">
+          <section className="sessions-list">
+            <p className="sessions-list__status">
+              Showing {sessions.length} of {total} sessions
+            </p>
+            <ul className="sessions-list__items">
+              {sessions.map((session) => {
+                const isExpanded = session.sessionId === expandedSessionId;
+                return (
+                  <li
+                    key={session.sessionId}
+                    className={`session-card${isExpanded ? ' session-card--expanded' : ''}`}
+                  >
+                    <button
+                      type="button"
+                      className="session-card__header"
+                      onClick={() => setExpandedSessionId(isExpanded ? null : session.sessionId)}
+                    >
+                      <span className="session-card__title">
+                        {session.model ?? 'Unknown model'}
+                      </span>
+                      <span className="session-card__meta">
+                        {formatTimestamp(session.startedAt)} ·{' '}
+                        {formatDuration(
+                          new Date(session.endedAt).getTime() - new Date(session.startedAt).getTime()
+                        )}{' '}
+                        · {session.logCount} requests · {session.threadCount} threads
+                        {session.costUsd !== undefined && ` · ${formatCost(session.costUsd)}`}
+                      </span>
+                    </button>
+                    {isExpanded && (
+                      <SessionTreeView
+                        session={session}
+                        selectedFileName={selectedFileName}
+                        onSelectLog={setSelectedFileName}
+                      />
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+          <DetailsPanel
+            selectedLog={selectedLog}
+            selectedSummary={selectedSummary}
+            isDetailLoading={isDetailLoading}
+            detailError={detailError}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
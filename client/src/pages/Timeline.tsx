@@ -1,32 +1,67 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import type { MetricsFilters } from '../../../shared/types';
 import AppHeader from '../components/AppHeader';
 import DetailsPanel from '../components/DetailsPanel';
 import FilterControls from '../components/FilterControls';
 import TimelineBrush from '../components/TimelineBrush';
 import TimelineListSection from '../components/TimelineListSection';
-import { useLogData, useLogFiltering, useLogSelection } from '../hooks';
+import {
+  loadStoredEndpointFilter,
+  loadStoredTimeWindowDays,
+  useLogData,
+  useLogFiltering,
+  useLogSearch,
+  useLogSelection,
+  type EndpointFilter,
+} from '../hooks';
+
+const MILLIS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Filters pushed to `/api/logs` so only the visible time window and endpoint type are
+ * downloaded. Agent filtering stays client-side so the agent dropdown keeps every option.
+ */
+function buildServerFilters(timeWindowDays: number, endpointFilter: EndpointFilter): MetricsFilters {
+  return {
+    startTime: new Date(Date.now() - timeWindowDays * MILLIS_PER_DAY).toISOString(),
+    endpointType: endpointFilter,
+  };
+}
 
 /**
  * Primary React view for Snoopty. The component manages three concerns:
- *  1. Polling `/api/logs` and normalizing the data for the timeline,
+ *  1. Polling `/api/logs` (scoped server-side to the time window) and normalizing the data,
  *  2. Maintaining time-range selections (Logfire-style brush) and bulk actions,
- *  3. Rendering the detail pane with token summaries and raw payload inspectors.
+ *  3. Rendering the detail pane with token summaries and raw payload inspectors,
+ *  4. Full-text content search that highlights matching rows and jumps between them.
  */
 
 export default function Timeline() {
+  // Seeded from the stored filters so the first fetch is already scoped. The filter
+  // hook below owns these values; they are mirrored here because it needs the logs.
+  const [serverFilterInputs, setServerFilterInputs] = useState(() => ({
+    timeWindowDays: loadStoredTimeWindowDays(),
+    endpointFilter: loadStoredEndpointFilter(),
+  }));
+  const serverFilters = useMemo(
+    () => buildServerFilters(serverFilterInputs.timeWindowDays, serverFilterInputs.endpointFilter),
+    [serverFilterInputs]
+  );
+
   // Core data hook
   const {
     isLoading,
     hasFirstPageLoaded,
     listError,
     logsWithTime,
+    inFlight,
     earliestTimestampMs,
     latestTimestampMs,
     isRecomputing,
     recomputeMessage,
     fetchLogs,
     handleRecompute,
-  } = useLogData();
+  } = useLogData({ filters: serverFilters });
 
   // Filtering hook
   const {
@@ -34,6 +69,8 @@ export default function Timeline() {
     endpointFilter,
     agentFilter,
     agentFilterOptions,
+    labelFilter,
+    labelFilterOptions,
     logIdSearch,
     filteredLogs,
     filteredFileNames,
@@ -45,6 +82,7 @@ export default function Timeline() {
     handleTimeWindowInputChange,
     handleEndpointFilterChange,
     handleAgentFilterChange,
+    handleLabelFilterChange,
     handleLogIdSearchChange,
     handleBrushSelection,
     handleClearTimeSelection,
@@ -55,6 +93,14 @@ export default function Timeline() {
     latestTimestampMs,
   });
 
+  useEffect(() => {
+    setServerFilterInputs((current) =>
+      current.timeWindowDays === timeWindowDays && current.endpointFilter === endpointFilter
+        ? current
+        : { timeWindowDays, endpointFilter }
+    );
+  }, [timeWindowDays, endpointFilter]);
+
   // Selection hook
   const {
     selectedFileName,
@@ -83,6 +129,26 @@ export default function Timeline() {
     fetchLogs,
   });
 
+  // Content search hook
+  const {
+    contentSearch,
+    isSearching,
+    searchError,
+    searchMatches,
+    visibleMatchFileNames,
+    activeMatchFileName,
+    handleContentSearchChange,
+    handleContentSearchSubmit,
+    clearContentSearch,
+    goToMatch,
+  } = useLogSearch({ filters: serverFilters, visibleFileNames: filteredFileNames });
+
+  useEffect(() => {
+    if (activeMatchFileName) {
+      setSelectedFileName(activeMatchFileName);
+    }
+  }, [activeMatchFileName, setSelectedFileName]);
+
   // Compute max duration from filtered logs
   const maxDuration = useMemo(
     () => filteredLogs.reduce((acc, entry) => Math.max(acc, entry.durationMs ?? 0), 0),
@@ -111,14 +177,29 @@ export default function Timeline() {
             endpointFilter={endpointFilter}
             agentFilter={agentFilter}
             agentFilterOptions={agentFilterOptions}
+            labelFilter={labelFilter}
+            labelFilterOptions={labelFilterOptions}
             logIdSearch={logIdSearch}
+            contentSearch={contentSearch}
+            isSearching={isSearching}
+            searchError={searchError}
+            searchMatchCount={searchMatches ? searchMatches.size : null}
+            visibleMatchCount={visibleMatchFileNames.length}
+            activeMatchIndex={
+              activeMatchFileName ? visibleMatchFileNames.indexOf(activeMatchFileName) : -1
+            }
             selectionActive={selectionActive}
             filteredFileNamesCount={filteredFileNames.length}
             isExporting={isExporting}
             onTimeWindowChange={handleTimeWindowInputChange}
             onEndpointFilterChange={handleEndpointFilterChange}
             onAgentFilterChange={handleAgentFilterChange}
+            onLabelFilterChange={handleLabelFilterChange}
             onLogIdSearchChange={handleLogIdSearchChange}
+            onContentSearchChange={handleContentSearchChange}
+            onContentSearchSubmit={handleContentSearchSubmit}
+            onClearContentSearch={clearContentSearch}
+            onGoToMatch={goToMatch}
             onClearTimeSelection={handleClearTimeSelection}
             onExportFiltered={handleExportFiltered}
           />
@@ -133,8 +214,10 @@ export default function Timeline() {
         </div>
         <TimelineListSection
           filteredLogs={filteredLogs}
+          inFlight={inFlight}
           selectedFileName={selectedFileName}
           selectedFiles={selectedFiles}
+          searchMatches={searchMatches}
           hasSelection={hasSelection}
           selectedCount={selectedCount}
           isDeleting={isDeleting}
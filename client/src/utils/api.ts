@@ -0,0 +1,32 @@
+/**
+ * Project-scoped API URLs. The server exposes every /api route of a named project under
+ * `/api/p/<project>/...`; the default project keeps the plain `/api/...` paths. The
+ * active project is kept per tab, like the timeline filters.
+ */
+
+export const DEFAULT_PROJECT = 'default';
+
+const PROJECT_STORAGE_KEY = 'snoopty.project';
+
+export function getActiveProject(): string {
+  return sessionStorage.getItem(PROJECT_STORAGE_KEY) ?? DEFAULT_PROJECT;
+}
+
+export function setActiveProject(project: string): void {
+  if (project === DEFAULT_PROJECT) {
+    sessionStorage.removeItem(PROJECT_STORAGE_KEY);
+  } else {
+    sessionStorage.setItem(PROJECT_STORAGE_KEY, project);
+  }
+}
+
+/**
+ * Rewrite an `/api/...` path to the active project's scope.
+ */
+export function apiUrl(path: string): string {
+  const project = getActiveProject();
+  if (project === DEFAULT_PROJECT || !path.startsWith('/api/')) {
+    return path;
+  }
+  return `/api/p/${encodeURIComponent(project)}/${path.slice('/api/'.length)}`;
+}
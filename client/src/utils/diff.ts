@@ -0,0 +1,89 @@
+/**
+ * Line diff for the side-by-side replay comparison and request rewrite view.
+ */
+
+export type DiffRowKind = 'same' | 'removed' | 'added' | 'changed';
+
+export interface DiffRow {
+  kind: DiffRowKind;
+  left: string | null;
+  right: string | null;
+}
+
+/** Above this many line pairs the LCS table gets too large; fall back to line-by-line. */
+const MAX_LCS_CELLS = 4_000_000;
+
+type DiffOp = { type: 'same' | 'removed' | 'added'; line: string };
+
+function lcsOps(left: string[], right: string[]): DiffOp[] {
+  const rows = left.length + 1;
+  const cols = right.length + 1;
+  const table = new Uint32Array(rows * cols);
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      table[i * cols + j] =
+        left[i] === right[j]
+          ? table[(i + 1) * cols + j + 1]! + 1
+          : Math.max(table[(i + 1) * cols + j]!, table[i * cols + j + 1]!);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      ops.push({ type: 'same', line: left[i]! });
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j]! >= table[i * cols + j + 1]!) {
+      ops.push({ type: 'removed', line: left[i]! });
+      i++;
+    } else {
+      ops.push({ type: 'added', line: right[j]! });
+      j++;
+    }
+  }
+  for (; i < left.length; i++) ops.push({ type: 'removed', line: left[i]! });
+  for (; j < right.length; j++) ops.push({ type: 'added', line: right[j]! });
+  return ops;
+}
+
+/**
+ * Align two texts line by line. Runs of removed lines followed by added lines are
+ * paired up as `changed` rows so edits sit next to each other.
+ */
+export function diffLines(leftText: string, rightText: string): DiffRow[] {
+  const left = leftText.split('\n');
+  const right = rightText.split('\n');
+
+  if (left.length * right.length > MAX_LCS_CELLS) {
+    return Array.from({ length: Math.max(left.length, right.length) }, (_, index) => {
+      const l = left[index] ?? null;
+      const r = right[index] ?? null;
+      return { kind: l === r ? 'same' : l === null ? 'added' : r === null ? 'removed' : 'changed', left: l, right: r };
+    });
+  }
+
+  const rows: DiffRow[] = [];
+  const ops = lcsOps(left, right);
+  let index = 0;
+  while (index < ops.length) {
+    const op = ops[index]!;
+    if (op.type === 'same') {
+      rows.push({ kind: 'same', left: op.line, right: op.line });
+      index++;
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < ops.length && ops[index]!.type === 'removed') removed.push(ops[index++]!.line);
+    while (index < ops.length && ops[index]!.type === 'added') added.push(ops[index++]!.line);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const l = removed[k] ?? null;
+      const r = added[k] ?? null;
+      rows.push({ kind: l === null ? 'added' : r === null ? 'removed' : 'changed', left: l, right: r });
+    }
+  }
+  return rows;
+}
@@ -31,6 +31,16 @@ export function formatDuration(durationMs?: number): string {
   return `${(durationMs / MILLIS_PER_SECOND).toFixed(2)} s`;
 }
 
+export function formatCost(costUsd?: number | null): string {
+  if (typeof costUsd !== 'number' || Number.isNaN(costUsd)) {
+    return '—';
+  }
+  if (costUsd > 0 && costUsd < 0.01) {
+    return `$${costUsd.toFixed(4)}`;
+  }
+  return `$${costUsd.toFixed(2)}`;
+}
+
 export function prettifyJson(value: unknown): string {
   if (value === null || value === undefined) {
     return '';
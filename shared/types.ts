@@ -7,19 +7,11 @@
 // Agent Tag Types
 // =============================================================================
 
-export type AgentTagId =
-  | 'primary'
-  | 'file-search'
-  | 'topic-labeler'
-  | 'framework-detector'
-  | 'language-detector'
-  | 'conversation-summarizer'
-  | 'file-path-extractor'
-  | 'bash-command-processor'
-  | 'bug-triage'
-  | 'planner'
-  | 'git-history-analyzer'
-  | 'untagged';
+/**
+ * Agent tag ids come from the agent tag rules (built-in or AGENT_TAG_RULES_FILE);
+ * 'untagged' is reserved for interactions no rule matches.
+ */
+export type AgentTagId = string;
 
 export interface AgentTagTheme {
   text: string;
@@ -32,6 +24,87 @@ export interface AgentTagInfo {
   label: string;
   description?: string;
   theme: AgentTagTheme;
+  /** Version of the rule set that produced the tag; logs are re-tagged when it changes */
+  rulesVersion?: string;
+}
+
+/**
+ * Patterns (case-insensitive regular expression sources) a rule matches on. Every
+ * category present must match; within a category any pattern may match.
+ */
+export interface AgentTagMatchers {
+  /** Tested against the system prompt text */
+  systemPrompt?: string[];
+  /** Tested against the names of the tools offered in the request */
+  tools?: string[];
+  /** Tested against the request model */
+  model?: string[];
+  /** Header name -> pattern tested against the request header value */
+  headers?: Record<string, string>;
+}
+
+export interface AgentTagRuleDefinition {
+  id: AgentTagId;
+  label: string;
+  description?: string;
+  theme: AgentTagTheme;
+  match: AgentTagMatchers;
+}
+
+export interface AgentTagRulesState {
+  rules: AgentTagRuleDefinition[];
+  version: string;
+  /** 'file' when loaded from `filePath`, 'built-in' when the file doesn't exist */
+  source: 'file' | 'built-in';
+  filePath: string;
+}
+
+export interface AgentTagRulePreview {
+  ruleId: AgentTagId;
+  /** Previewed logs the rule would tag (rules are tried in order; the first match wins) */
+  matchCount: number;
+  /** Previewed logs whose tag would change to this rule */
+  changedCount: number;
+  /** Most recent matching logs */
+  sampleFileNames: string[];
+}
+
+export interface AgentTagPreviewResult {
+  /** Number of (most recent) logs the rules were tried against */
+  scanned: number;
+  rules: AgentTagRulePreview[];
+  /** Previewed logs no rule would match */
+  untaggedCount: number;
+}
+
+/**
+ * Logs grouped by the similarity of their system prompt and tool set.
+ */
+export interface AgentCluster {
+  /** Stable id derived from the cluster's most common prompt fingerprint */
+  id: string;
+  /** Label of the tag most members carry, or "Unknown agent #N" */
+  label: string;
+  /** Tag most members carry; 'untagged' for unknown agents */
+  agentTagId: AgentTagId;
+  logCount: number;
+  /** Distinct exact (normalized) fingerprints merged into the cluster */
+  variantCount: number;
+  tools: string[];
+  models: string[];
+  /** Excerpts of distinct system prompts, most common first */
+  samplePrompts: string[];
+  /** Most recent member logs */
+  sampleFileNames: string[];
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface AgentDiscoveryResult {
+  /** Number of (most recent) logs that were clustered */
+  scanned: number;
+  /** Largest first */
+  clusters: AgentCluster[];
 }
 
 // =============================================================================
@@ -113,6 +186,373 @@ export interface ToolMetricsSummary {
   toolCalls: ToolCallDetail[];
 }
 
+// =============================================================================
+// Cost Types
+// =============================================================================
+
+/** USD per million tokens for one model */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+export interface CostBreakdown {
+  inputUsd: number;
+  outputUsd: number;
+  cacheWriteUsd: number;
+  cacheReadUsd: number;
+}
+
+export interface CostInfo {
+  /** Total cost of the interaction in USD */
+  costUsd: number;
+  breakdown: CostBreakdown;
+  /** Pricing table key the model resolved to */
+  pricingModel: string;
+  /** Rates used, so clients can price token subsets (e.g. tool returns) consistently */
+  rates: ModelPricing;
+}
+
+// =============================================================================
+// Session Types
+// =============================================================================
+
+/**
+ * Where an interaction sits in its Claude Code session. Ids are interaction log ids.
+ * A thread is one conversation (each request extends the previous one's messages);
+ * a session is a primary thread plus the subagent threads it spawned via Task.
+ */
+export interface SessionInfo {
+  /** Id of the interaction that started the session */
+  sessionId: string;
+  /** Id of the first interaction in this conversation thread */
+  threadId: string;
+  /** Interaction this one continues within the same thread */
+  previousLogId?: string;
+  /** For subagent threads: the interaction whose Task tool_use spawned the thread */
+  parentLogId?: string;
+  parentToolUseId?: string;
+  /** 0 for the primary thread, +1 per level of subagent nesting */
+  depth: number;
+  /** Content hashes used to link later interactions to this one */
+  fingerprints: {
+    /** System prompt + first message: shared by every request in a thread */
+    root: string;
+    /** Messages + response: what the next request in the thread starts with */
+    tip: string;
+    /** Prompts of Task tool calls in the response, for matching subagent threads */
+    taskPrompts?: Array<{ toolUseId: string; promptHash: string }>;
+  };
+}
+
+export interface SessionThreadNode {
+  threadId: string;
+  depth: number;
+  parentLogId?: string;
+  parentToolUseId?: string;
+  agentTag?: AgentTagInfo;
+  /** Interactions in the thread, oldest first */
+  logs: LogSummary[];
+  /** Subagent threads spawned from this thread */
+  children: SessionThreadNode[];
+  /** Cost of this thread's own interactions, when any of them is priced */
+  costUsd?: number;
+}
+
+export interface SessionTree {
+  sessionId: string;
+  startedAt: string;
+  endedAt: string;
+  logCount: number;
+  threadCount: number;
+  model?: string;
+  /** Cost of every interaction in the session, when any of them is priced */
+  costUsd?: number;
+  root: SessionThreadNode;
+}
+
+// =============================================================================
+// Cassette Types
+// =============================================================================
+
+/**
+ * Request hashes at each matching level, stored on recorded interactions so replay
+ * mode can find them (see CASSETTE_MATCH).
+ */
+export interface CassetteKeys {
+  strict: string;
+  normal: string;
+  loose: string;
+}
+
+export interface CassetteInfo {
+  /** Set on interactions recorded in record mode */
+  keys?: CassetteKeys;
+  /** Set on interactions answered in replay mode: file name of the recording played */
+  playedFrom?: string;
+}
+
+// =============================================================================
+// Fault Injection Types
+// =============================================================================
+
+export type FaultType =
+  | 'latency'        // Delay before forwarding upstream
+  | 'rate_limit'     // 429 rate_limit_error with retry-after, upstream not called
+  | 'overloaded'     // 529 overloaded_error, upstream not called
+  | 'stream_cut'     // Connection dropped mid-stream
+  | 'malformed_sse'  // An unparseable event inserted into the stream
+  | 'slow_drip';     // Stream chunks delayed one by one
+
+/** A synthetic failure the proxy injected into an interaction (see FAULT_RULES_FILE) */
+export interface InjectedFault {
+  /** Id of the fault rule that fired */
+  ruleId: string;
+  type: FaultType;
+  /** Human-readable parameters, e.g. "retry-after 10s" */
+  detail: string;
+}
+
+// =============================================================================
+// Upstream Types
+// =============================================================================
+
+/** One try at sending a proxied request to an upstream (see UPSTREAMS_FILE) */
+export interface UpstreamAttempt {
+  /** Name of the upstream; `default` is UPSTREAM_BASE_URL */
+  upstream: string;
+  startedAtMs: number;
+  /** Until the response headers arrived or the connection failed */
+  durationMs: number;
+  /** Absent when the upstream couldn't be reached */
+  status?: number;
+  /** Connection error, or the error message of a response that was retried */
+  error?: string;
+  /** Backoff before the next attempt on the same upstream */
+  retryDelayMs?: number;
+}
+
+// =============================================================================
+// Stream Timing Types
+// =============================================================================
+
+/** When one content block of a streamed response was generated */
+export interface StreamBlockTiming {
+  index: number;
+  /** Block type: text, thinking, tool_use, ... */
+  type: string;
+  startMs: number;
+  /** Last delta (OpenAI) or content_block_stop (Anthropic) */
+  endMs: number;
+}
+
+/**
+ * Timing of a streamed response, derived from `response.streamChunkTimesMs` (see
+ * streamTiming.ts). Times are ms after the upstream attempt that answered was sent, or
+ * after playback started for cassette replays.
+ */
+export interface StreamTiming {
+  firstChunkMs: number;
+  /** Time to first token: the first text, thinking or tool input delta */
+  ttftMs?: number;
+  firstContentBlockMs?: number;
+  lastChunkMs: number;
+  blocks: StreamBlockTiming[];
+  /** Output tokens over the time from the first token to the last chunk */
+  outputTokensPerSecond?: number;
+}
+
+// =============================================================================
+// Rewrite Types
+// =============================================================================
+
+/** How the proxy rewrote a request before forwarding it (see REWRITE_RULES_FILE) */
+export interface RequestRewrite {
+  /** Ids of the rewrite rules applied, in order */
+  ruleIds: string[];
+  /** Body as the client sent it; `request.body` holds what went upstream */
+  originalBody?: unknown;
+  /** Headers as the client sent them, when a rule changed headers */
+  originalHeaders?: Record<string, string>;
+}
+
+// =============================================================================
+// Label Types
+// =============================================================================
+
+/**
+ * Labels a client attached to a request through `x-snoopty-*` headers. Well-known keys
+ * are `project`, `experiment`, `user` and `run-id`; any other key is a free-form label.
+ */
+export type InteractionLabels = Record<string, string>;
+
+// =============================================================================
+// Auth Types
+// =============================================================================
+
+/**
+ * Where the upstream credential comes from (AUTH_MODE):
+ * - server-key: the configured UPSTREAM_API_KEY, whatever the client sent
+ * - passthrough: the client's own `x-api-key` or `Authorization: Bearer` token
+ * - mapped: the upstream key the client's key maps to in AUTH_KEY_MAP_FILE
+ */
+export type AuthMode = 'server-key' | 'passthrough' | 'mapped';
+
+/** Which credential an interaction used; never the credential itself */
+export interface AuthInfo {
+  mode: AuthMode;
+  /** How the client authenticated to Snoopty */
+  clientScheme: 'api-key' | 'bearer' | 'none';
+  /** Credential sent upstream */
+  upstream: 'server-key' | 'client' | 'mapped' | 'none';
+  /** Short SHA-256 of the client's credential, so usage can be attributed per person */
+  identity?: string;
+  /** Name of the client key in AUTH_KEY_MAP_FILE */
+  name?: string;
+}
+
+// =============================================================================
+// Budget Types
+// =============================================================================
+
+/** What a budget's spend is counted per */
+export type BudgetScope =
+  | 'total'      // All requests of the project together
+  | 'session'    // Each session separately
+  | 'label'      // Each value of one interaction label
+  | 'agentTag';  // Each agent tag separately
+
+/** Spend counted since local midnight, or since the last reset */
+export type BudgetWindow = 'day' | 'all';
+
+export type BudgetUnit = 'tokens' | 'usd';
+
+export type BudgetAction =
+  | 'block'      // Reject with an Anthropic-style billing_error
+  | 'downgrade'  // Forward with the model rewritten to `downgradeTo`
+  | 'warn';      // Forward unchanged, flag the log
+
+/** A spend limit from BUDGETS_FILE */
+export interface BudgetRule {
+  id: string;
+  per: BudgetScope;
+  /** Label key whose values are budgeted separately, when `per` is 'label' */
+  label?: string;
+  /** Only budget this session id, label value or agent tag id */
+  match?: string;
+  window: BudgetWindow;
+  unit: BudgetUnit;
+  limit: number;
+  action: BudgetAction;
+  downgradeTo?: string;
+  enabled?: boolean;
+}
+
+/** Spend against a budget for one session, label value or agent tag */
+export interface BudgetUsage {
+  /** Session id, label value or agent tag id; '*' for `per: 'total'` */
+  key: string;
+  spent: number;
+  /** Limit in effect, including overrides */
+  limit: number;
+  /** Whether the limit comes from an override rather than BUDGETS_FILE */
+  overridden: boolean;
+  exceeded: boolean;
+  /** Spend is counted from here: the window start or the last reset, whichever is later */
+  sinceMs: number;
+}
+
+export interface BudgetStatus {
+  rule: BudgetRule;
+  /** Keys with spend in the current window, highest first */
+  usage: BudgetUsage[];
+}
+
+/** Recorded on an interaction that went over a budget */
+export interface BudgetEnforcement {
+  ruleId: string;
+  key: string;
+  action: BudgetAction;
+  unit: BudgetUnit;
+  spent: number;
+  limit: number;
+  /** Model the client asked for, when a downgrade rewrote it */
+  originalModel?: string;
+  /** Model sent upstream after a downgrade */
+  model?: string;
+}
+
+// =============================================================================
+// Redaction Types
+// =============================================================================
+
+export interface RedactionFinding {
+  /** Built-in detector or user rule id, e.g. "aws-access-key" */
+  detector: string;
+  /** Where in the log the values were, e.g. "request.body.messages[3].content[0].text" */
+  location: string;
+  count: number;
+}
+
+/** What was redacted from an interaction before it was written to disk */
+export interface RedactionReport {
+  mode: 'mask' | 'hash';
+  total: number;
+  findings: RedactionFinding[];
+}
+
+// =============================================================================
+// Provider Types
+// =============================================================================
+
+/**
+ * API family of a proxied request, from its path:
+ * - anthropic: Messages API (`/v1/messages`)
+ * - openai: OpenAI-compatible Chat Completions (`/v1/chat/completions`)
+ */
+export type Provider = 'anthropic' | 'openai';
+
+/**
+ * Provider-neutral content block. Anthropic's block shapes are the common form; blocks
+ * with no counterpart (images, documents, redacted thinking) keep their type as `other`.
+ */
+export type NormalizedContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; thinking: string; redacted?: boolean }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: unknown }
+  | { type: 'other'; originalType: string };
+
+export interface NormalizedMessage {
+  role: 'user' | 'assistant';
+  content: NormalizedContentBlock[];
+}
+
+export interface NormalizedTool {
+  name: string;
+  description?: string;
+  input_schema?: unknown;
+}
+
+/** A request body in the provider-neutral form (see providers.ts) */
+export interface NormalizedRequest {
+  provider: Provider;
+  model?: string;
+  /** System prompt parts, including system and developer messages */
+  system: string[];
+  messages: NormalizedMessage[];
+  tools: NormalizedTool[];
+}
+
+/** A response body in the provider-neutral form (see providers.ts) */
+export interface NormalizedResponse {
+  content: NormalizedContentBlock[];
+  stopReason?: string;
+  usage: TokenUsageTotals | null;
+}
+
 // =============================================================================
 // Interaction Log Types
 // =============================================================================
@@ -122,23 +562,48 @@ export interface InteractionLog {
   timestamp: string;
   timestampMs: number;
   method: string;
+  /** Path within the proxy mount, e.g. `/messages` */
   path: string;
   query: string;
+  /** Path sent upstream, e.g. `/v1/messages` (absent on older logs) */
+  upstreamPath?: string;
   durationMs?: number;
   request: {
     headers: Record<string, string>;
     body?: unknown;
+    /** Fields of the body were left out of the logged copy (large spooled bodies) */
+    elided?: boolean;
+    /** Values in the body (or its pre-rewrite original) were redacted */
+    redacted?: boolean;
   };
   response?: {
     status: number;
     headers: Record<string, string>;
     body?: unknown;
     streamChunks?: string[];
+    /** Arrival time of each stream chunk, parallel to `streamChunks` (see StreamTiming) */
+    streamChunkTimesMs?: number[];
+    /** Stream events or content blocks the proxy could not aggregate */
+    streamWarnings?: string[];
     error?: string;
   };
   tokenUsage: TokenUsageSummary;
   agentTag?: AgentTagInfo;
   toolMetrics?: ToolMetricsSummary;
+  session?: SessionInfo;
+  cost?: CostInfo;
+  /** File name of the logged interaction this one replays */
+  replayOf?: string;
+  cassette?: CassetteInfo;
+  fault?: InjectedFault;
+  rewrite?: RequestRewrite;
+  /** Every upstream attempt, in order; the last one produced `response` */
+  attempts?: UpstreamAttempt[];
+  redactions?: RedactionReport;
+  labels?: InteractionLabels;
+  auth?: AuthInfo;
+  budget?: BudgetEnforcement;
+  streamTiming?: StreamTiming;
 }
 
 export type EndpointType = 'messages' | 'other';
@@ -151,6 +616,7 @@ export interface LogSummary {
   method: string;
   path: string;
   endpointType: EndpointType;
+  provider: Provider;
   status?: number;
   durationMs?: number;
   model?: string;
@@ -158,12 +624,55 @@ export interface LogSummary {
   tokenUsage?: TokenUsageSummary;
   agentTag?: AgentTagInfo;
   toolMetrics?: ToolMetricsSummary;
+  /** Names of tools called or returned in this interaction */
+  toolsUsed?: string[];
+  session?: SessionInfo;
+  cost?: CostInfo;
+  replayOf?: string;
+  cassette?: CassetteInfo;
+  fault?: InjectedFault;
+  /** Ids of the rewrite rules applied to the request */
+  rewriteRuleIds?: string[];
+  /** Upstream that produced the response */
+  upstream?: string;
+  /** Number of upstream attempts, when there was more than one */
+  attemptCount?: number;
+  labels?: InteractionLabels;
+  auth?: AuthInfo;
+  budget?: BudgetEnforcement;
+}
+
+// =============================================================================
+// Replay Types
+// =============================================================================
+
+/**
+ * Request body fields that can be changed when replaying a logged interaction.
+ * Names follow the Messages API.
+ */
+export interface ReplayOverrides {
+  model?: string;
+  max_tokens?: number;
+  /** String or array of system content blocks */
+  system?: string | unknown[];
+  tools?: unknown[];
+}
+
+export interface ReplayResult {
+  /** File name of the new interaction log */
+  fileName: string;
+  log: InteractionLog;
 }
 
 // =============================================================================
 // Analytics Types
 // =============================================================================
 
+/**
+ * HTTP status buckets; 'error' matches logs with no status or a proxy error.
+ */
+export type StatusClass = '2xx' | '3xx' | '4xx' | '5xx' | 'error';
+
 /**
  * Filters for querying metrics.
  */
@@ -172,10 +681,30 @@ export interface MetricsFilters {
   startTime?: string;
   /** End timestamp (ISO 8601) */
   endTime?: string;
-  /** Filter by agent tag IDs */
+  /** Filter by agent tag IDs ('untagged' matches logs without a tag) */
   agentTags?: AgentTagId[];
   /** Filter by endpoint type */
   endpointType?: 'messages' | 'other' | 'all';
+  /** Case-insensitive substring match on the request model */
+  model?: string;
+  /** Filter by response status class */
+  statusClasses?: StatusClass[];
+  /** Minimum duration in milliseconds */
+  minDurationMs?: number;
+  /** Maximum duration in milliseconds */
+  maxDurationMs?: number;
+  /** Only logs that used at least one of these tools */
+  toolNames?: string[];
+  /** Only logs carrying every one of these labels (key -> exact value) */
+  labels?: InteractionLabels;
+  /** Token thresholds on the Anthropic-reported totals */
+  minInputTokens?: number;
+  maxInputTokens?: number;
+  minOutputTokens?: number;
+  maxOutputTokens?: number;
+  /** Input + output + cache creation + cache read */
+  minTotalTokens?: number;
+  maxTotalTokens?: number;
 }
 
 /**
@@ -191,6 +720,8 @@ export interface UniqueToolCall {
   agentTag?: string;
   model?: string;
   returnTokens?: number;
+  /** returnTokens priced at the input rate of the log that carried the result */
+  returnCostUsd?: number;
 }
 
 /**
@@ -208,6 +739,11 @@ export interface ToolUsageRow {
   output_thinking_tokens: number;
   agentTag?: string | undefined;
   model?: string | undefined;
+  costUsd?: number | undefined;
+  labels?: InteractionLabels | undefined;
+  /** Key name or hashed identity of the client credential (see AuthInfo) */
+  credential?: string | undefined;
+  streamTiming?: StreamTiming | undefined;
   // MCP vs Regular breakdown
   input_tool_definition_mcp_tokens?: number;
   input_tool_definition_regular_tokens?: number;
@@ -229,16 +765,99 @@ export interface ToolMetricsDataResponse {
   logsWithTools: number;
 }
 
+// =============================================================================
+// Search Types
+// =============================================================================
+
+/** Where a full-text match was found inside an interaction */
+export type SearchField =
+  | 'system'
+  | 'user'
+  | 'assistant'
+  | 'thinking'
+  | 'tool_use'
+  | 'tool_result'
+  | 'output';
+
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+  /** [start, end) character offsets into `text` to highlight */
+  highlights: Array<[number, number]>;
+}
+
+export interface SearchResult {
+  summary: LogSummary;
+  snippets: SearchSnippet[];
+  matchCount: number;
+}
+
+export interface SearchLogsResult {
+  query: string;
+  items: SearchResult[];
+  hasMore: boolean;
+}
+
 // =============================================================================
 // API Types
 // =============================================================================
 
 export interface ListLogsOptions {
   limit: number;
+  /** File name of the last item on the previous page */
   cursor?: string;
+  filters?: MetricsFilters;
 }
 
 export interface ListLogsResult {
   items: LogSummary[];
   nextCursor?: string;
 }
+
+/**
+ * A proxied request that hasn't finished yet. `partialResponse` is the assistant message
+ * aggregated from the stream deltas received so far, in the provider-neutral form;
+ * `requestBody` is only included by `GET /api/inflight/:id`.
+ */
+export interface InFlightInteraction {
+  id: string;
+  timestamp: string;
+  timestampMs: number;
+  method: string;
+  path: string;
+  endpointType: EndpointType;
+  provider: Provider;
+  model?: string;
+  elapsedMs: number;
+  /** Upstream status, once response headers have arrived */
+  status?: number;
+  streaming: boolean;
+  partialResponse?: NormalizedResponse;
+  requestBody?: unknown;
+}
+
+/**
+ * Events pushed over `GET /api/logs/stream`. `patch` carries only the summary fields
+ * that changed, e.g. when the metrics worker attaches token counts or an agent tag.
+ */
+export type LogStreamEvent =
+  | { type: 'created'; summary: LogSummary }
+  | { type: 'patch'; fileName: string; patch: Partial<LogSummary> }
+  | { type: 'deleted'; fileNames: string[] }
+  | { type: 'inflight'; interaction: InFlightInteraction }
+  | { type: 'inflight_end'; id: string };
+
+/**
+ * A named log namespace returned by `GET /api/projects`. `port` is the extra listening
+ * port that routes to the project, when one is configured.
+ */
+export interface ProjectInfo {
+  name: string;
+  isDefault: boolean;
+  port: number | null;
+}
+
+/** Budgets of a project with their current spend, from `GET /api/budgets` */
+export interface BudgetStatusResponse {
+  budgets: BudgetStatus[];
+}
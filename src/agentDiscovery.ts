@@ -0,0 +1,393 @@
+import { createHash } from 'crypto';
+import type {
+  AgentCluster,
+  AgentDiscoveryResult,
+  AgentTagRuleDefinition,
+  InteractionLog,
+  LogSummary,
+} from '../shared/types';
+import { collectSystemPrompt, extractAgentTagSubject, parseAgentTagRules } from './agentTagRules';
+import {
+  AGENT_DISCOVERY_EXCERPT_LENGTH,
+  AGENT_DISCOVERY_LOG_LIMIT,
+  AGENT_DISCOVERY_MINHASH_SIZE,
+  AGENT_DISCOVERY_SAMPLES,
+  AGENT_DISCOVERY_SHINGLE_WORDS,
+  AGENT_DISCOVERY_SIMILARITY,
+} from './constants';
+import { getLog } from './logStore';
+import type { Project } from './projects';
+
+/**
+ * Agent discovery: groups logs into agent types without hand-written rules.
+ *
+ * Each request is fingerprinted by its system prompt and tool set. The prompt is
+ * normalized (case, whitespace, and volatile values such as dates, ids, paths and
+ * numbers), so requests from one agent that only differ in those values share an exact
+ * fingerprint. Distinct fingerprints are then merged when their MinHash signatures
+ * (over word shingles plus tool names) are similar enough, which absorbs prompts that
+ * embed e.g. the current file listing.
+ *
+ * Clusters whose members are untagged become "Unknown agent #N"; naming one turns a
+ * line of its prompt that no other discovered agent shares into a persistent tag rule.
+ */
+
+const FINGERPRINT_LENGTH = 12;
+const UNTAGGED_ID = 'untagged';
+/** Shortest prompt line considered distinctive enough to identify an agent */
+const MIN_RULE_LINE_LENGTH = 20;
+const MAX_RULE_LINE_LENGTH = 120;
+
+const VOLATILE_PATTERNS: Array<[RegExp, string]> = [
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/g, '<uuid>'],
+  [/\b\d{4}-\d{2}-\d{2}(?:[t ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?z?)?\b/g, '<date>'],
+  [/\b[0-9a-f]{8,}\b/g, '<hex>'],
+  [/(?:~|\.{1,2})?(?:\/[\w.@-]+){2,}\/?/g, '<path>'],
+  [/\d+(?:\.\d+)?/g, '<n>'],
+];
+
+/** A distinct normalized system prompt + tool set */
+interface PromptVariant {
+  fingerprint: string;
+  signature: Uint32Array;
+  /** Raw system prompt of the first log seen with this fingerprint */
+  prompt: string;
+  tools: string[];
+}
+
+interface FingerprintedLog {
+  summary: LogSummary;
+  variant: PromptVariant;
+}
+
+interface ClusterBuilder {
+  representative: PromptVariant;
+  variants: Map<string, { variant: PromptVariant; logs: LogSummary[] }>;
+  logs: LogSummary[];
+}
+
+/** Murmur3 finalizer: a cheap, well-mixed 32-bit hash */
+function mix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+function hashString(value: string): number {
+  // FNV-1a
+  let h = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    h ^= value.charCodeAt(index);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+const MINHASH_SEEDS = Array.from({ length: AGENT_DISCOVERY_MINHASH_SIZE }, (_, index) =>
+  mix32(Math.imul(index + 1, 0x9e3779b9))
+);
+
+export function normalizePrompt(prompt: string): string {
+  let normalized = prompt.toLowerCase();
+  for (const [pattern, placeholder] of VOLATILE_PATTERNS) {
+    normalized = normalized.replace(pattern, placeholder);
+  }
+  return normalized.replace(/\s+/g, ' ').trim();
+}
+
+function buildShingles(normalizedPrompt: string, tools: string[]): Set<string> {
+  const shingles = new Set<string>();
+  const words = normalizedPrompt ? normalizedPrompt.split(' ') : [];
+  const width = Math.min(AGENT_DISCOVERY_SHINGLE_WORDS, words.length);
+  for (let index = 0; width > 0 && index + width <= words.length; index++) {
+    shingles.add(words.slice(index, index + width).join(' '));
+  }
+  tools.forEach((tool) => shingles.add(`tool:${tool}`));
+  return shingles;
+}
+
+function minHash(shingles: Set<string>): Uint32Array {
+  const signature = new Uint32Array(AGENT_DISCOVERY_MINHASH_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    const base = hashString(shingle);
+    for (let index = 0; index < signature.length; index++) {
+      const value = mix32(base ^ (MINHASH_SEEDS[index] as number));
+      if (value < (signature[index] as number)) {
+        signature[index] = value;
+      }
+    }
+  }
+  return signature;
+}
+
+/** Estimated Jaccard similarity of the shingle sets behind two signatures */
+function similarity(left: Uint32Array, right: Uint32Array): number {
+  let equal = 0;
+  for (let index = 0; index < left.length; index++) {
+    if (left[index] === right[index]) {
+      equal++;
+    }
+  }
+  return equal / left.length;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function excerpt(prompt: string): string {
+  return prompt.length > AGENT_DISCOVERY_EXCERPT_LENGTH
+    ? `${prompt.slice(0, AGENT_DISCOVERY_EXCERPT_LENGTH)}…`
+    : prompt;
+}
+
+function slugify(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function mostCommon<T>(values: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  let best: T | undefined;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export class AgentDiscovery {
+  /** Fingerprints never change for a log, so they are computed once per file */
+  private fileVariants = new Map<string, string | null>();
+  private variants = new Map<string, PromptVariant>();
+
+  constructor(private project: Project) {}
+
+  fingerprint(log: InteractionLog): PromptVariant | null {
+    const prompt = collectSystemPrompt(log.request.body);
+    const tools = [...new Set(extractAgentTagSubject(log).tools)].sort();
+    if (!prompt && tools.length === 0) {
+      return null;
+    }
+    const normalized = normalizePrompt(prompt);
+    const fingerprint = createHash('sha1')
+      .update(`${normalized}\u0000${tools.join(',')}`)
+      .digest('hex')
+      .slice(0, FINGERPRINT_LENGTH);
+    const existing = this.variants.get(fingerprint);
+    if (existing) {
+      return existing;
+    }
+    const variant: PromptVariant = {
+      fingerprint,
+      signature: minHash(buildShingles(normalized, tools)),
+      prompt,
+      tools,
+    };
+    this.variants.set(fingerprint, variant);
+    return variant;
+  }
+
+  /**
+   * Cluster the most recent logs into discovered agent types, largest first.
+   */
+  async discover(): Promise<AgentDiscoveryResult> {
+    const { scanned, builders } = await this.buildClusters();
+    let unknownCount = 0;
+    const clusters = builders.map((builder) => {
+      const tagIds = builder.logs.map((log) => log.agentTag?.id ?? UNTAGGED_ID);
+      const agentTagId = mostCommon(tagIds) ?? UNTAGGED_ID;
+      const label =
+        agentTagId === UNTAGGED_ID
+          ? `Unknown agent #${++unknownCount}`
+          : builder.logs.find((log) => log.agentTag?.id === agentTagId)?.agentTag?.label ?? agentTagId;
+      return this.describeCluster(builder, agentTagId, label);
+    });
+    return { scanned, clusters };
+  }
+
+  /**
+   * Turn an unknown agent cluster into a tag rule appended to the project's rules file.
+   * Returns the saved rule, or an error message when the cluster can't be named.
+   */
+  async nameCluster(
+    clusterId: string,
+    label: string
+  ): Promise<{ rule: AgentTagRuleDefinition } | { error: string }> {
+    const { builders } = await this.buildClusters();
+    const builder = builders.find((candidate) => candidate.representative.fingerprint === clusterId);
+    if (!builder) {
+      return { error: `Unknown cluster "${clusterId}".` };
+    }
+    if (builder.logs.some((log) => log.agentTag && log.agentTag.id !== UNTAGGED_ID)) {
+      return { error: 'Only clusters of untagged logs can be named.' };
+    }
+
+    const others = builders
+      .filter((candidate) => candidate !== builder)
+      .flatMap((candidate) => [...candidate.variants.values()].map((group) => group.variant));
+    const match = this.buildMatchers(builder, others);
+    if (!match) {
+      return { error: 'The cluster has no stable prompt line or tool to match on.' };
+    }
+
+    const existing = this.project.agentTagRules.current().rules;
+    const baseId = slugify(label) || `agent-${clusterId}`;
+    let id = baseId;
+    for (let suffix = 2; existing.some((rule) => rule.id === id) || id === UNTAGGED_ID; suffix++) {
+      id = `${baseId}-${suffix}`;
+    }
+    const { rules, errors } = parseAgentTagRules([
+      ...existing,
+      { id, label, description: `Discovered from ${builder.logs.length} ${builder.logs.length === 1 ? 'log' : 'logs'}.`, match },
+    ]);
+    const rule = rules[rules.length - 1];
+    if (errors.length > 0 || !rule) {
+      return { error: errors.join(' ') };
+    }
+    await this.project.agentTagRules.save(rules);
+    return { rule };
+  }
+
+  private async buildClusters(): Promise<{ scanned: number; builders: ClusterBuilder[] }> {
+    const summaries = (await this.project.logIndex.all()).slice(0, AGENT_DISCOVERY_LOG_LIMIT);
+    const fingerprinted: FingerprintedLog[] = [];
+    const seen = new Set<string>();
+
+    for (const summary of summaries) {
+      seen.add(summary.fileName);
+      let fingerprint = this.fileVariants.get(summary.fileName);
+      if (fingerprint === undefined) {
+        const log = await getLog(this.project, summary.fileName);
+        fingerprint = log ? this.fingerprint(log)?.fingerprint ?? null : null;
+        this.fileVariants.set(summary.fileName, fingerprint);
+      }
+      const variant = fingerprint ? this.variants.get(fingerprint) : undefined;
+      if (variant) {
+        fingerprinted.push({ summary, variant });
+      }
+    }
+
+    // Forget logs that fell out of the window (and prompts no remaining log uses).
+    for (const fileName of this.fileVariants.keys()) {
+      if (!seen.has(fileName)) {
+        this.fileVariants.delete(fileName);
+      }
+    }
+    const liveFingerprints = new Set(fingerprinted.map((entry) => entry.variant.fingerprint));
+    for (const fingerprint of this.variants.keys()) {
+      if (!liveFingerprints.has(fingerprint)) {
+        this.variants.delete(fingerprint);
+      }
+    }
+
+    const groups = new Map<string, { variant: PromptVariant; logs: LogSummary[] }>();
+    for (const { summary, variant } of fingerprinted) {
+      const group = groups.get(variant.fingerprint);
+      if (group) {
+        group.logs.push(summary);
+      } else {
+        groups.set(variant.fingerprint, { variant, logs: [summary] });
+      }
+    }
+
+    // Greedy merge, most common fingerprint first, so it becomes the representative.
+    const builders: ClusterBuilder[] = [];
+    const ordered = [...groups.values()].sort((left, right) => right.logs.length - left.logs.length);
+    for (const group of ordered) {
+      const builder = builders.find(
+        (candidate) =>
+          similarity(candidate.representative.signature, group.variant.signature) >=
+          AGENT_DISCOVERY_SIMILARITY
+      );
+      if (builder) {
+        builder.variants.set(group.variant.fingerprint, group);
+        builder.logs.push(...group.logs);
+      } else {
+        builders.push({
+          representative: group.variant,
+          variants: new Map([[group.variant.fingerprint, group]]),
+          logs: [...group.logs],
+        });
+      }
+    }
+    builders.sort((left, right) => right.logs.length - left.logs.length);
+    return { scanned: fingerprinted.length, builders };
+  }
+
+  private describeCluster(builder: ClusterBuilder, agentTagId: string, label: string): AgentCluster {
+    const logs = [...builder.logs].sort((left, right) => right.timestampMs - left.timestampMs);
+    const variants = [...builder.variants.values()].sort(
+      (left, right) => right.logs.length - left.logs.length
+    );
+    const models = [
+      ...new Set(logs.map((log) => log.model).filter((model): model is string => Boolean(model))),
+    ];
+    return {
+      id: builder.representative.fingerprint,
+      label,
+      agentTagId,
+      logCount: logs.length,
+      variantCount: variants.length,
+      tools: builder.representative.tools,
+      models,
+      samplePrompts: variants
+        .slice(0, AGENT_DISCOVERY_SAMPLES)
+        .map((group) => excerpt(group.variant.prompt))
+        .filter((prompt) => prompt.length > 0),
+      sampleFileNames: logs.slice(0, AGENT_DISCOVERY_SAMPLES).map((log) => log.fileName),
+      firstSeen: logs[logs.length - 1]?.timestamp ?? '',
+      lastSeen: logs[0]?.timestamp ?? '',
+    };
+  }
+
+  /**
+   * Matchers for a rule identifying the cluster: the longest line of its prompt that
+   * every variant contains and no other cluster's prompt does, else a tool only it
+   * offers, else the common line the fewest other clusters share.
+   */
+  private buildMatchers(
+    builder: ClusterBuilder,
+    others: PromptVariant[]
+  ): AgentTagRuleDefinition['match'] | null {
+    const variants = [...builder.variants.values()].map((group) => group.variant);
+    const variantPrompts = variants.map((variant) => variant.prompt.toLowerCase());
+    const otherPrompts = others.map((variant) => variant.prompt.toLowerCase());
+    const lines = builder.representative.prompt
+      .toLowerCase()
+      .split('\n')
+      .map((line) => line.trim().slice(0, MAX_RULE_LINE_LENGTH).trim())
+      // Lines with volatile values (dates, paths, ...) differ between requests.
+      .filter(
+        (line) =>
+          line.length >= MIN_RULE_LINE_LENGTH && normalizePrompt(line) === line.replace(/\s+/g, ' ')
+      )
+      .filter((line) => variantPrompts.every((prompt) => prompt.includes(line)))
+      .map((line) => ({ line, shared: otherPrompts.filter((prompt) => prompt.includes(line)).length }))
+      .sort((left, right) => left.shared - right.shared || right.line.length - left.line.length);
+
+    const best = lines[0];
+    if (best && best.shared === 0) {
+      return { systemPrompt: [escapeRegExp(best.line)] };
+    }
+    const tool = builder.representative.tools.find(
+      (candidate) =>
+        variants.every((variant) => variant.tools.includes(candidate)) &&
+        !others.some((variant) => variant.tools.includes(candidate))
+    );
+    if (tool) {
+      return { tools: [`^${escapeRegExp(tool)}$`] };
+    }
+    return best ? { systemPrompt: [escapeRegExp(best.line)] } : null;
+  }
+}
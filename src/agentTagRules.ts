@@ -0,0 +1,577 @@
+import { createHash } from 'crypto';
+import { existsSync, promises as fsPromises, readFileSync, unwatchFile, watchFile, type Stats } from 'fs';
+import path from 'path';
+import type {
+  AgentTagInfo,
+  AgentTagMatchers,
+  AgentTagRuleDefinition,
+  AgentTagRulesState,
+  AgentTagTheme,
+  InteractionLog,
+} from '../shared/types';
+import { AGENT_TAG_RULES_POLL_MS } from './constants';
+import { logger } from './logger';
+import { normalizeRequestBody, resolveProvider } from './providers';
+
+/**
+ * Agent tag rules: which Claude Code agent (or custom agent) sent an interaction.
+ *
+ * Rules live in AGENT_TAG_RULES_FILE, a JSON array of `AgentTagRuleDefinition`s tried
+ * in order; the first rule whose matchers all match tags the interaction. Until the
+ * file exists the built-in rules below are used, and saving from the UI creates it.
+ * The file is polled, so hand edits take effect without a restart. Each rule set has
+ * a version hash that is stamped on the tags it produces, which lets the metrics
+ * worker re-tag logs after the rules change.
+ */
+
+const RESERVED_TAG_ID = 'untagged';
+
+const VERSION_LENGTH = 12;
+
+const DEFAULT_THEME: AgentTagTheme = {
+  text: '#0f172a',
+  background: 'rgba(15, 23, 42, 0.08)',
+  border: 'rgba(15, 23, 42, 0.2)',
+};
+
+export const DEFAULT_AGENT_TAG_RULES: AgentTagRuleDefinition[] = [
+  {
+    id: 'topic-labeler',
+    label: 'Topic Labeler',
+    description: 'Detects whether a message starts a new conversation and extracts a title.',
+    theme: {
+      text: '#7e22ce',
+      background: 'rgba(147, 51, 234, 0.12)',
+      border: 'rgba(147, 51, 234, 0.3)',
+    },
+    match: { systemPrompt: ['new conversation topic', 'extract a 2-3 word title'] },
+  },
+  {
+    id: 'conversation-summarizer',
+    label: 'Conversation Summarizer',
+    description: 'Writes short titles or summaries for full transcripts.',
+    theme: {
+      text: '#4c1d95',
+      background: 'rgba(99, 102, 241, 0.12)',
+      border: 'rgba(99, 102, 241, 0.3)',
+    },
+    match: { systemPrompt: ['summarize this coding conversation', 'write a .*word title'] },
+  },
+  {
+    id: 'file-search',
+    label: 'File Search Specialist',
+    description: 'Handles glob/grep/file-read requests for the primary agent.',
+    theme: {
+      text: '#b45309',
+      background: 'rgba(249, 115, 22, 0.16)',
+      border: 'rgba(249, 115, 22, 0.35)',
+    },
+    match: { systemPrompt: ['file search specialist'] },
+  },
+  {
+    id: 'framework-detector',
+    label: 'Framework Detector',
+    description: 'Identifies languages plus frameworks/libraries from snippets.',
+    theme: {
+      text: '#047857',
+      background: 'rgba(16, 185, 129, 0.15)',
+      border: 'rgba(16, 185, 129, 0.35)',
+    },
+    match: { systemPrompt: ['framework and library detection assistant'] },
+  },
+  {
+    id: 'language-detector',
+    label: 'Language Detector',
+    description: 'Determines conversation language or VS Code diagnostics.',
+    theme: {
+      text: '#0369a1',
+      background: 'rgba(14, 165, 233, 0.15)',
+      border: 'rgba(14, 165, 233, 0.35)',
+    },
+    match: { systemPrompt: ['language diagnostics', 'language detection', 'language_name'] },
+  },
+  {
+    id: 'file-path-extractor',
+    label: 'File Path Extractor',
+    description: 'Extracts file paths from bash commands.',
+    theme: {
+      text: '#be123c',
+      background: 'rgba(225, 29, 72, 0.15)',
+      border: 'rgba(225, 29, 72, 0.35)',
+    },
+    match: { systemPrompt: ['extract any file paths that this command reads or modifies'] },
+  },
+  {
+    id: 'bash-command-processor',
+    label: 'Bash Command Processor',
+    description: 'Processes and validates bash commands.',
+    theme: {
+      text: '#a16207',
+      background: 'rgba(234, 179, 8, 0.15)',
+      border: 'rgba(234, 179, 8, 0.35)',
+    },
+    match: { systemPrompt: ['your task is to process bash commands'] },
+  },
+  {
+    id: 'primary',
+    label: 'Primary Agent',
+    description: 'Main CLI agent coordinating user requests.',
+    theme: {
+      text: '#1d4ed8',
+      background: 'rgba(59, 130, 246, 0.14)',
+      border: 'rgba(37, 99, 235, 0.35)',
+    },
+    match: {
+      systemPrompt: [
+        'you are an interactive (cli tool|agent) that helps users with software engineering tasks\\.\\s*use the instructions below and the tools',
+      ],
+    },
+  },
+  {
+    id: 'bug-triage',
+    label: 'Bug Triage Agent',
+    description: 'Specialized agent for reviewing and triaging GitHub issues.',
+    theme: {
+      text: '#c026d3',
+      background: 'rgba(192, 38, 211, 0.15)',
+      border: 'rgba(192, 38, 211, 0.35)',
+    },
+    match: { systemPrompt: ['specialized bug triage agent', 'bug triage agent'] },
+  },
+  {
+    id: 'planner',
+    label: 'Planning Agent',
+    description: 'Software architect and planning specialist in read-only mode.',
+    theme: {
+      text: '#0891b2',
+      background: 'rgba(8, 145, 178, 0.15)',
+      border: 'rgba(8, 145, 178, 0.35)',
+    },
+    match: {
+      systemPrompt: [
+        'software architect and planning specialist',
+        'READ-ONLY planning task',
+        'READ-ONLY MODE.*NO FILE MODIFICATIONS',
+      ],
+    },
+  },
+  {
+    id: 'git-history-analyzer',
+    label: 'Git History Analyzer',
+    description: 'Analyzes git history to identify frequently modified files.',
+    theme: {
+      text: '#6d28d9',
+      background: 'rgba(109, 40, 217, 0.15)',
+      border: 'rgba(109, 40, 217, 0.35)',
+    },
+    match: {
+      systemPrompt: [
+        'expert at analyzing git history',
+        'given a list of files and their modification counts',
+      ],
+    },
+  },
+];
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+
+export interface ParsedAgentTagRules {
+  rules: AgentTagRuleDefinition[];
+  errors: string[];
+}
+
+function parsePatternList(value: unknown, label: string, errors: string[]): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string')) {
+    errors.push(`${label} must be an array of strings.`);
+    return undefined;
+  }
+  const patterns = (value as string[]).filter((pattern) => pattern.trim().length > 0);
+  for (const pattern of patterns) {
+    try {
+      new RegExp(pattern, 'i');
+    } catch (error) {
+      errors.push(`${label}: invalid pattern ${JSON.stringify(pattern)} (${(error as Error).message}).`);
+    }
+  }
+  return patterns.length > 0 ? patterns : undefined;
+}
+
+function parseMatchers(value: unknown, label: string, errors: string[]): AgentTagMatchers {
+  const matchers: AgentTagMatchers = {};
+  if (!isPlainRecord(value)) {
+    errors.push(`${label}.match must be an object.`);
+    return matchers;
+  }
+
+  for (const key of ['systemPrompt', 'tools', 'model'] as const) {
+    const patterns = parsePatternList(value[key], `${label}.match.${key}`, errors);
+    if (patterns) {
+      matchers[key] = patterns;
+    }
+  }
+
+  if (value.headers !== undefined) {
+    if (!isPlainRecord(value.headers)) {
+      errors.push(`${label}.match.headers must be an object of header name to pattern.`);
+    } else {
+      const headers: Record<string, string> = {};
+      for (const [name, pattern] of Object.entries(value.headers)) {
+        const parsed = parsePatternList([pattern], `${label}.match.headers.${name}`, errors);
+        if (parsed?.[0]) {
+          headers[name.toLowerCase()] = parsed[0];
+        }
+      }
+      if (Object.keys(headers).length > 0) {
+        matchers.headers = headers;
+      }
+    }
+  }
+
+  if (Object.keys(matchers).length === 0) {
+    errors.push(`${label} needs at least one systemPrompt, tools, model or headers pattern.`);
+  }
+  return matchers;
+}
+
+function parseTheme(value: unknown, label: string, errors: string[]): AgentTagTheme {
+  if (value === undefined) {
+    return DEFAULT_THEME;
+  }
+  if (
+    !isPlainRecord(value) ||
+    typeof value.text !== 'string' ||
+    typeof value.background !== 'string' ||
+    typeof value.border !== 'string'
+  ) {
+    errors.push(`${label}.theme must have text, background and border colors.`);
+    return DEFAULT_THEME;
+  }
+  return { text: value.text, background: value.background, border: value.border };
+}
+
+/**
+ * Validate rule definitions from the rules file or the UI editor.
+ */
+export function parseAgentTagRules(value: unknown): ParsedAgentTagRules {
+  if (!Array.isArray(value)) {
+    return { rules: [], errors: ['Agent tag rules must be an array.'] };
+  }
+
+  const rules: AgentTagRuleDefinition[] = [];
+  const errors: string[] = [];
+  const seenIds = new Set<string>();
+
+  value.forEach((entry, index) => {
+    const label = `rules[${index}]`;
+    if (!isPlainRecord(entry)) {
+      errors.push(`${label} must be an object.`);
+      return;
+    }
+    const ruleErrors: string[] = [];
+    const id = typeof entry.id === 'string' ? entry.id.trim() : '';
+    if (!id) {
+      ruleErrors.push(`${label} needs an id.`);
+    } else if (id === RESERVED_TAG_ID) {
+      ruleErrors.push(`${label}: "${RESERVED_TAG_ID}" is reserved for logs no rule matches.`);
+    } else if (seenIds.has(id)) {
+      ruleErrors.push(`${label}: duplicate id "${id}".`);
+    }
+    seenIds.add(id);
+
+    const ruleLabel = typeof entry.label === 'string' && entry.label.trim() ? entry.label.trim() : id;
+    const theme = parseTheme(entry.theme, label, ruleErrors);
+    const match = parseMatchers(entry.match, label, ruleErrors);
+
+    if (ruleErrors.length > 0) {
+      errors.push(...ruleErrors);
+      return;
+    }
+    const rule: AgentTagRuleDefinition = { id, label: ruleLabel, theme, match };
+    if (typeof entry.description === 'string' && entry.description.trim()) {
+      rule.description = entry.description.trim();
+    }
+    rules.push(rule);
+  });
+
+  return { rules, errors };
+}
+
+// -----------------------------------------------------------------------------
+// Matching
+// -----------------------------------------------------------------------------
+
+/** The parts of an interaction that rules match on */
+export interface AgentTagSubject {
+  systemPrompt: string;
+  tools: string[];
+  model: string;
+  headers: Record<string, string>;
+}
+
+function coerceRecord(value: unknown): Record<string, unknown> | null {
+  if (isPlainRecord(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value) as unknown;
+      if (isPlainRecord(parsed)) {
+        return parsed;
+      }
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function extractTextChunks(value: unknown, depth = 0): string[] {
+  if (depth > 3 || value === null || value === undefined) {
+    return [];
+  }
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((entry) => extractTextChunks(entry, depth + 1));
+  }
+  if (isPlainRecord(value)) {
+    const chunks: string[] = [];
+    if (typeof value.text === 'string') {
+      chunks.push(value.text);
+    }
+    if (Object.prototype.hasOwnProperty.call(value, 'content')) {
+      chunks.push(...extractTextChunks(value.content, depth + 1));
+    }
+    return chunks;
+  }
+  return [];
+}
+
+/**
+ * System prompt text of a request body (the `system` field plus any system-role messages).
+ */
+export function collectSystemPrompt(body: unknown): string {
+  const record = coerceRecord(body);
+  if (!record) {
+    return typeof body === 'string' ? body : '';
+  }
+
+  const segments: string[] = [];
+  if (record.system !== undefined) {
+    segments.push(...extractTextChunks(record.system));
+  }
+
+  if (Array.isArray(record.messages)) {
+    record.messages.forEach((message) => {
+      if (!isPlainRecord(message)) {
+        return;
+      }
+      // OpenAI Chat Completions carries the system prompt as system/developer messages
+      const role = typeof message.role === 'string' ? message.role.toLowerCase() : '';
+      if (role === 'system' || role === 'developer') {
+        segments.push(...extractTextChunks(message.content));
+      }
+    });
+  }
+
+  return segments
+    .map((segment) => segment?.trim())
+    .filter((segment): segment is string => Boolean(segment && segment.length > 0))
+    .join('\n');
+}
+
+export function extractAgentTagSubject(log: InteractionLog): AgentTagSubject {
+  const body = coerceRecord(log.request.body);
+  const tools = (normalizeRequestBody(resolveProvider(log.path), body)?.tools ?? []).map((tool) => tool.name);
+  return {
+    systemPrompt: collectSystemPrompt(log.request.body).toLowerCase(),
+    tools,
+    model: typeof body?.model === 'string' ? body.model : '',
+    headers: log.request.headers,
+  };
+}
+
+interface CompiledRule {
+  definition: AgentTagRuleDefinition;
+  systemPrompt: RegExp[];
+  tools: RegExp[];
+  model: RegExp[];
+  headers: Array<[string, RegExp]>;
+}
+
+function compilePatterns(patterns: string[] | undefined): RegExp[] {
+  return (patterns ?? []).map((pattern) => new RegExp(pattern, 'i'));
+}
+
+export class CompiledAgentTagRules {
+  readonly version: string;
+  private compiled: CompiledRule[];
+
+  /** Definitions must have passed parseAgentTagRules */
+  constructor(readonly rules: AgentTagRuleDefinition[]) {
+    this.version = createHash('sha1')
+      .update(JSON.stringify(rules))
+      .digest('hex')
+      .slice(0, VERSION_LENGTH);
+    this.compiled = rules.map((definition) => ({
+      definition,
+      systemPrompt: compilePatterns(definition.match.systemPrompt),
+      tools: compilePatterns(definition.match.tools),
+      model: compilePatterns(definition.match.model),
+      headers: Object.entries(definition.match.headers ?? {}).map(
+        ([name, pattern]): [string, RegExp] => [name, new RegExp(pattern, 'i')]
+      ),
+    }));
+  }
+
+  /**
+   * Tag for an interaction, or null when no rule matches (untagged).
+   */
+  match(subject: AgentTagSubject): AgentTagInfo | null {
+    const rule = this.compiled.find((candidate) => this.matchesRule(candidate, subject));
+    if (!rule) {
+      return null;
+    }
+    const { id, label, description, theme } = rule.definition;
+    const info: AgentTagInfo = { id, label, theme, rulesVersion: this.version };
+    if (description) {
+      info.description = description;
+    }
+    return info;
+  }
+
+  private matchesRule(rule: CompiledRule, subject: AgentTagSubject): boolean {
+    if (rule.systemPrompt.length > 0 && !rule.systemPrompt.some((re) => re.test(subject.systemPrompt))) {
+      return false;
+    }
+    if (
+      rule.tools.length > 0 &&
+      !rule.tools.some((re) => subject.tools.some((tool) => re.test(tool)))
+    ) {
+      return false;
+    }
+    if (rule.model.length > 0 && !rule.model.some((re) => re.test(subject.model))) {
+      return false;
+    }
+    return rule.headers.every(([name, re]) => {
+      const value = subject.headers[name];
+      return typeof value === 'string' && re.test(value);
+    });
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Rules file
+// -----------------------------------------------------------------------------
+
+export class AgentTagRuleStore {
+  private rules: CompiledAgentTagRules | null = null;
+  private source: AgentTagRulesState['source'] = 'built-in';
+  private watcher: ((current: Stats, previous: Stats) => void) | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Rules currently in effect.
+   */
+  current(): CompiledAgentTagRules {
+    if (!this.rules) {
+      this.reload();
+    }
+    return this.rules as CompiledAgentTagRules;
+  }
+
+  getState(): AgentTagRulesState {
+    const rules = this.current();
+    return {
+      rules: rules.rules,
+      version: rules.version,
+      source: this.source,
+      filePath: this.filePath,
+    };
+  }
+
+  /**
+   * Validate and write new rules to the rules file, then apply them.
+   */
+  async save(definitions: AgentTagRuleDefinition[]): Promise<AgentTagRulesState> {
+    await fsPromises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fsPromises.writeFile(this.filePath, `${JSON.stringify(definitions, null, 2)}\n`, 'utf8');
+    this.reload();
+    return this.getState();
+  }
+
+  /**
+   * Poll the rules file and reload it when it changes.
+   */
+  startWatching(): void {
+    if (this.watcher) {
+      return;
+    }
+    this.watcher = (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs) {
+        logger.info({ filePath: this.filePath }, 'AgentTagRules: Rules file changed, reloading');
+        this.reload();
+      }
+    };
+    watchFile(this.filePath, { interval: AGENT_TAG_RULES_POLL_MS }, this.watcher);
+  }
+
+  stopWatching(): void {
+    if (this.watcher) {
+      // Two projects may share a rules file; only remove this store's listener.
+      unwatchFile(this.filePath, this.watcher);
+      this.watcher = null;
+    }
+  }
+
+  /**
+   * Load the rules file. A missing file means the built-in rules; an unreadable one
+   * keeps whatever rules were in effect. Invalid rules are skipped with a warning.
+   */
+  private reload(): void {
+    if (!existsSync(this.filePath)) {
+      this.apply(DEFAULT_AGENT_TAG_RULES, 'built-in');
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(this.filePath, 'utf8'));
+    } catch (error) {
+      logger.warn({ err: error, filePath: this.filePath }, 'AgentTagRules: Failed to read rules file');
+      if (!this.rules) {
+        this.apply(DEFAULT_AGENT_TAG_RULES, 'built-in');
+      }
+      return;
+    }
+
+    const { rules, errors } = parseAgentTagRules(parsed);
+    if (errors.length > 0) {
+      logger.warn({ filePath: this.filePath, errors }, 'AgentTagRules: Ignoring invalid rules');
+    }
+    this.apply(rules, 'file');
+  }
+
+  private apply(definitions: AgentTagRuleDefinition[], source: AgentTagRulesState['source']): void {
+    const previousVersion = this.rules?.version;
+    this.rules = new CompiledAgentTagRules(definitions);
+    this.source = source;
+    if (previousVersion !== this.rules.version) {
+      logger.info(
+        { source, rules: definitions.length, version: this.rules.version },
+        'AgentTagRules: Loaded agent tag rules'
+      );
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import type { AuthInfo, Provider } from '../shared/types';
+import { appConfig } from './config';
+import { AUTH_IDENTITY_LENGTH } from './constants';
+import { logger } from './logger';
+
+/**
+ * Upstream credentials for proxied requests, chosen by `AUTH_MODE`:
+ *
+ *  - server-key: every request is sent with UPSTREAM_API_KEY; client credentials are dropped.
+ *  - passthrough: the client's `x-api-key` or `Authorization: Bearer` token (e.g. a
+ *    subscription OAuth token) is forwarded as is.
+ *  - mapped: the client presents a Snoopty key that `AUTH_KEY_MAP_FILE` maps to an
+ *    upstream key; unknown keys are rejected with a 401. The file is a JSON object
+ *    keyed by client key, with either the upstream key or `{ "apiKey", "name" }`:
+ *
+ *      { "snoopty-alice-7f3a": { "apiKey": "sk-ant-...", "name": "alice" }, "snoopty-ci": "sk-ant-..." }
+ *
+ * Upstream keys go out as `x-api-key`, or as `Authorization: Bearer` on OpenAI-compatible
+ * /chat/completions requests.
+ *
+ * UI replays carry no client credential (logged credentials are truncated), so they
+ * are sent with UPSTREAM_API_KEY in every mode. Every log records a short hash of the
+ * client credential, never the credential itself.
+ */
+
+interface ClientCredential {
+  scheme: 'api-key' | 'bearer';
+  value: string;
+}
+
+interface MappedKey {
+  apiKey: string;
+  name?: string;
+}
+
+export type UpstreamAuth =
+  | { info: AuthInfo; headers: Record<string, string> }
+  | { info: AuthInfo; error: string };
+
+const CREDENTIAL_HEADERS = new Set(['x-api-key', 'authorization']);
+
+const BEARER_PREFIX = /^bearer\s+/i;
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Headers that carry client credentials; the proxy never forwards them directly.
+ */
+export function isCredentialHeader(name: string): boolean {
+  return CREDENTIAL_HEADERS.has(name.toLowerCase());
+}
+
+function headerValue(headers: Record<string, string | string[] | undefined>, name: string): string | null {
+  const value = headers[name];
+  const joined = Array.isArray(value) ? value[0] : value;
+  return joined?.trim() || null;
+}
+
+function extractClientCredential(
+  headers: Record<string, string | string[] | undefined>
+): ClientCredential | null {
+  const apiKey = headerValue(headers, 'x-api-key');
+  if (apiKey) {
+    return { scheme: 'api-key', value: apiKey };
+  }
+  const authorization = headerValue(headers, 'authorization');
+  if (authorization && BEARER_PREFIX.test(authorization)) {
+    const token = authorization.replace(BEARER_PREFIX, '').trim();
+    return token ? { scheme: 'bearer', value: token } : null;
+  }
+  return null;
+}
+
+function credentialIdentity(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, AUTH_IDENTITY_LENGTH);
+}
+
+function loadKeyMap(filePath: string): Map<string, MappedKey> {
+  const keys = new Map<string, MappedKey>();
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as unknown;
+    if (!isPlainRecord(parsed)) {
+      throw new Error('expected an object keyed by client key');
+    }
+    Object.entries(parsed).forEach(([clientKey, entry], index) => {
+      if (typeof entry === 'string' && entry) {
+        keys.set(clientKey, { apiKey: entry });
+      } else if (isPlainRecord(entry) && typeof entry.apiKey === 'string' && entry.apiKey) {
+        keys.set(clientKey, typeof entry.name === 'string' ? { apiKey: entry.apiKey, name: entry.name } : { apiKey: entry.apiKey });
+      } else {
+        // Log the position, not the key: the file holds secrets.
+        logger.warn({ filePath, index }, 'Auth: Ignoring key map entry without an upstream apiKey');
+      }
+    });
+    logger.info({ filePath, keys: keys.size }, 'Auth: Loaded key map');
+  } catch (error) {
+    logger.warn({ err: error, filePath }, 'Auth: Failed to load key map, rejecting all client keys');
+  }
+  return keys;
+}
+
+let keyMap: Map<string, MappedKey> | null = null;
+
+function getKeyMap(): Map<string, MappedKey> {
+  if (!keyMap) {
+    keyMap = appConfig.authKeyMapFile ? loadKeyMap(appConfig.authKeyMapFile) : new Map();
+  }
+  return keyMap;
+}
+
+/**
+ * Headers carrying an upstream key: `x-api-key` for Anthropic, a bearer token for
+ * OpenAI-compatible upstreams.
+ */
+function keyHeaders(provider: Provider, key: string): Record<string, string> {
+  return provider === 'openai' ? { authorization: `Bearer ${key}` } : { 'x-api-key': key };
+}
+
+function serverKeyHeaders(provider: Provider): Record<string, string> {
+  return appConfig.upstreamApiKey ? keyHeaders(provider, appConfig.upstreamApiKey) : {};
+}
+
+/**
+ * Pick the credential headers to send upstream for a request, and describe which
+ * credential was used for the log.
+ */
+export function resolveUpstreamAuth(
+  headers: Record<string, string | string[] | undefined>,
+  options: { replay: boolean; provider: Provider }
+): UpstreamAuth {
+  const mode = appConfig.authMode;
+  const credential = extractClientCredential(headers);
+  const info: AuthInfo = {
+    mode,
+    clientScheme: credential?.scheme ?? 'none',
+    upstream: 'none',
+  };
+  if (credential) {
+    info.identity = credentialIdentity(credential.value);
+  }
+
+  if (mode === 'server-key' || options.replay) {
+    const upstreamHeaders = serverKeyHeaders(options.provider);
+    if (Object.keys(upstreamHeaders).length > 0) {
+      info.upstream = 'server-key';
+    }
+    return { info, headers: upstreamHeaders };
+  }
+
+  if (!credential) {
+    // Passthrough lets upstream reject the request; mapped mode never forwards it.
+    return mode === 'mapped'
+      ? { info, error: 'Missing Snoopty client key.' }
+      : { info, headers: {} };
+  }
+
+  if (mode === 'passthrough') {
+    info.upstream = 'client';
+    return {
+      info,
+      headers:
+        credential.scheme === 'api-key'
+          ? { 'x-api-key': credential.value }
+          : { authorization: `Bearer ${credential.value}` },
+    };
+  }
+
+  const mapped = getKeyMap().get(credential.value);
+  if (!mapped) {
+    return { info, error: 'Unknown Snoopty client key.' };
+  }
+  info.upstream = 'mapped';
+  if (mapped.name) {
+    info.name = mapped.name;
+  }
+  return { info, headers: keyHeaders(options.provider, mapped.apiKey) };
+}
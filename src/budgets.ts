@@ -0,0 +1,501 @@
+import { readFileSync, promises as fs } from 'fs';
+import path from 'path';
+import type {
+  BudgetAction,
+  BudgetEnforcement,
+  BudgetRule,
+  BudgetScope,
+  BudgetStatus,
+  BudgetUnit,
+  BudgetUsage,
+  BudgetWindow,
+  InteractionLog,
+  LogSummary,
+} from '../shared/types';
+import { extractAgentTagSubject } from './agentTagRules';
+import { appConfig } from './config';
+import { BUDGET_STATUS_MAX_KEYS } from './constants';
+import { extractModel } from './logIndex';
+import { logger } from './logger';
+import { computeCost, resolveModelPricing } from './pricing';
+import type { Project } from './projects';
+import { isConversationPath } from './providers';
+
+/**
+ * Spend guardrails for runaway agents.
+ *
+ * `BUDGETS_FILE` points at a JSON array of budgets, each counted separately in every
+ * project, e.g.
+ *
+ *   [
+ *     { "id": "daily", "limit": 50 },
+ *     { "id": "per-session", "per": "session", "window": "all", "unit": "tokens", "limit": 5000000 },
+ *     { "id": "checkout", "per": "label", "label": "project", "match": "checkout", "limit": 10,
+ *       "action": "downgrade", "downgradeTo": "claude-haiku-4-5" },
+ *     { "id": "reviewers", "per": "agentTag", "limit": 5, "action": "warn" }
+ *   ]
+ *
+ * Defaults: `per` total, `window` day (since local midnight), `unit` usd, `action`
+ * block. Spend is computed from the `system_totals` the provider reported on logged
+ * interactions, priced with the project's pricing table. Before a /v1/messages or
+ * /v1/chat/completions request is forwarded, every budget it falls under is checked;
+ * when one is used up the most severe action wins (block, then downgrade, then warn)
+ * and is recorded on the log.
+ *
+ * Sessions and agent tags of logged interactions are assigned by the metrics worker,
+ * so their spend counts once a log has been analyzed. Resets and limit overrides made
+ * through the API are appended to `.snoopty-budgets.jsonl` in the project's log
+ * directory so they survive restarts.
+ */
+
+const BUDGET_SCOPES: BudgetScope[] = ['total', 'session', 'label', 'agentTag'];
+const BUDGET_WINDOWS: BudgetWindow[] = ['day', 'all'];
+const BUDGET_UNITS: BudgetUnit[] = ['usd', 'tokens'];
+const BUDGET_ACTIONS: BudgetAction[] = ['block', 'downgrade', 'warn'];
+
+/** Most severe first */
+const ACTION_SEVERITY: BudgetAction[] = ['block', 'downgrade', 'warn'];
+
+/** Key of the single counter of a `per: 'total'` budget */
+const TOTAL_KEY = '*';
+
+const STATE_FILE_NAME = '.snoopty-budgets.jsonl';
+
+/** A reset or limit override; `key` null applies to every key of the budget */
+interface StateLine {
+  op: 'reset' | 'override';
+  ruleId: string;
+  key: string | null;
+  /** override: the new limit, or null to restore the configured one */
+  limit?: number | null;
+  atMs: number;
+}
+
+interface Spend {
+  tokens: number;
+  usd: number;
+}
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function pickChoice<T extends string>(value: unknown, choices: T[], fallback: T): T | null {
+  if (value === undefined) {
+    return fallback;
+  }
+  return choices.find((choice) => choice === value) ?? null;
+}
+
+/**
+ * Parse one budget. Returns an error message for invalid entries.
+ */
+function parseBudgetRule(value: unknown): BudgetRule | string {
+  if (!isPlainRecord(value)) {
+    return 'expected an object';
+  }
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    return 'id must be a non-empty string';
+  }
+  const per = pickChoice(value.per, BUDGET_SCOPES, 'total');
+  const window = pickChoice(value.window, BUDGET_WINDOWS, 'day');
+  const unit = pickChoice(value.unit, BUDGET_UNITS, 'usd');
+  const action = pickChoice(value.action, BUDGET_ACTIONS, 'block');
+  if (!per) {
+    return `per must be one of ${BUDGET_SCOPES.join(', ')}`;
+  }
+  if (!window) {
+    return `window must be one of ${BUDGET_WINDOWS.join(', ')}`;
+  }
+  if (!unit) {
+    return `unit must be one of ${BUDGET_UNITS.join(', ')}`;
+  }
+  if (!action) {
+    return `action must be one of ${BUDGET_ACTIONS.join(', ')}`;
+  }
+  if (typeof value.limit !== 'number' || !Number.isFinite(value.limit) || value.limit < 0) {
+    return 'limit must be a non-negative number';
+  }
+  for (const field of ['label', 'match', 'downgradeTo'] as const) {
+    if (value[field] !== undefined && (typeof value[field] !== 'string' || value[field] === '')) {
+      return `${field} must be a non-empty string`;
+    }
+  }
+  if (per === 'label' && value.label === undefined) {
+    return 'label is required when per is "label"';
+  }
+  if (action === 'downgrade' && value.downgradeTo === undefined) {
+    return 'downgradeTo is required when action is "downgrade"';
+  }
+
+  const rule: BudgetRule = { id: value.id, per, window, unit, limit: value.limit, action };
+  if (typeof value.label === 'string') {
+    rule.label = value.label;
+  }
+  if (typeof value.match === 'string') {
+    rule.match = value.match;
+  }
+  if (typeof value.downgradeTo === 'string') {
+    rule.downgradeTo = value.downgradeTo;
+  }
+  if (value.enabled === false) {
+    rule.enabled = false;
+  }
+  return rule;
+}
+
+function loadBudgetRules(filePath: string): BudgetRule[] {
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as unknown;
+    if (!Array.isArray(parsed)) {
+      throw new Error('expected an array of budgets');
+    }
+    const rules: BudgetRule[] = [];
+    parsed.forEach((entry, index) => {
+      const rule = parseBudgetRule(entry);
+      if (typeof rule === 'string') {
+        logger.warn({ filePath, index }, `Budgets: Ignoring budget: ${rule}`);
+      } else if (rules.some((existing) => existing.id === rule.id)) {
+        logger.warn({ filePath, index, id: rule.id }, 'Budgets: Ignoring budget with a duplicate id');
+      } else {
+        rules.push(rule);
+      }
+    });
+    logger.info({ filePath, budgets: rules.length }, 'Budgets: Loaded budgets');
+    return rules;
+  } catch (error) {
+    logger.warn({ err: error, filePath }, 'Budgets: Failed to load budgets file, no budgets will be enforced');
+    return [];
+  }
+}
+
+let budgetRules: BudgetRule[] | null = null;
+
+export function getBudgetRules(): BudgetRule[] {
+  if (!budgetRules) {
+    budgetRules = appConfig.budgetsFile ? loadBudgetRules(appConfig.budgetsFile) : [];
+  }
+  return budgetRules;
+}
+
+function formatAmount(amount: number, unit: BudgetUnit): string {
+  return unit === 'usd'
+    ? `$${amount.toFixed(2)}`
+    : `${Math.round(amount).toLocaleString('en-US')} tokens`;
+}
+
+/**
+ * Human-readable reason for a budget action, used as the error message of blocked requests.
+ */
+export function describeBudgetEnforcement(enforcement: BudgetEnforcement): string {
+  const scope = enforcement.key === TOTAL_KEY ? '' : ` for "${enforcement.key}"`;
+  return `Budget "${enforcement.ruleId}"${scope} exceeded: ${formatAmount(
+    enforcement.spent,
+    enforcement.unit
+  )} of ${formatAmount(enforcement.limit, enforcement.unit)} spent.`;
+}
+
+function startOfToday(now: number): number {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function stateKey(ruleId: string, key: string | null): string {
+  return JSON.stringify([ruleId, key]);
+}
+
+/**
+ * The counter a logged interaction's spend goes to, or null when the budget does not
+ * cover it.
+ */
+function summaryKey(rule: BudgetRule, summary: LogSummary): string | null {
+  switch (rule.per) {
+    case 'total':
+      return TOTAL_KEY;
+    case 'session':
+      return summary.session?.sessionId ?? null;
+    case 'label':
+      return summary.labels?.[rule.label ?? ''] ?? null;
+    case 'agentTag':
+      return summary.agentTag?.id ?? 'untagged';
+  }
+}
+
+/**
+ * Budget spend of one project, checked before requests are forwarded.
+ */
+export class BudgetTracker {
+  private resets = new Map<string, number>();
+  private limits = new Map<string, number>();
+  private spendCache = new WeakMap<LogSummary, Spend>();
+  private loading: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private project: Project) {}
+
+  private get statePath(): string {
+    return path.join(this.project.logDir, STATE_FILE_NAME);
+  }
+
+  /**
+   * Decide whether a request is over budget. Returns the action to apply, or null to
+   * forward it unchanged. Never throws: a failed check lets the request through.
+   */
+  async check(log: InteractionLog): Promise<BudgetEnforcement | null> {
+    const rules = getBudgetRules().filter((rule) => rule.enabled !== false);
+    if (
+      rules.length === 0 ||
+      log.method !== 'POST' ||
+      !isConversationPath(log.path) ||
+      log.path.includes('/count_tokens')
+    ) {
+      return null;
+    }
+
+    try {
+      await this.ensureLoaded();
+      const summaries = await this.project.logIndex.all();
+      const now = Date.now();
+      const keys = new Map<BudgetScope, string | null>();
+      const exceeded: BudgetEnforcement[] = [];
+
+      for (const rule of rules) {
+        if (!keys.has(rule.per) || rule.per === 'label') {
+          keys.set(rule.per, await this.requestKey(rule, log));
+        }
+        const key = keys.get(rule.per) ?? null;
+        if (key === null || (rule.match !== undefined && rule.per !== 'total' && key !== rule.match)) {
+          continue;
+        }
+
+        const usage = this.usageFor(rule, key, summaries, now);
+        if (!usage.exceeded) {
+          continue;
+        }
+        const model = extractModel(log);
+        if (rule.action === 'downgrade' && model === rule.downgradeTo) {
+          continue;
+        }
+        const enforcement: BudgetEnforcement = {
+          ruleId: rule.id,
+          key,
+          action: rule.action,
+          unit: rule.unit,
+          spent: usage.spent,
+          limit: usage.limit,
+        };
+        if (rule.action === 'downgrade' && rule.downgradeTo) {
+          if (model) {
+            enforcement.originalModel = model;
+          }
+          enforcement.model = rule.downgradeTo;
+        }
+        exceeded.push(enforcement);
+      }
+
+      for (const action of ACTION_SEVERITY) {
+        const enforcement = exceeded.find((candidate) => candidate.action === action);
+        if (enforcement) {
+          return enforcement;
+        }
+      }
+      return null;
+    } catch (error) {
+      logger.warn({ err: error, id: log.id, project: this.project.name }, 'Budgets: Check failed, forwarding request');
+      return null;
+    }
+  }
+
+  /**
+   * Current spend of every budget, for the UI.
+   */
+  async statuses(): Promise<BudgetStatus[]> {
+    await this.ensureLoaded();
+    const summaries = await this.project.logIndex.all();
+    const now = Date.now();
+    return getBudgetRules().map((rule) => this.statusFor(rule, summaries, now));
+  }
+
+  /**
+   * Start counting a budget from now, for one key or (key null) all of them. Returns
+   * null for an unknown budget.
+   */
+  async reset(ruleId: string, key: string | null): Promise<BudgetStatus | null> {
+    return this.applyState({ op: 'reset', ruleId, key, atMs: Date.now() });
+  }
+
+  /**
+   * Replace a budget's limit for one key or (key null) all of them; a null limit
+   * restores the configured one. Returns null for an unknown budget.
+   */
+  async override(ruleId: string, key: string | null, limit: number | null): Promise<BudgetStatus | null> {
+    return this.applyState({ op: 'override', ruleId, key, limit, atMs: Date.now() });
+  }
+
+  private async applyState(line: StateLine): Promise<BudgetStatus | null> {
+    const rule = getBudgetRules().find((candidate) => candidate.id === line.ruleId);
+    if (!rule) {
+      return null;
+    }
+    await this.ensureLoaded();
+    this.apply(line);
+    this.append(line);
+    logger.info({ project: this.project.name, ...line }, 'Budgets: Updated budget state');
+    return this.statusFor(rule, await this.project.logIndex.all(), Date.now());
+  }
+
+  private async requestKey(rule: BudgetRule, log: InteractionLog): Promise<string | null> {
+    switch (rule.per) {
+      case 'total':
+        return TOTAL_KEY;
+      case 'session':
+        return this.project.sessions.predictSessionId(log);
+      case 'label':
+        return log.labels?.[rule.label ?? ''] ?? null;
+      case 'agentTag':
+        return this.project.agentTagRules.current().match(extractAgentTagSubject(log))?.id ?? 'untagged';
+    }
+  }
+
+  private windowStart(rule: BudgetRule, now: number): number {
+    const start = rule.window === 'day' ? startOfToday(now) : 0;
+    return Math.max(start, this.resets.get(stateKey(rule.id, null)) ?? 0);
+  }
+
+  private limitFor(rule: BudgetRule, key: string): { limit: number; overridden: boolean } {
+    const limit = this.limits.get(stateKey(rule.id, key)) ?? this.limits.get(stateKey(rule.id, null));
+    return limit === undefined ? { limit: rule.limit, overridden: false } : { limit, overridden: true };
+  }
+
+  private usageFor(rule: BudgetRule, key: string, summaries: LogSummary[], now: number): BudgetUsage {
+    const sinceMs = Math.max(this.windowStart(rule, now), this.resets.get(stateKey(rule.id, key)) ?? 0);
+    let spent = 0;
+    // Summaries are newest first, so the scan stops at the window start.
+    for (const summary of summaries) {
+      if (summary.timestampMs < sinceMs) {
+        break;
+      }
+      if (summaryKey(rule, summary) === key) {
+        spent += this.spendOf(summary)[rule.unit];
+      }
+    }
+    const { limit, overridden } = this.limitFor(rule, key);
+    return { key, spent, limit, overridden, exceeded: spent >= limit, sinceMs };
+  }
+
+  private statusFor(rule: BudgetRule, summaries: LogSummary[], now: number): BudgetStatus {
+    const windowStart = this.windowStart(rule, now);
+    const totals = new Map<string, number>();
+    if (rule.per === 'total') {
+      totals.set(TOTAL_KEY, 0);
+    } else if (rule.match !== undefined) {
+      totals.set(rule.match, 0);
+    }
+    for (const summary of summaries) {
+      if (summary.timestampMs < windowStart) {
+        break;
+      }
+      const key = summaryKey(rule, summary);
+      if (key === null || (rule.match !== undefined && rule.per !== 'total' && key !== rule.match)) {
+        continue;
+      }
+      if ((this.resets.get(stateKey(rule.id, key)) ?? 0) > summary.timestampMs) {
+        continue;
+      }
+      totals.set(key, (totals.get(key) ?? 0) + this.spendOf(summary)[rule.unit]);
+    }
+
+    const usage = Array.from(totals, ([key, spent]): BudgetUsage => {
+      const { limit, overridden } = this.limitFor(rule, key);
+      return {
+        key,
+        spent,
+        limit,
+        overridden,
+        exceeded: spent >= limit,
+        sinceMs: Math.max(windowStart, this.resets.get(stateKey(rule.id, key)) ?? 0),
+      };
+    })
+      .sort((left, right) => right.spent - left.spent)
+      .slice(0, BUDGET_STATUS_MAX_KEYS);
+    return { rule, usage };
+  }
+
+  /**
+   * Tokens and dollars of a logged interaction, from the usage Anthropic reported.
+   */
+  private spendOf(summary: LogSummary): Spend {
+    let spend = this.spendCache.get(summary);
+    if (!spend) {
+      const totals = summary.tokenUsage?.system_totals;
+      spend = { tokens: 0, usd: 0 };
+      if (totals) {
+        spend.tokens =
+          (totals.inputTokens ?? 0) +
+          (totals.outputTokens ?? 0) +
+          (totals.cacheCreationInputTokens ?? 0) +
+          (totals.cacheReadInputTokens ?? 0);
+        const resolved = summary.model ? resolveModelPricing(summary.model, this.project.pricingFile) : null;
+        if (resolved) {
+          const breakdown = computeCost(totals, resolved.pricing);
+          spend.usd = breakdown.inputUsd + breakdown.outputUsd + breakdown.cacheWriteUsd + breakdown.cacheReadUsd;
+        }
+      }
+      this.spendCache.set(summary, spend);
+    }
+    return spend;
+  }
+
+  private apply(line: StateLine): void {
+    const key = stateKey(line.ruleId, line.key);
+    if (line.op === 'reset') {
+      this.resets.set(key, line.atMs);
+    } else if (typeof line.limit === 'number') {
+      this.limits.set(key, line.limit);
+    } else {
+      this.limits.delete(key);
+    }
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.statePath, 'utf8');
+    } catch {
+      return;
+    }
+    for (const line of raw.split('\n')) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+      try {
+        const parsed = JSON.parse(line) as StateLine;
+        if ((parsed.op === 'reset' || parsed.op === 'override') && typeof parsed.ruleId === 'string') {
+          this.apply(parsed);
+        }
+      } catch {
+        // A torn final line from a crash mid-append is expected; skip it.
+      }
+    }
+  }
+
+  private append(line: StateLine): void {
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.mkdir(this.project.logDir, { recursive: true });
+        await fs.appendFile(this.statePath, JSON.stringify(line) + '\n', 'utf8');
+      })
+      .catch((error) => {
+        // The change still applies until restart; only persistence is lost.
+        logger.warn({ err: error, statePath: this.statePath }, 'Budgets: Failed to write budget state');
+      });
+  }
+}
@@ -0,0 +1,140 @@
+import { createHash } from 'crypto';
+import type { CassetteKeys, LogSummary } from '../shared/types';
+import type { CassetteMatchLevel } from './config';
+import type { LogIndex } from './logIndex';
+import { logger } from './logger';
+
+/**
+ * Record-and-replay support. In record mode every proxied request is tagged with hashes
+ * of its normalized body (one per match level); in replay mode incoming requests are
+ * hashed the same way and answered from the oldest matching recording.
+ *
+ * Identical requests are common (an agent re-running the same step), so each key keeps
+ * a cursor: the first match plays the first recording, the next match the second one,
+ * and once the recordings run out the last one keeps being played.
+ */
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSON with object keys sorted, so key order never changes a hash.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+  }
+  if (isPlainRecord(value)) {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Remove cache_control markers at any depth; clients move them between requests.
+ */
+function stripCacheControl(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => stripCacheControl(item));
+  }
+  if (isPlainRecord(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (key !== 'cache_control') {
+        result[key] = stripCacheControl(entry);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+function hash(value: unknown): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex');
+}
+
+export function computeCassetteKeys(method: string, path: string, body: unknown): CassetteKeys {
+  const request = { method: method.toUpperCase(), path };
+
+  let normalBody = body;
+  let looseBody: unknown = body;
+  if (isPlainRecord(body)) {
+    const { metadata: _metadata, ...rest } = body;
+    normalBody = stripCacheControl(rest);
+    looseBody = {
+      model: body.model,
+      stream: body.stream,
+      messages: stripCacheControl(body.messages),
+    };
+  }
+
+  return {
+    strict: hash({ ...request, body }),
+    normal: hash({ ...request, body: normalBody }),
+    loose: hash({ ...request, body: looseBody }),
+  };
+}
+
+export class CassetteLibrary {
+  /** `${level}:${key}` -> file names of matching recordings, oldest first */
+  private recordings = new Map<string, string[]>();
+  private cursors = new Map<string, number>();
+  private loading: Promise<void> | null = null;
+
+  constructor(private logIndex: LogIndex) {}
+
+  /**
+   * File name of the recording to play for a request, or null when nothing matches.
+   */
+  async match(keys: CassetteKeys, level: CassetteMatchLevel): Promise<string | null> {
+    await this.ensureLoaded();
+
+    const slot = `${level}:${keys[level]}`;
+    const fileNames = this.recordings.get(slot);
+    if (!fileNames || fileNames.length === 0) {
+      return null;
+    }
+
+    const cursor = this.cursors.get(slot) ?? 0;
+    this.cursors.set(slot, cursor + 1);
+    return fileNames[Math.min(cursor, fileNames.length - 1)] ?? null;
+  }
+
+  /**
+   * Index every recorded interaction in the log index (oldest first).
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.logIndex
+        .all()
+        .then((summaries: LogSummary[]) => {
+          let loaded = 0;
+          for (let index = summaries.length - 1; index >= 0; index--) {
+            const summary = summaries[index];
+            const keys = summary?.cassette?.keys;
+            if (!summary || !keys) {
+              continue;
+            }
+            for (const level of ['strict', 'normal', 'loose'] as const) {
+              const slot = `${level}:${keys[level]}`;
+              const fileNames = this.recordings.get(slot) ?? [];
+              fileNames.push(summary.fileName);
+              this.recordings.set(slot, fileNames);
+            }
+            loaded++;
+          }
+          logger.info({ recordings: loaded }, 'CassetteLibrary: Loaded recorded interactions');
+        })
+        .catch((error) => {
+          this.loading = null;
+          throw error;
+        });
+    }
+    return this.loading;
+  }
+}
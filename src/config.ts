@@ -1,19 +1,101 @@
 import { config as loadEnv } from 'dotenv';
+import type { AuthMode } from '../shared/types';
 
 loadEnv();
 
 const DEFAULT_PORT = 8787;
 const DEFAULT_UPSTREAM_URL = 'https://api.anthropic.com';
+const DEFAULT_UPSTREAM_MAX_RETRIES = 2;
+const DEFAULT_MAX_REQUEST_BODY_SIZE = '15mb';
+const DEFAULT_REQUEST_SPOOL_THRESHOLD = '8mb';
 const DEFAULT_LOG_DIR = 'logs';
 const DEFAULT_APP_LOG_FILE = 'logs/app.log';
+const DEFAULT_AGENT_TAG_RULES_FILE = 'agent-tag-rules.json';
+
+/**
+ * How custom token breakdowns are counted:
+ * - remote: Anthropic's count_tokens API (exact, one upstream call per segment)
+ * - local: bundled tokenizer, no network (approximate)
+ * - hybrid: local counts scaled to match the usage Anthropic reported for the request
+ */
+export type TokenCounterMode = 'remote' | 'local' | 'hybrid';
+
+const TOKEN_COUNTER_MODES: TokenCounterMode[] = ['remote', 'local', 'hybrid'];
+const DEFAULT_TOKEN_COUNTER: TokenCounterMode = 'remote';
+
+/**
+ * How the proxy handles /v1/* requests:
+ * - passthrough: forward to the upstream and log
+ * - record: forward and log, tagging logs as cassette recordings
+ * - replay: answer from recorded logs without contacting the upstream
+ */
+export type ProxyMode = 'passthrough' | 'record' | 'replay';
+
+/**
+ * How closely a request must match a recording in replay mode:
+ * - strict: identical method, path and body
+ * - normal: ignores request metadata and cache_control markers
+ * - loose: only path, model and messages (system prompt and tools may differ)
+ */
+export type CassetteMatchLevel = 'strict' | 'normal' | 'loose';
+
+/** original: recorded pacing; compressed: recorded pacing sped up */
+export type CassetteTiming = 'original' | 'compressed';
+
+/**
+ * How secrets and PII are redacted from logged bodies:
+ * - off: bodies are written verbatim
+ * - mask: values are replaced with `[REDACTED:<detector>]`
+ * - hash: values are replaced with `[REDACTED:<detector>:<hash>]` so repeats can be correlated
+ */
+export type RedactionMode = 'off' | 'mask' | 'hash';
+
+const PROXY_MODES: ProxyMode[] = ['passthrough', 'record', 'replay'];
+const AUTH_MODES: AuthMode[] = ['server-key', 'passthrough', 'mapped'];
+const CASSETTE_MATCH_LEVELS: CassetteMatchLevel[] = ['strict', 'normal', 'loose'];
+const CASSETTE_TIMINGS: CassetteTiming[] = ['original', 'compressed'];
+const REDACTION_MODES: RedactionMode[] = ['off', 'mask', 'hash'];
 
 export interface AppConfig {
   port: number;
   upstreamBaseUrl: string;
   upstreamApiKey: string | null;
+  /** JSON file of named upstreams and routes between them (see upstreams.ts) */
+  upstreamsFile: string | null;
+  /** Retries per upstream for 429/529 responses and connection errors */
+  upstreamMaxRetries: number;
+  /** Largest request body accepted, in bytes (see requestBody.ts) */
+  maxRequestBodyBytes: number;
+  /** Proxied request bodies larger than this many bytes are spooled to a temporary file */
+  requestSpoolThresholdBytes: number;
+  /** Where upstream credentials come from; see AuthMode in shared/types.ts */
+  authMode: AuthMode;
+  /** JSON object mapping client keys to upstream keys, for AUTH_MODE=mapped (see auth.ts) */
+  authKeyMapFile: string | null;
   logDir: string;
   logLevel: string;
   appLogFile: string | null;
+  /** JSON file overriding or extending the built-in model pricing table */
+  pricingFile: string | null;
+  tokenCounter: TokenCounterMode;
+  proxyMode: ProxyMode;
+  cassetteMatch: CassetteMatchLevel;
+  cassetteTiming: CassetteTiming;
+  /** JSON file of fault-injection rules (see faults.ts) */
+  faultRulesFile: string | null;
+  /** JSON file of request rewrite rules (see rewrites.ts) */
+  rewriteRulesFile: string | null;
+  /** JSON file of spend budgets (see budgets.ts) */
+  budgetsFile: string | null;
+  redactionMode: RedactionMode;
+  /** JSON file of extra redaction patterns (see redaction.ts) */
+  redactionRulesFile: string | null;
+  /** HMAC key for `REDACTION_MODE=hash`; generated and kept in the log directory if unset */
+  redactionHashKey: string | null;
+  /** JSON file of agent tag rules; built-in rules are used until it exists */
+  agentTagRulesFile: string;
+  /** JSON file of named projects with their own log directories (see projects.ts) */
+  projectsFile: string | null;
   isDevelopment: boolean;
 }
 
@@ -23,18 +105,68 @@ function resolvePort(): number {
   return Number.isFinite(value) ? value : DEFAULT_PORT;
 }
 
+function resolveUpstreamMaxRetries(): number {
+  const value = Number.parseInt(process.env.UPSTREAM_MAX_RETRIES ?? '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_UPSTREAM_MAX_RETRIES;
+}
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+/**
+ * Read a byte size such as `15mb`, `512kb` or `1048576`, falling back to the default
+ * for missing or malformed values.
+ */
+function resolveByteSize(name: string, fallback: string): number {
+  const parse = (raw: string): number | null => {
+    const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/.exec(raw.trim().toLowerCase());
+    return match ? Math.floor(Number.parseFloat(match[1]!) * SIZE_UNITS[match[2] ?? 'b']!) : null;
+  };
+  return parse(process.env[name] ?? '') ?? parse(fallback)!;
+}
+
+/**
+ * Read an enumerated setting, falling back to the default for missing or unknown values.
+ */
+function resolveChoice<T extends string>(name: string, choices: T[], fallback: T): T {
+  const raw = process.env[name]?.toLowerCase();
+  return choices.find((choice) => choice === raw) ?? fallback;
+}
+
+const upstreamApiKey =
+  process.env.UPSTREAM_API_KEY ??
+  process.env.ANTHROPIC_API_KEY ??
+  null;
+
 export const appConfig: AppConfig = {
   port: resolvePort(),
   upstreamBaseUrl: process.env.UPSTREAM_BASE_URL ?? DEFAULT_UPSTREAM_URL,
-  upstreamApiKey:
-    process.env.UPSTREAM_API_KEY ??
-    process.env.ANTHROPIC_API_KEY ??
-    null,
+  upstreamApiKey,
+  upstreamsFile: process.env.UPSTREAMS_FILE || null,
+  upstreamMaxRetries: resolveUpstreamMaxRetries(),
+  maxRequestBodyBytes: resolveByteSize('MAX_REQUEST_BODY_SIZE', DEFAULT_MAX_REQUEST_BODY_SIZE),
+  requestSpoolThresholdBytes: resolveByteSize('REQUEST_SPOOL_THRESHOLD', DEFAULT_REQUEST_SPOOL_THRESHOLD),
+  // Without a server key, clients bring their own credentials.
+  authMode: resolveChoice('AUTH_MODE', AUTH_MODES, upstreamApiKey ? 'server-key' : 'passthrough'),
+  authKeyMapFile: process.env.AUTH_KEY_MAP_FILE || null,
   logDir: process.env.LOG_DIR ?? DEFAULT_LOG_DIR,
   logLevel: process.env.LOG_LEVEL ?? 'info',
   appLogFile: process.env.APP_LOG_FILE === ''
     ? null
     : process.env.APP_LOG_FILE ?? DEFAULT_APP_LOG_FILE,
+  pricingFile: process.env.PRICING_FILE || null,
+  // count_tokens needs a server key; count locally when there is none.
+  tokenCounter: resolveChoice('TOKEN_COUNTER', TOKEN_COUNTER_MODES, upstreamApiKey ? DEFAULT_TOKEN_COUNTER : 'local'),
+  proxyMode: resolveChoice('PROXY_MODE', PROXY_MODES, 'passthrough'),
+  cassetteMatch: resolveChoice('CASSETTE_MATCH', CASSETTE_MATCH_LEVELS, 'normal'),
+  cassetteTiming: resolveChoice('CASSETTE_TIMING', CASSETTE_TIMINGS, 'compressed'),
+  faultRulesFile: process.env.FAULT_RULES_FILE || null,
+  rewriteRulesFile: process.env.REWRITE_RULES_FILE || null,
+  budgetsFile: process.env.BUDGETS_FILE || null,
+  redactionMode: resolveChoice('REDACTION_MODE', REDACTION_MODES, 'mask'),
+  redactionRulesFile: process.env.REDACTION_RULES_FILE || null,
+  redactionHashKey: process.env.REDACTION_HASH_KEY || null,
+  agentTagRulesFile: process.env.AGENT_TAG_RULES_FILE || DEFAULT_AGENT_TAG_RULES_FILE,
+  projectsFile: process.env.PROJECTS_FILE || null,
   // Check if running in development mode:
   // 1. NODE_ENV explicitly set to 'development'
   // 2. Running via ts-node-dev
@@ -48,9 +180,16 @@ export const appConfig: AppConfig = {
 };
 
 export function validateConfig(): void {
-  if (!appConfig.upstreamApiKey) {
+  // Replay mode answers from recorded logs and never talks to Anthropic.
+  if (appConfig.authMode === 'server-key' && !appConfig.upstreamApiKey && appConfig.proxyMode !== 'replay') {
     throw new Error(
-      'Missing UPSTREAM_API_KEY (or ANTHROPIC_API_KEY) environment variable required to talk to Anthropic.'
+      'Missing UPSTREAM_API_KEY (or ANTHROPIC_API_KEY) environment variable required by AUTH_MODE=server-key.'
     );
   }
+  if (appConfig.authMode === 'mapped' && !appConfig.authKeyMapFile) {
+    throw new Error('AUTH_MODE=mapped requires AUTH_KEY_MAP_FILE.');
+  }
+  if (appConfig.tokenCounter === 'remote' && !appConfig.upstreamApiKey) {
+    throw new Error('TOKEN_COUNTER=remote calls count_tokens and requires UPSTREAM_API_KEY.');
+  }
 }
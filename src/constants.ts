@@ -15,6 +15,166 @@ export const MIN_LOG_LIMIT = 1;
 /** Maximum allowed limit for log pagination */
 export const MAX_LOG_LIMIT = 2000;
 
+// =============================================================================
+// Full-text Search
+// =============================================================================
+
+/** Default number of search results per request */
+export const DEFAULT_SEARCH_LIMIT = 50;
+
+/** Maximum number of search results per request */
+export const MAX_SEARCH_LIMIT = 200;
+
+// =============================================================================
+// Sessions
+// =============================================================================
+
+/** Default number of sessions per request */
+export const DEFAULT_SESSION_LIMIT = 50;
+
+/** Maximum number of sessions per request */
+export const MAX_SESSION_LIMIT = 500;
+
+// =============================================================================
+// Live Log Stream
+// =============================================================================
+
+/** Interval between SSE keep-alive comments so idle proxies don't drop the stream */
+export const SSE_HEARTBEAT_INTERVAL_MS = 25000;
+
+/** Reconnect delay suggested to EventSource clients */
+export const SSE_RETRY_MS = 3000;
+
+// =============================================================================
+// In-flight Requests
+// =============================================================================
+
+/**
+ * Minimum interval between live updates for one running request. Requests that finish
+ * sooner never show up as in-flight at all.
+ */
+export const INFLIGHT_PUBLISH_INTERVAL_MS = 500;
+
+// =============================================================================
+// Token Counting
+// =============================================================================
+
+/** Maximum concurrent requests to the count_tokens API */
+export const TOKEN_COUNT_CONCURRENCY = 4;
+
+/** Retries for a count_tokens request rejected with 429 (rate limited) or 529 (overloaded) */
+export const TOKEN_COUNT_MAX_RETRIES = 5;
+
+/** First retry delay when the response has no retry-after header; doubles per attempt */
+export const TOKEN_COUNT_RETRY_BASE_MS = 1000;
+
+/** Upper bound for a single retry delay */
+export const TOKEN_COUNT_RETRY_MAX_MS = 30000;
+
+// =============================================================================
+// Upstream Retries
+// =============================================================================
+
+/** First retry delay when the response has no retry-after header; doubles per attempt */
+export const UPSTREAM_RETRY_BASE_MS = 500;
+
+/** Upper bound for a single retry delay; a client is waiting on the response */
+export const UPSTREAM_RETRY_MAX_MS = 10000;
+
+// =============================================================================
+// Cassette Replay
+// =============================================================================
+
+/** Speed-up applied to recorded pacing when CASSETTE_TIMING=compressed */
+export const CASSETTE_TIME_COMPRESSION = 10;
+
+// =============================================================================
+// Agent Tag Rules
+// =============================================================================
+
+/** How often the agent tag rules file is checked for changes (hot reload) */
+export const AGENT_TAG_RULES_POLL_MS = 2000;
+
+/** Most recent logs a rule preview is evaluated against */
+export const AGENT_TAG_PREVIEW_LIMIT = 500;
+
+/** Matching log file names returned per rule in a preview */
+export const AGENT_TAG_PREVIEW_SAMPLES = 5;
+
+/** Most recent logs clustered by agent discovery */
+export const AGENT_DISCOVERY_LOG_LIMIT = 1000;
+
+/** Hash functions in a system prompt MinHash signature */
+export const AGENT_DISCOVERY_MINHASH_SIZE = 64;
+
+/** Words per shingle when fingerprinting a system prompt */
+export const AGENT_DISCOVERY_SHINGLE_WORDS = 3;
+
+/** Estimated Jaccard similarity at which two prompt fingerprints join one cluster */
+export const AGENT_DISCOVERY_SIMILARITY = 0.7;
+
+/** Prompt excerpts and log file names returned per discovered cluster */
+export const AGENT_DISCOVERY_SAMPLES = 3;
+
+/** Characters kept in a sample prompt excerpt */
+export const AGENT_DISCOVERY_EXCERPT_LENGTH = 400;
+
+// =============================================================================
+// Fault Injection
+// =============================================================================
+
+/** Delay added by a latency fault without `latencyMs` */
+export const FAULT_DEFAULT_LATENCY_MS = 5000;
+
+/** retry-after sent with an injected 429 without `retryAfterSeconds` */
+export const FAULT_DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+/** Events forwarded before a stream_cut or malformed_sse fault without `afterEvents` */
+export const FAULT_DEFAULT_AFTER_EVENTS = 3;
+
+/** Per-chunk delay of a slow_drip fault without `delayMs` */
+export const FAULT_DEFAULT_DRIP_DELAY_MS = 500;
+
+// =============================================================================
+// Budgets
+// =============================================================================
+
+/** Status of a blocked request; clients treat billing errors as final instead of retrying */
+export const BUDGET_BLOCK_STATUS = 402;
+
+/** Keys listed per budget in GET /api/budgets (sessions can be numerous) */
+export const BUDGET_STATUS_MAX_KEYS = 20;
+
+// =============================================================================
+// Interaction Labels
+// =============================================================================
+
+/** Request headers with this prefix label the interaction and are never forwarded */
+export const LABEL_HEADER_PREFIX = 'x-snoopty-';
+
+/** Labels kept per interaction; further labels are ignored */
+export const LABEL_MAX_COUNT = 32;
+
+/** Longer label values are truncated */
+export const LABEL_MAX_VALUE_LENGTH = 256;
+
+// =============================================================================
+// Authentication
+// =============================================================================
+
+/** Hex characters of the SHA-256 kept as a credential's identity */
+export const AUTH_IDENTITY_LENGTH = 12;
+
+// =============================================================================
+// Projects
+// =============================================================================
+
+/** Name of the project backed by LOG_DIR and the top-level settings */
+export const DEFAULT_PROJECT_NAME = 'default';
+
+/** Request header naming the project a proxied or API request belongs to */
+export const PROJECT_HEADER = 'x-snoopty-project';
+
 // =============================================================================
 // Error Messages
 // =============================================================================
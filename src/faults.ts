@@ -0,0 +1,283 @@
+import { readFileSync } from 'fs';
+import type { AgentTagId, FaultType, InjectedFault, InteractionLog } from '../shared/types';
+import { extractAgentTagSubject } from './agentTagRules';
+import { appConfig } from './config';
+import {
+  FAULT_DEFAULT_AFTER_EVENTS,
+  FAULT_DEFAULT_DRIP_DELAY_MS,
+  FAULT_DEFAULT_LATENCY_MS,
+  FAULT_DEFAULT_RETRY_AFTER_SECONDS,
+} from './constants';
+import { extractModel } from './logIndex';
+import { logger } from './logger';
+import type { Project } from './projects';
+
+/**
+ * Fault injection for testing how clients cope with a misbehaving API.
+ *
+ * `FAULT_RULES_FILE` points at a JSON array of rules. The first enabled rule whose
+ * filters match a proxied request (and whose `percentage` roll succeeds) fires, e.g.
+ *
+ *   [
+ *     { "id": "slow-haiku", "type": "latency", "model": "haiku", "latencyMs": 8000 },
+ *     { "id": "throttle", "type": "rate_limit", "percentage": 10, "retryAfterSeconds": 5 },
+ *     { "id": "cut-subagents", "type": "stream_cut", "agentTag": "file-search", "afterEvents": 4 }
+ *   ]
+ *
+ * Stream faults (stream_cut, malformed_sse, slow_drip) only match streaming requests.
+ * Fired faults are recorded on the interaction log so synthetic failures stand out.
+ */
+
+export interface FaultRule {
+  id: string;
+  type: FaultType;
+  /** Case-insensitive substring of the request model */
+  model?: string;
+  /** Substring of the request path, e.g. "/messages" */
+  path?: string;
+  agentTag?: AgentTagId;
+  /** Share of matching requests to fault, 0-100 (default 100) */
+  percentage?: number;
+  enabled?: boolean;
+  /** latency */
+  latencyMs?: number;
+  /** rate_limit */
+  retryAfterSeconds?: number;
+  /** stream_cut, malformed_sse: complete SSE events forwarded first */
+  afterEvents?: number;
+  /** slow_drip: delay before each chunk */
+  delayMs?: number;
+}
+
+const FAULT_TYPES: FaultType[] = [
+  'latency',
+  'rate_limit',
+  'overloaded',
+  'stream_cut',
+  'malformed_sse',
+  'slow_drip',
+];
+
+const STREAM_FAULT_TYPES = new Set<FaultType>(['stream_cut', 'malformed_sse', 'slow_drip']);
+
+const NUMERIC_FIELDS = ['percentage', 'latencyMs', 'retryAfterSeconds', 'afterEvents', 'delayMs'] as const;
+
+/** Truncated JSON, so clients fail to parse it */
+const MALFORMED_SSE_EVENT =
+  'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_del\n\n';
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseFaultRule(value: unknown): FaultRule | null {
+  if (!isPlainRecord(value)) {
+    return null;
+  }
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    return null;
+  }
+  const type = FAULT_TYPES.find((candidate) => candidate === value.type);
+  if (!type) {
+    return null;
+  }
+  for (const field of ['model', 'path', 'agentTag'] as const) {
+    if (value[field] !== undefined && typeof value[field] !== 'string') {
+      return null;
+    }
+  }
+  for (const field of NUMERIC_FIELDS) {
+    const entry = value[field];
+    if (entry !== undefined && (typeof entry !== 'number' || !Number.isFinite(entry) || entry < 0)) {
+      return null;
+    }
+  }
+  return { ...(value as unknown as FaultRule), type };
+}
+
+function loadFaultRules(filePath: string): FaultRule[] {
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as unknown;
+    if (!Array.isArray(parsed)) {
+      throw new Error('expected an array of fault rules');
+    }
+    const rules: FaultRule[] = [];
+    parsed.forEach((entry, index) => {
+      const rule = parseFaultRule(entry);
+      if (rule) {
+        rules.push(rule);
+      } else {
+        logger.warn({ filePath, index }, 'Faults: Ignoring invalid fault rule');
+      }
+    });
+    logger.info({ filePath, rules: rules.length }, 'Faults: Loaded fault rules');
+    return rules;
+  } catch (error) {
+    logger.warn({ err: error, filePath }, 'Faults: Failed to load fault rules, no faults will be injected');
+    return [];
+  }
+}
+
+let faultRules: FaultRule[] | null = null;
+
+export function getFaultRules(): FaultRule[] {
+  if (!faultRules) {
+    faultRules = appConfig.faultRulesFile ? loadFaultRules(appConfig.faultRulesFile) : [];
+  }
+  return faultRules;
+}
+
+/**
+ * Pick the fault to inject into a request, if any. `agentTag` filters are evaluated
+ * against the agent tag rules of the request's project.
+ */
+export async function selectFault(project: Project, log: InteractionLog): Promise<FaultRule | null> {
+  const rules = getFaultRules().filter((rule) => rule.enabled !== false);
+  if (rules.length === 0) {
+    return null;
+  }
+
+  const model = extractModel(log)?.toLowerCase();
+  const body = log.request.body;
+  const streaming = isPlainRecord(body) && body.stream === true;
+  let agentTag: AgentTagId | null | undefined;
+
+  for (const rule of rules) {
+    if (rule.model && !model?.includes(rule.model.toLowerCase())) {
+      continue;
+    }
+    if (rule.path && !log.path.includes(rule.path)) {
+      continue;
+    }
+    if (STREAM_FAULT_TYPES.has(rule.type) && !streaming) {
+      continue;
+    }
+    if (rule.agentTag) {
+      if (agentTag === undefined) {
+        agentTag = project.agentTagRules.current().match(extractAgentTagSubject(log))?.id ?? null;
+      }
+      if ((agentTag ?? 'untagged') !== rule.agentTag) {
+        continue;
+      }
+    }
+    if (Math.random() * 100 >= (rule.percentage ?? 100)) {
+      continue;
+    }
+    return rule;
+  }
+  return null;
+}
+
+export function faultLatencyMs(rule: FaultRule): number {
+  return rule.type === 'latency' ? rule.latencyMs ?? FAULT_DEFAULT_LATENCY_MS : 0;
+}
+
+export function describeFault(rule: FaultRule): InjectedFault {
+  const afterEvents = rule.afterEvents ?? FAULT_DEFAULT_AFTER_EVENTS;
+  const eventsLabel = `${afterEvents} event${afterEvents === 1 ? '' : 's'}`;
+  let detail: string;
+  switch (rule.type) {
+    case 'latency':
+      detail = `+${faultLatencyMs(rule)} ms before forwarding`;
+      break;
+    case 'rate_limit':
+      detail = `429 with retry-after ${rule.retryAfterSeconds ?? FAULT_DEFAULT_RETRY_AFTER_SECONDS}s`;
+      break;
+    case 'overloaded':
+      detail = '529 overloaded';
+      break;
+    case 'stream_cut':
+      detail = `connection dropped after ${eventsLabel}`;
+      break;
+    case 'malformed_sse':
+      detail = `malformed event after ${eventsLabel}`;
+      break;
+    case 'slow_drip':
+      detail = `${rule.delayMs ?? FAULT_DEFAULT_DRIP_DELAY_MS} ms before each chunk`;
+      break;
+  }
+  return { ruleId: rule.id, type: rule.type, detail };
+}
+
+export interface FaultErrorResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * The error an injected rate_limit/overloaded fault answers with, in Anthropic's format.
+ * Null for faults that let the request through.
+ */
+export function buildFaultErrorResponse(rule: FaultRule): FaultErrorResponse | null {
+  if (rule.type === 'rate_limit') {
+    return {
+      status: 429,
+      headers: {
+        'content-type': 'application/json',
+        'retry-after': String(rule.retryAfterSeconds ?? FAULT_DEFAULT_RETRY_AFTER_SECONDS),
+      },
+      body: {
+        type: 'error',
+        error: { type: 'rate_limit_error', message: 'Rate limited (injected fault).' },
+      },
+    };
+  }
+  if (rule.type === 'overloaded') {
+    return {
+      status: 529,
+      headers: { 'content-type': 'application/json' },
+      body: {
+        type: 'error',
+        error: { type: 'overloaded_error', message: 'Overloaded (injected fault).' },
+      },
+    };
+  }
+  return null;
+}
+
+/**
+ * Applies a stream fault to SSE text on its way to the client. Events are counted by
+ * their blank-line terminators, which may straddle chunk boundaries.
+ */
+export class SseFaultInjector {
+  private events = 0;
+  private previousWasNewline = false;
+  private fired = false;
+
+  constructor(private readonly rule: FaultRule | null) {}
+
+  /** Delay to apply before forwarding each chunk */
+  get chunkDelayMs(): number {
+    return this.rule?.type === 'slow_drip' ? this.rule.delayMs ?? FAULT_DEFAULT_DRIP_DELAY_MS : 0;
+  }
+
+  /**
+   * Text to forward for a chunk, and whether the connection should be dropped after it.
+   */
+  process(piece: string): { output: string; cut: boolean } {
+    const type = this.rule?.type;
+    if (this.fired || (type !== 'stream_cut' && type !== 'malformed_sse')) {
+      return { output: piece, cut: false };
+    }
+
+    const afterEvents = this.rule?.afterEvents ?? FAULT_DEFAULT_AFTER_EVENTS;
+    for (let index = 0; index < piece.length; index++) {
+      const isNewline = piece[index] === '\n';
+      if (isNewline && this.previousWasNewline) {
+        this.events++;
+        this.previousWasNewline = false;
+        if (this.events >= afterEvents) {
+          this.fired = true;
+          const head = piece.slice(0, index + 1);
+          return type === 'stream_cut'
+            ? { output: head, cut: true }
+            : { output: head + MALFORMED_SSE_EVENT + piece.slice(index + 1), cut: false };
+        }
+        continue;
+      }
+      this.previousWasNewline = isNewline;
+    }
+    return { output: piece, cut: false };
+  }
+}
@@ -0,0 +1,134 @@
+import type { InFlightInteraction } from '../shared/types';
+import { INFLIGHT_PUBLISH_INTERVAL_MS } from './constants';
+import type { LogEventBus } from './logEvents';
+import { extractModel, resolveEndpointType } from './logIndex';
+import type { InteractionLog } from './logWriter';
+import { normalizeResponseBody, resolveProvider } from './providers';
+import { redactValue } from './redaction';
+import type { StreamAggregator } from './streamAggregator';
+
+/**
+ * Tracks proxied requests that haven't been written to disk yet, so the UI can show
+ * long streaming turns while they run. The proxy registers an interaction as soon as
+ * it starts, attaches the stream aggregator once the upstream responds, and completes
+ * it after `writeInteractionLog` has persisted the final entry.
+ *
+ * Live updates go out over the log event bus, throttled per interaction so a fast
+ * stream doesn't flood subscribers. Snapshots are redacted like written logs.
+ */
+
+interface InFlightRecord {
+  entry: InteractionLog;
+  streaming: boolean;
+  aggregator?: StreamAggregator;
+  publishTimer?: NodeJS.Timeout;
+  /** Whether subscribers have seen this interaction and need an `inflight_end` */
+  published: boolean;
+}
+
+export class InFlightRegistry {
+  private records = new Map<string, InFlightRecord>();
+
+  constructor(private events: LogEventBus) {}
+
+  register(entry: InteractionLog): void {
+    this.records.set(entry.id, { entry, streaming: false, published: false });
+    // Delay the first update so requests that finish quickly never flash in the UI.
+    this.schedulePublish(entry.id);
+  }
+
+  /**
+   * Attach the aggregator of a streaming response so snapshots include partial content.
+   */
+  attachStream(id: string, aggregator: StreamAggregator): void {
+    const record = this.records.get(id);
+    if (!record) {
+      return;
+    }
+    record.streaming = true;
+    record.aggregator = aggregator;
+    this.schedulePublish(id);
+  }
+
+  /**
+   * Signal new progress (response headers, stream chunks) for a running interaction.
+   */
+  touch(id: string): void {
+    this.schedulePublish(id);
+  }
+
+  complete(id: string): void {
+    const record = this.records.get(id);
+    if (!record) {
+      return;
+    }
+    if (record.publishTimer) {
+      clearTimeout(record.publishTimer);
+    }
+    this.records.delete(id);
+    if (record.published) {
+      this.events.publish({ type: 'inflight_end', id });
+    }
+  }
+
+  list(): InFlightInteraction[] {
+    return Array.from(this.records.values())
+      .map((record) => this.snapshot(record, false))
+      .sort((a, b) => b.timestampMs - a.timestampMs);
+  }
+
+  get(id: string): InFlightInteraction | null {
+    const record = this.records.get(id);
+    return record ? this.snapshot(record, true) : null;
+  }
+
+  private snapshot(record: InFlightRecord, includeRequest: boolean): InFlightInteraction {
+    const { entry } = record;
+    const provider = resolveProvider(entry.path);
+    const interaction: InFlightInteraction = {
+      id: entry.id,
+      timestamp: entry.timestamp,
+      timestampMs: entry.timestampMs,
+      method: entry.method,
+      path: entry.path,
+      endpointType: resolveEndpointType(entry),
+      provider,
+      elapsedMs: Date.now() - entry.timestampMs,
+      streaming: record.streaming,
+    };
+
+    const model = extractModel(entry);
+    if (model) {
+      interaction.model = model;
+    }
+    if (entry.response) {
+      interaction.status = entry.response.status;
+    }
+    const partial = record.aggregator ? normalizeResponseBody(provider, record.aggregator.snapshot()) : null;
+    if (partial) {
+      interaction.partialResponse = redactValue(partial, 'response.body');
+    }
+    if (includeRequest) {
+      interaction.requestBody = redactValue(entry.request.body, 'request.body');
+    }
+    return interaction;
+  }
+
+  private schedulePublish(id: string): void {
+    const record = this.records.get(id);
+    if (!record || record.publishTimer) {
+      return;
+    }
+    record.publishTimer = setTimeout(() => {
+      const current = this.records.get(id);
+      if (!current) {
+        return;
+      }
+      delete current.publishTimer;
+      current.published = true;
+      this.events.publish({ type: 'inflight', interaction: this.snapshot(current, false) });
+    }, INFLIGHT_PUBLISH_INTERVAL_MS);
+    // Never keep the process alive just to publish a progress update.
+    record.publishTimer.unref();
+  }
+}
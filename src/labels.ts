@@ -0,0 +1,64 @@
+import type { InteractionLabels } from '../shared/types';
+import { LABEL_HEADER_PREFIX, LABEL_MAX_COUNT, LABEL_MAX_VALUE_LENGTH } from './constants';
+
+/**
+ * Interaction labels supplied by clients through `x-snoopty-*` request headers:
+ *
+ *   x-snoopty-project: checkout          -> project=checkout
+ *   x-snoopty-experiment: prompt-v2      -> experiment=prompt-v2
+ *   x-snoopty-user / x-snoopty-run-id    -> user=..., run-id=...
+ *   x-snoopty-label-<name>: <value>      -> <name>=<value> (free-form)
+ *   x-snoopty-labels: team=infra, arm=b  -> several free-form labels at once
+ *
+ * Keys are lower-cased; a key may only contain letters, digits, '.', '_' and '-'.
+ * The headers are kept in the logged request (so replays carry the same labels) but
+ * are never forwarded upstream.
+ */
+
+const LABEL_PREFIX = 'label-';
+const LABEL_LIST_HEADER = `${LABEL_HEADER_PREFIX}labels`;
+const LABEL_KEY_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+
+export function isLabelHeader(name: string): boolean {
+  return name.toLowerCase().startsWith(LABEL_HEADER_PREFIX);
+}
+
+function addLabel(labels: InteractionLabels, rawKey: string, rawValue: string): void {
+  const key = rawKey.trim().toLowerCase();
+  const value = rawValue.trim().slice(0, LABEL_MAX_VALUE_LENGTH);
+  if (!LABEL_KEY_PATTERN.test(key) || !value) {
+    return;
+  }
+  if (!(key in labels) && Object.keys(labels).length >= LABEL_MAX_COUNT) {
+    return;
+  }
+  labels[key] = value;
+}
+
+/**
+ * Labels carried by the request headers, or null when there are none.
+ */
+export function extractLabels(
+  headers: Record<string, string | string[] | undefined>
+): InteractionLabels | null {
+  const labels: InteractionLabels = {};
+  for (const [name, rawValue] of Object.entries(headers)) {
+    if (typeof rawValue === 'undefined' || !isLabelHeader(name)) {
+      continue;
+    }
+    const lowerName = name.toLowerCase();
+    const value = Array.isArray(rawValue) ? rawValue.join(',') : rawValue;
+    if (lowerName === LABEL_LIST_HEADER) {
+      for (const pair of value.split(',')) {
+        const separator = pair.indexOf('=');
+        if (separator > 0) {
+          addLabel(labels, pair.slice(0, separator), pair.slice(separator + 1));
+        }
+      }
+      continue;
+    }
+    const key = lowerName.slice(LABEL_HEADER_PREFIX.length);
+    addLabel(labels, key.startsWith(LABEL_PREFIX) ? key.slice(LABEL_PREFIX.length) : key, value);
+  }
+  return Object.keys(labels).length > 0 ? labels : null;
+}
@@ -0,0 +1,45 @@
+import { EventEmitter } from 'events';
+import type { LogStreamEvent } from '../shared/types';
+import { logger } from './logger';
+
+/**
+ * In-process fan-out of log changes to live subscribers (the SSE feed). The log index
+ * publishes here whenever a summary is created, patched or removed. Each project owns
+ * one bus, so a feed only carries the logs of the project it was opened for.
+ */
+
+const EVENT_NAME = 'log';
+
+export type LogEventListener = (event: LogStreamEvent) => void;
+
+export class LogEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Every open UI tab holds a subscription.
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: LogStreamEvent): void {
+    try {
+      this.emitter.emit(EVENT_NAME, event);
+    } catch (error) {
+      // A broken subscriber must never fail the write that triggered the event.
+      logger.warn({ err: error, type: event.type }, 'LogEventBus: listener failed');
+    }
+  }
+
+  /**
+   * Register a listener; returns the matching unsubscribe function.
+   */
+  subscribe(listener: LogEventListener): () => void {
+    this.emitter.on(EVENT_NAME, listener);
+    return () => {
+      this.emitter.off(EVENT_NAME, listener);
+    };
+  }
+
+  get subscriberCount(): number {
+    return this.emitter.listenerCount(EVENT_NAME);
+  }
+}
@@ -0,0 +1,268 @@
+import type { LogSummary, MetricsFilters, StatusClass } from '../shared/types';
+
+/**
+ * Server-side filtering for log summaries. `parseLogFilters` turns `/api/logs` query
+ * parameters into a `MetricsFilters` object and `matchesLogFilters` evaluates one
+ * summary against it. Everything here works on `LogSummary` rows only, so filtering
+ * is answered from the log index without opening the full payloads.
+ */
+
+const STATUS_CLASSES: ReadonlySet<StatusClass> = new Set(['2xx', '3xx', '4xx', '5xx', 'error']);
+const ENDPOINT_TYPES = new Set(['messages', 'other', 'all']);
+
+type QueryValue = unknown;
+
+export interface ParsedLogFilters {
+  filters: MetricsFilters;
+  errors: string[];
+}
+
+function readString(value: QueryValue): string | undefined {
+  if (Array.isArray(value)) {
+    return readString(value[value.length - 1]);
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/**
+ * Accept both repeated parameters (`?tool=a&tool=b`) and comma-separated lists.
+ */
+function readList(value: QueryValue): string[] | undefined {
+  const raw = Array.isArray(value) ? value : [value];
+  const items = raw
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap((item) => item.split(','))
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+  return items.length > 0 ? items : undefined;
+}
+
+function readNumber(name: string, value: QueryValue, errors: string[]): number | undefined {
+  const raw = readString(value);
+  if (raw === undefined) {
+    return undefined;
+  }
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    errors.push(`${name} must be a non-negative number`);
+    return undefined;
+  }
+  return parsed;
+}
+
+/**
+ * Timestamps may be ISO 8601 strings or epoch milliseconds; both normalize to ISO.
+ */
+function readTimestamp(name: string, value: QueryValue, errors: string[]): string | undefined {
+  const raw = readString(value);
+  if (raw === undefined) {
+    return undefined;
+  }
+  const ms = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+  if (!Number.isFinite(ms)) {
+    errors.push(`${name} must be an ISO 8601 timestamp or epoch milliseconds`);
+    return undefined;
+  }
+  return new Date(ms).toISOString();
+}
+
+export function parseLogFilters(query: Record<string, QueryValue>): ParsedLogFilters {
+  const errors: string[] = [];
+  const filters: MetricsFilters = {};
+
+  const startTime = readTimestamp('startTime', query.startTime, errors);
+  if (startTime) {
+    filters.startTime = startTime;
+  }
+  const endTime = readTimestamp('endTime', query.endTime, errors);
+  if (endTime) {
+    filters.endTime = endTime;
+  }
+
+  const endpointType = readString(query.endpointType);
+  if (endpointType) {
+    if (ENDPOINT_TYPES.has(endpointType)) {
+      filters.endpointType = endpointType as NonNullable<MetricsFilters['endpointType']>;
+    } else {
+      errors.push(`endpointType must be one of ${Array.from(ENDPOINT_TYPES).join(', ')}`);
+    }
+  }
+
+  const agentTags = readList(query.agentTags ?? query.agentTag);
+  if (agentTags) {
+    filters.agentTags = agentTags as NonNullable<MetricsFilters['agentTags']>;
+  }
+
+  const model = readString(query.model);
+  if (model) {
+    filters.model = model;
+  }
+
+  const statusClasses = readList(query.statusClass ?? query.statusClasses);
+  if (statusClasses) {
+    const invalid = statusClasses.filter((value) => !STATUS_CLASSES.has(value as StatusClass));
+    if (invalid.length > 0) {
+      errors.push(`statusClass must be one of ${Array.from(STATUS_CLASSES).join(', ')}`);
+    } else {
+      filters.statusClasses = statusClasses as StatusClass[];
+    }
+  }
+
+  const toolNames = readList(query.toolName ?? query.toolNames);
+  if (toolNames) {
+    filters.toolNames = toolNames;
+  }
+
+  // label=project:checkout (repeatable); every label must match
+  const labelPairs = readList(query.label ?? query.labels);
+  if (labelPairs) {
+    const labels: Record<string, string> = {};
+    for (const pair of labelPairs) {
+      const separator = pair.indexOf(':');
+      if (separator <= 0) {
+        errors.push('label must be formatted as key:value');
+        break;
+      }
+      labels[pair.slice(0, separator).trim().toLowerCase()] = pair.slice(separator + 1).trim();
+    }
+    filters.labels = labels;
+  }
+
+  const numericKeys = [
+    'minDurationMs',
+    'maxDurationMs',
+    'minInputTokens',
+    'maxInputTokens',
+    'minOutputTokens',
+    'maxOutputTokens',
+    'minTotalTokens',
+    'maxTotalTokens',
+  ] as const;
+  for (const key of numericKeys) {
+    const value = readNumber(key, query[key], errors);
+    if (value !== undefined) {
+      filters[key] = value;
+    }
+  }
+
+  if (filters.startTime && filters.endTime && filters.startTime > filters.endTime) {
+    errors.push('startTime must not be after endTime');
+  }
+
+  return { filters, errors };
+}
+
+export function hasActiveFilters(filters: MetricsFilters | undefined): boolean {
+  if (!filters) {
+    return false;
+  }
+  return Object.entries(filters).some(
+    ([key, value]) => value !== undefined && !(key === 'endpointType' && value === 'all')
+  );
+}
+
+function statusClassOf(summary: LogSummary): StatusClass {
+  if (summary.error || typeof summary.status !== 'number') {
+    return 'error';
+  }
+  if (summary.status >= 500) return '5xx';
+  if (summary.status >= 400) return '4xx';
+  if (summary.status >= 300) return '3xx';
+  return '2xx';
+}
+
+function withinRange(value: number | null | undefined, min?: number, max?: number): boolean {
+  if (min === undefined && max === undefined) {
+    return true;
+  }
+  // Thresholds only match logs that actually report the value.
+  if (typeof value !== 'number') {
+    return false;
+  }
+  if (min !== undefined && value < min) {
+    return false;
+  }
+  if (max !== undefined && value > max) {
+    return false;
+  }
+  return true;
+}
+
+function totalTokens(summary: LogSummary): number | null {
+  const totals = summary.tokenUsage?.system_totals;
+  if (!totals) {
+    return null;
+  }
+  const values = [
+    totals.inputTokens,
+    totals.outputTokens,
+    totals.cacheCreationInputTokens,
+    totals.cacheReadInputTokens,
+  ].filter((value): value is number => typeof value === 'number');
+  return values.length === 0 ? null : values.reduce((acc, value) => acc + value, 0);
+}
+
+export function matchesLogFilters(summary: LogSummary, filters: MetricsFilters): boolean {
+  if (filters.startTime && summary.timestampMs < Date.parse(filters.startTime)) {
+    return false;
+  }
+  if (filters.endTime && summary.timestampMs > Date.parse(filters.endTime)) {
+    return false;
+  }
+
+  if (filters.endpointType && filters.endpointType !== 'all' && summary.endpointType !== filters.endpointType) {
+    return false;
+  }
+
+  if (filters.agentTags && filters.agentTags.length > 0) {
+    const tagId = summary.agentTag?.id ?? 'untagged';
+    if (!filters.agentTags.includes(tagId)) {
+      return false;
+    }
+  }
+
+  if (filters.model && !summary.model?.toLowerCase().includes(filters.model.toLowerCase())) {
+    return false;
+  }
+
+  if (filters.statusClasses && filters.statusClasses.length > 0) {
+    if (!filters.statusClasses.includes(statusClassOf(summary))) {
+      return false;
+    }
+  }
+
+  if (!withinRange(summary.durationMs, filters.minDurationMs, filters.maxDurationMs)) {
+    return false;
+  }
+
+  if (filters.toolNames && filters.toolNames.length > 0) {
+    const used = summary.toolsUsed ?? [];
+    if (!filters.toolNames.some((toolName) => used.includes(toolName))) {
+      return false;
+    }
+  }
+
+  if (filters.labels) {
+    const labels = summary.labels ?? {};
+    if (!Object.entries(filters.labels).every(([key, value]) => labels[key] === value)) {
+      return false;
+    }
+  }
+
+  const totals = summary.tokenUsage?.system_totals;
+  if (!withinRange(totals?.inputTokens, filters.minInputTokens, filters.maxInputTokens)) {
+    return false;
+  }
+  if (!withinRange(totals?.outputTokens, filters.minOutputTokens, filters.maxOutputTokens)) {
+    return false;
+  }
+  if (!withinRange(totalTokens(summary), filters.minTotalTokens, filters.maxTotalTokens)) {
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,513 @@
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import type {
+  EndpointType,
+  InteractionLog,
+  ListLogsOptions,
+  ListLogsResult,
+  LogSummary,
+} from '../shared/types';
+import type { LogEventBus } from './logEvents';
+import { hasActiveFilters, matchesLogFilters } from './logFilters';
+import { logger } from './logger';
+import { normalizeResponse, resolveProvider } from './providers';
+import { createStreamAggregator } from './streamAggregator';
+
+/**
+ * Persistent index of `LogSummary` rows so list queries never have to open the full
+ * interaction payloads. The index lives next to the logs as an append-only JSONL file:
+ *  - the first line is a header carrying the index version,
+ *  - every following line is either an upsert (a full summary) or a delete.
+ *
+ * On first use we replay the file into memory, then reconcile it against the directory
+ * listing so files written while the server was down (or deleted by hand) are picked up.
+ * When the file accumulates too many superseded lines we rewrite it compactly.
+ */
+
+export const LOG_FILE_REGEX = /^[0-9A-Z\-]+-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.json$/i;
+
+/** Bump when the shape of indexed summaries changes so stale indexes are rebuilt. */
+const INDEX_VERSION = 14;
+const INDEX_FILE_NAME = '.snoopty-index.jsonl';
+
+/** Rewrite the index once superseded lines outnumber live entries by this factor. */
+const COMPACTION_RATIO = 2;
+
+/**
+ * Ensures response body is hydrated by reconstructing from stream chunks if needed.
+ * Returns true if the body was updated. Older streaming logs were written without an
+ * aggregated body.
+ */
+export function hydrateResponseBody(entry: InteractionLog): boolean {
+  const response = entry.response;
+  if (!response || response.body || !Array.isArray(response.streamChunks) || response.streamChunks.length === 0) {
+    return false;
+  }
+  try {
+    const aggregator = createStreamAggregator(resolveProvider(entry.path));
+    response.streamChunks.forEach((chunk) => {
+      if (typeof chunk === 'string') {
+        aggregator.ingest(chunk);
+      }
+    });
+    const aggregated = aggregator.finalize();
+    if (aggregated) {
+      response.body = aggregated;
+      return true;
+    }
+  } catch (error) {
+    logger.warn(
+      { err: error, entryId: entry.id },
+      'failed to reconstruct aggregated stream response'
+    );
+  }
+  return false;
+}
+
+/**
+ * Summary fields whose serialized value differs between two versions of a log.
+ */
+function diffSummaries(previous: LogSummary, next: LogSummary): Partial<LogSummary> {
+  const patch: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<keyof LogSummary>;
+  for (const key of keys) {
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      patch[key] = next[key] ?? null;
+    }
+  }
+  return patch as Partial<LogSummary>;
+}
+
+type IndexLine =
+  | { op: 'header'; version: number }
+  | { op: 'upsert'; summary: LogSummary }
+  | { op: 'delete'; fileName: string };
+
+export function extractModel(entry: InteractionLog): string | undefined {
+  const body = entry.request.body;
+  if (body && typeof body === 'object' && 'model' in body) {
+    const value = (body as Record<string, unknown>).model;
+    return typeof value === 'string' ? value : undefined;
+  }
+  return undefined;
+}
+
+export function resolveEndpointType(entry: InteractionLog): EndpointType {
+  if (resolveProvider(entry.path) === 'openai') {
+    return 'messages';
+  }
+
+  // Categorize token counting requests as 'other' (Meta)
+  const isTokenCountingRequest =
+    entry.path.includes('/count_tokens') ||
+    (entry.path.endsWith('/messages') &&
+      typeof entry.request?.body === 'object' &&
+      entry.request.body !== null &&
+      (entry.request.body as Record<string, unknown>).max_tokens === 1);
+
+  if (isTokenCountingRequest) {
+    return 'other';
+  }
+  return entry.path.endsWith('/messages') ? 'messages' : 'other';
+}
+
+/**
+ * Tools that were actually exercised: called in the response or returned in the request.
+ * Falls back to tool_use blocks in the response before the metrics worker has run.
+ */
+function extractToolsUsed(entry: InteractionLog): string[] {
+  const names = new Set<string>();
+  if (entry.toolMetrics) {
+    for (const tool of entry.toolMetrics.tools) {
+      if (tool.callCount > 0 || tool.returnTokenCounts.length > 0) {
+        names.add(tool.toolName);
+      }
+    }
+  }
+  for (const block of normalizeResponse(entry)?.content ?? []) {
+    if (block.type === 'tool_use' && block.name) {
+      names.add(block.name);
+    }
+  }
+  return Array.from(names).sort();
+}
+
+/**
+ * Build the lightweight summary row for a log entry.
+ */
+export function buildLogSummary(entry: InteractionLog, fileName: string): LogSummary {
+  const summary: LogSummary = {
+    id: entry.id,
+    fileName,
+    timestamp: entry.timestamp,
+    timestampMs: entry.timestampMs,
+    method: entry.method,
+    path: entry.path,
+    endpointType: resolveEndpointType(entry),
+    provider: resolveProvider(entry.path),
+  };
+
+  if (typeof entry.response?.status === 'number') {
+    summary.status = entry.response.status;
+  }
+
+  if (typeof entry.durationMs === 'number') {
+    summary.durationMs = entry.durationMs;
+  }
+
+  const model = extractModel(entry);
+  if (model) {
+    summary.model = model;
+  }
+
+  if (entry.response?.error) {
+    summary.error = entry.response.error;
+  }
+
+  if (entry.tokenUsage) {
+    summary.tokenUsage = entry.tokenUsage;
+  }
+
+  if (entry.agentTag) {
+    summary.agentTag = entry.agentTag;
+  }
+
+  const toolsUsed = extractToolsUsed(entry);
+  if (toolsUsed.length > 0) {
+    summary.toolsUsed = toolsUsed;
+  }
+
+  if (entry.session) {
+    summary.session = entry.session;
+  }
+
+  if (entry.cost) {
+    summary.cost = entry.cost;
+  }
+
+  if (entry.replayOf) {
+    summary.replayOf = entry.replayOf;
+  }
+
+  if (entry.cassette) {
+    summary.cassette = entry.cassette;
+  }
+
+  if (entry.fault) {
+    summary.fault = entry.fault;
+  }
+
+  if (entry.rewrite) {
+    summary.rewriteRuleIds = entry.rewrite.ruleIds;
+  }
+
+  if (entry.attempts && entry.attempts.length > 0) {
+    summary.upstream = entry.attempts[entry.attempts.length - 1]!.upstream;
+    if (entry.attempts.length > 1) {
+      summary.attemptCount = entry.attempts.length;
+    }
+  }
+
+  if (entry.labels) {
+    summary.labels = entry.labels;
+  }
+
+  if (entry.auth) {
+    summary.auth = entry.auth;
+  }
+
+  if (entry.budget) {
+    summary.budget = entry.budget;
+  }
+
+  return summary;
+}
+
+export class LogIndex {
+  private entries = new Map<string, LogSummary>();
+  private sortedFileNames: string[] | null = null;
+  private lineCount = 0;
+  private loading: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(
+    private logDir: string,
+    private events: LogEventBus
+  ) {}
+
+  private get indexPath(): string {
+    return path.join(this.logDir, INDEX_FILE_NAME);
+  }
+
+  /**
+   * Load the index from disk (once) and reconcile it with the log directory.
+   */
+  async ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load().catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    await this.loading;
+  }
+
+  /**
+   * Insert or replace the summary for a log file, notifying live subscribers.
+   */
+  async upsert(summary: LogSummary): Promise<void> {
+    await this.ensureLoaded();
+    const previous = this.entries.get(summary.fileName);
+    this.entries.set(summary.fileName, summary);
+    this.sortedFileNames = null;
+    await this.appendLines([{ op: 'upsert', summary }]);
+
+    if (!previous) {
+      this.events.publish({ type: 'created', summary });
+      return;
+    }
+    const patch = diffSummaries(previous, summary);
+    if (Object.keys(patch).length > 0) {
+      this.events.publish({ type: 'patch', fileName: summary.fileName, patch });
+    }
+  }
+
+  /**
+   * Build and store the summary for a freshly written or updated log entry.
+   */
+  async upsertEntry(entry: InteractionLog, fileName: string): Promise<void> {
+    await this.upsert(buildLogSummary(entry, fileName));
+  }
+
+  /**
+   * Drop summaries for deleted log files.
+   */
+  async remove(fileNames: string[]): Promise<void> {
+    await this.ensureLoaded();
+    const removed = fileNames.filter((fileName) => this.entries.delete(fileName));
+    if (removed.length === 0) {
+      return;
+    }
+    this.sortedFileNames = null;
+    await this.appendLines(removed.map((fileName) => ({ op: 'delete' as const, fileName })));
+    this.events.publish({ type: 'deleted', fileNames: removed });
+  }
+
+  async get(fileName: string): Promise<LogSummary | null> {
+    await this.ensureLoaded();
+    return this.entries.get(fileName) ?? null;
+  }
+
+  /**
+   * All indexed summaries, newest first.
+   */
+  async all(): Promise<LogSummary[]> {
+    await this.ensureLoaded();
+    return this.getSortedFileNames()
+      .map((fileName) => this.entries.get(fileName))
+      .filter((summary): summary is LogSummary => summary !== undefined);
+  }
+
+  /**
+   * Return one page of summaries, newest first, optionally filtered.
+   * The cursor is the file name of the last item on the previous page.
+   */
+  async list(options: ListLogsOptions): Promise<ListLogsResult> {
+    const { limit, cursor, filters } = options;
+    await this.ensureLoaded();
+
+    const files = this.getSortedFileNames();
+    if (files.length === 0) {
+      return { items: [] };
+    }
+
+    let startIndex = 0;
+    if (cursor) {
+      const cursorIndex = files.findIndex((name) => name === cursor);
+      if (cursorIndex !== -1) {
+        startIndex = cursorIndex + 1;
+      }
+    }
+
+    const applyFilters = hasActiveFilters(filters);
+    const items: LogSummary[] = [];
+    let hasMore = false;
+
+    for (let index = startIndex; index < files.length; index++) {
+      const summary = this.entries.get(files[index]!);
+      if (!summary || (applyFilters && !matchesLogFilters(summary, filters!))) {
+        continue;
+      }
+      if (items.length === limit) {
+        hasMore = true;
+        break;
+      }
+      items.push(summary);
+    }
+
+    const lastItem = items[items.length - 1];
+    return hasMore && lastItem ? { items, nextCursor: lastItem.fileName } : { items };
+  }
+
+  private getSortedFileNames(): string[] {
+    if (!this.sortedFileNames) {
+      // File names start with the ISO timestamp, so lexical order is chronological.
+      this.sortedFileNames = Array.from(this.entries.keys()).sort((a, b) => b.localeCompare(a));
+    }
+    return this.sortedFileNames;
+  }
+
+  private async load(): Promise<void> {
+    const startTime = Date.now();
+    this.entries.clear();
+    this.sortedFileNames = null;
+    this.lineCount = 0;
+
+    if (!existsSync(this.logDir)) {
+      logger.debug({ logDir: this.logDir }, 'LogIndex: log directory missing, starting empty');
+      return;
+    }
+
+    const replayed = await this.replayIndexFile();
+
+    const files = (await fs.readdir(this.logDir)).filter((name) => LOG_FILE_REGEX.test(name));
+    const onDisk = new Set(files);
+
+    const stale = Array.from(this.entries.keys()).filter((fileName) => !onDisk.has(fileName));
+    for (const fileName of stale) {
+      this.entries.delete(fileName);
+    }
+
+    const missing = files.filter((fileName) => !this.entries.has(fileName));
+    for (const fileName of missing) {
+      const entry = await this.readEntry(fileName);
+      if (entry) {
+        this.entries.set(fileName, buildLogSummary(entry, fileName));
+      }
+    }
+
+    if (!replayed || stale.length > 0 || missing.length > 0) {
+      await this.rewrite();
+    } else {
+      await this.compactIfNeeded();
+    }
+
+    logger.info(
+      {
+        entries: this.entries.size,
+        indexed: missing.length,
+        dropped: stale.length,
+        durationMs: Date.now() - startTime,
+      },
+      'LogIndex: loaded'
+    );
+  }
+
+  /**
+   * Replay the on-disk index into memory.
+   * Returns false if there was no usable index (missing, corrupt or outdated).
+   */
+  private async replayIndexFile(): Promise<boolean> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.indexPath, 'utf8');
+    } catch {
+      return false;
+    }
+
+    const lines = raw.split('\n').filter((line) => line.trim().length > 0);
+    let header: IndexLine | null = null;
+    try {
+      header = lines.length > 0 ? (JSON.parse(lines[0]!) as IndexLine) : null;
+    } catch {
+      header = null;
+    }
+    if (!header || header.op !== 'header' || header.version !== INDEX_VERSION) {
+      logger.info({ indexPath: this.indexPath }, 'LogIndex: index missing or outdated, rebuilding');
+      return false;
+    }
+
+    for (const line of lines.slice(1)) {
+      let parsed: IndexLine;
+      try {
+        parsed = JSON.parse(line) as IndexLine;
+      } catch {
+        // A torn final line from a crash mid-append is expected; skip it.
+        logger.warn({ indexPath: this.indexPath }, 'LogIndex: skipping malformed index line');
+        continue;
+      }
+      if (parsed.op === 'upsert') {
+        this.entries.set(parsed.summary.fileName, parsed.summary);
+      } else if (parsed.op === 'delete') {
+        this.entries.delete(parsed.fileName);
+      }
+    }
+    this.lineCount = lines.length;
+    return true;
+  }
+
+  private async readEntry(fileName: string): Promise<InteractionLog | null> {
+    try {
+      const raw = await fs.readFile(path.join(this.logDir, fileName), 'utf8');
+      const entry = JSON.parse(raw) as InteractionLog;
+      // Summarize the aggregated body; it's persisted when the log is next opened.
+      hydrateResponseBody(entry);
+      return entry;
+    } catch (error) {
+      logger.warn({ err: error, fileName }, 'LogIndex: failed to read log while indexing');
+      return null;
+    }
+  }
+
+  private appendLines(lines: IndexLine[]): Promise<void> {
+    const payload = lines.map((line) => JSON.stringify(line)).join('\n') + '\n';
+    return this.enqueueWrite(async () => {
+      await fs.mkdir(this.logDir, { recursive: true });
+      if (this.lineCount === 0) {
+        await this.writeIndexFile();
+        return;
+      }
+      await fs.appendFile(this.indexPath, payload, 'utf8');
+      this.lineCount += lines.length;
+      await this.compactIfNeeded();
+    });
+  }
+
+  private async compactIfNeeded(): Promise<void> {
+    if (this.lineCount > (this.entries.size + 1) * COMPACTION_RATIO) {
+      logger.debug(
+        { lines: this.lineCount, entries: this.entries.size },
+        'LogIndex: compacting index file'
+      );
+      await this.writeIndexFile();
+    }
+  }
+
+  private rewrite(): Promise<void> {
+    return this.enqueueWrite(() => this.writeIndexFile());
+  }
+
+  /**
+   * Write the full index atomically (temp file + rename).
+   */
+  private async writeIndexFile(): Promise<void> {
+    const lines: IndexLine[] = [
+      { op: 'header', version: INDEX_VERSION },
+      ...Array.from(this.entries.values()).map((summary) => ({ op: 'upsert' as const, summary })),
+    ];
+    const tempPath = `${this.indexPath}.tmp`;
+    await fs.mkdir(this.logDir, { recursive: true });
+    await fs.writeFile(tempPath, lines.map((line) => JSON.stringify(line)).join('\n') + '\n', 'utf8');
+    await fs.rename(tempPath, this.indexPath);
+    this.lineCount = lines.length;
+  }
+
+  private enqueueWrite(task: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(task);
+    // Keep the chain alive after failures; the caller still sees the rejection.
+    this.writeChain = next.catch((error) => {
+      logger.error({ err: error, indexPath: this.indexPath }, 'LogIndex: failed to write index');
+    });
+    return next;
+  }
+}
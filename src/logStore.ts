@@ -4,12 +4,10 @@ import type {
   InteractionLog,
   ListLogsOptions,
   ListLogsResult,
-  LogSummary,
 } from '../shared/types';
-import { appConfig } from './config';
+import { hydrateResponseBody, LOG_FILE_REGEX } from './logIndex';
 import { logger } from './logger';
-import { AnthropicStreamAggregator } from './streamAggregator';
-import { globalMetricsWorker } from './workers/metricsWorker';
+import type { Project } from './projects';
 
 // Re-export for backward compatibility
 export type { ListLogsOptions, ListLogsResult, LogSummary } from '../shared/types';
@@ -17,12 +15,12 @@ export type { ListLogsOptions, ListLogsResult, LogSummary } from '../shared/type
 /**
  * Lightweight storage layer for interaction logs. Each request/response pair is written
  * to disk as a JSON file; these helpers know how to list files, read individual logs,
- * and delete batches. Keeping it separate from the Express handlers makes the API
- * routes very small and easy to reason about.
+ * and delete batches. Listing is answered from the persistent summary index in
+ * logIndex.ts so polling never re-reads the full payloads. Every helper works on the
+ * log directory of one project. Keeping it separate from the Express handlers makes
+ * the API routes very small and easy to reason about.
  */
 
-const LOG_FILE_REGEX = /^[0-9A-Z\-]+-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.json$/i;
-
 async function readInteractionLog(filePath: string): Promise<InteractionLog | null> {
   try {
     const raw = await fs.readFile(filePath, 'utf8');
@@ -34,45 +32,6 @@ async function readInteractionLog(filePath: string): Promise<InteractionLog | nu
   }
 }
 
-/**
- * Ensures response body is hydrated by reconstructing from stream chunks if needed.
- * Returns true if the body was updated.
- */
-function hydrateResponseBody(entry: InteractionLog): boolean {
-  const response = entry.response;
-  if (!response || response.body || !Array.isArray(response.streamChunks) || response.streamChunks.length === 0) {
-    return false;
-  }
-  try {
-    const aggregator = new AnthropicStreamAggregator();
-    response.streamChunks.forEach((chunk) => {
-      if (typeof chunk === 'string') {
-        aggregator.ingest(chunk);
-      }
-    });
-    const aggregated = aggregator.finalize();
-    if (aggregated) {
-      response.body = aggregated;
-      return true;
-    }
-  } catch (error) {
-    logger.warn(
-      { err: error, entryId: entry.id },
-      'failed to reconstruct aggregated stream response'
-    );
-  }
-  return false;
-}
-
-function extractModel(entry: InteractionLog): string | undefined {
-  const body = entry.request.body;
-  if (body && typeof body === 'object' && 'model' in body) {
-    const value = (body as Record<string, unknown>).model;
-    return typeof value === 'string' ? value : undefined;
-  }
-  return undefined;
-}
-
 function ensureLogDirExists(dir: string): boolean {
   return existsSync(dir);
 }
@@ -111,107 +70,17 @@ async function ensureLogMetadata(entry: InteractionLog, filePath: string): Promi
   }
 }
 
-export async function listLogs(options: ListLogsOptions): Promise<ListLogsResult> {
-  const { limit, cursor } = options;
-  const logDir = path.resolve(appConfig.logDir);
-
-  if (!ensureLogDirExists(logDir)) {
-    // No log directory yet – return an empty list so the UI stays happy.
-    return { items: [] };
-  }
-
-  const files = (await fs.readdir(logDir))
-    .filter((name) => LOG_FILE_REGEX.test(name))
-    .sort((a, b) => b.localeCompare(a)); // newest first
-
-  if (files.length === 0) {
-    return { items: [] };
-  }
-
-  let startIndex = 0;
-  if (cursor) {
-    const cursorIndex = files.findIndex((name) => name === cursor);
-    if (cursorIndex !== -1) {
-      startIndex = cursorIndex + 1;
-    }
-  }
-
-  const slice = files.slice(startIndex, startIndex + limit);
-  const items: LogSummary[] = [];
-
-  for (const fileName of slice) {
-    const filePath = path.join(logDir, fileName);
-    const entry = await readInteractionLog(filePath);
-    if (!entry) {
-      continue;
-    }
-
-    await ensureLogMetadata(entry, filePath);
-
-    // Determine endpoint type - categorize token counting requests as 'other' (Meta)
-    const isTokenCountingRequest =
-      entry.path.includes('/count_tokens') ||
-      (entry.path.endsWith('/messages') &&
-        typeof entry.request?.body === 'object' &&
-        entry.request.body !== null &&
-        (entry.request.body as Record<string, unknown>).max_tokens === 1);
-
-    const endpointType: 'messages' | 'other' = isTokenCountingRequest
-      ? 'other'
-      : entry.path.endsWith('/messages')
-        ? 'messages'
-        : 'other';
-
-    const summary: LogSummary = {
-      id: entry.id,
-      fileName,
-      timestamp: entry.timestamp,
-      timestampMs: entry.timestampMs,
-      method: entry.method,
-      path: entry.path,
-      endpointType,
-    };
-
-    if (typeof entry.response?.status === 'number') {
-      summary.status = entry.response.status;
-    }
-
-    if (typeof entry.durationMs === 'number') {
-      summary.durationMs = entry.durationMs;
-    }
-
-    const model = extractModel(entry);
-    if (model) {
-      summary.model = model;
-    }
-
-    if (entry.response?.error) {
-      summary.error = entry.response.error;
-    }
-
-    if (entry.tokenUsage) {
-      summary.tokenUsage = entry.tokenUsage;
-    }
-
-    if (entry.agentTag) {
-      summary.agentTag = entry.agentTag;
-    }
-
-    items.push(summary);
-  }
-
-  const nextIndex = startIndex + slice.length;
-  const nextCursor = nextIndex < files.length ? files[nextIndex] : undefined;
-
-  return nextCursor ? { items, nextCursor } : { items };
+export async function listLogs(project: Project, options: ListLogsOptions): Promise<ListLogsResult> {
+  // Summaries are served from the persistent index; full payloads are never opened here.
+  return project.logIndex.list(options);
 }
 
-export async function getLog(fileName: string): Promise<InteractionLog | null> {
+export async function getLog(project: Project, fileName: string): Promise<InteractionLog | null> {
   if (!LOG_FILE_REGEX.test(fileName)) {
     return null;
   }
 
-  const logDir = path.resolve(appConfig.logDir);
+  const logDir = project.logDir;
   if (!ensureLogDirExists(logDir)) {
     return null;
   }
@@ -223,7 +92,10 @@ export async function getLog(fileName: string): Promise<InteractionLog | null> {
       return null;
     }
 
-    await ensureLogMetadata(entry, filePath);
+    if (await ensureLogMetadata(entry, filePath)) {
+      // The summary depends on the body (model, tools), so keep the list in step.
+      await project.logIndex.upsertEntry(entry, fileName);
+    }
 
     return entry;
   } catch (error) {
@@ -237,9 +109,9 @@ export interface DeleteLogsResult {
   failed: Array<{ fileName: string; error: string }>;
 }
 
-export async function deleteLogs(fileNames: string[]): Promise<DeleteLogsResult> {
+export async function deleteLogs(project: Project, fileNames: string[]): Promise<DeleteLogsResult> {
   const uniqueNames = Array.from(new Set(fileNames));
-  const logDir = path.resolve(appConfig.logDir);
+  const logDir = project.logDir;
   const result: DeleteLogsResult = { deleted: [], failed: [] };
 
   if (!ensureLogDirExists(logDir) || uniqueNames.length === 0) {
@@ -265,6 +137,9 @@ export async function deleteLogs(fileNames: string[]): Promise<DeleteLogsResult>
     }
   }
 
+  await project.logIndex.remove(result.deleted);
+  project.searchIndex.remove(result.deleted);
+
   return result;
 }
 
@@ -272,26 +147,29 @@ export interface RecomputeLogsResult {
   processed: number;
 }
 
-export async function recomputeLogs(): Promise<RecomputeLogsResult> {
-  const logDir = path.resolve(appConfig.logDir);
+export async function recomputeLogs(project: Project): Promise<RecomputeLogsResult> {
+  const logDir = project.logDir;
 
   if (!ensureLogDirExists(logDir)) {
     return { processed: 0 };
   }
 
   // Check if metrics worker is available
-  if (!globalMetricsWorker) {
-    logger.error('recomputeLogs called but MetricsWorker is not initialized');
+  if (!project.metricsWorker) {
+    logger.error({ project: project.name }, 'recomputeLogs called but MetricsWorker is not initialized');
     throw new Error('MetricsWorker not initialized. Cannot recompute logs.');
   }
 
   const files = (await fs.readdir(logDir))
     .filter((name) => LOG_FILE_REGEX.test(name));
 
-  logger.info({ totalFiles: files.length }, 'Starting log recomputation using MetricsWorker');
+  logger.info(
+    { project: project.name, totalFiles: files.length },
+    'Starting log recomputation using MetricsWorker'
+  );
 
   // Delegate to MetricsWorker's recomputeAll method which processes all logs with force=true
-  await globalMetricsWorker.recomputeAll();
+  await project.metricsWorker.recomputeAll();
 
   logger.info(
     { processed: files.length },
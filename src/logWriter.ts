@@ -1,7 +1,8 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { appConfig } from './config';
 import { logger } from './logger';
+import type { Project } from './projects';
+import { redactInteractionLog } from './redaction';
 
 // Re-export shared types for backward compatibility
 export type {
@@ -22,6 +23,13 @@ import type { InteractionLog } from '../shared/types';
 const SENSITIVE_HEADERS = new Set(['x-api-key', 'authorization', 'proxy-authorization']);
 const DIRECTORY_CACHE = new Set<string>();
 
+/**
+ * Credential headers; logged values are truncated, so they can't be resent.
+ */
+export function isSensitiveHeader(name: string): boolean {
+  return SENSITIVE_HEADERS.has(name.toLowerCase());
+}
+
 function sanitizeHeaderValue(value: string): string {
   return value.length > 2 ? `${value.slice(0, 2)}…` : '••';
 }
@@ -46,24 +54,50 @@ async function ensureLogDirectory(dir: string): Promise<void> {
   DIRECTORY_CACHE.add(dir);
 }
 
-function buildLogFilePath(entry: InteractionLog): string {
+/**
+ * File name an interaction log is stored under (timestamp first, so names sort by time).
+ */
+export function buildLogFileName(entry: InteractionLog): string {
   const safeTimestamp = entry.timestamp.replace(/[:.]/g, '-');
-  return path.join(appConfig.logDir, `${safeTimestamp}-${entry.id}.json`);
+  return `${safeTimestamp}-${entry.id}.json`;
+}
+
+function buildLogFilePath(project: Project, entry: InteractionLog): string {
+  return path.join(project.logDir, buildLogFileName(entry));
 }
 
 /**
- * Writes an interaction log to disk.
+ * Writes an interaction log to the project's log directory and records its summary in
+ * the project's log index.
+ * Secrets and PII are redacted from the entry (in place) first, so neither the file
+ * nor the indexes ever see them.
  * Returns true if the write succeeded, false otherwise.
  */
-export async function writeInteractionLog(entry: InteractionLog): Promise<boolean> {
+export async function writeInteractionLog(project: Project, entry: InteractionLog): Promise<boolean> {
+  const filepath = buildLogFilePath(project, entry);
   try {
-    await ensureLogDirectory(appConfig.logDir);
-    const filepath = buildLogFilePath(entry);
+    redactInteractionLog(entry);
+  } catch (error) {
+    // Never write a log we failed to redact.
+    logger.error({ err: error, entryId: entry.id }, 'failed to redact interaction log');
+    return false;
+  }
+
+  try {
+    await ensureLogDirectory(project.logDir);
     const payload = JSON.stringify(entry, null, 2);
     await fs.writeFile(filepath, payload, 'utf8');
-    return true;
   } catch (error) {
     logger.error({ err: error, entryId: entry.id }, 'failed to write interaction log');
     return false;
   }
+
+  try {
+    await project.logIndex.upsertEntry(entry, path.basename(filepath));
+    project.searchIndex.add(entry, path.basename(filepath));
+  } catch (error) {
+    // The log itself is safe on disk; the index reconciles missing entries on next load.
+    logger.warn({ err: error, entryId: entry.id }, 'failed to index interaction log');
+  }
+  return true;
 }
@@ -0,0 +1,71 @@
+/**
+ * Cost Analyzer
+ *
+ * Prices each interaction in USD from the token usage Anthropic reported
+ * (input, output, cache writes and cache reads) using the model pricing table.
+ * Logs without reported usage or with an unpriced model are skipped.
+ */
+
+import type { CostInfo, InteractionLog } from '../../shared/types';
+import { extractModel } from '../logIndex';
+import { logger } from '../logger';
+import { computeCost, resolveModelPricing } from '../pricing';
+import type { MetricsAnalyzer } from './MetricsAnalyzer';
+
+/**
+ * Whether the log reported any usage the cost analyzer can price.
+ */
+export function hasReportedUsage(log: InteractionLog): boolean {
+  const totals = log.tokenUsage?.system_totals;
+  return (
+    !!totals &&
+    [
+      totals.inputTokens,
+      totals.outputTokens,
+      totals.cacheCreationInputTokens,
+      totals.cacheReadInputTokens,
+    ].some((value) => typeof value === 'number')
+  );
+}
+
+export class CostAnalyzer implements MetricsAnalyzer<CostInfo> {
+  name = 'cost';
+
+  /** @param pricingFile - The project's pricing overrides (see pricing.ts) */
+  constructor(private pricingFile: string | null) {}
+
+  async analyze(log: InteractionLog): Promise<CostInfo | null> {
+    if (!hasReportedUsage(log)) {
+      logger.debug({ logId: log.id, path: log.path }, 'CostAnalyzer: Skipping - no reported usage');
+      return null;
+    }
+
+    const model = extractModel(log);
+    if (!model) {
+      logger.debug({ logId: log.id }, 'CostAnalyzer: Skipping - missing model in request body');
+      return null;
+    }
+
+    const resolved = resolveModelPricing(model, this.pricingFile);
+    if (!resolved) {
+      logger.debug({ logId: log.id, model }, 'CostAnalyzer: Skipping - no pricing for model');
+      return null;
+    }
+
+    const breakdown = computeCost(log.tokenUsage.system_totals, resolved.pricing);
+    const costUsd =
+      breakdown.inputUsd + breakdown.outputUsd + breakdown.cacheWriteUsd + breakdown.cacheReadUsd;
+
+    logger.debug(
+      { logId: log.id, model, pricingModel: resolved.key, costUsd },
+      'CostAnalyzer: Computed cost'
+    );
+
+    return {
+      costUsd,
+      breakdown,
+      pricingModel: resolved.key,
+      rates: resolved.pricing,
+    };
+  }
+}
@@ -8,6 +8,7 @@
  */
 
 import type { InteractionLog } from '../../shared/types';
+import type { AgentTagRuleStore } from '../agentTagRules';
 
 /**
  * Base interface for all metrics analyzers.
@@ -34,10 +35,13 @@ export interface MetricsAnalyzer<T = unknown> {
  * Registry for managing all metrics analyzers.
  *
  * Provides centralized registration and execution of all analyzers.
+ * Each project has its own registry, bound to the project's agent tag rules.
  */
 export class MetricsRegistry {
   private analyzers: Map<string, MetricsAnalyzer> = new Map();
 
+  constructor(private agentTagRules: AgentTagRuleStore) {}
+
   /**
    * Register a metrics analyzer.
    */
@@ -84,7 +88,12 @@ export class MetricsRegistry {
       case 'token-breakdown':
         return !!log.tokenUsage.custom;
       case 'agent-tag':
-        return !!log.agentTag;
+        // Tags from an older version of the rules are recomputed
+        return !!log.agentTag && log.agentTag.rulesVersion === this.agentTagRules.current().version;
+      case 'session':
+        return !!log.session;
+      case 'cost':
+        return !!log.cost;
       default:
         // Unknown analyzer - always run
         return false;
@@ -164,13 +173,3 @@ export class MetricsRegistry {
     return analyzer.analyze(log);
   }
 }
-
-/**
- * Global singleton registry instance.
- *
- * Analyzers should register themselves on module import:
- * ```typescript
- * globalMetricsRegistry.register(new MyAnalyzer());
- * ```
- */
-export const globalMetricsRegistry = new MetricsRegistry();
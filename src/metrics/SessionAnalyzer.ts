@@ -0,0 +1,298 @@
+/**
+ * Session Analyzer
+ *
+ * Reconstructs Claude Code sessions from isolated interactions:
+ * - Threads: every request in a conversation resends the previous request's messages
+ *   plus the assistant response, so a request continues the interaction whose
+ *   "tip" (messages + response) equals its own messages minus the newest one.
+ * - Subagents: a subagent thread opens with the prompt of a Task tool_use from the
+ *   parent's response, which links it to the spawning interaction and its session.
+ *
+ * Linking needs history, so the analyzer keeps fingerprint maps in memory. They are
+ * seeded from the session info already stored in the log index and extended as logs
+ * are analyzed; the metrics worker processes logs oldest first so parents are known
+ * before their continuations.
+ */
+
+import { createHash } from 'crypto';
+import type {
+  InteractionLog,
+  LogSummary,
+  NormalizedContentBlock,
+  NormalizedMessage,
+  NormalizedRequest,
+  SessionInfo,
+} from '../../shared/types';
+import type { LogIndex } from '../logIndex';
+import { logger } from '../logger';
+import { isConversationPath, normalizeRequest, normalizeResponse } from '../providers';
+import type { MetricsAnalyzer } from './MetricsAnalyzer';
+
+/** Tools whose `prompt` input starts a subagent conversation */
+const SUBAGENT_TOOL_NAMES = new Set(['Task', 'Agent']);
+
+const HASH_LENGTH = 16;
+
+interface ThreadLink {
+  logId: string;
+  sessionId: string;
+  threadId: string;
+  depth: number;
+}
+
+type SessionLink = Omit<SessionInfo, 'fingerprints'>;
+
+interface TaskLink {
+  logId: string;
+  toolUseId: string;
+  sessionId: string;
+  depth: number;
+}
+
+function hash(value: string): string {
+  return createHash('sha1').update(value).digest('hex').slice(0, HASH_LENGTH);
+}
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Messages of a conversation request in the provider-neutral form, or null when there
+ * are none to link.
+ */
+function conversationOf(log: InteractionLog): NormalizedRequest | null {
+  const request = normalizeRequest(log);
+  return request && request.messages.length > 0 ? request : null;
+}
+
+/**
+ * Reduce message content to the parts that survive being resent: text, tool ids and
+ * attachments. Cache-control markers move between requests and thinking blocks may be
+ * stripped from earlier turns, so both are ignored.
+ */
+function normalizeContent(content: NormalizedContentBlock[]): string[] {
+  const parts: string[] = [];
+  for (const block of content) {
+    switch (block.type) {
+      case 'text':
+        parts.push(`text:${block.text}`);
+        break;
+      case 'tool_use':
+        parts.push(`tool_use:${block.id}`);
+        break;
+      case 'tool_result':
+        parts.push(`tool_result:${block.tool_use_id}`);
+        break;
+      case 'thinking':
+        break;
+      case 'other':
+        parts.push(block.originalType);
+        break;
+    }
+  }
+  return parts;
+}
+
+function normalizeMessage(message: NormalizedMessage): string {
+  return JSON.stringify([message.role, normalizeContent(message.content)]);
+}
+
+function hashMessages(messages: string[]): string {
+  return hash(messages.join('\n'));
+}
+
+/**
+ * Text blocks of a message, trimmed; used to match subagent prompts.
+ */
+function collectTexts(content: NormalizedContentBlock[]): string[] {
+  return content
+    .map((block) => (block.type === 'text' ? block.text.trim() : ''))
+    .filter((text) => text.length > 0);
+}
+
+export class SessionAnalyzer implements MetricsAnalyzer<SessionInfo> {
+  name = 'session';
+
+  private tips = new Map<string, ThreadLink>();
+  private roots = new Map<string, ThreadLink>();
+  private taskPrompts = new Map<string, TaskLink>();
+  private seeding: Promise<void> | null = null;
+
+  constructor(private logIndex: LogIndex) {}
+
+  async analyze(log: InteractionLog): Promise<SessionInfo | null> {
+    if (!isConversationPath(log.path) || log.path.includes('/count_tokens')) {
+      logger.debug(
+        { logId: log.id, path: log.path },
+        'SessionAnalyzer: Skipping - not a messages request'
+      );
+      return null;
+    }
+
+    const request = conversationOf(log);
+    if (!request) {
+      logger.debug({ logId: log.id }, 'SessionAnalyzer: Skipping - no messages in request');
+      return null;
+    }
+
+    await this.ensureSeeded();
+
+    const messages = request.messages.map(normalizeMessage);
+    const root = hash(`${request.system.join('\n')}\n${messages[0]}`);
+    const response = normalizeResponse(log);
+    const responseMessage = response ? normalizeMessage({ role: 'assistant', content: response.content }) : null;
+    const tip = hashMessages(responseMessage ? [...messages, responseMessage] : messages);
+
+    const info: SessionInfo = {
+      ...this.link(log.id, request.messages[0], messages, root),
+      fingerprints: { root, tip },
+    };
+
+    const taskPrompts = this.collectTaskPrompts(log);
+    if (taskPrompts.length > 0) {
+      info.fingerprints.taskPrompts = taskPrompts;
+    }
+
+    this.remember(log.id, info);
+
+    logger.debug(
+      {
+        logId: log.id,
+        sessionId: info.sessionId,
+        threadId: info.threadId,
+        parentLogId: info.parentLogId,
+        depth: info.depth,
+      },
+      'SessionAnalyzer: Linked interaction'
+    );
+    return info;
+  }
+
+  /**
+   * The session a request will be linked to, from the logs analyzed so far, without
+   * remembering it. Lets session budgets be checked before the request is forwarded.
+   */
+  async predictSessionId(log: InteractionLog): Promise<string | null> {
+    const request = conversationOf(log);
+    if (!request) {
+      return null;
+    }
+    await this.ensureSeeded();
+    const messages = request.messages.map(normalizeMessage);
+    const root = hash(`${request.system.join('\n')}\n${messages[0]}`);
+    return this.link(log.id, request.messages[0], messages, root).sessionId;
+  }
+
+  private link(
+    logId: string,
+    firstMessage: NormalizedMessage | undefined,
+    messages: string[],
+    root: string
+  ): SessionLink {
+    // Continuation: our messages minus the newest one are a previous request + response.
+    if (messages.length > 1) {
+      const previous = this.tips.get(hashMessages(messages.slice(0, -1)));
+      if (previous && previous.logId !== logId) {
+        return {
+          sessionId: previous.sessionId,
+          threadId: previous.threadId,
+          previousLogId: previous.logId,
+          depth: previous.depth,
+        };
+      }
+    }
+
+    // Same opening as a known thread, but the history was edited (e.g. a rewind).
+    const sameRoot = this.roots.get(root);
+    if (sameRoot && sameRoot.logId !== logId) {
+      return {
+        sessionId: sameRoot.sessionId,
+        threadId: sameRoot.threadId,
+        depth: sameRoot.depth,
+      };
+    }
+
+    // Subagent: a new thread that opens with the prompt of a Task tool call.
+    const texts = firstMessage ? collectTexts(firstMessage.content) : [];
+    for (const text of texts) {
+      const task = this.taskPrompts.get(hash(text));
+      if (task && task.logId !== logId) {
+        return {
+          sessionId: task.sessionId,
+          threadId: logId,
+          parentLogId: task.logId,
+          parentToolUseId: task.toolUseId,
+          depth: task.depth + 1,
+        };
+      }
+    }
+
+    return { sessionId: logId, threadId: logId, depth: 0 };
+  }
+
+  private collectTaskPrompts(log: InteractionLog): Array<{ toolUseId: string; promptHash: string }> {
+    const prompts: Array<{ toolUseId: string; promptHash: string }> = [];
+    for (const block of normalizeResponse(log)?.content ?? []) {
+      if (
+        block.type === 'tool_use' &&
+        SUBAGENT_TOOL_NAMES.has(block.name) &&
+        isPlainRecord(block.input) &&
+        typeof block.input.prompt === 'string'
+      ) {
+        prompts.push({
+          toolUseId: block.id,
+          promptHash: hash(block.input.prompt.trim()),
+        });
+      }
+    }
+    return prompts;
+  }
+
+  private remember(logId: string, info: SessionInfo): void {
+    const link: ThreadLink = {
+      logId,
+      sessionId: info.sessionId,
+      threadId: info.threadId,
+      depth: info.depth,
+    };
+    this.tips.set(info.fingerprints.tip, link);
+    if (!this.roots.has(info.fingerprints.root)) {
+      this.roots.set(info.fingerprints.root, link);
+    }
+    for (const prompt of info.fingerprints.taskPrompts ?? []) {
+      this.taskPrompts.set(prompt.promptHash, {
+        logId,
+        toolUseId: prompt.toolUseId,
+        sessionId: info.sessionId,
+        depth: info.depth,
+      });
+    }
+  }
+
+  /**
+   * Load fingerprints of previously analyzed logs (oldest first) from the log index.
+   */
+  private ensureSeeded(): Promise<void> {
+    if (!this.seeding) {
+      this.seeding = this.logIndex
+        .all()
+        .then((summaries: LogSummary[]) => {
+          let seeded = 0;
+          for (let index = summaries.length - 1; index >= 0; index--) {
+            const summary = summaries[index];
+            if (summary?.session) {
+              this.remember(summary.id, summary.session);
+              seeded++;
+            }
+          }
+          logger.debug({ seeded }, 'SessionAnalyzer: Seeded fingerprints from log index');
+        })
+        .catch((error) => {
+          this.seeding = null;
+          throw error;
+        });
+    }
+    return this.seeding;
+  }
+}
@@ -1,7 +1,11 @@
 /**
  * Token Breakdown Analyzer
  *
- * Computes detailed per-role token breakdowns using Anthropic's token counting API.
+ * Computes detailed per-role token breakdowns using the configured token counter
+ * (Anthropic's counting API, the local tokenizer, or local counts calibrated against
+ * the usage the provider reported for the request). Requests and responses are read
+ * in the provider-neutral form from providers.ts, so server and MCP tool calls and
+ * results count as tool use and tool returns.
  * This integrates tokenCounting.ts functionality into the analyzer framework.
  */
 
@@ -10,13 +14,16 @@ import type {
   TokenCountDetail,
   TokenUsageSegmentId,
   TokenUsageSummary,
+  TokenUsageTotals,
 } from '../../shared/types';
 import { logger } from '../logger';
+import { isConversationPath, isToolUseBlockType, normalizeRequest, normalizeResponse } from '../providers';
 import {
   countAssistantTokens,
   countSystemTokens,
   countToolTokens,
   countUserTokens,
+  getTokenCounter,
 } from '../utils/tokenCounter';
 import type { MetricsAnalyzer } from './MetricsAnalyzer';
 
@@ -88,11 +95,11 @@ export class TokenBreakdownAnalyzer implements MetricsAnalyzer<TokenUsageSummary
   }
 
   async analyze(log: InteractionLog): Promise<TokenUsageSummary | null> {
-    // Only analyze /messages endpoints
-    if (!log.path.includes('/messages')) {
+    // Only analyze conversation endpoints (/messages, /chat/completions)
+    if (!isConversationPath(log.path)) {
       logger.debug(
         { logId: log.id, path: log.path },
-        'TokenBreakdownAnalyzer: Skipping - path does not include /messages'
+        'TokenBreakdownAnalyzer: Skipping - not a conversation endpoint'
       );
       return null;
     }
@@ -126,19 +133,19 @@ export class TokenBreakdownAnalyzer implements MetricsAnalyzer<TokenUsageSummary
       return null;
     }
 
-    const body = entry.request.body as Record<string, unknown> | undefined;
-    const model = body?.model;
+    const request = normalizeRequest(entry);
+    const model = request?.model;
 
-    if (!model || typeof model !== 'string') {
+    if (!model) {
       throw new Error('Model is required in request body for token counting');
     }
 
-    const tools = body?.tools as unknown[] | undefined;
+    const tools = request.tools;
 
     // Separate tools by type
     let mcpTools: unknown[] = [];
     let regularTools: unknown[] = [];
-    if (tools && Array.isArray(tools) && tools.length > 0) {
+    if (tools.length > 0) {
       const separated = this.separateToolsByType(tools);
       mcpTools = separated.mcpTools;
       regularTools = separated.regularTools;
@@ -178,6 +185,7 @@ export class TokenBreakdownAnalyzer implements MetricsAnalyzer<TokenUsageSummary
     ]);
 
     const systemUsage = entry.tokenUsage.system_totals;
+    const counter = getTokenCounter(model);
 
     const inputSegments: Record<string, TokenCountDetail> = {
       system: inputSystemDetail,
@@ -199,6 +207,11 @@ export class TokenBreakdownAnalyzer implements MetricsAnalyzer<TokenUsageSummary
       tool_use_regular: outputToolUseRegularDetail,
     };
 
+    if (counter.name === 'hybrid') {
+      this.calibrate(inputSegments, this.reportedInputTokens(systemUsage), 'input');
+      this.calibrate(outputSegments, systemUsage.outputTokens, 'output');
+    }
+
     // Calculate totals
     let inputTokensTotal: number | null = 0;
     for (const detail of Object.values(inputSegments)) {
@@ -226,8 +239,8 @@ export class TokenBreakdownAnalyzer implements MetricsAnalyzer<TokenUsageSummary
         : null;
 
     return {system_totals: systemUsage, custom: {
-        provider: 'estimate',
-        methodology: 'estimate',
+        provider: counter.name,
+        methodology: counter.methodology,
         input: {
           segments: inputSegments,
           totalTokens: inputTokensTotal,
@@ -241,6 +254,45 @@ export class TokenBreakdownAnalyzer implements MetricsAnalyzer<TokenUsageSummary
     };
   }
 
+  /**
+   * Everything Anthropic billed as input: uncached, cache writes and cache reads.
+   */
+  private reportedInputTokens(usage: TokenUsageTotals): number | null {
+    const values = [
+      usage.inputTokens,
+      usage.cacheCreationInputTokens,
+      usage.cacheReadInputTokens,
+    ].filter((value): value is number => typeof value === 'number');
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : null;
+  }
+
+  /**
+   * Scale local counts so the segments add up to the reported total. Keeps the local
+   * tokenizer's proportions between segments while matching Anthropic's overall count.
+   */
+  private calibrate(
+    segments: Record<string, TokenCountDetail>,
+    reportedTotal: number | null,
+    direction: 'input' | 'output'
+  ): void {
+    const localTotal = Object.values(segments).reduce(
+      (sum, detail) => sum + (detail.tokens ?? 0),
+      0
+    );
+    if (reportedTotal === null || reportedTotal <= 0 || localTotal <= 0) {
+      return;
+    }
+
+    const factor = reportedTotal / localTotal;
+    const notes = `local count scaled x${factor.toFixed(3)} to reported ${direction} tokens`;
+    for (const detail of Object.values(segments)) {
+      if (typeof detail.tokens === 'number' && detail.tokens > 0) {
+        detail.tokens = Math.round(detail.tokens * factor);
+        detail.notes = notes;
+      }
+    }
+  }
+
   private async buildDetail(
     role: TokenUsageSegmentId,
     textSegments: string[],
@@ -250,12 +302,14 @@ export class TokenBreakdownAnalyzer implements MetricsAnalyzer<TokenUsageSummary
     // For tool definitions, check tools array instead of textSegments
     const isToolDefinition = role === 'tool_mcp' || role === 'tool_regular';
 
+    const { methodology } = getTokenCounter(model);
+
     if (!isToolDefinition && textSegments.length === 0) {
       return {
         tokens: 0,
         textLength: 0,
         segments: 0,
-        methodology: 'estimate',
+        methodology,
       };
     }
 
@@ -306,7 +360,7 @@ export class TokenBreakdownAnalyzer implements MetricsAnalyzer<TokenUsageSummary
       tokens,
       textLength,
       segments,
-      methodology: 'estimate',
+      methodology,
     };
   }
 
@@ -410,88 +464,41 @@ export class TokenBreakdownAnalyzer implements MetricsAnalyzer<TokenUsageSummary
   }
 
   private collectRequestBuckets(entry: InteractionLog, buckets: InputBuckets): void {
-    const body = entry.request.body;
-    if (!body || typeof body !== 'object') {
+    const request = normalizeRequest(entry);
+    if (!request) {
       return;
     }
 
-    const data = body as Record<string, unknown>;
-    const system = data.system;
-
-    if (Array.isArray(system)) {
-      for (const item of system) {
-        if (item && typeof item === 'object' && 'text' in (item as Record<string, unknown>)) {
-          this.addIfPresent(buckets.system, String((item as Record<string, unknown>).text));
-        } else if (typeof item === 'string') {
-          this.addIfPresent(buckets.system, item);
-        }
-      }
-    } else if (typeof system === 'string') {
+    for (const system of request.system) {
       this.addIfPresent(buckets.system, system);
     }
 
     // Build tool_use_id to tool name mapping for classifying tool_result blocks
     const toolUseIdToName = new Map<string, string>();
 
-    const messages = data.messages;
-    if (Array.isArray(messages)) {
+    const messages = request.messages;
+    if (messages.length > 0) {
       // First pass: collect tool_use blocks to build the mapping
-      for (const raw of messages) {
-        if (!raw || typeof raw !== 'object') {
-          continue;
-        }
-        const message = raw as { role?: string; content?: unknown };
-        if (message.role === 'assistant' && Array.isArray(message.content)) {
+      for (const message of messages) {
+        if (message.role === 'assistant') {
           for (const block of message.content) {
-            if (block && typeof block === 'object' && 'type' in block) {
-              const b = block as Record<string, unknown>;
-              if (b.type === 'tool_use' && typeof b.id === 'string' && typeof b.name === 'string') {
-                toolUseIdToName.set(b.id, b.name);
-              }
+            if (block.type === 'tool_use') {
+              toolUseIdToName.set(block.id, block.name);
             }
           }
         }
       }
 
       // Second pass: collect content into buckets
-      for (const raw of messages) {
-        if (!raw || typeof raw !== 'object') {
-          continue;
-        }
-        const message = raw as { role?: string; content?: unknown };
-        const role = typeof message.role === 'string' ? message.role : 'assistant';
+      for (const message of messages) {
         const contentByType = this.normalizeContentByType(message.content);
 
-        switch (role) {
+        switch (message.role) {
           case 'user':
             for (const segment of contentByType.text) {
               this.addIfPresent(buckets.user, segment);
             }
-            // Classify tool_result by looking up tool name
-            for (const segment of contentByType.tool_result_unclassified) {
-              try {
-                const parsed = JSON.parse(segment) as { toolUseId?: string; content: string };
-                if (parsed.toolUseId) {
-                  const toolName = toolUseIdToName.get(parsed.toolUseId);
-                  if (toolName) {
-                    const toolType = this.classifyToolType(toolName);
-                    if (toolType === 'mcp') {
-                      this.addIfPresent(buckets.tool_return_mcp, parsed.content);
-                    } else {
-                      this.addIfPresent(buckets.tool_return_regular, parsed.content);
-                    }
-                  } else {
-                    // Unknown tool, default to regular
-                    this.addIfPresent(buckets.tool_return_regular, parsed.content);
-                  }
-                } else {
-                  this.addIfPresent(buckets.tool_return_regular, parsed.content);
-                }
-              } catch {
-                // If parse fails, treat as regular
-                this.addIfPresent(buckets.tool_return_regular, segment);
-              }
-            }
+            this.addToolReturns(contentByType.tool_result_unclassified, toolUseIdToName, buckets);
             break;
           case 'assistant':
             for (const segment of contentByType.text) {
@@ -506,35 +513,70 @@ export class TokenBreakdownAnalyzer implements MetricsAnalyzer<TokenUsageSummary
             for (const segment of contentByType.tool_use_regular) {
               this.addIfPresent(buckets.tool_use_regular, segment);
             }
+            // Server and MCP tool results are part of the assistant turn
+            this.addToolReturns(contentByType.tool_result_unclassified, toolUseIdToName, buckets);
             break;
         }
       }
     }
   }
 
+  /**
+   * Classify tool_result segments (see normalizeContentByType) as MCP or regular tool
+   * returns by looking up the name of the tool that produced them.
+   */
+  private addToolReturns(
+    segments: string[],
+    toolUseIdToName: Map<string, string>,
+    buckets: InputBuckets
+  ): void {
+    for (const segment of segments) {
+      try {
+        const parsed = JSON.parse(segment) as { toolUseId?: string; content: string };
+        if (parsed.toolUseId) {
+          const toolName = toolUseIdToName.get(parsed.toolUseId);
+          if (toolName) {
+            const toolType = this.classifyToolType(toolName);
+            if (toolType === 'mcp') {
+              this.addIfPresent(buckets.tool_return_mcp, parsed.content);
+            } else {
+              this.addIfPresent(buckets.tool_return_regular, parsed.content);
+            }
+          } else {
+            // Unknown tool, default to regular
+            this.addIfPresent(buckets.tool_return_regular, parsed.content);
+          }
+        } else {
+          this.addIfPresent(buckets.tool_return_regular, parsed.content);
+        }
+      } catch {
+        // If parse fails, treat as regular
+        this.addIfPresent(buckets.tool_return_regular, segment);
+      }
+    }
+  }
+
   private collectResponseBuckets(entry: InteractionLog, buckets: OutputBuckets): void {
     if (!entry.response) {
       return;
     }
 
-    const { body, streamChunks } = entry.response;
+    const { streamChunks } = entry.response;
+    const response = normalizeResponse(entry);
 
-    if (body && typeof body === 'object') {
-      const content = (body as Record<string, unknown>).content;
-      if (Array.isArray(content)) {
-        const contentByType = this.normalizeContentByType(content);
-        for (const segment of contentByType.text) {
-          this.addIfPresent(buckets.assistant, segment);
-        }
-        for (const segment of contentByType.thinking) {
-          this.addIfPresent(buckets.thinking, segment);
-        }
-        for (const segment of contentByType.tool_use_mcp) {
-          this.addIfPresent(buckets.tool_use_mcp, segment);
-        }
-        for (const segment of contentByType.tool_use_regular) {
-          this.addIfPresent(buckets.tool_use_regular, segment);
-        }
+    if (response) {
+      const contentByType = this.normalizeContentByType(response.content);
+      for (const segment of contentByType.text) {
+        this.addIfPresent(buckets.assistant, segment);
+      }
+      for (const segment of contentByType.thinking) {
+        this.addIfPresent(buckets.thinking, segment);
+      }
+      for (const segment of contentByType.tool_use_mcp) {
+        this.addIfPresent(buckets.tool_use_mcp, segment);
+      }
+      for (const segment of contentByType.tool_use_regular) {
+        this.addIfPresent(buckets.tool_use_regular, segment);
       }
     } else if (Array.isArray(streamChunks)) {
       for (const chunk of streamChunks) {
@@ -561,7 +603,11 @@ export class TokenBreakdownAnalyzer implements MetricsAnalyzer<TokenUsageSummary
               }
             } else if (parsed.type === 'content_block_start') {
               const contentBlock = parsed.content_block as Record<string, unknown> | undefined;
-              if (contentBlock?.type === 'tool_use' && typeof contentBlock.name === 'string') {
+              if (
+                typeof contentBlock?.type === 'string' &&
+                isToolUseBlockType(contentBlock.type) &&
+                typeof contentBlock.name === 'string'
+              ) {
                 const toolType = this.classifyToolType(contentBlock.name);
                 const serialized = JSON.stringify(contentBlock);
                 if (toolType === 'mcp') {
@@ -5,6 +5,8 @@
  * - Which tools are defined
  * - Which tools are called (tool_use blocks)
  * - Tool return sizes (tool_result blocks) using ACCURATE token counts via Anthropic API
+ * - Works on the provider-neutral request/response form, so OpenAI tool_calls and
+ *   Anthropic server tool (web search, code execution) and MCP connector calls count too
  * - Frequency and aggregate statistics
  *
  * IMPORTANT: All size metrics are in TOKENS, not string lengths.
@@ -13,6 +15,7 @@
 
 import type { InteractionLog, ToolCallDetail, ToolMetricsSummary, ToolUsageDetail } from '../../shared/types';
 import { logger } from '../logger';
+import { isConversationPath, normalizeRequest, normalizeResponse } from '../providers';
 import { countContentTokens } from '../utils/tokenCounter';
 import type { MetricsAnalyzer } from './MetricsAnalyzer';
 
@@ -30,12 +33,12 @@ export class ToolMetricsAnalyzer implements MetricsAnalyzer<ToolMetricsSummary>
   }
 
   async analyze(log: InteractionLog): Promise<ToolMetricsSummary | null> {
-    // Only analyze /messages endpoints
+    // Only analyze conversation endpoints (/messages, /chat/completions)
     // Skip /messages/count_tokens since it's just for token counting
-    if (!log.path.includes('/messages')) {
+    if (!isConversationPath(log.path)) {
       logger.debug(
         { logId: log.id, path: log.path },
-        'ToolMetricsAnalyzer: Skipping - path does not include /messages'
+        'ToolMetricsAnalyzer: Skipping - not a conversation endpoint'
       );
       return null;
     }
@@ -48,10 +51,9 @@ export class ToolMetricsAnalyzer implements MetricsAnalyzer<ToolMetricsSummary>
       return null;
     }
 
-    const body = log.request.body as Record<string, unknown> | undefined;
-    const model = body?.model;
+    const model = normalizeRequest(log)?.model;
 
-    if (!model || typeof model !== 'string') {
+    if (!model) {
       logger.warn(
         { logId: log.id, path: log.path },
         'ToolMetricsAnalyzer: Skipping - missing model in request body'
@@ -151,17 +153,8 @@ export class ToolMetricsAnalyzer implements MetricsAnalyzer<ToolMetricsSummary>
   private extractToolDefinitions(log: InteractionLog): Set<string> {
     const toolNames = new Set<string>();
 
-    try {
-      const body = log.request.body as any;
-      if (body && Array.isArray(body.tools)) {
-        for (const tool of body.tools) {
-          if (tool && typeof tool.name === 'string') {
-            toolNames.add(tool.name);
-          }
-        }
-      }
-    } catch (error) {
-      // Ignore parsing errors
+    for (const tool of normalizeRequest(log)?.tools ?? []) {
+      toolNames.add(tool.name);
     }
 
     return toolNames;
@@ -173,20 +166,13 @@ export class ToolMetricsAnalyzer implements MetricsAnalyzer<ToolMetricsSummary>
   private extractToolCallsWithIds(log: InteractionLog): Array<{ toolCallId: string; toolName: string }> {
     const toolCalls: Array<{ toolCallId: string; toolName: string }> = [];
 
-    try {
-      const body = log.response?.body as any;
-      if (body && Array.isArray(body.content)) {
-        for (const block of body.content) {
-          if (block && block.type === 'tool_use' && typeof block.name === 'string' && typeof block.id === 'string') {
-            toolCalls.push({
-              toolCallId: block.id,
-              toolName: block.name
-            });
-          }
-        }
+    for (const block of normalizeResponse(log)?.content ?? []) {
+      if (block.type === 'tool_use' && block.name) {
+        toolCalls.push({
+          toolCallId: block.id,
+          toolName: block.name
+        });
       }
-    } catch (error) {
-      // Ignore parsing errors
     }
 
     return toolCalls;
@@ -204,25 +190,23 @@ export class ToolMetricsAnalyzer implements MetricsAnalyzer<ToolMetricsSummary>
     const completedCalls: Array<{ toolCallId: string; toolName: string; timestamp: string; returnTokens: number }> = [];
 
     try {
-      const body = log.request.body as any;
-      if (!body || !Array.isArray(body.messages)) {
+      const request = normalizeRequest(log);
+      if (!request) {
         return completedCalls;
       }
 
       // First, extract all tool_use blocks from the request (from previous assistant turn)
       const toolUseMap = new Map<string, { toolName: string; timestamp: string }>();
 
-      for (const message of body.messages) {
-        if (message && Array.isArray(message.content)) {
-          for (const block of message.content) {
-            if (block && block.type === 'tool_use' && block.id && block.name) {
-              // Use this log's timestamp as approximation (the actual call was made in a previous log)
-              // but we use the tool_use presence here to know when the call was conceptually made
-              toolUseMap.set(block.id, {
-                toolName: block.name,
-                timestamp: log.timestamp // This is close enough - the call was made just before this log
-              });
-            }
+      for (const message of request.messages) {
+        for (const block of message.content) {
+          if (block.type === 'tool_use' && block.id && block.name) {
+            // Use this log's timestamp as approximation (the actual call was made in a previous log)
+            // but we use the tool_use presence here to know when the call was conceptually made
+            toolUseMap.set(block.id, {
+              toolName: block.name,
+              timestamp: log.timestamp // This is close enough - the call was made just before this log
+            });
           }
         }
       }
@@ -230,16 +214,14 @@ export class ToolMetricsAnalyzer implements MetricsAnalyzer<ToolMetricsSummary>
       // Now extract tool_result blocks and match them with tool_use
       const toolResults: Array<{ toolCallId: string; content: string }> = [];
 
-      for (const message of body.messages) {
-        if (message && Array.isArray(message.content)) {
-          for (const block of message.content) {
-            if (block && block.type === 'tool_result' && block.tool_use_id) {
-              const content = this.extractToolResultContent(block);
-              toolResults.push({
-                toolCallId: block.tool_use_id,
-                content
-              });
-            }
+      for (const message of request.messages) {
+        for (const block of message.content) {
+          if (block.type === 'tool_result' && block.tool_use_id) {
+            const content = this.extractToolResultContent(block);
+            toolResults.push({
+              toolCallId: block.tool_use_id,
+              content
+            });
           }
         }
       }
@@ -292,42 +274,23 @@ export class ToolMetricsAnalyzer implements MetricsAnalyzer<ToolMetricsSummary>
    * Searches both the current response and previous assistant messages in the request.
    */
   private inferToolNameFromResult(log: InteractionLog, toolUseId: string): string | null {
-    try {
-      // First check the response (current turn)
-      const responseBody = log.response?.body as any;
-      if (responseBody && Array.isArray(responseBody.content)) {
-        for (const block of responseBody.content) {
-          if (
-            block &&
-            block.type === 'tool_use' &&
-            block.id === toolUseId &&
-            typeof block.name === 'string'
-          ) {
-            return block.name;
-          }
-        }
+    // First check the response (current turn)
+    for (const block of normalizeResponse(log)?.content ?? []) {
+      if (block.type === 'tool_use' && block.id === toolUseId && block.name) {
+        return block.name;
       }
+    }
 
-      // Also check request messages (previous turns in conversation)
-      const requestBody = log.request.body as any;
-      if (requestBody && Array.isArray(requestBody.messages)) {
-        for (const message of requestBody.messages) {
-          if (message && message.role === 'assistant' && Array.isArray(message.content)) {
-            for (const block of message.content) {
-              if (
-                block &&
-                block.type === 'tool_use' &&
-                block.id === toolUseId &&
-                typeof block.name === 'string'
-              ) {
-                return block.name;
-              }
-            }
-          }
+    // Also check request messages (previous turns in conversation)
+    for (const message of normalizeRequest(log)?.messages ?? []) {
+      if (message.role !== 'assistant') {
+        continue;
+      }
+      for (const block of message.content) {
+        if (block.type === 'tool_use' && block.id === toolUseId && block.name) {
+          return block.name;
         }
       }
-    } catch (error) {
-      // Ignore
     }
 
     // Fallback: return the tool_use_id as the name
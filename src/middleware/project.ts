@@ -0,0 +1,50 @@
+import type { NextFunction, Request, Response } from 'express';
+import { PROJECT_HEADER } from '../constants';
+import { globalProjects, type Project } from '../projects';
+
+declare global {
+  namespace Express {
+    interface Locals {
+      /** Project the request is scoped to, set by `selectProject` */
+      project: Project;
+    }
+  }
+}
+
+const PROJECT_PATH_PREFIX = /^\/p\/[^/?]+/;
+
+/**
+ * Drop the `/p/<project>` routing prefix so the rest of the URL can go upstream as is.
+ */
+export function stripProjectPrefix(url: string): string {
+  return url.replace(PROJECT_PATH_PREFIX, '');
+}
+
+/**
+ * Resolve the project a request belongs to, in order of precedence:
+ *  1. the `:project` path parameter (`/p/<name>/v1/*`, `/api/p/<name>/*`); unknown names are a 404,
+ *  2. the `x-snoopty-project` header, when it names a configured project (otherwise it is
+ *     only an interaction label),
+ *  3. the extra listening port the request arrived on,
+ *  4. the default project.
+ */
+export function selectProject(req: Request, res: Response, next: NextFunction): void {
+  const params = req.params as Record<string, string | undefined>;
+  if (typeof params.project === 'string') {
+    const project = globalProjects.get(params.project);
+    if (!project) {
+      res.status(404).json({ error: `Unknown project "${params.project}"` });
+      return;
+    }
+    res.locals.project = project;
+    next();
+    return;
+  }
+
+  const header = req.get(PROJECT_HEADER)?.trim().toLowerCase();
+  res.locals.project =
+    (header ? globalProjects.get(header) : null) ??
+    globalProjects.forPort(req.socket.localPort) ??
+    globalProjects.defaultProject;
+  next();
+}
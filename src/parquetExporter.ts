@@ -1,4 +1,5 @@
 import type { InteractionLog } from './logWriter';
+import { resolveProvider } from './providers';
 
 /**
  * Build Parquet columnar data from the on-disk interaction logs. Each log becomes
@@ -41,6 +42,7 @@ async function collectColumns(records: ParquetRecord[]): Promise<ParquetColumn[]
   };
   const methodColumn: ParquetColumn = { name: 'method', data: [], type: 'STRING' };
   const pathColumn: ParquetColumn = { name: 'path', data: [], type: 'STRING' };
+  const providerColumn: ParquetColumn = { name: 'provider', data: [], type: 'STRING' };
   const statusColumn: ParquetColumn = { name: 'status_code', data: [], type: 'INT32' };
   const durationColumn: ParquetColumn = { name: 'duration_ms', data: [], type: 'INT32' };
   const modelColumn: ParquetColumn = { name: 'model', data: [], type: 'STRING' };
@@ -185,11 +187,86 @@ async function collectColumns(records: ParquetRecord[]): Promise<ParquetColumn[]
     type: 'STRING',
   };
 
+  // Auth: which credential was used, never the credential itself
+  const authModeColumn: ParquetColumn = {
+    name: 'auth_mode',
+    data: [],
+    type: 'STRING',
+  };
+  const authIdentityColumn: ParquetColumn = {
+    name: 'auth_identity',
+    data: [],
+    type: 'STRING',
+  };
+  const authNameColumn: ParquetColumn = {
+    name: 'auth_name',
+    data: [],
+    type: 'STRING',
+  };
+
+  // Budget that fired on the interaction, if any
+  const budgetRuleColumn: ParquetColumn = {
+    name: 'budget_rule',
+    data: [],
+    type: 'STRING',
+  };
+  const budgetActionColumn: ParquetColumn = {
+    name: 'budget_action',
+    data: [],
+    type: 'STRING',
+  };
+
+  // Rewrite rules applied before forwarding, comma separated
+  const rewriteRulesColumn: ParquetColumn = {
+    name: 'rewrite_rules',
+    data: [],
+    type: 'STRING',
+  };
+
+  // Upstream that answered, and how many tries it took
+  const upstreamColumn: ParquetColumn = {
+    name: 'upstream',
+    data: [],
+    type: 'STRING',
+  };
+  const attemptCountColumn: ParquetColumn = {
+    name: 'attempt_count',
+    data: [],
+    type: 'INT32',
+  };
+
+  // Stream timing (see streamTiming.ts)
+  const ttftColumn: ParquetColumn = {
+    name: 'ttft_ms',
+    data: [],
+    type: 'INT32',
+  };
+  const outputTokensPerSecondColumn: ParquetColumn = {
+    name: 'output_tokens_per_second',
+    data: [],
+    type: 'DOUBLE',
+  };
+
+  // Labels: the full map plus one column per label key present in the export
+  const labelsJsonColumn: ParquetColumn = {
+    name: 'labels_json',
+    data: [],
+    type: 'STRING',
+  };
+  const labelKeys = Array.from(
+    new Set(records.flatMap(({ entry }) => Object.keys(entry.labels ?? {})))
+  ).sort();
+  const labelColumns = labelKeys.map((key): [string, ParquetColumn] => [
+    key,
+    { name: `label_${key.replace(/[^a-z0-9_]/g, '_')}`, data: [], type: 'STRING' },
+  ]);
+
   const columns: ParquetColumn[] = [
     fileNameColumn,
     timestampColumn,
     methodColumn,
     pathColumn,
+    providerColumn,
     statusColumn,
     durationColumn,
     modelColumn,
@@ -221,6 +298,18 @@ async function collectColumns(records: ParquetRecord[]): Promise<ParquetColumn[]
     agentTagLabelColumn,
     agentTagDescriptionColumn,
     agentTagThemeJsonColumn,
+    authModeColumn,
+    authIdentityColumn,
+    authNameColumn,
+    budgetRuleColumn,
+    budgetActionColumn,
+    rewriteRulesColumn,
+    upstreamColumn,
+    attemptCountColumn,
+    ttftColumn,
+    outputTokensPerSecondColumn,
+    labelsJsonColumn,
+    ...labelColumns.map(([, column]) => column),
   ];
 
   for (const { fileName, entry } of records) {
@@ -241,6 +330,7 @@ async function collectColumns(records: ParquetRecord[]): Promise<ParquetColumn[]
     timestampColumn.data.push(entry.timestamp);
     methodColumn.data.push(entry.method);
     pathColumn.data.push(entry.path);
+    providerColumn.data.push(resolveProvider(entry.path));
     statusColumn.data.push(
       typeof entry.response?.status === 'number' ? entry.response.status : null
     );
@@ -299,6 +389,26 @@ async function collectColumns(records: ParquetRecord[]): Promise<ParquetColumn[]
     agentTagLabelColumn.data.push(agentTag?.label ?? null);
     agentTagDescriptionColumn.data.push(agentTag?.description ?? null);
     agentTagThemeJsonColumn.data.push(agentTag?.theme ? safeString(agentTag.theme) : null);
+
+    // Auth
+    authModeColumn.data.push(entry.auth?.mode ?? null);
+    authIdentityColumn.data.push(entry.auth?.identity ?? null);
+    authNameColumn.data.push(entry.auth?.name ?? null);
+
+    // Budget
+    budgetRuleColumn.data.push(entry.budget?.ruleId ?? null);
+    budgetActionColumn.data.push(entry.budget?.action ?? null);
+    rewriteRulesColumn.data.push(entry.rewrite?.ruleIds.join(',') ?? null);
+    upstreamColumn.data.push(entry.attempts?.[entry.attempts.length - 1]?.upstream ?? null);
+    attemptCountColumn.data.push(entry.attempts?.length ?? null);
+    ttftColumn.data.push(entry.streamTiming?.ttftMs ?? null);
+    outputTokensPerSecondColumn.data.push(entry.streamTiming?.outputTokensPerSecond ?? null);
+
+    // Labels
+    labelsJsonColumn.data.push(entry.labels ? safeString(entry.labels) : null);
+    for (const [key, column] of labelColumns) {
+      column.data.push(entry.labels?.[key] ?? null);
+    }
   }
 
   return columns;
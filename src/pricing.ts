@@ -0,0 +1,115 @@
+import { readFileSync } from 'fs';
+import type { CostBreakdown, ModelPricing, TokenUsageTotals } from '../shared/types';
+import { logger } from './logger';
+
+/**
+ * Model pricing used to turn Anthropic-reported token usage into dollars.
+ *
+ * Keys are model IDs or ID prefixes; a request model resolves to the exact key or the
+ * longest key it starts with, so dated snapshots (`claude-sonnet-4-5-20250929`) share
+ * their family's rates. `PRICING_FILE` (or a project's `pricingFile`) points at a JSON
+ * object of the same shape whose entries replace or extend the defaults, e.g.
+ *
+ *   { "claude-sonnet-4-5": { "input": 3, "output": 15, "cacheWrite": 3.75, "cacheRead": 0.3 } }
+ */
+
+/** USD per million tokens */
+const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4-6': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'claude-opus-4-5': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'claude-opus-4-1': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4-5': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  'claude-3-opus': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+};
+
+const TOKENS_PER_UNIT = 1_000_000;
+
+const PRICING_FIELDS: Array<keyof ModelPricing> = ['input', 'output', 'cacheWrite', 'cacheRead'];
+
+function isModelPricing(value: unknown): value is ModelPricing {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  return PRICING_FIELDS.every(
+    (field) => typeof record[field] === 'number' && Number.isFinite(record[field]) && (record[field] as number) >= 0
+  );
+}
+
+function loadPricingOverrides(filePath: string): Record<string, ModelPricing> {
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as unknown;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object keyed by model ID');
+    }
+    const overrides: Record<string, ModelPricing> = {};
+    for (const [model, pricing] of Object.entries(parsed as Record<string, unknown>)) {
+      if (isModelPricing(pricing)) {
+        overrides[model] = pricing;
+      } else {
+        logger.warn({ filePath, model }, 'Pricing: Ignoring entry without numeric input/output/cacheWrite/cacheRead');
+      }
+    }
+    logger.info({ filePath, models: Object.keys(overrides).length }, 'Pricing: Loaded pricing overrides');
+    return overrides;
+  } catch (error) {
+    logger.warn({ err: error, filePath }, 'Pricing: Failed to load pricing file, using defaults');
+    return {};
+  }
+}
+
+/** Loaded tables keyed by pricing file ('' for the defaults); projects may share one */
+const pricingTables = new Map<string, Record<string, ModelPricing>>();
+
+export function getPricingTable(pricingFile: string | null): Record<string, ModelPricing> {
+  let table = pricingTables.get(pricingFile ?? '');
+  if (!table) {
+    table = {
+      ...DEFAULT_MODEL_PRICING,
+      ...(pricingFile ? loadPricingOverrides(pricingFile) : {}),
+    };
+    pricingTables.set(pricingFile ?? '', table);
+  }
+  return table;
+}
+
+/**
+ * Find the pricing entry for a model: exact key first, then the longest matching prefix.
+ */
+export function resolveModelPricing(
+  model: string,
+  pricingFile: string | null
+): { key: string; pricing: ModelPricing } | null {
+  const table = getPricingTable(pricingFile);
+  const exact = table[model];
+  if (exact) {
+    return { key: model, pricing: exact };
+  }
+  let best: { key: string; pricing: ModelPricing } | null = null;
+  for (const [key, pricing] of Object.entries(table)) {
+    if (model.startsWith(key) && (!best || key.length > best.key.length)) {
+      best = { key, pricing };
+    }
+  }
+  return best;
+}
+
+/**
+ * Dollar cost of reported usage. Missing counts are treated as zero.
+ */
+export function computeCost(usage: TokenUsageTotals, pricing: ModelPricing): CostBreakdown {
+  const price = (tokens: number | null, rate: number) => ((tokens ?? 0) * rate) / TOKENS_PER_UNIT;
+  return {
+    inputUsd: price(usage.inputTokens, pricing.input),
+    outputUsd: price(usage.outputTokens, pricing.output),
+    cacheWriteUsd: price(usage.cacheCreationInputTokens, pricing.cacheWrite),
+    cacheReadUsd: price(usage.cacheReadInputTokens, pricing.cacheRead),
+  };
+}
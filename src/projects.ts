@@ -0,0 +1,282 @@
+import { readFileSync, promises as fs } from 'fs';
+import path from 'path';
+import type { ProjectInfo } from '../shared/types';
+import { AgentDiscovery } from './agentDiscovery';
+import { AgentTagRuleStore } from './agentTagRules';
+import { BudgetTracker } from './budgets';
+import { CassetteLibrary } from './cassette';
+import { appConfig } from './config';
+import { DEFAULT_PROJECT_NAME } from './constants';
+import { InFlightRegistry } from './inFlightRegistry';
+import { LogEventBus } from './logEvents';
+import { LogIndex } from './logIndex';
+import { logger } from './logger';
+import { AgentTagAnalyzer } from './metrics/AgentTagAnalyzer';
+import { CostAnalyzer } from './metrics/CostAnalyzer';
+import { MetricsRegistry } from './metrics/MetricsAnalyzer';
+import { SessionAnalyzer } from './metrics/SessionAnalyzer';
+import { TokenBreakdownAnalyzer } from './metrics/TokenBreakdownAnalyzer';
+import { ToolMetricsAnalyzer } from './metrics/ToolMetricsAnalyzer';
+import { SearchIndex } from './searchIndex';
+import { MetricsWorker, type MetricsWorkerOptions } from './workers/metricsWorker';
+
+/**
+ * Named log namespaces, so one Snoopty instance can serve several teams or apps without
+ * mixing their traces. Every project has its own log directory, log and search indexes,
+ * agent tag rules, pricing, metrics worker, budget spend and live event feed.
+ *
+ * The `default` project is backed by LOG_DIR and the top-level settings. `PROJECTS_FILE`
+ * points at a JSON object keyed by project name that adds more, e.g.
+ *
+ *   {
+ *     "checkout": { "logDir": "logs/checkout", "port": 8788 },
+ *     "search": { "agentTagRulesFile": "search-agents.json", "pricingFile": "search-pricing.json" }
+ *   }
+ *
+ * `logDir` defaults to `<LOG_DIR>/<name>`, `agentTagRulesFile` to
+ * `agent-tag-rules.<name>.json` next to AGENT_TAG_RULES_FILE, and `pricingFile` to
+ * PRICING_FILE. A request reaches a project through a `/p/<name>` path prefix, the
+ * `x-snoopty-project` header, or the project's own listening `port` (see
+ * middleware/project.ts).
+ */
+
+interface ProjectSettings {
+  name: string;
+  logDir: string;
+  agentTagRulesFile: string;
+  pricingFile: string | null;
+  port: number | null;
+}
+
+const PROJECT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+export class Project {
+  readonly name: string;
+  readonly logDir: string;
+  readonly pricingFile: string | null;
+  readonly port: number | null;
+  readonly events = new LogEventBus();
+  readonly inFlight = new InFlightRegistry(this.events);
+  readonly logIndex: LogIndex;
+  readonly searchIndex: SearchIndex;
+  readonly agentTagRules: AgentTagRuleStore;
+  readonly cassettes: CassetteLibrary;
+  readonly discovery: AgentDiscovery;
+  readonly metrics: MetricsRegistry;
+  readonly sessions: SessionAnalyzer;
+  readonly budgets: BudgetTracker;
+  metricsWorker: MetricsWorker | null = null;
+
+  constructor(settings: ProjectSettings) {
+    this.name = settings.name;
+    this.logDir = path.resolve(settings.logDir);
+    this.pricingFile = settings.pricingFile;
+    this.port = settings.port;
+    this.logIndex = new LogIndex(this.logDir, this.events);
+    this.searchIndex = new SearchIndex(this.logDir, this.logIndex);
+    this.agentTagRules = new AgentTagRuleStore(path.resolve(settings.agentTagRulesFile));
+    this.cassettes = new CassetteLibrary(this.logIndex);
+    this.discovery = new AgentDiscovery(this);
+    this.budgets = new BudgetTracker(this);
+
+    // Analyzers keep per-project state (e.g. session fingerprints), so each project
+    // gets its own instances.
+    this.metrics = new MetricsRegistry(this.agentTagRules);
+    this.sessions = new SessionAnalyzer(this.logIndex);
+    const analyzers = [
+      new TokenBreakdownAnalyzer(),
+      new AgentTagAnalyzer(this.agentTagRules),
+      new ToolMetricsAnalyzer(),
+      this.sessions,
+      new CostAnalyzer(this.pricingFile),
+    ];
+    for (const analyzer of analyzers) {
+      this.metrics.register(analyzer);
+    }
+  }
+
+  get isDefault(): boolean {
+    return this.name === DEFAULT_PROJECT_NAME;
+  }
+
+  info(): ProjectInfo {
+    return { name: this.name, isDefault: this.isDefault, port: this.port };
+  }
+
+  /**
+   * Load the log index, warm the search index, and start the rules watcher and the
+   * metrics worker.
+   */
+  async start(workerOptions: MetricsWorkerOptions): Promise<void> {
+    await fs.mkdir(this.logDir, { recursive: true });
+
+    // Load the summary index before serving so the first /api/logs call is cheap.
+    await this.logIndex.ensureLoaded();
+
+    // Warm the full-text index in the background; searches wait for it if it isn't ready.
+    this.searchIndex.ensureBuilt().catch((error) => {
+      logger.error({ err: error, project: this.name }, 'Projects: Error building search index');
+    });
+
+    // Pick up edits to the agent tag rules file without a restart.
+    this.agentTagRules.startWatching();
+
+    if (!this.metricsWorker) {
+      this.metricsWorker = new MetricsWorker(this, workerOptions);
+      await this.metricsWorker.start();
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.agentTagRules.stopWatching();
+    if (this.metricsWorker) {
+      await this.metricsWorker.stop();
+      this.metricsWorker = null;
+    }
+  }
+}
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function defaultSettings(): ProjectSettings {
+  return {
+    name: DEFAULT_PROJECT_NAME,
+    logDir: appConfig.logDir,
+    agentTagRulesFile: appConfig.agentTagRulesFile,
+    pricingFile: appConfig.pricingFile,
+    port: null,
+  };
+}
+
+/**
+ * Parse one entry of the projects file. Returns an error message for invalid entries.
+ */
+function parseProjectSettings(name: string, value: unknown): ProjectSettings | string {
+  if (!PROJECT_NAME_PATTERN.test(name)) {
+    return 'name must be lower-case letters, digits, "-" or "_"';
+  }
+  if (name === DEFAULT_PROJECT_NAME) {
+    return `"${DEFAULT_PROJECT_NAME}" is reserved for LOG_DIR`;
+  }
+  if (!isPlainRecord(value)) {
+    return 'expected an object';
+  }
+  for (const field of ['logDir', 'agentTagRulesFile', 'pricingFile'] as const) {
+    if (typeof value[field] !== 'undefined' && (typeof value[field] !== 'string' || value[field] === '')) {
+      return `${field} must be a non-empty string`;
+    }
+  }
+  const port = value.port;
+  if (
+    typeof port !== 'undefined' &&
+    (typeof port !== 'number' || !Number.isInteger(port) || port < 1 || port > 65535)
+  ) {
+    return 'port must be an integer between 1 and 65535';
+  }
+
+  const rulesFile = path.resolve(appConfig.agentTagRulesFile);
+  return {
+    name,
+    logDir: (value.logDir as string | undefined) ?? path.join(appConfig.logDir, name),
+    agentTagRulesFile:
+      (value.agentTagRulesFile as string | undefined) ??
+      path.join(path.dirname(rulesFile), `${path.basename(rulesFile, '.json')}.${name}.json`),
+    pricingFile: (value.pricingFile as string | undefined) ?? appConfig.pricingFile,
+    port: port ?? null,
+  };
+}
+
+function loadProjectSettings(filePath: string): ProjectSettings[] {
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as unknown;
+    if (!isPlainRecord(parsed)) {
+      throw new Error('expected an object keyed by project name');
+    }
+    const settings: ProjectSettings[] = [];
+    const logDirs = new Set([path.resolve(appConfig.logDir)]);
+    const ports = new Set([appConfig.port]);
+    for (const [name, value] of Object.entries(parsed)) {
+      const result = parseProjectSettings(name, value);
+      if (typeof result === 'string') {
+        logger.warn({ filePath, project: name }, `Projects: Ignoring project: ${result}`);
+        continue;
+      }
+      const logDir = path.resolve(result.logDir);
+      if (logDirs.has(logDir)) {
+        logger.warn({ filePath, project: name, logDir }, 'Projects: Ignoring project sharing a log directory');
+        continue;
+      }
+      if (result.port !== null && ports.has(result.port)) {
+        logger.warn({ filePath, project: name, port: result.port }, 'Projects: Ignoring project with a port already in use');
+        continue;
+      }
+      logDirs.add(logDir);
+      if (result.port !== null) {
+        ports.add(result.port);
+      }
+      settings.push(result);
+    }
+    logger.info({ filePath, projects: settings.length }, 'Projects: Loaded projects');
+    return settings;
+  } catch (error) {
+    logger.warn({ err: error, filePath }, 'Projects: Failed to load projects file, using the default project only');
+    return [];
+  }
+}
+
+export class ProjectRegistry {
+  private projects: Map<string, Project> | null = null;
+
+  /**
+   * All projects, the default one first.
+   */
+  list(): Project[] {
+    return Array.from(this.load().values());
+  }
+
+  get(name: string): Project | null {
+    return this.load().get(name) ?? null;
+  }
+
+  get defaultProject(): Project {
+    return this.load().get(DEFAULT_PROJECT_NAME) as Project;
+  }
+
+  /**
+   * The project owning an extra listening port, if any.
+   */
+  forPort(port: number | undefined): Project | null {
+    return this.list().find((project) => project.port !== null && project.port === port) ?? null;
+  }
+
+  async start(workerOptions: MetricsWorkerOptions): Promise<void> {
+    for (const project of this.list()) {
+      await project.start(workerOptions);
+    }
+  }
+
+  async stop(): Promise<void> {
+    for (const project of this.list()) {
+      try {
+        await project.stop();
+      } catch (error) {
+        logger.error({ err: error, project: project.name }, 'Projects: Error stopping project');
+      }
+    }
+  }
+
+  private load(): Map<string, Project> {
+    if (!this.projects) {
+      const settings = [
+        defaultSettings(),
+        ...(appConfig.projectsFile ? loadProjectSettings(appConfig.projectsFile) : []),
+      ];
+      this.projects = new Map(settings.map((entry) => [entry.name, new Project(entry)]));
+    }
+    return this.projects;
+  }
+}
+
+export const globalProjects = new ProjectRegistry();
@@ -0,0 +1,396 @@
+import type {
+  InteractionLog,
+  NormalizedContentBlock,
+  NormalizedMessage,
+  NormalizedRequest,
+  NormalizedResponse,
+  NormalizedTool,
+  Provider,
+  TokenUsageTotals,
+} from '../shared/types';
+
+/**
+ * Provider-neutral view of logged interactions.
+ *
+ * Logs keep request and response bodies in the provider's own format: Anthropic's
+ * Messages API, or OpenAI-compatible Chat Completions (OpenAI, llama.cpp, vLLM, ...).
+ * Analyzers, the log index and the live timeline read them through the normalized
+ * form here, which uses Anthropic's content block shapes:
+ *
+ * - OpenAI `system`/`developer` messages become system prompt parts
+ * - assistant `tool_calls` become `tool_use` blocks (arguments parsed as JSON)
+ * - `tool` messages become user messages with a `tool_result` block
+ * - `reasoning_content` (vLLM, DeepSeek) becomes a `thinking` block
+ * - usage `prompt_tokens` is split into uncached input and `cached_tokens` cache reads
+ *
+ * Anthropic server tools (web search, code execution, ...) and MCP connector tools run
+ * within the assistant turn: their `server_tool_use`/`mcp_tool_use` blocks become
+ * `tool_use` blocks (MCP tools named `mcp__<server>__<tool>`, like client-side MCP
+ * tools), their `*_tool_result` blocks become `tool_result` blocks, and
+ * `redacted_thinking` becomes an empty `thinking` block marked `redacted`.
+ */
+
+const OPENAI_CHAT_PATH = '/chat/completions';
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === 'number' ? value : null;
+}
+
+/**
+ * Whether an Anthropic content block type is a tool call: client, server or MCP.
+ */
+export function isToolUseBlockType(type: string): boolean {
+  return type === 'tool_use' || type === 'server_tool_use' || type === 'mcp_tool_use';
+}
+
+/**
+ * Whether an Anthropic content block type is a tool result: `tool_result` from the
+ * client, or the `<tool>_tool_result` blocks of server and MCP tools.
+ */
+export function isToolResultBlockType(type: string): boolean {
+  return type === 'tool_result' || type.endsWith('_tool_result');
+}
+
+export function resolveProvider(path: string): Provider {
+  return path.endsWith(OPENAI_CHAT_PATH) ? 'openai' : 'anthropic';
+}
+
+/**
+ * Error body for a response the proxy answers itself, in the shape the provider's
+ * clients parse: Anthropic's `{ type: 'error', error: { type, message } }`, or
+ * OpenAI's `{ error: { message, type, param, code } }`.
+ */
+export function buildErrorBody(provider: Provider, type: string, message: string): Record<string, unknown> {
+  if (provider === 'openai') {
+    return { error: { message, type, param: null, code: null } };
+  }
+  return { type: 'error', error: { type, message } };
+}
+
+/**
+ * Whether a path carries a conversation: Anthropic /messages (including count_tokens)
+ * or OpenAI /chat/completions.
+ */
+export function isConversationPath(path: string): boolean {
+  return path.includes('/messages') || path.endsWith(OPENAI_CHAT_PATH);
+}
+
+// =============================================================================
+// Anthropic
+// =============================================================================
+
+function normalizeAnthropicBlock(block: unknown): NormalizedContentBlock | null {
+  if (typeof block === 'string') {
+    return { type: 'text', text: block };
+  }
+  if (!isPlainRecord(block) || typeof block.type !== 'string') {
+    return null;
+  }
+  if (isToolUseBlockType(block.type)) {
+    const name = typeof block.name === 'string' ? block.name : '';
+    const serverName =
+      block.type === 'mcp_tool_use' && typeof block.server_name === 'string' ? block.server_name : null;
+    return {
+      type: 'tool_use',
+      id: typeof block.id === 'string' ? block.id : '',
+      name: serverName ? `mcp__${serverName}__${name}` : name,
+      input: block.input,
+    };
+  }
+  if (isToolResultBlockType(block.type)) {
+    return {
+      type: 'tool_result',
+      tool_use_id: typeof block.tool_use_id === 'string' ? block.tool_use_id : '',
+      content: block.content,
+    };
+  }
+  switch (block.type) {
+    case 'text':
+      return { type: 'text', text: typeof block.text === 'string' ? block.text : '' };
+    case 'thinking':
+      return { type: 'thinking', thinking: typeof block.thinking === 'string' ? block.thinking : '' };
+    case 'redacted_thinking':
+      return { type: 'thinking', thinking: '', redacted: true };
+    default:
+      return { type: 'other', originalType: block.type };
+  }
+}
+
+function normalizeAnthropicContent(content: unknown): NormalizedContentBlock[] {
+  const blocks = Array.isArray(content) ? content : [content];
+  return blocks
+    .map(normalizeAnthropicBlock)
+    .filter((block): block is NormalizedContentBlock => block !== null);
+}
+
+function normalizeAnthropicRequest(body: Record<string, unknown>): NormalizedRequest {
+  const system: string[] = [];
+  if (typeof body.system === 'string') {
+    system.push(body.system);
+  } else if (Array.isArray(body.system)) {
+    for (const block of body.system) {
+      if (isPlainRecord(block) && typeof block.text === 'string') {
+        system.push(block.text);
+      } else if (typeof block === 'string') {
+        system.push(block);
+      }
+    }
+  }
+
+  const messages: NormalizedMessage[] = [];
+  for (const message of Array.isArray(body.messages) ? body.messages : []) {
+    if (!isPlainRecord(message)) {
+      continue;
+    }
+    messages.push({
+      role: message.role === 'assistant' ? 'assistant' : 'user',
+      content: normalizeAnthropicContent(message.content),
+    });
+  }
+
+  const tools: NormalizedTool[] = [];
+  for (const tool of Array.isArray(body.tools) ? body.tools : []) {
+    if (isPlainRecord(tool) && typeof tool.name === 'string') {
+      tools.push(tool as unknown as NormalizedTool);
+    }
+  }
+
+  const request: NormalizedRequest = { provider: 'anthropic', system, messages, tools };
+  if (typeof body.model === 'string') {
+    request.model = body.model;
+  }
+  return request;
+}
+
+export function normalizeAnthropicUsage(usage: unknown): TokenUsageTotals | null {
+  if (!isPlainRecord(usage)) {
+    return null;
+  }
+  return {
+    inputTokens: numberOrNull(usage.input_tokens),
+    outputTokens: numberOrNull(usage.output_tokens),
+    cacheCreationInputTokens: numberOrNull(usage.cache_creation_input_tokens),
+    cacheReadInputTokens: numberOrNull(usage.cache_read_input_tokens),
+  };
+}
+
+function normalizeAnthropicResponse(body: Record<string, unknown>): NormalizedResponse {
+  const response: NormalizedResponse = {
+    content: Array.isArray(body.content) ? normalizeAnthropicContent(body.content) : [],
+    usage: normalizeAnthropicUsage(body.usage),
+  };
+  if (typeof body.stop_reason === 'string') {
+    response.stopReason = body.stop_reason;
+  }
+  return response;
+}
+
+// =============================================================================
+// OpenAI Chat Completions
+// =============================================================================
+
+/**
+ * Text of an OpenAI message content: a string, or an array of parts of which only
+ * text parts are kept (images and audio become `other` blocks).
+ */
+function normalizeOpenAIContent(content: unknown): NormalizedContentBlock[] {
+  if (typeof content === 'string') {
+    return content.length > 0 ? [{ type: 'text', text: content }] : [];
+  }
+  if (!Array.isArray(content)) {
+    return [];
+  }
+  return content.flatMap((part): NormalizedContentBlock[] => {
+    if (!isPlainRecord(part) || typeof part.type !== 'string') {
+      return [];
+    }
+    if (part.type === 'text' && typeof part.text === 'string') {
+      return [{ type: 'text', text: part.text }];
+    }
+    return [{ type: 'other', originalType: part.type }];
+  });
+}
+
+function contentText(content: unknown): string[] {
+  return normalizeOpenAIContent(content).flatMap((block) => (block.type === 'text' ? [block.text] : []));
+}
+
+function parseArguments(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value ?? {};
+  }
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Blocks of an assistant message or response choice: reasoning, text, then tool calls.
+ */
+function normalizeOpenAIAssistant(message: Record<string, unknown>): NormalizedContentBlock[] {
+  const blocks: NormalizedContentBlock[] = [];
+  if (typeof message.reasoning_content === 'string' && message.reasoning_content.length > 0) {
+    blocks.push({ type: 'thinking', thinking: message.reasoning_content });
+  }
+  blocks.push(...normalizeOpenAIContent(message.content));
+  for (const call of Array.isArray(message.tool_calls) ? message.tool_calls : []) {
+    if (!isPlainRecord(call) || !isPlainRecord(call.function)) {
+      continue;
+    }
+    blocks.push({
+      type: 'tool_use',
+      id: typeof call.id === 'string' ? call.id : '',
+      name: typeof call.function.name === 'string' ? call.function.name : '',
+      input: parseArguments(call.function.arguments),
+    });
+  }
+  // Deprecated single function call
+  if (isPlainRecord(message.function_call) && typeof message.function_call.name === 'string') {
+    blocks.push({
+      type: 'tool_use',
+      id: '',
+      name: message.function_call.name,
+      input: parseArguments(message.function_call.arguments),
+    });
+  }
+  return blocks;
+}
+
+function normalizeOpenAITool(tool: unknown): NormalizedTool | null {
+  // { type: "function", function: { name, description, parameters } }, or a legacy `functions` entry
+  const definition = isPlainRecord(tool) && isPlainRecord(tool.function) ? tool.function : tool;
+  if (!isPlainRecord(definition) || typeof definition.name !== 'string') {
+    return null;
+  }
+  const normalized: NormalizedTool = { name: definition.name };
+  if (typeof definition.description === 'string') {
+    normalized.description = definition.description;
+  }
+  if (definition.parameters !== undefined) {
+    normalized.input_schema = definition.parameters;
+  }
+  return normalized;
+}
+
+function normalizeOpenAIRequest(body: Record<string, unknown>): NormalizedRequest {
+  const system: string[] = [];
+  const messages: NormalizedMessage[] = [];
+  for (const message of Array.isArray(body.messages) ? body.messages : []) {
+    if (!isPlainRecord(message)) {
+      continue;
+    }
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        system.push(...contentText(message.content));
+        break;
+      case 'assistant':
+        messages.push({ role: 'assistant', content: normalizeOpenAIAssistant(message) });
+        break;
+      case 'tool':
+      case 'function':
+        messages.push({
+          role: 'user',
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id:
+                typeof message.tool_call_id === 'string'
+                  ? message.tool_call_id
+                  : typeof message.name === 'string'
+                    ? message.name
+                    : '',
+              content: message.content,
+            },
+          ],
+        });
+        break;
+      default:
+        messages.push({ role: 'user', content: normalizeOpenAIContent(message.content) });
+        break;
+    }
+  }
+
+  const definitions = [
+    ...(Array.isArray(body.tools) ? body.tools : []),
+    ...(Array.isArray(body.functions) ? body.functions : []),
+  ];
+  const tools = definitions
+    .map(normalizeOpenAITool)
+    .filter((tool): tool is NormalizedTool => tool !== null);
+
+  const request: NormalizedRequest = { provider: 'openai', system, messages, tools };
+  if (typeof body.model === 'string') {
+    request.model = body.model;
+  }
+  return request;
+}
+
+export function normalizeOpenAIUsage(usage: unknown): TokenUsageTotals | null {
+  if (!isPlainRecord(usage)) {
+    return null;
+  }
+  const promptTokens = numberOrNull(usage.prompt_tokens);
+  const cachedTokens = isPlainRecord(usage.prompt_tokens_details)
+    ? numberOrNull(usage.prompt_tokens_details.cached_tokens)
+    : null;
+  return {
+    inputTokens: promptTokens !== null ? promptTokens - (cachedTokens ?? 0) : null,
+    outputTokens: numberOrNull(usage.completion_tokens),
+    cacheCreationInputTokens: null,
+    cacheReadInputTokens: cachedTokens,
+  };
+}
+
+function normalizeOpenAIResponse(body: Record<string, unknown>): NormalizedResponse {
+  const choice = Array.isArray(body.choices) ? body.choices.find(isPlainRecord) : undefined;
+  const message = choice && isPlainRecord(choice.message) ? choice.message : null;
+  const response: NormalizedResponse = {
+    content: message ? normalizeOpenAIAssistant(message) : [],
+    usage: normalizeOpenAIUsage(body.usage),
+  };
+  if (typeof choice?.finish_reason === 'string') {
+    response.stopReason = choice.finish_reason;
+  }
+  return response;
+}
+
+// =============================================================================
+// Entry points
+// =============================================================================
+
+export function normalizeRequestBody(provider: Provider, body: unknown): NormalizedRequest | null {
+  if (!isPlainRecord(body)) {
+    return null;
+  }
+  return provider === 'openai' ? normalizeOpenAIRequest(body) : normalizeAnthropicRequest(body);
+}
+
+export function normalizeResponseBody(provider: Provider, body: unknown): NormalizedResponse | null {
+  if (!isPlainRecord(body)) {
+    return null;
+  }
+  return provider === 'openai' ? normalizeOpenAIResponse(body) : normalizeAnthropicResponse(body);
+}
+
+/**
+ * The request of a logged interaction in the provider-neutral form, or null when the
+ * body isn't a JSON object.
+ */
+export function normalizeRequest(log: InteractionLog): NormalizedRequest | null {
+  return normalizeRequestBody(resolveProvider(log.path), log.request.body);
+}
+
+/**
+ * The (aggregated) response of a logged interaction in the provider-neutral form, or
+ * null when there is no JSON response body.
+ */
+export function normalizeResponse(log: InteractionLog): NormalizedResponse | null {
+  return normalizeResponseBody(resolveProvider(log.path), log.response?.body);
+}
@@ -2,21 +2,49 @@ import { randomUUID } from 'crypto';
 import type { Response as ExpressResponse, Request } from 'express';
 import { Readable } from 'stream';
 import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { setTimeout as delay } from 'timers/promises';
 import type {
   RequestInit as UndiciRequestInit,
   Response as UndiciResponse,
 } from 'undici';
 import { fetch } from 'undici';
-import type { TokenUsageTotals } from '../shared/types';
+import type { Provider, TokenUsageTotals, UpstreamAttempt } from '../shared/types';
+import { isCredentialHeader, resolveUpstreamAuth } from './auth';
+import { describeBudgetEnforcement } from './budgets';
+import { computeCassetteKeys } from './cassette';
 import { appConfig } from './config';
+import { BUDGET_BLOCK_STATUS, CASSETTE_TIME_COMPRESSION } from './constants';
+import {
+  buildFaultErrorResponse,
+  describeFault,
+  faultLatencyMs,
+  SseFaultInjector,
+  selectFault,
+} from './faults';
+import { extractLabels, isLabelHeader } from './labels';
 import { logger } from './logger';
+import { stripProjectPrefix } from './middleware/project';
+import { getLog } from './logStore';
 import { InteractionLog, sanitizeHeaders, writeInteractionLog } from './logWriter';
-import { AnthropicStreamAggregator } from './streamAggregator';
+import type { Project } from './projects';
+import { buildErrorBody, normalizeResponseBody, resolveProvider } from './providers';
+import { readRequestBody, RawRequestBody } from './requestBody';
+import { applyRewrites } from './rewrites';
+import { createStreamAggregator, type StreamAggregator } from './streamAggregator';
+import { computeStreamTiming } from './streamTiming';
+import { buildUpstreamUrl, isRetryableStatus, selectUpstreams, upstreamRetryDelayMs } from './upstreams';
 
 /**
- * This module owns the reverse proxy. Every inbound Express request to /v1/* is
- * forwarded to Anthropic. On the way out we persist request/response metadata so
- * the UI and Parquet export have a complete log.
+ * This module owns the reverse proxy. Every inbound Express request to /v1/* (the
+ * Anthropic Messages API, or OpenAI-compatible /v1/chat/completions) is forwarded to
+ * UPSTREAM_BASE_URL, or to the upstream UPSTREAMS_FILE routes it to (see
+ * upstreams.ts), with retries and failover. On the way out we persist request/response
+ * metadata in the log directory of the request's project so the UI and Parquet export
+ * have a complete log. Logged requests can also be replayed
+ * through the same path without a waiting client. With PROXY_MODE=replay the
+ * responses come from recorded logs instead (see cassette.ts), REWRITE_RULES_FILE
+ * can edit requests before they are forwarded (see rewrites.ts) and FAULT_RULES_FILE
+ * can inject synthetic failures (see faults.ts).
  *
  * The code mirrors a plain HTTP proxy:
  *  - construct the upstream request (headers, body),
@@ -26,12 +54,39 @@ import { AnthropicStreamAggregator } from './streamAggregator';
 
 const METHODS_WITHOUT_BODY = new Set(['GET', 'HEAD']);
 
+const CASSETTE_SKIPPED_HEADERS = new Set([
+  'content-length',
+  'content-encoding',
+  'transfer-encoding',
+  'connection',
+  'keep-alive',
+]);
+
+const CASSETTE_MISS_MESSAGE =
+  'No recorded interaction matches this request (cassette replay mode).';
+
 // Monotonic timestamp tracking to ensure unique timestamps for each log entry
 let lastTimestampMs = 0;
 let timestampCounter = 0;
 
-function buildUpstreamUrl(originalUrl: string): string {
-  return new URL(originalUrl, appConfig.upstreamBaseUrl).toString();
+/**
+ * A request to forward upstream, built from an inbound Express request or from a
+ * logged interaction being replayed.
+ */
+export interface UpstreamRequest {
+  method: string;
+  /** Path plus query string, as received (e.g. `/v1/messages?beta=true`) */
+  originalUrl: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: unknown;
+  /** Bytes `body` was parsed from; forwarded as-is until the body is rewritten */
+  rawBody?: RawRequestBody;
+  /**
+   * Changed body to forward when `body` is the elided copy of a spooled body (see
+   * RawRequestBody.parse), which can't be serialized in its place
+   */
+  fullBody?: unknown;
 }
 
 function shouldForwardBody(method: string, body: unknown): boolean {
@@ -54,24 +109,31 @@ function shouldForwardBody(method: string, body: unknown): boolean {
 }
 
 /**
- * Serialize the Express request body for forwarding to upstream.
- * Returns null if there's no body to forward.
+ * The body to forward upstream: the client's raw bytes when the body is unchanged,
+ * otherwise the (rewritten) body serialized again. Returns null if there's no body to
+ * forward.
  */
-function serializeRequestBody(req: Request): string | Buffer | null {
-  if (!shouldForwardBody(req.method, req.body)) {
+function requestBodySource(request: UpstreamRequest): string | Buffer | RawRequestBody | null {
+  if (request.rawBody) {
+    return METHODS_WITHOUT_BODY.has(request.method.toUpperCase()) ? null : request.rawBody;
+  }
+
+  const { method } = request;
+  const body = request.fullBody ?? request.body;
+  if (!shouldForwardBody(method, body)) {
     return null;
   }
 
-  if (typeof req.body === 'string') {
-    return req.body;
+  if (typeof body === 'string') {
+    return body;
   }
 
-  if (Buffer.isBuffer(req.body)) {
-    return req.body;
+  if (Buffer.isBuffer(body)) {
+    return body;
   }
 
   try {
-    return JSON.stringify(req.body);
+    return JSON.stringify(body);
   } catch {
     return null;
   }
@@ -85,14 +147,70 @@ function extractQuery(originalUrl: string): string {
 /**
  * Forward a single request to Anthropic while capturing enough data to replay it later.
  * The proxy never throws: network failures are surfaced as 502 responses to the caller
- * and captured in the log file.
+ * and captured in the log file. Bodies over MAX_REQUEST_BODY_SIZE get a 413 and are
+ * not logged.
  */
 export async function proxyAnthropicRequest(
   req: Request,
   res: ExpressResponse
 ): Promise<void> {
+  const read = await readRequestBody(req, {
+    limit: appConfig.maxRequestBodyBytes,
+    spoolThreshold: appConfig.requestSpoolThresholdBytes,
+  });
+  if ('tooLarge' in read) {
+    logger.warn({ path: req.path, limit: read.limit }, 'rejected oversized request body');
+    res.status(413).json({
+      type: 'error',
+      error: { type: 'request_too_large', message: `Request body exceeds ${read.limit} bytes.` },
+    });
+    // Drain the rest so the response reaches the client instead of a reset.
+    req.resume();
+    return;
+  }
+
+  const request: UpstreamRequest = {
+    method: req.method,
+    originalUrl: stripProjectPrefix(req.originalUrl),
+    path: req.path,
+    headers: req.headers as Record<string, string | string[] | undefined>,
+    body: read.body ? await read.body.parse(req.headers['content-type']) : undefined,
+  };
+  if (read.body) {
+    request.rawBody = read.body;
+  }
+
+  try {
+    await forwardInteraction(res.locals.project, request, res);
+  } finally {
+    await read.body?.release();
+  }
+}
+
+/**
+ * Resend a logged interaction upstream without a waiting client. The new interaction
+ * is logged like any proxied request, linked to the original through `replayOf`.
+ * Resolves with the new log entry once it has been written.
+ */
+export async function replayInteraction(
+  project: Project,
+  request: UpstreamRequest,
+  replayOf: string
+): Promise<InteractionLog> {
+  return forwardInteraction(project, request, null, { replayOf });
+}
+
+/**
+ * Shared forwarding path. With a client response the upstream response is streamed
+ * back to it; without one (replays) the response is only captured in the log.
+ */
+async function forwardInteraction(
+  project: Project,
+  request: UpstreamRequest,
+  res: ExpressResponse | null,
+  extras: Pick<InteractionLog, 'replayOf'> = {}
+): Promise<InteractionLog> {
   const interactionId = randomUUID();
-  const upstreamUrl = buildUpstreamUrl(req.originalUrl);
   const startTime = Date.now();
 
   // Generate unique timestamp by adding offsets for collisions
@@ -109,12 +227,13 @@ export async function proxyAnthropicRequest(
     id: interactionId,
     timestamp: new Date(timestampMs).toISOString(),
     timestampMs,
-    method: req.method,
-    path: req.path,
-    query: extractQuery(req.originalUrl),
+    method: request.method,
+    path: request.path,
+    query: extractQuery(request.originalUrl),
+    upstreamPath: request.originalUrl.split('?')[0]!,
     request: {
-      headers: sanitizeHeaders(req.headers as Record<string, string | string[] | undefined>),
-      body: req.body,
+      headers: sanitizeHeaders(request.headers),
+      body: request.body,
     },
     tokenUsage: {
       system_totals: {
@@ -124,90 +243,119 @@ export async function proxyAnthropicRequest(
         cacheReadInputTokens: null,
       },
     },
+    ...extras,
   };
 
-  const controller = new AbortController();
-  // When the client disconnects we abort the upstream fetch so we do not leak sockets.
-  res.on('close', () => controller.abort());
+  const labels = extractLabels(request.headers);
+  if (labels) {
+    logEntry.labels = labels;
+  }
 
-  const upstreamHeaders = new Headers();
-  for (const [key, value] of Object.entries(req.headers)) {
-    if (typeof value === 'undefined') {
-      continue;
+  const provider = resolveProvider(request.path);
+  const auth = resolveUpstreamAuth(request.headers, { replay: !res, provider });
+  logEntry.auth = auth.info;
+
+  // The logged copy of a large spooled body can't be replayed; see RawRequestBody.parse.
+  const elided = request.rawBody?.elided === true;
+  const rewrite = applyRewrites(project, logEntry, request);
+  if (rewrite) {
+    logEntry.rewrite = { ruleIds: rewrite.ruleIds, originalBody: request.body };
+    if (rewrite.headersChanged) {
+      logEntry.rewrite.originalHeaders = logEntry.request.headers;
     }
-
-    const lowerKey = key.toLowerCase();
-    if (lowerKey === 'host' || lowerKey === 'content-length') {
-      continue;
+    if (rewrite.bodyChanged && request.rawBody?.elided) {
+      const full = applyRewrites(project, logEntry, { ...request, body: await request.rawBody.parseFull() });
+      rewrite.request.fullBody = full?.request.body;
     }
-
-    const headerValue = Array.isArray(value) ? value.join(',') : value;
-    upstreamHeaders.set(lowerKey, headerValue);
+    request = rewrite.request;
+    if (rewrite.bodyChanged) {
+      delete request.rawBody;
+    }
+    logEntry.request = { headers: sanitizeHeaders(request.headers), body: request.body };
+    logger.debug({ id: interactionId, rules: rewrite.ruleIds }, 'rewrote request');
+  }
+  if (elided) {
+    logEntry.request.elided = true;
   }
 
-  if (appConfig.upstreamApiKey) {
-    upstreamHeaders.set('x-api-key', appConfig.upstreamApiKey);
+  // Checked before the request shows as running so a downgraded model is what the
+  // timeline, cassette keys and upstream see.
+  const budget = 'error' in auth ? null : await project.budgets.check(logEntry);
+  if (budget) {
+    logEntry.budget = budget;
+    logger.warn({ id: interactionId, budget }, 'budget exceeded');
+    const body = request.body;
+    if (budget.action === 'downgrade' && budget.model && typeof body === 'object' && body !== null) {
+      const fullBody = request.rawBody?.elided ? await request.rawBody.parseFull() : request.fullBody;
+      request = { ...request, body: { ...body, model: budget.model } };
+      if (typeof fullBody === 'object' && fullBody !== null) {
+        request.fullBody = { ...fullBody, model: budget.model };
+      }
+      delete request.rawBody;
+      logEntry.request.body = request.body;
+    }
   }
 
-  const upstreamRequestInit: UndiciRequestInit = {
-    method: req.method,
-    headers: upstreamHeaders,
-    signal: controller.signal,
-  };
+  project.inFlight.register(logEntry);
 
-  const serializedBody = serializeRequestBody(req);
-  if (serializedBody !== null) {
-    upstreamRequestInit.body = serializedBody;
-  }
+  const controller = new AbortController();
+  // When the client disconnects we abort the upstream fetch so we do not leak sockets.
+  res?.on('close', () => controller.abort());
 
-  logger.info(
-    {
-      id: interactionId,
-      method: req.method,
-      url: upstreamUrl,
-    },
-    'proxying request to Anthropic'
-  );
+  if (appConfig.proxyMode === 'record') {
+    logEntry.cassette = {
+      keys: computeCassetteKeys(request.method, request.path, request.body),
+    };
+  }
 
   try {
-    const upstreamResponse = await fetch(upstreamUrl, upstreamRequestInit);
-    const contentType = upstreamResponse.headers.get('content-type') ?? '';
-
-    res.status(upstreamResponse.status);
-    upstreamResponse.headers.forEach((value, key) => {
-      const lowerKey = key.toLowerCase();
-      // Drop content-length (we recompute it) and content-encoding (undici's fetch
-      // already decompresses the body per the Fetch spec, so forwarding the header
-      // would cause the client to attempt a second decompression).
-      if (lowerKey === 'content-length' || lowerKey === 'content-encoding') {
-        return;
-      }
-      res.setHeader(lowerKey, value);
-    });
+    if ('error' in auth) {
+      rejectRequest(res, logEntry, provider, 401, 'authentication_error', auth.error);
+      logEntry.durationMs = Date.now() - startTime;
+      logger.warn({ id: interactionId, auth: logEntry.auth }, 'rejected client credential');
+      return logEntry;
+    }
 
-    const responseHeaders: Record<string, string | string[] | undefined> = {};
-    upstreamResponse.headers.forEach((value, key) => {
-      responseHeaders[key.toLowerCase()] = value;
-    });
+    if (budget?.action === 'block') {
+      rejectRequest(res, logEntry, provider, BUDGET_BLOCK_STATUS, 'billing_error', describeBudgetEnforcement(budget));
+      logEntry.durationMs = Date.now() - startTime;
+      return logEntry;
+    }
 
-    logEntry.response = {
-      status: upstreamResponse.status,
-      headers: sanitizeHeaders(responseHeaders),
-    };
+    // Faults target client resilience, so replays without a client are never faulted.
+    const fault = res ? await selectFault(project, logEntry) : null;
+    if (fault) {
+      logEntry.fault = describeFault(fault);
+      logger.warn({ id: interactionId, fault: logEntry.fault }, 'injecting fault');
+    }
 
-    if (contentType.includes('text/event-stream')) {
-      await handleStreamResponse(upstreamResponse, res, logEntry);
+    const faultResponse = fault ? buildFaultErrorResponse(fault) : null;
+    if (faultResponse) {
+      res?.status(faultResponse.status);
+      res?.set(faultResponse.headers);
+      res?.send(JSON.stringify(faultResponse.body));
+      logEntry.response = { ...faultResponse };
     } else {
-      await handleStandardResponse(upstreamResponse, res, logEntry);
+      if (fault) {
+        // Rejects like the aborted fetch would, so a client that gave up is never forwarded.
+        await sleep(faultLatencyMs(fault), controller.signal);
+      }
+      const injector = fault ? new SseFaultInjector(fault) : null;
+      if (appConfig.proxyMode === 'replay') {
+        await playFromCassette(project, request, res, logEntry, controller.signal, injector);
+      } else {
+        await fetchUpstream(project, request, auth.headers, res, logEntry, controller.signal, injector);
+      }
     }
 
     logEntry.durationMs = Date.now() - startTime;
     logger.info(
       {
         id: interactionId,
-        method: req.method,
-        status: upstreamResponse.status,
+        method: request.method,
+        status: logEntry.response?.status,
         durationMs: logEntry.durationMs,
+        playedFrom: logEntry.cassette?.playedFrom,
       },
       'proxied request completed'
     );
@@ -223,13 +371,13 @@ export async function proxyAnthropicRequest(
       'proxy request failed'
     );
 
-    if (!res.headersSent) {
+    if (res && !res.headersSent) {
       res.status(502).json({
         error: 'Failed to reach Anthropic upstream service.',
         details: message,
       });
     } else {
-      res.end();
+      res?.end();
     }
 
     logEntry.response = {
@@ -239,48 +387,385 @@ export async function proxyAnthropicRequest(
     };
     logEntry.durationMs = Date.now() - startTime;
   } finally {
-    await writeInteractionLog(logEntry);
+    await writeInteractionLog(project, logEntry);
+    // Completed after the write so the UI swaps the running row for the logged one.
+    project.inFlight.complete(interactionId);
   }
+
+  return logEntry;
 }
 
 /**
- * Extracts token usage from Anthropic API response body
+ * Send the request upstream (see upstreams.ts) and relay the response to the client,
+ * if any. Client credentials are replaced by `authHeaders` (see auth.ts).
  */
-function extractTokenUsage(body: unknown): TokenUsageTotals | null {
-  if (!body || typeof body !== 'object') {
-    return null;
+async function fetchUpstream(
+  project: Project,
+  request: UpstreamRequest,
+  authHeaders: Record<string, string>,
+  res: ExpressResponse | null,
+  logEntry: InteractionLog,
+  signal: AbortSignal,
+  injector: SseFaultInjector | null
+): Promise<void> {
+  const upstreamHeaders = new Headers();
+  for (const [key, value] of Object.entries(request.headers)) {
+    if (typeof value === 'undefined') {
+      continue;
+    }
+
+    const lowerKey = key.toLowerCase();
+    if (
+      lowerKey === 'host' ||
+      lowerKey === 'content-length' ||
+      isLabelHeader(lowerKey) ||
+      isCredentialHeader(lowerKey)
+    ) {
+      continue;
+    }
+
+    const headerValue = Array.isArray(value) ? value.join(',') : value;
+    upstreamHeaders.set(lowerKey, headerValue);
   }
 
-  const record = body as Record<string, unknown>;
-  const usage = record.usage;
+  for (const [key, value] of Object.entries(authHeaders)) {
+    upstreamHeaders.set(key, value);
+  }
 
-  if (!usage || typeof usage !== 'object') {
-    return null;
+  const upstreamResponse = await sendWithRetries(
+    request,
+    upstreamHeaders,
+    requestBodySource(request),
+    logEntry,
+    signal
+  );
+  const contentType = upstreamResponse.headers.get('content-type') ?? '';
+
+  res?.status(upstreamResponse.status);
+  upstreamResponse.headers.forEach((value, key) => {
+    const lowerKey = key.toLowerCase();
+    // Drop content-length (we recompute it) and content-encoding (undici's fetch
+    // already decompresses the body per the Fetch spec, so forwarding the header
+    // would cause the client to attempt a second decompression).
+    if (lowerKey === 'content-length' || lowerKey === 'content-encoding') {
+      return;
+    }
+    res?.setHeader(lowerKey, value);
+  });
+
+  const responseHeaders: Record<string, string | string[] | undefined> = {};
+  upstreamResponse.headers.forEach((value, key) => {
+    responseHeaders[key.toLowerCase()] = value;
+  });
+
+  logEntry.response = {
+    status: upstreamResponse.status,
+    headers: sanitizeHeaders(responseHeaders),
+  };
+  project.inFlight.touch(logEntry.id);
+
+  if (contentType.includes('text/event-stream')) {
+    // Measured from the attempt being streamed, so retries and failover don't count as
+    // time to first token.
+    const attempts = logEntry.attempts ?? [];
+    const sentAtMs = attempts[attempts.length - 1]?.startedAtMs ?? Date.now();
+    await handleStreamResponse(project, upstreamResponse, res, logEntry, injector, sentAtMs);
+  } else {
+    await handleStandardResponse(upstreamResponse, res, logEntry);
   }
+}
 
-  const usageRecord = usage as Record<string, unknown>;
+/**
+ * Send the request along its upstream chain. Each upstream gets up to
+ * UPSTREAM_MAX_RETRIES retries with backoff while it answers 429/529 or can't be
+ * reached, then the next one takes over. Nothing has been sent to the client yet, so
+ * it only sees the final response. Every attempt is recorded in `logEntry.attempts`;
+ * the last response is returned whatever its status, and if the last attempt couldn't
+ * connect its error is thrown.
+ */
+async function sendWithRetries(
+  request: UpstreamRequest,
+  headers: Headers,
+  body: string | Buffer | RawRequestBody | null,
+  logEntry: InteractionLog,
+  signal: AbortSignal
+): Promise<UndiciResponse> {
+  const chain = selectUpstreams(logEntry);
+  const triesPerUpstream = appConfig.upstreamMaxRetries + 1;
+  const totalTries = chain.length * triesPerUpstream;
+  const attempts: UpstreamAttempt[] = [];
+  logEntry.attempts = attempts;
+
+  for (let index = 0; ; index++) {
+    const upstream = chain[Math.floor(index / triesPerUpstream)] ?? chain[0]!;
+    const isLastTry = index === totalTries - 1;
+    const upstreamHeaders = new Headers(headers);
+    for (const [key, value] of Object.entries(upstream.headers)) {
+      upstreamHeaders.set(key, value);
+    }
+    const upstreamRequestInit: UndiciRequestInit = {
+      method: request.method,
+      headers: upstreamHeaders,
+      signal,
+    };
+    if (body instanceof RawRequestBody) {
+      // Reopened per attempt: a spooled body is a stream that can only be read once.
+      upstreamRequestInit.body = body.open();
+      upstreamRequestInit.duplex = 'half';
+      upstreamHeaders.set('content-length', String(body.size));
+    } else if (body !== null) {
+      upstreamRequestInit.body = body;
+    }
 
-  return {
-    inputTokens: typeof usageRecord.input_tokens === 'number' ? usageRecord.input_tokens : null,
-    outputTokens: typeof usageRecord.output_tokens === 'number' ? usageRecord.output_tokens : null,
-    cacheCreationInputTokens: typeof usageRecord.cache_creation_input_tokens === 'number'
-      ? usageRecord.cache_creation_input_tokens
-      : null,
-    cacheReadInputTokens: typeof usageRecord.cache_read_input_tokens === 'number'
-      ? usageRecord.cache_read_input_tokens
-      : null,
+    const upstreamUrl = buildUpstreamUrl(upstream, request.originalUrl);
+    logger.info(
+      {
+        id: logEntry.id,
+        method: request.method,
+        url: upstreamUrl,
+        upstream: upstream.name,
+        attempt: index + 1,
+        replayOf: logEntry.replayOf,
+      },
+      'proxying request to Anthropic'
+    );
+
+    const attempt: UpstreamAttempt = { upstream: upstream.name, startedAtMs: Date.now(), durationMs: 0 };
+    attempts.push(attempt);
+    let upstreamResponse: UndiciResponse | null = null;
+    try {
+      upstreamResponse = await fetch(upstreamUrl, upstreamRequestInit);
+      attempt.status = upstreamResponse.status;
+    } catch (error) {
+      attempt.error = describeConnectionError(error);
+      if (signal.aborted || isLastTry) {
+        attempt.durationMs = Date.now() - attempt.startedAtMs;
+        throw error;
+      }
+    }
+    attempt.durationMs = Date.now() - attempt.startedAtMs;
+
+    if (upstreamResponse && (isLastTry || !isRetryableStatus(upstreamResponse.status))) {
+      return upstreamResponse;
+    }
+    if (upstreamResponse) {
+      attempt.error = describeErrorResponse(await upstreamResponse.text().catch(() => ''));
+    }
+
+    const retry = index % triesPerUpstream;
+    if (retry < triesPerUpstream - 1) {
+      attempt.retryDelayMs = upstreamRetryDelayMs(retry, upstreamResponse?.headers.get('retry-after') ?? null);
+      logger.warn(
+        {
+          id: logEntry.id,
+          upstream: upstream.name,
+          status: attempt.status,
+          error: attempt.error,
+          delayMs: attempt.retryDelayMs,
+        },
+        'retrying upstream request'
+      );
+      await sleep(attempt.retryDelayMs);
+    } else {
+      logger.warn(
+        { id: logEntry.id, upstream: upstream.name, status: attempt.status, error: attempt.error },
+        'upstream failed, failing over'
+      );
+    }
+  }
+}
+
+/**
+ * undici reports every network failure as "fetch failed"; the cause says what happened.
+ */
+function describeConnectionError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return 'unknown upstream error';
+  }
+  const cause = (error as { cause?: unknown }).cause;
+  return cause instanceof Error ? `${error.message}: ${cause.message}` : error.message;
+}
+
+/**
+ * Error message of an Anthropic error body, or the (truncated) body itself.
+ */
+function describeErrorResponse(text: string): string {
+  try {
+    const parsed = JSON.parse(text) as { error?: { message?: unknown } };
+    if (typeof parsed.error?.message === 'string') {
+      return parsed.error.message;
+    }
+  } catch {
+    // not JSON
+  }
+  return text.slice(0, 200);
+}
+
+/**
+ * Answer a request the proxy refuses to forward with an error in the provider's format.
+ */
+function rejectRequest(
+  res: ExpressResponse | null,
+  logEntry: InteractionLog,
+  provider: Provider,
+  status: number,
+  type: string,
+  message: string
+): void {
+  const body = buildErrorBody(provider, type, message);
+  res?.status(status).json(body);
+  logEntry.response = {
+    status,
+    headers: { 'content-type': 'application/json' },
+    body,
+    error: message,
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return signal ? delay(ms, undefined, { signal }) : delay(ms);
+}
+
+/**
+ * Replay mode: answer from the recorded interaction that matches the request, pacing
+ * the output like the original response. Unmatched requests get a 404 in the
+ * Anthropic error format. Upstream is never contacted.
+ */
+async function playFromCassette(
+  project: Project,
+  request: UpstreamRequest,
+  res: ExpressResponse | null,
+  logEntry: InteractionLog,
+  signal: AbortSignal,
+  injector: SseFaultInjector | null
+): Promise<void> {
+  const keys = computeCassetteKeys(request.method, request.path, request.body);
+  const fileName = await project.cassettes.match(keys, appConfig.cassetteMatch);
+  const recording = fileName ? await getLog(project, fileName) : null;
+
+  if (!fileName || !recording?.response) {
+    logger.warn(
+      { id: logEntry.id, path: request.path, matchLevel: appConfig.cassetteMatch },
+      'no recorded interaction matches request'
+    );
+    const body = {
+      type: 'error',
+      error: { type: 'not_found_error', message: CASSETTE_MISS_MESSAGE },
+    };
+    res?.status(404).json(body);
+    logEntry.response = {
+      status: 404,
+      headers: { 'content-type': 'application/json' },
+      body,
+      error: CASSETTE_MISS_MESSAGE,
+    };
+    return;
+  }
+
+  logger.info(
+    { id: logEntry.id, method: request.method, playedFrom: fileName },
+    'replaying recorded interaction'
+  );
+
+  const recorded = recording.response;
+  logEntry.cassette = { playedFrom: fileName };
+  logEntry.tokenUsage.system_totals = { ...recording.tokenUsage.system_totals };
+
+  res?.status(recorded.status);
+  for (const [key, value] of Object.entries(recorded.headers)) {
+    // Framing headers describe the original connection; Express sets its own.
+    const lowerKey = key.toLowerCase();
+    if (CASSETTE_SKIPPED_HEADERS.has(lowerKey)) {
+      continue;
+    }
+    res?.setHeader(lowerKey, value);
+  }
+
+  logEntry.response = {
+    status: recorded.status,
+    headers: { ...recorded.headers },
   };
+  if (recorded.error) {
+    logEntry.response.error = recorded.error;
+  }
+  project.inFlight.touch(logEntry.id);
+
+  const timeScale =
+    appConfig.cassetteTiming === 'compressed' ? 1 / CASSETTE_TIME_COMPRESSION : 1;
+  const playbackMs = (recording.durationMs ?? 0) * timeScale;
+  const chunks = recorded.streamChunks ?? [];
+
+  if (chunks.length > 0) {
+    res?.flushHeaders?.();
+    const aggregator = createStreamAggregator(resolveProvider(logEntry.path));
+    project.inFlight.attachStream(logEntry.id, aggregator);
+    // Chunks are paced by their recorded arrival times; logs from before those were
+    // recorded spread the original duration evenly.
+    const recordedTimesMs =
+      recorded.streamChunkTimesMs?.length === chunks.length
+        ? recorded.streamChunkTimesMs
+        : chunks.map((_chunk, index) => ((index + 1) * (recording.durationMs ?? 0)) / chunks.length);
+    const playbackStartMs = Date.now();
+
+    const played: string[] = [];
+    const playedTimesMs: number[] = [];
+    let cut = false;
+
+    for (const [index, chunk] of chunks.entries()) {
+      const dueMs = recordedTimesMs[index]! * timeScale - (Date.now() - playbackStartMs);
+      await sleep(Math.max(0, dueMs) + (injector?.chunkDelayMs ?? 0));
+      if (signal.aborted) {
+        break;
+      }
+      const result = injector ? injector.process(chunk) : { output: chunk, cut: false };
+      res?.write(result.output);
+      played.push(result.output);
+      playedTimesMs.push(Date.now() - playbackStartMs);
+      aggregator.ingest(result.output);
+      project.inFlight.touch(logEntry.id);
+      if (result.cut) {
+        cut = true;
+        break;
+      }
+    }
+    if (cut) {
+      res?.destroy();
+    } else {
+      res?.end();
+    }
+
+    logEntry.response.streamChunks = played;
+    logEntry.response.body = aggregator.finalize() ?? recorded.body;
+    recordStreamIssues(logEntry, aggregator);
+    recordStreamTiming(logEntry, played, playedTimesMs);
+    return;
+  }
+
+  await sleep(playbackMs);
+  if (recorded.body === undefined) {
+    res?.end();
+    return;
+  }
+  res?.send(typeof recorded.body === 'string' ? recorded.body : JSON.stringify(recorded.body));
+  logEntry.response.body = recorded.body;
+}
+
+/**
+ * Extracts token usage from an Anthropic or OpenAI Chat Completions response body
+ */
+function extractTokenUsage(logEntry: InteractionLog, body: unknown): TokenUsageTotals | null {
+  return normalizeResponseBody(resolveProvider(logEntry.path), body)?.usage ?? null;
 }
 
 async function handleStandardResponse(
   upstreamResponse: UndiciResponse,
-  res: ExpressResponse,
+  res: ExpressResponse | null,
   logEntry: InteractionLog
 ): Promise<void> {
   // For JSON/text responses we buffer the body once so we can both return it to the
   // caller and include it in the saved interaction record.
   const buffer = Buffer.from(await upstreamResponse.arrayBuffer());
-  res.send(buffer);
+  res?.send(buffer);
 
   const contentType = upstreamResponse.headers.get('content-type') ?? '';
   if (!logEntry.response) {
@@ -293,7 +778,7 @@ async function handleStandardResponse(
       logEntry.response.body = parsedBody;
 
       // Extract token usage from response
-      const systemTotals = extractTokenUsage(parsedBody);
+      const systemTotals = extractTokenUsage(logEntry, parsedBody);
       if (systemTotals) {
         logEntry.tokenUsage.system_totals = systemTotals;
       }
@@ -308,60 +793,128 @@ async function handleStandardResponse(
 }
 
 async function handleStreamResponse(
+  project: Project,
   upstreamResponse: UndiciResponse,
-  res: ExpressResponse,
-  logEntry: InteractionLog
+  res: ExpressResponse | null,
+  logEntry: InteractionLog,
+  injector: SseFaultInjector | null,
+  sentAtMs: number
 ): Promise<void> {
-  // Anthropic streams event-source chunks. We stream them straight back to the caller
+  // Anthropic and OpenAI-compatible APIs stream event-source chunks. We stream them straight back to the caller
   // while also capturing the text fragments for later inspection in the UI.
   // Note: Type assertion needed due to Node.js web stream type incompatibilities
   const webStream = upstreamResponse.body as NodeReadableStream<Uint8Array> | null;
   const stream = webStream ? Readable.fromWeb(webStream) : null;
 
   if (!stream) {
-    res.end();
+    res?.end();
     if (logEntry.response) {
       logEntry.response.streamChunks = [];
     }
     return;
   }
 
-  res.flushHeaders?.();
+  res?.flushHeaders?.();
   const decoder = new TextDecoder();
   const chunks: string[] = [];
-  const aggregator = new AnthropicStreamAggregator();
+  const chunkTimesMs: number[] = [];
+  const aggregator = createStreamAggregator(resolveProvider(logEntry.path));
+  project.inFlight.attachStream(logEntry.id, aggregator);
+
+  let cut = false;
 
   for await (const chunk of stream) {
     const buffer =
       typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : Buffer.from(chunk);
-    res.write(buffer);
+    let piece = decoder.decode(buffer, { stream: true });
+
+    if (injector) {
+      // Faulted streams forward the (possibly altered) text instead of the raw bytes.
+      if (injector.chunkDelayMs > 0) {
+        await sleep(injector.chunkDelayMs);
+      }
+      const result = injector.process(piece);
+      piece = result.output;
+      cut = result.cut;
+      res?.write(piece);
+    } else {
+      res?.write(buffer);
+    }
 
-    const piece = decoder.decode(buffer, { stream: true });
     if (piece.length > 0) {
       chunks.push(piece);
+      chunkTimesMs.push(Date.now() - sentAtMs);
       aggregator.ingest(piece);
+      project.inFlight.touch(logEntry.id);
+    }
+    if (cut) {
+      break;
     }
   }
 
-  const finalPiece = decoder.decode();
-  if (finalPiece.length > 0) {
-    chunks.push(finalPiece);
-    aggregator.ingest(finalPiece);
+  if (cut) {
+    // Drop the client connection mid-message; leaving the loop cancels the upstream body.
+    res?.destroy();
+  } else {
+    const finalPiece = decoder.decode();
+    if (finalPiece.length > 0) {
+      chunks.push(finalPiece);
+      chunkTimesMs.push(Date.now() - sentAtMs);
+      aggregator.ingest(finalPiece);
+    }
+    res?.end();
   }
 
-  res.end();
-
   if (logEntry.response) {
     logEntry.response.streamChunks = chunks;
     const aggregatedMessage = aggregator.finalize();
+    recordStreamIssues(logEntry, aggregator);
     if (aggregatedMessage) {
       logEntry.response.body = aggregatedMessage;
 
       // Extract token usage from aggregated message
-      const systemTotals = extractTokenUsage(aggregatedMessage);
+      const systemTotals = extractTokenUsage(logEntry, aggregatedMessage);
       if (systemTotals) {
         logEntry.tokenUsage.system_totals = systemTotals;
       }
     }
+    recordStreamTiming(logEntry, chunks, chunkTimesMs);
+  }
+}
+
+/**
+ * Keep aggregation warnings on the log, and report a mid-stream `error` event as the
+ * response error: the status was already sent as 200 when the stream started.
+ */
+function recordStreamIssues(logEntry: InteractionLog, aggregator: StreamAggregator): void {
+  if (!logEntry.response) {
+    return;
+  }
+  if (aggregator.warnings.length > 0) {
+    logEntry.response.streamWarnings = [...aggregator.warnings];
+  }
+  const { streamError } = aggregator;
+  if (streamError && !logEntry.response.error) {
+    logEntry.response.error = `${streamError.type}: ${streamError.message}`;
+  }
+}
+
+/**
+ * Store the chunk arrival times and the timing derived from them (see streamTiming.ts).
+ * Call after the token usage is known so the output rate can be computed.
+ */
+function recordStreamTiming(logEntry: InteractionLog, chunks: string[], chunkTimesMs: number[]): void {
+  if (!logEntry.response) {
+    return;
+  }
+  logEntry.response.streamChunkTimesMs = chunkTimesMs;
+  const timing = computeStreamTiming(
+    resolveProvider(logEntry.path),
+    chunks,
+    chunkTimesMs,
+    logEntry.tokenUsage.system_totals.outputTokens
+  );
+  if (timing) {
+    logEntry.streamTiming = timing;
   }
 }
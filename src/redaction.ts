@@ -0,0 +1,335 @@
+import { createHmac, randomBytes } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import type { InteractionLog, RedactionFinding, RedactionReport } from '../shared/types';
+import { appConfig } from './config';
+import { logger } from './logger';
+
+/**
+ * Redaction of secrets and PII from interaction bodies before they are written to disk.
+ *
+ * Every string in the request body (and its pre-rewrite original), response body and
+ * stream chunks is scanned by the built-in detectors plus the patterns in
+ * `REDACTION_RULES_FILE`, a JSON array such as
+ *
+ *   [{ "id": "customer-id", "pattern": "CUST-[0-9]{8}" }, { "id": "db-url", "pattern": "postgres://\\S+", "flags": "i" }]
+ *
+ * A pattern with a capture group only redacts the group, so context such as the key
+ * name in `password=...` survives. Matches are masked or hashed depending on
+ * `REDACTION_MODE`, and a report of what was removed (and where) is kept on the log.
+ * Hashes are HMACs under a per-install key, so short values such as emails can't be
+ * recovered by hashing guesses.
+ * Stream chunks are scanned as one text, so a secret split across chunks is found too.
+ */
+
+interface RedactionRule {
+  id: string;
+  pattern: RegExp;
+}
+
+/** One replacement made by a rule, in offsets of the text it was applied to */
+interface RedactionEdit {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+const HASH_LENGTH = 12;
+
+const HASH_KEY_FILE_NAME = '.snoopty-redaction-key';
+
+/** Most specific first: a token only counts towards the first detector that matches it */
+const BUILT_IN_RULES: RedactionRule[] = [
+  {
+    id: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  { id: 'anthropic-api-key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { id: 'openai-api-key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { id: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})/g },
+  { id: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { id: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    id: 'aws-secret-key',
+    pattern: /aws_secret_access_key["']?\s*[=:]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+  },
+  { id: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g },
+  { id: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+];
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function loadRedactionRules(filePath: string): RedactionRule[] {
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as unknown;
+    if (!Array.isArray(parsed)) {
+      throw new Error('expected an array of redaction rules');
+    }
+    const rules: RedactionRule[] = [];
+    parsed.forEach((entry, index) => {
+      if (!isPlainRecord(entry) || typeof entry.id !== 'string' || typeof entry.pattern !== 'string') {
+        logger.warn({ filePath, index }, 'Redaction: Ignoring rule without string id and pattern');
+        return;
+      }
+      const flags = typeof entry.flags === 'string' ? entry.flags : '';
+      try {
+        rules.push({
+          id: entry.id,
+          pattern: new RegExp(entry.pattern, flags.includes('g') ? flags : `${flags}g`),
+        });
+      } catch (error) {
+        logger.warn({ err: error, filePath, id: entry.id }, 'Redaction: Ignoring rule with invalid pattern');
+      }
+    });
+    logger.info({ filePath, rules: rules.length }, 'Redaction: Loaded redaction rules');
+    return rules;
+  } catch (error) {
+    logger.warn({ err: error, filePath }, 'Redaction: Failed to load redaction rules, using built-in detectors only');
+    return [];
+  }
+}
+
+let redactionRules: RedactionRule[] | null = null;
+
+function getRedactionRules(): RedactionRule[] {
+  if (!redactionRules) {
+    redactionRules = [
+      ...BUILT_IN_RULES,
+      ...(appConfig.redactionRulesFile ? loadRedactionRules(appConfig.redactionRulesFile) : []),
+    ];
+  }
+  return redactionRules;
+}
+
+/**
+ * Read the hash key from the log directory, creating it on first use.
+ */
+function loadHashKey(logDir: string): string {
+  const keyPath = path.join(logDir, HASH_KEY_FILE_NAME);
+  try {
+    return readFileSync(keyPath, 'utf8').trim();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  const key = randomBytes(32).toString('hex');
+  mkdirSync(logDir, { recursive: true });
+  try {
+    writeFileSync(keyPath, key, { flag: 'wx', mode: 0o600 });
+    logger.info({ keyPath }, 'Redaction: Generated hash key');
+    return key;
+  } catch (error) {
+    // Another process created it first.
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return readFileSync(keyPath, 'utf8').trim();
+    }
+    throw error;
+  }
+}
+
+let hashKey: string | null = null;
+
+function getHashKey(): string {
+  if (!hashKey) {
+    hashKey = appConfig.redactionHashKey ?? loadHashKey(appConfig.logDir);
+  }
+  return hashKey;
+}
+
+function buildReplacement(ruleId: string, value: string, mode: RedactionReport['mode']): string {
+  if (mode === 'hash') {
+    const digest = createHmac('sha256', getHashKey()).update(value).digest('hex').slice(0, HASH_LENGTH);
+    return `[REDACTED:${ruleId}:${digest}]`;
+  }
+  return `[REDACTED:${ruleId}]`;
+}
+
+/**
+ * Where `offset` ends up once `edits` (in order, non-overlapping) are applied.
+ */
+function shiftOffset(offset: number, edits: RedactionEdit[]): number {
+  let shift = 0;
+  for (const edit of edits) {
+    if (edit.end <= offset) {
+      shift += edit.replacement.length - (edit.end - edit.start);
+    } else if (edit.start < offset) {
+      return edit.start + shift + edit.replacement.length;
+    } else {
+      break;
+    }
+  }
+  return offset + shift;
+}
+
+class Redactor {
+  readonly findings = new Map<string, RedactionFinding>();
+
+  constructor(
+    private readonly rules: RedactionRule[],
+    private readonly mode: RedactionReport['mode']
+  ) {}
+
+  redactValue(value: unknown, location: string): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value, location);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.redactValue(item, `${location}[${index}]`));
+    }
+    if (isPlainRecord(value)) {
+      // Base64 image/document payloads are large and can't hold readable secrets.
+      const isBase64Source = value.type === 'base64';
+      const result: Record<string, unknown> = {};
+      for (const [key, entry] of Object.entries(value)) {
+        result[key] =
+          isBase64Source && key === 'data' ? entry : this.redactValue(entry, `${location}.${key}`);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  /**
+   * Redact stream chunks as one text, then split it again where the chunks met. A
+   * boundary inside a redacted value moves to just after its replacement.
+   */
+  redactChunks(chunks: string[], location: string): string[] {
+    let text = chunks.join('');
+    let boundaries: number[] = [];
+    let offset = 0;
+    for (const chunk of chunks.slice(0, -1)) {
+      offset += chunk.length;
+      boundaries.push(offset);
+    }
+
+    for (const rule of this.rules) {
+      const { result, edits } = this.applyRule(rule, text, location);
+      if (edits.length > 0) {
+        text = result;
+        boundaries = boundaries.map((boundary) => shiftOffset(boundary, edits));
+      }
+    }
+
+    let start = 0;
+    const redacted = boundaries.map((boundary) => {
+      const chunk = text.slice(start, boundary);
+      start = boundary;
+      return chunk;
+    });
+    redacted.push(text.slice(start));
+    return redacted;
+  }
+
+  private redactString(value: string, location: string): string {
+    let result = value;
+    for (const rule of this.rules) {
+      result = this.applyRule(rule, result, location).result;
+    }
+    return result;
+  }
+
+  private applyRule(
+    rule: RedactionRule,
+    value: string,
+    location: string
+  ): { result: string; edits: RedactionEdit[] } {
+    const edits: RedactionEdit[] = [];
+    rule.pattern.lastIndex = 0;
+    const result = value.replace(rule.pattern, (match: string, ...args: unknown[]) => {
+      const group = typeof args[0] === 'string' ? args[0] : null;
+      const matchStart = args.find((arg): arg is number => typeof arg === 'number') ?? 0;
+      this.record(rule.id, location);
+      if (group) {
+        const groupIndex = match.lastIndexOf(group);
+        const replacement = buildReplacement(rule.id, group, this.mode);
+        edits.push({
+          start: matchStart + groupIndex,
+          end: matchStart + groupIndex + group.length,
+          replacement,
+        });
+        return match.slice(0, groupIndex) + replacement + match.slice(groupIndex + group.length);
+      }
+      const replacement = buildReplacement(rule.id, match, this.mode);
+      edits.push({ start: matchStart, end: matchStart + match.length, replacement });
+      return replacement;
+    });
+    return { result, edits };
+  }
+
+  private record(detector: string, location: string): void {
+    const key = `${detector}\u0000${location}`;
+    const finding = this.findings.get(key);
+    if (finding) {
+      finding.count++;
+    } else {
+      this.findings.set(key, { detector, location, count: 1 });
+    }
+  }
+}
+
+/**
+ * Redact a value that is served without being logged, such as a running interaction's
+ * request body or partial response. Nothing is reported.
+ */
+export function redactValue<T>(value: T, location: string): T {
+  const mode = appConfig.redactionMode;
+  if (mode === 'off') {
+    return value;
+  }
+  // Redaction keeps the shape of the value, only strings change.
+  return new Redactor(getRedactionRules(), mode).redactValue(value, location) as T;
+}
+
+/**
+ * Whether a finding was in the request body or its pre-rewrite original.
+ */
+export function isRequestFinding(finding: RedactionFinding): boolean {
+  return finding.location.startsWith('request.') || finding.location.startsWith('rewrite.');
+}
+
+/**
+ * Redact the bodies of an interaction in place. The report is attached to the log when
+ * anything was found; an existing report (from an earlier write) is extended.
+ */
+export function redactInteractionLog(entry: InteractionLog): void {
+  const mode = appConfig.redactionMode;
+  if (mode === 'off') {
+    return;
+  }
+
+  const redactor = new Redactor(getRedactionRules(), mode);
+  entry.request.body = redactor.redactValue(entry.request.body, 'request.body');
+  if (entry.rewrite?.originalBody !== undefined) {
+    entry.rewrite.originalBody = redactor.redactValue(entry.rewrite.originalBody, 'rewrite.originalBody');
+  }
+  if (entry.response) {
+    entry.response.body = redactor.redactValue(entry.response.body, 'response.body');
+    if (entry.response.streamChunks) {
+      entry.response.streamChunks = redactor.redactChunks(
+        entry.response.streamChunks,
+        'response.streamChunks'
+      );
+    }
+  }
+
+  if (redactor.findings.size === 0) {
+    return;
+  }
+  if (Array.from(redactor.findings.values()).some(isRequestFinding)) {
+    entry.request.redacted = true;
+  }
+
+  const findings = [...(entry.redactions?.findings ?? []), ...redactor.findings.values()];
+  entry.redactions = {
+    mode,
+    total: findings.reduce((sum, finding) => sum + finding.count, 0),
+    findings,
+  };
+  logger.info(
+    { entryId: entry.id, total: entry.redactions.total },
+    'Redaction: Redacted sensitive values from interaction'
+  );
+}
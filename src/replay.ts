@@ -0,0 +1,103 @@
+import type { InteractionLog, ReplayOverrides } from '../shared/types';
+import { isSensitiveHeader } from './logWriter';
+import { isRequestFinding } from './redaction';
+import type { UpstreamRequest } from './proxy';
+
+/**
+ * Helpers for `POST /api/logs/:fileName/replay`: validate the requested overrides and
+ * rebuild the upstream request from a logged interaction.
+ */
+
+export interface ParsedReplayOverrides {
+  overrides: ReplayOverrides;
+  errors: string[];
+}
+
+export function parseReplayOverrides(body: unknown): ParsedReplayOverrides {
+  const overrides: ReplayOverrides = {};
+  const errors: string[] = [];
+  if (body === undefined || body === null) {
+    return { overrides, errors };
+  }
+  if (typeof body !== 'object' || Array.isArray(body)) {
+    return { overrides, errors: ['Request body must be an object of overrides.'] };
+  }
+
+  const record = body as Record<string, unknown>;
+  if (record.model !== undefined) {
+    if (typeof record.model === 'string' && record.model.trim().length > 0) {
+      overrides.model = record.model.trim();
+    } else {
+      errors.push('model must be a non-empty string.');
+    }
+  }
+  if (record.max_tokens !== undefined) {
+    if (Number.isInteger(record.max_tokens) && (record.max_tokens as number) > 0) {
+      overrides.max_tokens = record.max_tokens as number;
+    } else {
+      errors.push('max_tokens must be a positive integer.');
+    }
+  }
+  if (record.system !== undefined) {
+    if (typeof record.system === 'string' || Array.isArray(record.system)) {
+      overrides.system = record.system;
+    } else {
+      errors.push('system must be a string or an array of content blocks.');
+    }
+  }
+  if (record.tools !== undefined) {
+    if (Array.isArray(record.tools)) {
+      overrides.tools = record.tools;
+    } else {
+      errors.push('tools must be an array.');
+    }
+  }
+  return { overrides, errors };
+}
+
+/**
+ * Why a logged request can't be replayed, or null if it can: its logged body differs
+ * from what the client sent, so upstream would get placeholders as content.
+ */
+export function getReplayBlocker(log: InteractionLog): string | null {
+  if (log.request.elided) {
+    return 'The logged request body is incomplete (large fields were left out when it was spooled to disk), so it cannot be replayed.';
+  }
+  // Logs written before `redacted` was recorded only have the report.
+  if (log.request.redacted || log.redactions?.findings.some(isRequestFinding)) {
+    return 'Values in the logged request body were redacted, so it cannot be replayed.';
+  }
+  return null;
+}
+
+/**
+ * Upstream request equivalent to the logged one, with overrides applied to the body.
+ * Rewritten requests start from what the client sent, since the proxy applies the
+ * rewrite rules again. Credential headers are dropped (they were truncated when
+ * logged); the proxy adds the configured upstream key.
+ */
+export function buildReplayRequest(log: InteractionLog, overrides: ReplayOverrides): UpstreamRequest {
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(log.rewrite?.originalHeaders ?? log.request.headers)) {
+    if (!isSensitiveHeader(key)) {
+      headers[key] = value;
+    }
+  }
+
+  const originalBody = log.rewrite ? log.rewrite.originalBody : log.request.body;
+  const body =
+    originalBody && typeof originalBody === 'object' && !Array.isArray(originalBody)
+      ? { ...(originalBody as Record<string, unknown>), ...overrides }
+      : originalBody;
+
+  // `path` is relative to the proxy mount; older logs predate `upstreamPath`, and the
+  // proxy is mounted at /v1.
+  const upstreamPath = log.upstreamPath ?? `/v1${log.path}`;
+  return {
+    method: log.method,
+    originalUrl: log.query ? `${upstreamPath}?${log.query}` : upstreamPath,
+    path: log.path,
+    headers,
+    body,
+  };
+}
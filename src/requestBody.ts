@@ -0,0 +1,273 @@
+import { randomUUID } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs, type WriteStream } from 'fs';
+import type { IncomingMessage } from 'http';
+import os from 'os';
+import path from 'path';
+import type { Readable } from 'stream';
+import { logger } from './logger';
+
+/**
+ * Raw bodies of proxied requests.
+ *
+ * The proxy forwards the bytes the client sent rather than re-serializing a parsed
+ * copy, so key order, whitespace and number formatting reach the upstream unchanged.
+ * Bodies are read straight from the request stream (the JSON parser only runs on
+ * /api): up to REQUEST_SPOOL_THRESHOLD they are kept in memory, larger ones are
+ * written to a temporary file as they arrive and forwarded from it. Bodies over
+ * MAX_REQUEST_BODY_SIZE are rejected. The log gets a parsed copy; for spooled bodies
+ * it is read from the file as a stream and leaves out the base64 `data` of image and
+ * document sources, so large bodies are never held in memory whole.
+ */
+
+const SPOOL_FILE_PREFIX = 'snoopty-body-';
+
+/** `data` strings longer than this are left out of the logged copy of spooled bodies */
+const SPOOLED_DATA_LIMIT = 4 * 1024;
+
+/**
+ * Copies JSON text while replacing long `"data": "..."` string values with a
+ * placeholder. Fed in chunks; only the text it keeps is buffered.
+ */
+class DataFieldElider {
+  private readonly output: string[] = [];
+  private inString = false;
+  private escaped = false;
+  /** Characters of the current string, until it turns out to be elided */
+  private current = '';
+  private currentLength = 0;
+  private eliding = false;
+  private lastString: string | null = null;
+  private valueKey: string | null = null;
+  elidedCount = 0;
+
+  feed(chunk: string): void {
+    let start = 0;
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.appendString(chunk.slice(start, i));
+          this.closeString();
+          start = i + 1;
+        }
+        continue;
+      }
+      if (char === '"') {
+        this.output.push(chunk.slice(start, i));
+        start = i + 1;
+        this.inString = true;
+        this.current = '';
+        this.currentLength = 0;
+        this.eliding = false;
+      } else if (char === ':') {
+        this.valueKey = this.lastString;
+      } else if (char === ',' || char === '{' || char === '[') {
+        this.valueKey = null;
+      }
+    }
+    if (this.inString) {
+      this.appendString(chunk.slice(start));
+    } else {
+      this.output.push(chunk.slice(start));
+    }
+  }
+
+  finish(): string {
+    if (this.inString) {
+      this.output.push(`"${this.current}`);
+    }
+    return this.output.join('');
+  }
+
+  private appendString(text: string): void {
+    this.currentLength += text.length;
+    if (this.eliding) {
+      return;
+    }
+    if (this.valueKey === 'data' && this.currentLength > SPOOLED_DATA_LIMIT) {
+      this.eliding = true;
+      this.current = '';
+      return;
+    }
+    this.current += text;
+  }
+
+  private closeString(): void {
+    this.inString = false;
+    if (this.eliding) {
+      this.elidedCount += 1;
+      this.output.push(`"[${this.currentLength} characters omitted from spooled request body]"`);
+      this.lastString = null;
+    } else {
+      this.output.push(`"${this.current}"`);
+      this.lastString = this.current;
+    }
+    this.current = '';
+  }
+}
+
+export class RawRequestBody {
+  /**
+   * Whether the copy `parse` returned left out fields of the body. It then can't be
+   * serialized in place of the raw bytes; `parseFull` reads the whole body.
+   */
+  elided = false;
+
+  private constructor(
+    readonly size: number,
+    private readonly buffer: Buffer | null,
+    private readonly spoolPath: string | null
+  ) {}
+
+  static fromBuffer(buffer: Buffer): RawRequestBody {
+    return new RawRequestBody(buffer.length, buffer, null);
+  }
+
+  static fromSpoolFile(spoolPath: string, size: number): RawRequestBody {
+    return new RawRequestBody(size, null, spoolPath);
+  }
+
+  get spooled(): boolean {
+    return this.spoolPath !== null;
+  }
+
+  /**
+   * The body for one upstream attempt. Spooled bodies get a fresh file stream each
+   * time, so retries resend the whole body.
+   */
+  open(): Buffer | Readable {
+    return this.spoolPath ? createReadStream(this.spoolPath) : this.buffer!;
+  }
+
+  /**
+   * Parsed copy for the log: JSON for JSON content types (text if it doesn't parse),
+   * otherwise the body as text. Spooled JSON bodies leave out long `data` strings;
+   * spooled bodies of other types are logged as a placeholder.
+   */
+  async parse(contentType: string | undefined): Promise<unknown> {
+    if (this.spoolPath) {
+      if (!contentType?.includes('json')) {
+        this.elided = true;
+        return `[${this.size} byte request body spooled to disk, not logged]`;
+      }
+      const elider = new DataFieldElider();
+      for await (const chunk of createReadStream(this.spoolPath, { encoding: 'utf8' })) {
+        elider.feed(chunk as string);
+      }
+      const text = elider.finish();
+      this.elided = elider.elidedCount > 0;
+      try {
+        return JSON.parse(text) as unknown;
+      } catch {
+        this.elided = true;
+        return text;
+      }
+    }
+
+    const text = this.buffer!.toString('utf8');
+    if (contentType?.includes('json')) {
+      try {
+        return JSON.parse(text) as unknown;
+      } catch {
+        return text;
+      }
+    }
+    return text;
+  }
+
+  /**
+   * The whole body parsed as JSON, for changing a body whose logged copy was elided.
+   */
+  async parseFull(): Promise<unknown> {
+    const text = this.spoolPath ? await fs.readFile(this.spoolPath, 'utf8') : this.buffer!.toString('utf8');
+    return JSON.parse(text) as unknown;
+  }
+
+  /**
+   * Delete the spool file, if any. Safe to call more than once.
+   */
+  async release(): Promise<void> {
+    if (!this.spoolPath) {
+      return;
+    }
+    try {
+      await fs.rm(this.spoolPath, { force: true });
+    } catch (error) {
+      logger.warn({ err: error, spoolPath: this.spoolPath }, 'RequestBody: Failed to delete spool file');
+    }
+  }
+}
+
+export type ReadRequestBodyResult =
+  | { body: RawRequestBody | null }
+  | { tooLarge: true; limit: number };
+
+function writeChunk(stream: WriteStream, chunk: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.write(chunk, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+function closeStream(stream: WriteStream): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.end((error?: Error | null) => (error ? reject(error) : resolve()));
+  });
+}
+
+/**
+ * Read the whole request body. Returns `{ body: null }` for an empty body, and
+ * `tooLarge` (leaving the rest of the stream unread) once more than `limit` bytes arrive.
+ */
+export async function readRequestBody(
+  req: IncomingMessage,
+  options: { limit: number; spoolThreshold: number }
+): Promise<ReadRequestBodyResult> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let spool: { path: string; stream: WriteStream } | null = null;
+
+  try {
+    for await (const chunk of req) {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : (chunk as Buffer);
+      size += buffer.length;
+      if (size > options.limit) {
+        if (spool) {
+          await closeStream(spool.stream);
+          await fs.rm(spool.path, { force: true });
+        }
+        return { tooLarge: true, limit: options.limit };
+      }
+
+      if (!spool && size > options.spoolThreshold) {
+        const spoolPath = path.join(os.tmpdir(), `${SPOOL_FILE_PREFIX}${randomUUID()}`);
+        spool = { path: spoolPath, stream: createWriteStream(spoolPath) };
+        for (const pending of chunks) {
+          await writeChunk(spool.stream, pending);
+        }
+        chunks.length = 0;
+      }
+      if (spool) {
+        await writeChunk(spool.stream, buffer);
+      } else {
+        chunks.push(buffer);
+      }
+    }
+  } catch (error) {
+    if (spool) {
+      spool.stream.destroy();
+      await fs.rm(spool.path, { force: true });
+    }
+    throw error;
+  }
+
+  if (spool) {
+    await closeStream(spool.stream);
+    logger.debug({ size, spoolPath: spool.path }, 'RequestBody: Spooled request body to disk');
+    return { body: RawRequestBody.fromSpoolFile(spool.path, size) };
+  }
+  return { body: size > 0 ? RawRequestBody.fromBuffer(Buffer.concat(chunks, size)) : null };
+}
@@ -0,0 +1,275 @@
+import { readFileSync } from 'fs';
+import type { AgentTagId, InteractionLog } from '../shared/types';
+import { extractAgentTagSubject } from './agentTagRules';
+import { appConfig } from './config';
+import { extractModel } from './logIndex';
+import { logger } from './logger';
+import type { Project } from './projects';
+import type { UpstreamRequest } from './proxy';
+
+/**
+ * Declarative request rewrites, for experimenting without changing the client.
+ *
+ * `REWRITE_RULES_FILE` points at a JSON array of rules. Every enabled rule whose filters
+ * (`model`, `path`, `agentTag`, `labels`) all match a proxied request is applied, in
+ * file order, e.g.
+ *
+ *   [
+ *     { "id": "search-on-haiku", "agentTag": "file-search", "setModel": "claude-haiku-4-5" },
+ *     { "id": "cap-output", "maxTokens": 4096 },
+ *     { "id": "think-hard", "labels": { "experiment": "thinking" }, "thinkingBudget": 8000 },
+ *     { "id": "no-1m", "removeBetas": ["context-1m-2025-08-07"] },
+ *     { "id": "terse", "model": "opus", "appendSystem": "Answer in at most three sentences." }
+ *   ]
+ *
+ * Filters see the request as the client sent it. The log keeps the client's body (and
+ * headers, when they changed) next to the rewritten request that went upstream.
+ */
+
+export interface RewriteRule {
+  id: string;
+  /** Case-insensitive substring of the request model */
+  model?: string;
+  /** Substring of the request path, e.g. "/messages" */
+  path?: string;
+  agentTag?: AgentTagId;
+  /** Labels the request must carry (key -> exact value) */
+  labels?: Record<string, string>;
+  enabled?: boolean;
+  /** Replace the model */
+  setModel?: string;
+  /** Lower `max_tokens` to at most this */
+  maxTokens?: number;
+  /** Force extended thinking with this token budget; 0 turns thinking off */
+  thinkingBudget?: number;
+  /** Text appended to the system prompt */
+  appendSystem?: string;
+  /** Values dropped from the `anthropic-beta` header */
+  removeBetas?: string[];
+  /** Headers dropped before forwarding */
+  removeHeaders?: string[];
+  /** Headers added or replaced */
+  setHeaders?: Record<string, string>;
+}
+
+export interface RewriteResult {
+  ruleIds: string[];
+  request: UpstreamRequest;
+  headersChanged: boolean;
+  bodyChanged: boolean;
+}
+
+const STRING_FIELDS = ['model', 'path', 'agentTag', 'setModel', 'appendSystem'] as const;
+
+const NUMERIC_FIELDS = ['maxTokens', 'thinkingBudget'] as const;
+
+const BETA_HEADER = 'anthropic-beta';
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return isPlainRecord(value) && Object.values(value).every((entry) => typeof entry === 'string');
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+}
+
+function lowerCaseKeys(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key.toLowerCase(), value]));
+}
+
+function parseRewriteRule(value: unknown): RewriteRule | null {
+  if (!isPlainRecord(value)) {
+    return null;
+  }
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    return null;
+  }
+  for (const field of STRING_FIELDS) {
+    if (value[field] !== undefined && typeof value[field] !== 'string') {
+      return null;
+    }
+  }
+  for (const field of NUMERIC_FIELDS) {
+    const entry = value[field];
+    if (entry !== undefined && (typeof entry !== 'number' || !Number.isInteger(entry) || entry < 0)) {
+      return null;
+    }
+  }
+  if (
+    (value.labels !== undefined && !isStringRecord(value.labels)) ||
+    (value.setHeaders !== undefined && !isStringRecord(value.setHeaders)) ||
+    (value.removeBetas !== undefined && !isStringArray(value.removeBetas)) ||
+    (value.removeHeaders !== undefined && !isStringArray(value.removeHeaders))
+  ) {
+    return null;
+  }
+
+  const rule = { ...(value as unknown as RewriteRule) };
+  // Incoming header names are lower case.
+  if (rule.setHeaders) {
+    rule.setHeaders = lowerCaseKeys(rule.setHeaders);
+  }
+  if (rule.removeHeaders) {
+    rule.removeHeaders = rule.removeHeaders.map((name) => name.toLowerCase());
+  }
+  return rule;
+}
+
+function loadRewriteRules(filePath: string): RewriteRule[] {
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as unknown;
+    if (!Array.isArray(parsed)) {
+      throw new Error('expected an array of rewrite rules');
+    }
+    const rules: RewriteRule[] = [];
+    parsed.forEach((entry, index) => {
+      const rule = parseRewriteRule(entry);
+      if (rule) {
+        rules.push(rule);
+      } else {
+        logger.warn({ filePath, index }, 'Rewrites: Ignoring invalid rewrite rule');
+      }
+    });
+    logger.info({ filePath, rules: rules.length }, 'Rewrites: Loaded rewrite rules');
+    return rules;
+  } catch (error) {
+    logger.warn({ err: error, filePath }, 'Rewrites: Failed to load rewrite rules, requests will not be rewritten');
+    return [];
+  }
+}
+
+let rewriteRules: RewriteRule[] | null = null;
+
+export function getRewriteRules(): RewriteRule[] {
+  if (!rewriteRules) {
+    rewriteRules = appConfig.rewriteRulesFile ? loadRewriteRules(appConfig.rewriteRulesFile) : [];
+  }
+  return rewriteRules;
+}
+
+function appendSystemText(system: unknown, text: string): unknown {
+  if (Array.isArray(system)) {
+    return [...system, { type: 'text', text }];
+  }
+  if (typeof system === 'string' && system.length > 0) {
+    return `${system}\n\n${text}`;
+  }
+  return text;
+}
+
+function removeBetas(header: string | string[] | undefined, betas: string[]): string | undefined {
+  const values = (Array.isArray(header) ? header.join(',') : header ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0 && !betas.includes(value));
+  return values.length > 0 ? values.join(',') : undefined;
+}
+
+/**
+ * Apply one rule to a request body (in place on a copy owned by the caller).
+ * Returns whether anything changed.
+ */
+function rewriteBody(rule: RewriteRule, body: Record<string, unknown>): boolean {
+  const before = JSON.stringify(body);
+  if (rule.setModel) {
+    body.model = rule.setModel;
+  }
+  if (rule.maxTokens !== undefined && typeof body.max_tokens === 'number' && body.max_tokens > rule.maxTokens) {
+    body.max_tokens = rule.maxTokens;
+  }
+  if (rule.thinkingBudget !== undefined) {
+    if (rule.thinkingBudget > 0) {
+      body.thinking = { type: 'enabled', budget_tokens: rule.thinkingBudget };
+    } else {
+      delete body.thinking;
+    }
+  }
+  if (rule.appendSystem) {
+    body.system = appendSystemText(body.system, rule.appendSystem);
+  }
+  return JSON.stringify(body) !== before;
+}
+
+/**
+ * Apply a rule's header edits to a copy owned by the caller. Returns whether anything changed.
+ */
+function rewriteHeaders(rule: RewriteRule, headers: Record<string, string | string[] | undefined>): boolean {
+  const before = JSON.stringify(headers);
+  if (rule.removeBetas && headers[BETA_HEADER] !== undefined) {
+    const remaining = removeBetas(headers[BETA_HEADER], rule.removeBetas);
+    if (remaining === undefined) {
+      delete headers[BETA_HEADER];
+    } else {
+      headers[BETA_HEADER] = remaining;
+    }
+  }
+  for (const name of rule.removeHeaders ?? []) {
+    delete headers[name];
+  }
+  Object.assign(headers, rule.setHeaders ?? {});
+  return JSON.stringify(headers) !== before;
+}
+
+/**
+ * Rewrite a request with every matching rule. Filters are evaluated against `log`, the
+ * entry of the request as received; `agentTag` uses the agent tag rules of its project.
+ * Returns null when no rule matches.
+ */
+export function applyRewrites(
+  project: Project,
+  log: InteractionLog,
+  request: UpstreamRequest
+): RewriteResult | null {
+  const rules = getRewriteRules().filter((rule) => rule.enabled !== false);
+  if (rules.length === 0) {
+    return null;
+  }
+
+  const model = extractModel(log)?.toLowerCase();
+  let agentTag: AgentTagId | null | undefined;
+  const matching = rules.filter((rule) => {
+    if (rule.model && !model?.includes(rule.model.toLowerCase())) {
+      return false;
+    }
+    if (rule.path && !log.path.includes(rule.path)) {
+      return false;
+    }
+    if (rule.labels && Object.entries(rule.labels).some(([key, value]) => log.labels?.[key] !== value)) {
+      return false;
+    }
+    if (rule.agentTag) {
+      if (agentTag === undefined) {
+        agentTag = project.agentTagRules.current().match(extractAgentTagSubject(log))?.id ?? null;
+      }
+      if ((agentTag ?? 'untagged') !== rule.agentTag) {
+        return false;
+      }
+    }
+    return true;
+  });
+  if (matching.length === 0) {
+    return null;
+  }
+
+  const body = isPlainRecord(request.body) ? { ...request.body } : null;
+  const headers = { ...request.headers };
+  let headersChanged = false;
+  let bodyChanged = false;
+  for (const rule of matching) {
+    if (body) {
+      bodyChanged = rewriteBody(rule, body) || bodyChanged;
+    }
+    headersChanged = rewriteHeaders(rule, headers) || headersChanged;
+  }
+
+  return {
+    ruleIds: matching.map((rule) => rule.id),
+    request: { ...request, headers, body: bodyChanged ? body : request.body },
+    headersChanged,
+    bodyChanged,
+  };
+}
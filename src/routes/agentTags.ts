@@ -0,0 +1,118 @@
+import { Router } from 'express';
+import type {
+  AgentTagPreviewResult,
+  AgentTagRuleDefinition,
+  AgentTagRulePreview,
+} from '../../shared/types';
+import { CompiledAgentTagRules, extractAgentTagSubject, parseAgentTagRules } from '../agentTagRules';
+import { AGENT_TAG_PREVIEW_LIMIT, AGENT_TAG_PREVIEW_SAMPLES } from '../constants';
+import { getLog } from '../logStore';
+import type { Project } from '../projects';
+
+const router = Router();
+
+/**
+ * Tag the project's most recent logs with candidate rules and count what each rule
+ * would match.
+ */
+async function previewRules(
+  project: Project,
+  definitions: AgentTagRuleDefinition[]
+): Promise<AgentTagPreviewResult> {
+  const rules = new CompiledAgentTagRules(definitions);
+  const previews = new Map<string, AgentTagRulePreview>(
+    definitions.map((definition) => [
+      definition.id,
+      { ruleId: definition.id, matchCount: 0, changedCount: 0, sampleFileNames: [] },
+    ])
+  );
+  const summaries = (await project.logIndex.all()).slice(0, AGENT_TAG_PREVIEW_LIMIT);
+  let scanned = 0;
+  let untaggedCount = 0;
+
+  for (const summary of summaries) {
+    const log = await getLog(project, summary.fileName);
+    if (!log) {
+      continue;
+    }
+    scanned++;
+    const tag = rules.match(extractAgentTagSubject(log));
+    const preview = tag ? previews.get(tag.id) : undefined;
+    if (!preview) {
+      untaggedCount++;
+      continue;
+    }
+    preview.matchCount++;
+    if (summary.agentTag?.id !== tag?.id) {
+      preview.changedCount++;
+    }
+    if (preview.sampleFileNames.length < AGENT_TAG_PREVIEW_SAMPLES) {
+      preview.sampleFileNames.push(summary.fileName);
+    }
+  }
+
+  return { scanned, rules: [...previews.values()], untaggedCount };
+}
+
+// GET /agent-tags/rules - rules in effect, their version and where they were loaded from
+router.get('/rules', (_req, res) => {
+  res.json(res.locals.project.agentTagRules.getState());
+});
+
+// PUT /agent-tags/rules - replace the rules file; existing logs are re-tagged in the background
+router.put('/rules', async (req, res, next) => {
+  try {
+    const { rules, errors } = parseAgentTagRules((req.body as { rules?: unknown } | undefined)?.rules);
+    if (errors.length > 0) {
+      res.status(400).json({ error: errors.join(' ') });
+      return;
+    }
+    res.json(await res.locals.project.agentTagRules.save(rules));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /agent-tags/preview - which recent logs each candidate rule would tag, without saving
+router.post('/preview', async (req, res, next) => {
+  try {
+    const { rules, errors } = parseAgentTagRules((req.body as { rules?: unknown } | undefined)?.rules);
+    if (errors.length > 0) {
+      res.status(400).json({ error: errors.join(' ') });
+      return;
+    }
+    res.json(await previewRules(res.locals.project, rules));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /agent-tags/clusters - recent logs grouped into discovered agent types
+router.get('/clusters', async (_req, res, next) => {
+  try {
+    res.json(await res.locals.project.discovery.discover());
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /agent-tags/clusters/:clusterId/name - save an unknown agent cluster as a tag rule
+router.post('/clusters/:clusterId/name', async (req, res, next) => {
+  try {
+    const label = (req.body as { label?: unknown } | undefined)?.label;
+    if (typeof label !== 'string' || !label.trim()) {
+      res.status(400).json({ error: 'label must be a non-empty string' });
+      return;
+    }
+    const result = await res.locals.project.discovery.nameCluster(req.params.clusterId, label.trim());
+    if ('error' in result) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+    res.json(result.rule);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
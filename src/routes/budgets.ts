@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import type { BudgetStatusResponse } from '../../shared/types';
+
+const router = Router();
+
+/**
+ * Optional `key` of a reset or override body: a session id, label value or agent tag
+ * id. Omitted or null applies to every key of the budget.
+ */
+function parseKey(body: Record<string, unknown> | undefined): string | null | undefined {
+  const key = body?.key;
+  if (key === undefined || key === null) {
+    return null;
+  }
+  return typeof key === 'string' && key.length > 0 ? key : undefined;
+}
+
+// GET /budgets - configured budgets with their spend in the current window
+router.get('/', async (_req, res, next) => {
+  try {
+    const response: BudgetStatusResponse = { budgets: await res.locals.project.budgets.statuses() };
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /budgets/:ruleId/reset - count the budget's spend from now on
+router.post('/:ruleId/reset', async (req, res, next) => {
+  try {
+    const key = parseKey(req.body as Record<string, unknown> | undefined);
+    if (key === undefined) {
+      res.status(400).json({ error: 'key must be a non-empty string' });
+      return;
+    }
+    const status = await res.locals.project.budgets.reset(req.params.ruleId, key);
+    if (!status) {
+      res.status(404).json({ error: `Unknown budget "${req.params.ruleId}"` });
+      return;
+    }
+    res.json(status);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /budgets/:ruleId/override - replace the budget's limit; a null limit restores the configured one
+router.put('/:ruleId/override', async (req, res, next) => {
+  try {
+    const body = req.body as Record<string, unknown> | undefined;
+    const key = parseKey(body);
+    if (key === undefined) {
+      res.status(400).json({ error: 'key must be a non-empty string' });
+      return;
+    }
+    const limit = body?.limit;
+    if (limit !== null && (typeof limit !== 'number' || !Number.isFinite(limit) || limit < 0)) {
+      res.status(400).json({ error: 'limit must be a non-negative number or null' });
+      return;
+    }
+    const status = await res.locals.project.budgets.override(req.params.ruleId, key, limit);
+    if (!status) {
+      res.status(404).json({ error: `Unknown budget "${req.params.ruleId}"` });
+      return;
+    }
+    res.json(status);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,3 +1,8 @@
+export { default as agentTagsRouter } from './agentTags';
+export { default as budgetsRouter } from './budgets';
 export { default as healthRouter } from './health';
+export { default as inflightRouter } from './inflight';
 export { default as logsRouter } from './logs';
+export { default as projectsRouter } from './projects';
 export { default as proxyRouter } from './proxy';
+export { default as sessionsRouter } from './sessions';
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+
+const router = Router();
+
+// GET /inflight - requests still running, newest first (without request bodies)
+router.get('/', (_req, res) => {
+  res.json({ items: res.locals.project.inFlight.list() });
+});
+
+// GET /inflight/:id - one running request, including its request body
+router.get('/:id', (req, res) => {
+  const interaction = res.locals.project.inFlight.get(req.params.id);
+  if (!interaction) {
+    res.status(404).json({ error: 'Request is not in flight' });
+    return;
+  }
+  res.json(interaction);
+});
+
+export default router;
@@ -1,9 +1,14 @@
 import { Router } from 'express';
+import { appConfig } from '../config';
 import { logger } from '../logger';
 import {
   DEFAULT_LOG_LIMIT,
+  DEFAULT_SEARCH_LIMIT,
   MIN_LOG_LIMIT,
   MAX_LOG_LIMIT,
+  MAX_SEARCH_LIMIT,
+  SSE_HEARTBEAT_INTERVAL_MS,
+  SSE_RETRY_MS,
 } from '../constants';
 import {
   listLogs,
@@ -12,11 +17,16 @@ import {
   recomputeLogs,
   type ListLogsOptions,
 } from '../logStore';
+import { hasActiveFilters, matchesLogFilters, parseLogFilters } from '../logFilters';
+import { buildLogFileName } from '../logWriter';
 import { createParquetBuffer, type ParquetRecord } from '../parquetExporter';
+import { replayInteraction } from '../proxy';
+import { buildReplayRequest, getReplayBlocker, parseReplayOverrides } from '../replay';
+import type { ReplayResult } from '../../shared/types';
 
 const router = Router();
 
-// GET /logs
+// GET /logs - supports the filters documented on MetricsFilters as query parameters
 router.get('/', async (req, res, next) => {
   try {
     const rawLimit = typeof req.query.limit === 'string' ? req.query.limit : undefined;
@@ -26,14 +36,89 @@ router.get('/', async (req, res, next) => {
       : DEFAULT_LOG_LIMIT;
     const cursor = typeof req.query.cursor === 'string' ? req.query.cursor : undefined;
 
-    const options: ListLogsOptions = cursor ? { limit, cursor } : { limit };
-    const result = await listLogs(options);
+    const { filters, errors } = parseLogFilters(req.query as Record<string, unknown>);
+    if (errors.length > 0) {
+      res.status(400).json({ error: errors.join('; ') });
+      return;
+    }
+
+    const options: ListLogsOptions = cursor ? { limit, cursor, filters } : { limit, filters };
+    const result = await listLogs(res.locals.project, options);
     res.json(result);
   } catch (error) {
     next(error);
   }
 });
 
+// GET /logs/search?q= - full-text search over log content; accepts the same filters as GET /logs
+router.get('/search', async (req, res, next) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!q) {
+      res.status(400).json({ error: 'q query parameter is required.' });
+      return;
+    }
+
+    const rawLimit = typeof req.query.limit === 'string' ? req.query.limit : undefined;
+    const limitValue = rawLimit ? Number.parseInt(rawLimit, 10) : DEFAULT_SEARCH_LIMIT;
+    const limit = Number.isFinite(limitValue)
+      ? Math.min(Math.max(limitValue, 1), MAX_SEARCH_LIMIT)
+      : DEFAULT_SEARCH_LIMIT;
+
+    const { filters, errors } = parseLogFilters(req.query as Record<string, unknown>);
+    if (errors.length > 0) {
+      res.status(400).json({ error: errors.join('; ') });
+      return;
+    }
+
+    const result = await res.locals.project.searchIndex.search(q, { limit, filters });
+    logger.debug({ q, results: result.items.length }, 'log search completed');
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /logs/stream - Server-Sent Events feed of created/patched/deleted summaries.
+// Accepts the same filters as GET /logs; they apply to `created` events only, clients
+// ignore patches for rows they don't hold.
+router.get('/stream', (req, res) => {
+  const { filters, errors } = parseLogFilters(req.query as Record<string, unknown>);
+  if (errors.length > 0) {
+    res.status(400).json({ error: errors.join('; ') });
+    return;
+  }
+  const applyFilters = hasActiveFilters(filters);
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+  const { events } = res.locals.project;
+  const unsubscribe = events.subscribe((event) => {
+    if (event.type === 'created' && applyFilters && !matchesLogFilters(event.summary, filters)) {
+      return;
+    }
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+  const heartbeat = setInterval(() => {
+    res.write(': keep-alive\n\n');
+  }, SSE_HEARTBEAT_INTERVAL_MS);
+
+  logger.debug({ subscribers: events.subscriberCount }, 'log stream client connected');
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    logger.debug({ subscribers: events.subscriberCount }, 'log stream client disconnected');
+  });
+});
+
 // POST /logs/batch - Fetch multiple logs by filenames
 router.post('/batch', async (req, res, next) => {
   try {
@@ -51,7 +136,7 @@ router.post('/batch', async (req, res, next) => {
 
     // Fetch all logs in parallel
     const logsPromises = fileNames.map(async (fileName) => {
-      const log = await getLog(fileName);
+      const log = await getLog(res.locals.project, fileName);
       return log;
     });
 
@@ -77,7 +162,7 @@ router.post('/batch', async (req, res, next) => {
 router.get('/:fileName', async (req, res, next) => {
   try {
     const { fileName } = req.params;
-    const log = await getLog(fileName);
+    const log = await getLog(res.locals.project, fileName);
     if (!log) {
       res.status(404).json({ error: 'Log not found' });
       return;
@@ -88,6 +173,46 @@ router.get('/:fileName', async (req, res, next) => {
   }
 });
 
+// POST /logs/:fileName/replay - resend the logged request upstream, optionally with
+// model/max_tokens/system/tools overrides; the new log links back via `replayOf`
+router.post('/:fileName/replay', async (req, res, next) => {
+  try {
+    const { fileName } = req.params;
+    const original = await getLog(res.locals.project, fileName);
+    if (!original) {
+      res.status(404).json({ error: 'Log not found' });
+      return;
+    }
+
+    const blocker = getReplayBlocker(original);
+    if (blocker) {
+      res.status(409).json({ error: blocker });
+      return;
+    }
+
+    const { overrides, errors } = parseReplayOverrides(req.body);
+    if (errors.length > 0) {
+      res.status(400).json({ error: errors.join('; ') });
+      return;
+    }
+
+    // Replays have no client credential to pass through, so without a server key
+    // upstream could only answer 401 (recordings need no key).
+    if (!appConfig.upstreamApiKey && appConfig.proxyMode !== 'replay') {
+      res.status(400).json({ error: 'Replays are sent with UPSTREAM_API_KEY, which is not set.' });
+      return;
+    }
+
+    logger.info({ fileName, overrides: Object.keys(overrides) }, 'replay request received');
+
+    const log = await replayInteraction(res.locals.project, buildReplayRequest(original, overrides), fileName);
+    const result: ReplayResult = { fileName: buildLogFileName(log), log };
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // DELETE /logs
 router.delete('/', async (req, res, next) => {
   try {
@@ -102,7 +227,7 @@ router.delete('/', async (req, res, next) => {
 
     logger.info({ fileNames }, 'delete logs request received');
 
-    const result = await deleteLogs(fileNames);
+    const result = await deleteLogs(res.locals.project, fileNames);
     logger.info(result, 'delete logs result');
     res.json(result);
   } catch (error) {
@@ -127,7 +252,7 @@ router.post('/export', async (req, res, next) => {
     const missing: string[] = [];
 
     for (const fileName of fileNames) {
-      const log = await getLog(fileName);
+      const log = await getLog(res.locals.project, fileName);
       if (log) {
         records.push({ fileName, entry: log });
       } else {
@@ -162,7 +287,7 @@ router.post('/export', async (req, res, next) => {
 router.post('/recompute', async (_req, res, next) => {
   try {
     logger.info('recompute logs request received');
-    const result = await recomputeLogs();
+    const result = await recomputeLogs(res.locals.project);
     logger.info(result, 'recompute logs result');
     res.json(result);
   } catch (error) {
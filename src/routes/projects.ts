@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { globalProjects } from '../projects';
+
+const router = Router();
+
+// GET /projects - configured projects, the default one first
+router.get('/', (_req, res) => {
+  res.json({ items: globalProjects.list().map((project) => project.info()) });
+});
+
+export default router;
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { DEFAULT_SESSION_LIMIT, MAX_SESSION_LIMIT } from '../constants';
+import { hasActiveFilters, matchesLogFilters, parseLogFilters } from '../logFilters';
+import { buildSessionTrees } from '../sessions';
+
+const router = Router();
+
+// GET /sessions - session trees, most recently active first; accepts the GET /logs filters
+router.get('/', async (req, res, next) => {
+  try {
+    const rawLimit = typeof req.query.limit === 'string' ? req.query.limit : undefined;
+    const limitValue = rawLimit ? Number.parseInt(rawLimit, 10) : DEFAULT_SESSION_LIMIT;
+    const limit = Number.isFinite(limitValue)
+      ? Math.min(Math.max(limitValue, 1), MAX_SESSION_LIMIT)
+      : DEFAULT_SESSION_LIMIT;
+
+    const { filters, errors } = parseLogFilters(req.query as Record<string, unknown>);
+    if (errors.length > 0) {
+      res.status(400).json({ error: errors.join('; ') });
+      return;
+    }
+
+    const applyFilters = hasActiveFilters(filters);
+    const summaries = (await res.locals.project.logIndex.all()).filter(
+      (summary) => !applyFilters || matchesLogFilters(summary, filters)
+    );
+    const sessions = buildSessionTrees(summaries);
+    res.json({ items: sessions.slice(0, limit), total: sessions.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
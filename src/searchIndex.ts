@@ -0,0 +1,375 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  InteractionLog,
+  LogSummary,
+  MetricsFilters,
+  SearchField,
+  SearchLogsResult,
+  SearchResult,
+  SearchSnippet,
+} from '../shared/types';
+import type { LogIndex } from './logIndex';
+import { hasActiveFilters, matchesLogFilters } from './logFilters';
+import { logger } from './logger';
+import { normalizeRequest, normalizeResponse } from './providers';
+
+/**
+ * In-memory full-text index over interaction content (system prompts, message text,
+ * tool inputs and results, assistant output). The inverted index only narrows the
+ * candidate set; candidates are then re-read from disk to confirm the match and cut
+ * highlighted snippets, so only the matched logs are ever opened at query time.
+ *
+ * The index is built in the background at startup from the log index's file list and
+ * kept current by the log writer and deletes. Log content never changes after it is
+ * written (the metrics worker only adds metrics), so a file is indexed exactly once.
+ */
+
+const MIN_TERM_LENGTH = 2;
+/** Longer runs are almost always encoded payloads, not something a person searches for. */
+const MAX_TERM_LENGTH = 64;
+const SNIPPET_CONTEXT_CHARS = 60;
+const MAX_SNIPPETS_PER_RESULT = 3;
+const TERM_SPLIT_REGEX = /[^\p{L}\p{N}_]+/u;
+
+interface SearchSegment {
+  field: SearchField;
+  text: string;
+}
+
+export interface SearchOptions {
+  limit: number;
+  filters?: MetricsFilters;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(TERM_SPLIT_REGEX)
+    .filter((term) => term.length >= MIN_TERM_LENGTH && term.length <= MAX_TERM_LENGTH);
+}
+
+function stringifyInput(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  try {
+    return JSON.stringify(value) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Flatten content blocks into searchable segments. Image and document blocks are
+ * skipped: their base64 payloads would only flood the index with noise.
+ */
+function collectBlocks(content: unknown, textField: SearchField, segments: SearchSegment[]): void {
+  if (typeof content === 'string') {
+    segments.push({ field: textField, text: content });
+    return;
+  }
+  if (!Array.isArray(content)) {
+    return;
+  }
+  for (const block of content) {
+    if (!block || typeof block !== 'object') {
+      continue;
+    }
+    const record = block as Record<string, unknown>;
+    switch (record.type) {
+      case 'text':
+        if (typeof record.text === 'string') {
+          segments.push({ field: textField, text: record.text });
+        }
+        break;
+      case 'thinking':
+        if (typeof record.thinking === 'string') {
+          segments.push({ field: 'thinking', text: record.thinking });
+        }
+        break;
+      case 'tool_use': {
+        const name = typeof record.name === 'string' ? `${record.name} ` : '';
+        segments.push({ field: 'tool_use', text: `${name}${stringifyInput(record.input)}` });
+        break;
+      }
+      case 'tool_result': {
+        const nested: SearchSegment[] = [];
+        collectBlocks(record.content, 'tool_result', nested);
+        segments.push(...nested.map((segment) => ({ ...segment, field: 'tool_result' as const })));
+        break;
+      }
+      default:
+        break;
+    }
+  }
+}
+
+export function extractSearchSegments(entry: InteractionLog): SearchSegment[] {
+  const segments: SearchSegment[] = [];
+
+  const request = normalizeRequest(entry);
+  if (request) {
+    for (const system of request.system) {
+      segments.push({ field: 'system', text: system });
+    }
+    for (const message of request.messages) {
+      collectBlocks(message.content, message.role === 'assistant' ? 'assistant' : 'user', segments);
+    }
+  }
+
+  const response = normalizeResponse(entry);
+  if (response) {
+    collectBlocks(response.content, 'output', segments);
+  }
+
+  if (entry.response?.error) {
+    segments.push({ field: 'output', text: entry.response.error });
+  }
+
+  return segments.filter((segment) => segment.text.length > 0);
+}
+
+/**
+ * Find every occurrence of any term in `text` (case-insensitive). Overlapping matches
+ * are merged so highlights never nest.
+ */
+function findMatches(lowerText: string, terms: string[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    let index = lowerText.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = lowerText.indexOf(term, index + term.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+function buildSnippet(
+  segment: SearchSegment,
+  ranges: Array<[number, number]>
+): SearchSnippet | null {
+  const first = ranges[0];
+  if (!first) {
+    return null;
+  }
+  const start = Math.max(0, first[0] - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(segment.text.length, first[1] + SNIPPET_CONTEXT_CHARS);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < segment.text.length ? '…' : '';
+  const text = `${prefix}${segment.text.slice(start, end).replace(/\s+/g, ' ')}${suffix}`;
+
+  // Whitespace collapsing shifts offsets, so locate highlights in the final text.
+  const highlights = findMatches(
+    text.toLowerCase(),
+    ranges
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => segment.text.slice(from, to).toLowerCase().replace(/\s+/g, ' '))
+  );
+  return { field: segment.field, text, highlights };
+}
+
+export class SearchIndex {
+  private docIds = new Map<string, number>();
+  /** docId -> fileName; `undefined` marks a deleted document. */
+  private docs: Array<string | undefined> = [];
+  /** term -> ascending docIds */
+  private postings = new Map<string, number[]>();
+  private building: Promise<void> | null = null;
+
+  constructor(
+    private logDir: string,
+    private logIndex: LogIndex
+  ) {}
+
+  /**
+   * Build the index once from every known log. Concurrent callers share the same build.
+   */
+  async ensureBuilt(): Promise<void> {
+    if (!this.building) {
+      this.building = this.build().catch((error) => {
+        this.building = null;
+        throw error;
+      });
+    }
+    return this.building;
+  }
+
+  add(entry: InteractionLog, fileName: string): void {
+    if (this.docIds.has(fileName)) {
+      return;
+    }
+    const docId = this.docs.length;
+    this.docs.push(fileName);
+    this.docIds.set(fileName, docId);
+
+    const terms = new Set<string>();
+    for (const segment of extractSearchSegments(entry)) {
+      for (const term of tokenize(segment.text)) {
+        terms.add(term);
+      }
+    }
+    for (const term of terms) {
+      const list = this.postings.get(term);
+      if (list) {
+        list.push(docId);
+      } else {
+        this.postings.set(term, [docId]);
+      }
+    }
+  }
+
+  /**
+   * Deleted documents are tombstoned; their postings are skipped at query time.
+   */
+  remove(fileNames: string[]): void {
+    for (const fileName of fileNames) {
+      const docId = this.docIds.get(fileName);
+      if (docId !== undefined) {
+        this.docs[docId] = undefined;
+        this.docIds.delete(fileName);
+      }
+    }
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchLogsResult> {
+    await this.ensureBuilt();
+
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) {
+      return { query, items: [], hasMore: false };
+    }
+
+    const candidates = await this.findCandidates(terms, options.filters);
+    const items: SearchResult[] = [];
+    let hasMore = false;
+
+    for (const summary of candidates) {
+      if (items.length >= options.limit) {
+        hasMore = true;
+        break;
+      }
+      const result = await this.matchLog(summary, terms);
+      if (result) {
+        items.push(result);
+      }
+    }
+
+    return { query, items, hasMore };
+  }
+
+  /**
+   * Documents containing, for every query term, at least one indexed term starting with
+   * it — so "logSto" finds "logStore". Newest first.
+   */
+  private async findCandidates(terms: string[], filters?: MetricsFilters): Promise<LogSummary[]> {
+    let candidateIds: Set<number> | null = null;
+    for (const term of terms) {
+      const matches = new Set<number>();
+      for (const [indexedTerm, docIds] of this.postings) {
+        if (indexedTerm.startsWith(term)) {
+          for (const docId of docIds) {
+            if (!candidateIds || candidateIds.has(docId)) {
+              matches.add(docId);
+            }
+          }
+        }
+      }
+      candidateIds = matches;
+      if (candidateIds.size === 0) {
+        return [];
+      }
+    }
+
+    const filtering = hasActiveFilters(filters);
+    const summaries: LogSummary[] = [];
+    for (const docId of candidateIds ?? []) {
+      const fileName = this.docs[docId];
+      if (!fileName) {
+        continue;
+      }
+      const summary = await this.logIndex.get(fileName);
+      if (!summary || (filtering && filters && !matchesLogFilters(summary, filters))) {
+        continue;
+      }
+      summaries.push(summary);
+    }
+    return summaries.sort((a, b) => b.fileName.localeCompare(a.fileName));
+  }
+
+  private async matchLog(summary: LogSummary, terms: string[]): Promise<SearchResult | null> {
+    const entry = await this.readEntry(summary.fileName);
+    if (!entry) {
+      return null;
+    }
+
+    const found = new Set<string>();
+    const snippets: SearchSnippet[] = [];
+    let matchCount = 0;
+
+    for (const segment of extractSearchSegments(entry)) {
+      const lower = segment.text.toLowerCase();
+      const ranges = findMatches(lower, terms);
+      if (ranges.length === 0) {
+        continue;
+      }
+      for (const term of terms) {
+        if (lower.includes(term)) {
+          found.add(term);
+        }
+      }
+      matchCount += ranges.length;
+      if (snippets.length < MAX_SNIPPETS_PER_RESULT) {
+        const snippet = buildSnippet(segment, ranges);
+        if (snippet) {
+          snippets.push(snippet);
+        }
+      }
+    }
+
+    // The index matches whole terms by prefix; require every term in the actual text.
+    if (found.size < terms.length) {
+      return null;
+    }
+    return { summary, snippets, matchCount };
+  }
+
+  private async readEntry(fileName: string): Promise<InteractionLog | null> {
+    try {
+      const raw = await fs.readFile(path.join(this.logDir, fileName), 'utf8');
+      return JSON.parse(raw) as InteractionLog;
+    } catch (error) {
+      logger.warn({ err: error, fileName }, 'SearchIndex: failed to read log file');
+      return null;
+    }
+  }
+
+  private async build(): Promise<void> {
+    const started = Date.now();
+    const summaries = await this.logIndex.all();
+    for (const summary of summaries) {
+      if (this.docIds.has(summary.fileName)) {
+        continue;
+      }
+      const entry = await this.readEntry(summary.fileName);
+      if (entry) {
+        this.add(entry, summary.fileName);
+      }
+    }
+    logger.info(
+      { documents: this.docIds.size, terms: this.postings.size, durationMs: Date.now() - started },
+      'SearchIndex: built full-text index'
+    );
+  }
+}
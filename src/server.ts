@@ -1,42 +1,53 @@
 import express from 'express';
 import fs from 'fs';
 import path from 'path';
+import type { Server } from 'http';
 import { appConfig, validateConfig } from './config';
 import { ERROR_MESSAGES } from './constants';
 import { logger } from './logger';
-import { AgentTagAnalyzer } from './metrics/AgentTagAnalyzer';
-import { globalMetricsRegistry } from './metrics/MetricsAnalyzer';
-import { TokenBreakdownAnalyzer } from './metrics/TokenBreakdownAnalyzer';
-import { ToolMetricsAnalyzer } from './metrics/ToolMetricsAnalyzer';
 import { errorHandler } from './middleware/errorHandler';
-import { healthRouter, logsRouter, proxyRouter } from './routes';
-import { startMetricsWorker, stopMetricsWorker } from './workers/metricsWorker';
+import { selectProject } from './middleware/project';
+import { globalProjects } from './projects';
+import {
+  agentTagsRouter,
+  budgetsRouter,
+  healthRouter,
+  inflightRouter,
+  logsRouter,
+  projectsRouter,
+  proxyRouter,
+  sessionsRouter,
+} from './routes';
 
 /**
  * The Express bootstrap lives in this file. We wire up:
- *  - JSON/text body parsing for Anthropic payloads,
+ *  - JSON/text body parsing for the REST API (proxied bodies are forwarded as raw bytes),
  *  - REST endpoints for querying/deleting/exporting interaction logs,
- *  - A reverse proxy that forwards /v1/* traffic to Anthropic,
+ *  - A reverse proxy that forwards /v1/* traffic (Messages, Chat Completions) upstream,
+ *  - Project scoping: /p/<name>/v1/* and /api/p/<name>/* (see projects.ts),
  *  - The static React UI under /ui.
  *
  * Keeping the setup in one place makes it easy to trace the request flow end-to-end.
  */
 
 /**
- * Register common middleware so all routes accept JSON bodies, plain text bodies
- * (Anthropic streaming is ndjson), and share the same size limits.
+ * Register body parsers for the API routes so they accept JSON and plain text bodies
+ * up to MAX_REQUEST_BODY_SIZE. Proxied /v1/* bodies are not parsed here: the proxy
+ * reads the raw bytes itself so it can forward them unchanged (see requestBody.ts).
  */
 function attachMiddleware(app: express.Express): void {
   app.use(
+    '/api',
     express.json({
-      limit: '15mb',
+      limit: appConfig.maxRequestBodyBytes,
     })
   );
 
   app.use(
+    '/api',
     express.text({
       type: ['text/*', 'application/x-ndjson'],
-      limit: '15mb',
+      limit: appConfig.maxRequestBodyBytes,
     })
   );
 }
@@ -44,16 +55,27 @@ function attachMiddleware(app: express.Express): void {
 /**
  * Attach REST endpoints for the UI and CLI helpers.
  * Everything under /api returns JSON; /v1/* is forwarded to the Anthropic upstream.
+ * Both are scoped to one project, chosen by `selectProject`.
  */
 function registerRoutes(app: express.Express): void {
   // Health check
   app.use(healthRouter);
 
   // API routes
-  app.use('/api/logs', logsRouter);
+  const apiRouter = express.Router();
+  apiRouter.use('/logs', logsRouter);
+  apiRouter.use('/inflight', inflightRouter);
+  apiRouter.use('/sessions', sessionsRouter);
+  apiRouter.use('/agent-tags', agentTagsRouter);
+  apiRouter.use('/budgets', budgetsRouter);
+
+  app.use('/api/projects', projectsRouter);
+  app.use('/api/p/:project', selectProject, apiRouter);
+  app.use('/api', selectProject, apiRouter);
 
   // Anthropic proxy
-  app.use('/v1', proxyRouter);
+  app.use('/p/:project/v1', selectProject, proxyRouter);
+  app.use('/v1', selectProject, proxyRouter);
 
   // Static UI serving - only in production mode
   if (!appConfig.isDevelopment) {
@@ -116,37 +138,18 @@ async function bootstrap(): Promise<void> {
     argv: process.argv,
   }, 'Bootstrap: Environment detection');
 
-  logger.debug('Bootstrap: Registering metrics analyzers');
-
-  // Register all metrics analyzers
-  try {
-    const analyzers = [
-      new TokenBreakdownAnalyzer(),
-      new AgentTagAnalyzer(),
-      new ToolMetricsAnalyzer(),
-    ];
-
-    for (const analyzer of analyzers) {
-      globalMetricsRegistry.register(analyzer);
-      logger.debug({ analyzer: analyzer.name }, 'Bootstrap: Registered analyzer');
-    }
-  } catch (error) {
-    logger.error({ error }, 'Bootstrap: Error registering metrics analyzers');
-    throw error;
-  }
-
-  logger.debug('Bootstrap: Starting metrics worker');
+  logger.debug('Bootstrap: Starting projects');
 
-  // Start the metrics worker
+  // Load each project's log index and start its rules watcher and metrics worker
   try {
-    await startMetricsWorker({
+    await globalProjects.start({
       processExisting: true,
       watchForNew: true,
       pollInterval: 5000,
     });
-    logger.debug('Bootstrap: Metrics worker started successfully');
+    logger.debug('Bootstrap: Projects started successfully');
   } catch (error) {
-    logger.error({ error }, 'Bootstrap: Error starting metrics worker');
+    logger.error({ error }, 'Bootstrap: Error starting projects');
     throw error;
   }
 
@@ -158,12 +161,14 @@ async function bootstrap(): Promise<void> {
   registerRoutes(app);
   app.use(errorHandler);
 
-  const server = app.listen(appConfig.port, () => {
+  const servers: Server[] = [];
+  servers.push(app.listen(appConfig.port, () => {
     logger.info(
       {
         port: appConfig.port,
         upstreamBaseUrl: appConfig.upstreamBaseUrl,
         logDir: appConfig.logDir,
+        projects: globalProjects.list().map((project) => project.name),
         mode: appConfig.isDevelopment ? 'development' : 'production',
         uiInfo: appConfig.isDevelopment
           ? 'UI served by Vite at http://localhost:5173/ui'
@@ -171,29 +176,42 @@ async function bootstrap(): Promise<void> {
       },
       'snoopty proxy listening'
     );
-  });
+  }));
+
+  // Projects with their own port get a listener on the same app; selectProject maps
+  // the local port back to the project.
+  for (const project of globalProjects.list()) {
+    if (project.port === null) {
+      continue;
+    }
+    const { port, name, logDir } = project;
+    servers.push(app.listen(port, () => {
+      logger.info({ port, project: name, logDir }, 'snoopty project listening');
+    }));
+  }
 
   const shutdown = async (signal: string) => {
     logger.info({ signal }, 'shutting down proxy server');
 
-    // Stop metrics worker first
-    try {
-      logger.debug('Shutdown: Stopping metrics worker');
-      await stopMetricsWorker();
-      logger.debug('Shutdown: Metrics worker stopped');
-    } catch (error) {
-      logger.error({ error }, 'Shutdown: Error stopping metrics worker');
+    // Stop metrics workers and rules watchers first
+    logger.debug('Shutdown: Stopping projects');
+    await globalProjects.stop();
+    logger.debug('Shutdown: Projects stopped');
+
+    // Then close servers
+    let pending = servers.length;
+    let failed = false;
+    for (const server of servers) {
+      server.close((err) => {
+        if (err) {
+          logger.error({ err }, 'error while closing server');
+          failed = true;
+        }
+        if (--pending === 0) {
+          process.exit(failed ? 1 : 0);
+        }
+      });
     }
-
-    // Then close server
-    server.close((err) => {
-      if (err) {
-        logger.error({ err }, 'error while closing server');
-        process.exit(1);
-      } else {
-        process.exit(0);
-      }
-    });
   };
 
   process.on('SIGINT', () => shutdown('SIGINT'));
@@ -0,0 +1,117 @@
+import type { LogSummary, SessionThreadNode, SessionTree } from '../shared/types';
+
+/**
+ * Assemble session trees from indexed summaries. Each summary carries the links
+ * computed by the SessionAnalyzer; here they're folded into one tree per session:
+ * the primary thread at the root and subagent threads nested under the thread that
+ * holds their spawning interaction.
+ */
+
+function compareByTime(a: LogSummary, b: LogSummary): number {
+  return a.timestampMs - b.timestampMs;
+}
+
+/** Sum of the priced summaries' costs, or undefined if none is priced */
+function sumCost(summaries: LogSummary[]): number | undefined {
+  let total: number | undefined;
+  for (const summary of summaries) {
+    if (summary.cost) {
+      total = (total ?? 0) + summary.cost.costUsd;
+    }
+  }
+  return total;
+}
+
+function buildSessionTree(sessionId: string, summaries: LogSummary[]): SessionTree {
+  const threads = new Map<string, SessionThreadNode>();
+  const threadOfLog = new Map<string, string>();
+
+  for (const summary of summaries.slice().sort(compareByTime)) {
+    const session = summary.session!;
+    let thread = threads.get(session.threadId);
+    if (!thread) {
+      thread = { threadId: session.threadId, depth: session.depth, logs: [], children: [] };
+      threads.set(session.threadId, thread);
+    }
+    // Only the interaction that opened a subagent thread records its spawn point.
+    if (session.parentLogId && !thread.parentLogId) {
+      thread.parentLogId = session.parentLogId;
+      if (session.parentToolUseId) {
+        thread.parentToolUseId = session.parentToolUseId;
+      }
+    }
+    if (!thread.agentTag && summary.agentTag) {
+      thread.agentTag = summary.agentTag;
+    }
+    thread.logs.push(summary);
+    threadOfLog.set(summary.id, session.threadId);
+  }
+
+  const ordered = Array.from(threads.values()).sort((a, b) =>
+    compareByTime(a.logs[0]!, b.logs[0]!)
+  );
+  // The session's first thread may have been deleted or filtered out; fall back to the
+  // earliest thread without a parent.
+  const root =
+    threads.get(sessionId) ??
+    ordered.find((thread) => !thread.parentLogId) ??
+    ordered[0]!;
+
+  for (const thread of ordered) {
+    const costUsd = sumCost(thread.logs);
+    if (costUsd !== undefined) {
+      thread.costUsd = costUsd;
+    }
+    if (thread === root) {
+      continue;
+    }
+    const parentThreadId = thread.parentLogId ? threadOfLog.get(thread.parentLogId) : undefined;
+    const parent =
+      parentThreadId && parentThreadId !== thread.threadId ? threads.get(parentThreadId) : undefined;
+    (parent ?? root).children.push(thread);
+  }
+
+  const sorted = summaries.slice().sort(compareByTime);
+  const first = sorted[0]!;
+  const last = sorted[sorted.length - 1]!;
+  const tree: SessionTree = {
+    sessionId,
+    startedAt: first.timestamp,
+    endedAt: last.timestamp,
+    logCount: summaries.length,
+    threadCount: threads.size,
+    root,
+  };
+  const model = root.logs[0]?.model;
+  if (model) {
+    tree.model = model;
+  }
+  const costUsd = sumCost(summaries);
+  if (costUsd !== undefined) {
+    tree.costUsd = costUsd;
+  }
+  return tree;
+}
+
+/**
+ * Group summaries into session trees, most recently active first. Summaries without
+ * session info (not yet analyzed, or not a messages request) are skipped.
+ */
+export function buildSessionTrees(summaries: LogSummary[]): SessionTree[] {
+  const bySession = new Map<string, LogSummary[]>();
+  for (const summary of summaries) {
+    if (!summary.session) {
+      continue;
+    }
+    const group = bySession.get(summary.session.sessionId);
+    if (group) {
+      group.push(summary);
+    } else {
+      bySession.set(summary.session.sessionId, [summary]);
+    }
+  }
+
+  return Array.from(bySession.entries())
+    .map(([sessionId, group]) => buildSessionTree(sessionId, group))
+    .sort((a, b) => b.endedAt.localeCompare(a.endedAt));
+}
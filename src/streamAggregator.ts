@@ -1,6 +1,7 @@
+import type { Provider } from '../shared/types';
 import { logger } from './logger';
 
-type SseEvent = {
+export type SseEvent = {
   event?: string;
   data: string;
 };
@@ -16,17 +17,61 @@ type AnthropicMessage = {
   content: Array<Record<string, unknown>>;
 };
 
-type TextContent = { type: 'text'; text: string };
-type ToolUseContent = { type: 'tool_use'; id: string; name: string; input: unknown };
+type TextContent = { type: 'text'; text: string; citations?: unknown[] };
+/** Client tools, server tools (`server_tool_use`) and MCP connector tools (`mcp_tool_use`) */
+type ToolUseContent = { type: string; id: string; name: string; input: unknown; [key: string]: unknown };
 type ThinkingContent = { type: 'thinking'; thinking: string; signature?: string };
 
+type OpenAIToolCall = {
+  id: string;
+  type: string;
+  function: { name: string; arguments: string };
+};
+
+type OpenAIChoiceMessage = {
+  role: string;
+  content: string | null;
+  reasoning_content?: string;
+  tool_calls?: OpenAIToolCall[];
+};
+
+type OpenAIChatCompletion = {
+  id?: string;
+  object: 'chat.completion';
+  created?: number;
+  model?: string;
+  system_fingerprint?: string;
+  choices: Array<{ index: number; message: OpenAIChoiceMessage; finish_reason: string | null }>;
+  usage?: Record<string, unknown>;
+};
+
+/** A mid-stream `error` event; the stream ends without a complete message */
+export type StreamError = {
+  type: string;
+  message: string;
+};
+
 type BlockBuilder =
   | { kind: 'text'; node: TextContent }
   | { kind: 'tool_use'; node: ToolUseContent; buffer: string }
   | { kind: 'thinking'; node: ThinkingContent }
-  | { kind: 'passthrough'; node: Record<string, unknown> };
+  | { kind: 'complete'; node: Record<string, unknown> };
+
+const TOOL_USE_BLOCK_TYPES = new Set(['tool_use', 'server_tool_use', 'mcp_tool_use']);
+
+/**
+ * Read the payload of an `error` event (Anthropic) or an error chunk (OpenAI-compatible
+ * servers), both shaped `{ error: { type, message } }`.
+ */
+function parseStreamError(payload: Record<string, unknown>): StreamError {
+  const error = (payload.error ?? {}) as Record<string, unknown>;
+  return {
+    type: typeof error.type === 'string' ? error.type : 'error',
+    message: typeof error.message === 'string' ? error.message : JSON.stringify(error),
+  };
+}
 
-class SseParser {
+export class SseParser {
   private buffer = '';
 
   constructor(private onEvent: (event: SseEvent) => void) {}
@@ -88,11 +133,18 @@ class SseParser {
   }
 }
 
+/**
+ * Rebuilds a Messages API response from its stream events. Text (with citations),
+ * thinking, redacted thinking, client/server/MCP tool use and server tool result
+ * blocks are all assembled; a mid-stream `error` event is kept as `streamError`.
+ * Anything unexpected is noted in `warnings` rather than failing the stream.
+ */
 export class AnthropicStreamAggregator {
   private parser = new SseParser((event) => this.handleEvent(event));
   private message: AnthropicMessage | null = null;
   private builders = new Map<number, BlockBuilder>();
-  private errors: string[] = [];
+  readonly warnings: string[] = [];
+  streamError: StreamError | null = null;
 
   ingest(chunk: string): void {
     this.parser.feed(chunk);
@@ -101,14 +153,37 @@ export class AnthropicStreamAggregator {
   finalize(): AnthropicMessage | null {
     this.parser.finalize();
     if (this.builders.size > 0) {
+      if (!this.streamError) {
+        this.warnings.push(`stream ended with ${this.builders.size} unfinished content block(s)`);
+      }
       this.builders.clear();
     }
-    if (this.errors.length > 0) {
-      logger.warn({ errors: this.errors }, 'stream aggregation completed with warnings');
+    if (this.warnings.length > 0) {
+      logger.warn({ warnings: this.warnings }, 'stream aggregation completed with warnings');
     }
     return this.message;
   }
 
+  /**
+   * Copy of the message aggregated so far, for live views of a running stream.
+   * Tool inputs that are still streaming are exposed as their raw partial JSON.
+   */
+  snapshot(): AnthropicMessage | null {
+    if (!this.message) {
+      return null;
+    }
+    const content = this.message.content.map((block) => ({ ...block }));
+    for (const builder of this.builders.values()) {
+      if (builder.kind === 'tool_use') {
+        const index = this.message.content.indexOf(builder.node);
+        if (index !== -1) {
+          content[index] = { ...builder.node, input: builder.buffer };
+        }
+      }
+    }
+    return { ...this.message, content };
+  }
+
   private handleEvent(event: SseEvent): void {
     if (!event.data) {
       return;
@@ -117,7 +192,7 @@ export class AnthropicStreamAggregator {
     try {
       payload = JSON.parse(event.data) as Record<string, unknown>;
     } catch (error) {
-      this.errors.push(`failed to parse SSE data: ${(error as Error).message}`);
+      this.warnings.push(`failed to parse SSE data: ${(error as Error).message}`);
       return;
     }
 
@@ -141,8 +216,13 @@ export class AnthropicStreamAggregator {
       case 'message_stop':
         // nothing to merge; we finalize when parser completes
         break;
+      case 'ping':
+        break;
+      case 'error':
+        this.streamError = parseStreamError(payload);
+        break;
       default:
-        // ignore pings and other out-of-band events
+        this.warnings.push(`unknown stream event: ${type}`);
         break;
     }
   }
@@ -175,24 +255,30 @@ export class AnthropicStreamAggregator {
     const message = this.ensureMessage();
 
     if (!contentBlock) {
+      this.warnings.push(`content_block_start without a content block at index ${index}`);
       return;
     }
 
-    const blockType = contentBlock.type as string | undefined;
+    const blockType = typeof contentBlock.type === 'string' ? contentBlock.type : 'unknown';
 
     if (blockType === 'text') {
       const node: TextContent = {
         type: 'text',
         text: typeof contentBlock.text === 'string' ? contentBlock.text : '',
       };
+      if (Array.isArray(contentBlock.citations) && contentBlock.citations.length > 0) {
+        node.citations = [...contentBlock.citations];
+      }
       message.content.push(node);
       this.builders.set(index, { kind: 'text', node });
       return;
     }
 
-    if (blockType === 'tool_use') {
+    if (TOOL_USE_BLOCK_TYPES.has(blockType)) {
+      // Server and MCP tool blocks carry extra fields (e.g. `server_name`); keep them.
       const node: ToolUseContent = {
-        type: 'tool_use',
+        ...contentBlock,
+        type: blockType,
         id: typeof contentBlock.id === 'string' ? contentBlock.id : `tool_${index}`,
         name: typeof contentBlock.name === 'string' ? contentBlock.name : 'tool',
         input: contentBlock.input ?? null,
@@ -215,9 +301,11 @@ export class AnthropicStreamAggregator {
       return;
     }
 
+    // redacted_thinking and server tool results (web_search_tool_result,
+    // code_execution_tool_result, mcp_tool_result, ...) arrive whole in the start event.
     const node = { ...contentBlock };
     message.content.push(node);
-    this.builders.set(index, { kind: 'passthrough', node });
+    this.builders.set(index, { kind: 'complete', node });
   }
 
   private handleContentBlockDelta(payload: Record<string, unknown>): void {
@@ -225,28 +313,45 @@ export class AnthropicStreamAggregator {
     const delta = payload.delta as Record<string, unknown> | undefined;
     const builder = this.builders.get(index);
     if (!builder || !delta) {
+      this.warnings.push(`content_block_delta for unknown block at index ${index}`);
       return;
     }
 
-    if (builder.kind === 'text' && typeof delta.text === 'string') {
-      builder.node.text += delta.text;
-      return;
-    }
-
-    if (builder.kind === 'tool_use' && typeof delta.partial_json === 'string') {
-      builder.buffer += delta.partial_json;
-      return;
-    }
-
-    if (builder.kind === 'thinking') {
-      if (delta.type === 'thinking_delta' && typeof delta.thinking === 'string') {
-        builder.node.thinking += delta.thinking;
-      }
-      if (delta.type === 'signature_delta' && typeof delta.signature === 'string') {
-        builder.node.signature = delta.signature;
-      }
-      return;
+    switch (delta.type) {
+      case 'text_delta':
+        if (builder.kind === 'text' && typeof delta.text === 'string') {
+          builder.node.text += delta.text;
+          return;
+        }
+        break;
+      case 'citations_delta':
+        if (builder.kind === 'text' && delta.citation !== undefined) {
+          builder.node.citations = [...(builder.node.citations ?? []), delta.citation];
+          return;
+        }
+        break;
+      case 'input_json_delta':
+        if (builder.kind === 'tool_use' && typeof delta.partial_json === 'string') {
+          builder.buffer += delta.partial_json;
+          return;
+        }
+        break;
+      case 'thinking_delta':
+        if (builder.kind === 'thinking' && typeof delta.thinking === 'string') {
+          builder.node.thinking += delta.thinking;
+          return;
+        }
+        break;
+      case 'signature_delta':
+        if (builder.kind === 'thinking' && typeof delta.signature === 'string') {
+          builder.node.signature = delta.signature;
+          return;
+        }
+        break;
     }
+    this.warnings.push(
+      `unexpected ${String(delta.type)} for ${String(builder.node.type)} block at index ${index}`
+    );
   }
 
   private handleContentBlockStop(payload: Record<string, unknown>): void {
@@ -262,7 +367,7 @@ export class AnthropicStreamAggregator {
           builder.node.input = JSON.parse(builder.buffer);
         } catch (error) {
           builder.node.input = builder.buffer;
-          this.errors.push(`failed to parse tool input JSON: ${(error as Error).message}`);
+          this.warnings.push(`failed to parse tool input JSON: ${(error as Error).message}`);
         }
       }
     }
@@ -293,3 +398,153 @@ export class AnthropicStreamAggregator {
     }
   }
 }
+
+/**
+ * Rebuilds a `chat.completion` object from an OpenAI-compatible Chat Completions stream
+ * of `chat.completion.chunk` events. Only the first choice is kept; usage is present
+ * when the client asked for it with `stream_options.include_usage`.
+ */
+export class OpenAIChatStreamAggregator {
+  private parser = new SseParser((event) => this.handleEvent(event));
+  private completion: OpenAIChatCompletion | null = null;
+  private toolCalls = new Map<number, OpenAIToolCall>();
+  readonly warnings: string[] = [];
+  streamError: StreamError | null = null;
+
+  ingest(chunk: string): void {
+    this.parser.feed(chunk);
+  }
+
+  finalize(): OpenAIChatCompletion | null {
+    this.parser.finalize();
+    if (this.warnings.length > 0) {
+      logger.warn({ warnings: this.warnings }, 'stream aggregation completed with warnings');
+    }
+    return this.snapshot();
+  }
+
+  /**
+   * Copy of the completion aggregated so far. Tool call arguments stay the raw JSON
+   * string, as in non-streamed responses.
+   */
+  snapshot(): OpenAIChatCompletion | null {
+    if (!this.completion) {
+      return null;
+    }
+    const choices = this.completion.choices.map((choice) => {
+      const message: OpenAIChoiceMessage = { ...choice.message };
+      if (this.toolCalls.size > 0) {
+        message.tool_calls = [...this.toolCalls.entries()]
+          .sort(([left], [right]) => left - right)
+          .map(([, call]) => ({ ...call, function: { ...call.function } }));
+      }
+      return { ...choice, message };
+    });
+    return { ...this.completion, choices };
+  }
+
+  private handleEvent(event: SseEvent): void {
+    if (!event.data || event.data.trim() === '[DONE]') {
+      return;
+    }
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(event.data) as Record<string, unknown>;
+    } catch (error) {
+      this.warnings.push(`failed to parse SSE data: ${(error as Error).message}`);
+      return;
+    }
+    if (payload.error && typeof payload.error === 'object') {
+      this.streamError = parseStreamError(payload);
+      return;
+    }
+
+    const completion = this.ensureCompletion();
+    for (const key of ['id', 'created', 'model', 'system_fingerprint'] as const) {
+      if (payload[key] !== undefined && payload[key] !== null) {
+        Object.assign(completion, { [key]: payload[key] });
+      }
+    }
+    if (payload.usage && typeof payload.usage === 'object') {
+      completion.usage = payload.usage as Record<string, unknown>;
+    }
+
+    const choices = Array.isArray(payload.choices) ? (payload.choices as Array<Record<string, unknown>>) : [];
+    const choice = choices.find((candidate) => (candidate.index ?? 0) === 0);
+    if (!choice) {
+      return;
+    }
+    const target = completion.choices[0]!;
+    if (typeof choice.finish_reason === 'string') {
+      target.finish_reason = choice.finish_reason;
+    }
+    const delta = choice.delta as Record<string, unknown> | undefined;
+    if (delta) {
+      this.handleDelta(target.message, delta);
+    }
+  }
+
+  private ensureCompletion(): OpenAIChatCompletion {
+    if (!this.completion) {
+      this.completion = {
+        object: 'chat.completion',
+        choices: [{ index: 0, message: { role: 'assistant', content: null }, finish_reason: null }],
+      };
+    }
+    return this.completion;
+  }
+
+  private handleDelta(message: OpenAIChoiceMessage, delta: Record<string, unknown>): void {
+    if (typeof delta.role === 'string') {
+      message.role = delta.role;
+    }
+    if (typeof delta.content === 'string') {
+      message.content = (message.content ?? '') + delta.content;
+    }
+    if (typeof delta.reasoning_content === 'string') {
+      message.reasoning_content = (message.reasoning_content ?? '') + delta.reasoning_content;
+    }
+    if (!Array.isArray(delta.tool_calls)) {
+      return;
+    }
+
+    for (const rawCall of delta.tool_calls as Array<Record<string, unknown>>) {
+      const index = typeof rawCall.index === 'number' ? rawCall.index : 0;
+      let call = this.toolCalls.get(index);
+      if (!call) {
+        call = { id: '', type: 'function', function: { name: '', arguments: '' } };
+        this.toolCalls.set(index, call);
+      }
+      if (typeof rawCall.id === 'string') {
+        call.id = rawCall.id;
+      }
+      if (typeof rawCall.type === 'string') {
+        call.type = rawCall.type;
+      }
+      const fn = rawCall.function as Record<string, unknown> | undefined;
+      if (typeof fn?.name === 'string') {
+        call.function.name += fn.name;
+      }
+      if (typeof fn?.arguments === 'string') {
+        call.function.arguments += fn.arguments;
+      }
+    }
+  }
+}
+
+/**
+ * Common surface of the per-provider aggregators. `finalize` returns the response body
+ * in the provider's non-streamed format.
+ */
+export interface StreamAggregator {
+  ingest(chunk: string): void;
+  finalize(): unknown;
+  snapshot(): unknown;
+  /** Events or blocks that could not be aggregated */
+  readonly warnings: string[];
+  readonly streamError: StreamError | null;
+}
+
+export function createStreamAggregator(provider: Provider): StreamAggregator {
+  return provider === 'openai' ? new OpenAIChatStreamAggregator() : new AnthropicStreamAggregator();
+}
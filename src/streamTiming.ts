@@ -0,0 +1,143 @@
+import type { Provider, StreamBlockTiming, StreamTiming } from '../shared/types';
+import { SseParser, type SseEvent } from './streamAggregator';
+
+/**
+ * Latency metrics of streamed responses.
+ *
+ * The proxy stamps every stream chunk with its arrival time (`streamChunkTimesMs`,
+ * parallel to `streamChunks`). Here the chunks are parsed again as SSE events, each
+ * event taking the time of the chunk that completed it, to find the time to first
+ * token, when each content block started and ended, and the output token rate.
+ */
+
+/** Keyed by Anthropic block index, or by OpenAI delta field (`text`, `tool:<n>`) */
+type BlockTimes = Map<string, StreamBlockTiming>;
+
+function parsePayload(event: SseEvent): Record<string, unknown> | null {
+  if (!event.data || event.data.trim() === '[DONE]') {
+    return null;
+  }
+  try {
+    const payload = JSON.parse(event.data) as unknown;
+    return typeof payload === 'object' && payload !== null ? (payload as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record one content block event. Returns whether it carried output (a delta).
+ */
+function recordAnthropicEvent(payload: Record<string, unknown>, timeMs: number, blocks: BlockTimes): boolean {
+  const index = typeof payload.index === 'number' ? payload.index : 0;
+  const existing = blocks.get(String(index));
+  switch (payload.type) {
+    case 'content_block_start': {
+      const block = payload.content_block as { type?: unknown } | undefined;
+      const type = typeof block?.type === 'string' ? block.type : 'unknown';
+      blocks.set(String(index), { index, type, startMs: timeMs, endMs: timeMs });
+      return false;
+    }
+    case 'content_block_delta':
+      if (existing) {
+        existing.endMs = timeMs;
+      }
+      return true;
+    case 'content_block_stop':
+      if (existing) {
+        existing.endMs = timeMs;
+      }
+      return false;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Record one chat completion chunk. OpenAI has no block events, so reasoning, text and
+ * each tool call count as a block from their first delta to their last.
+ */
+function recordOpenAIEvent(payload: Record<string, unknown>, timeMs: number, blocks: BlockTimes): boolean {
+  const choices = Array.isArray(payload.choices) ? (payload.choices as Array<Record<string, unknown>>) : [];
+  const delta = choices.find((choice) => (choice.index ?? 0) === 0)?.delta as Record<string, unknown> | undefined;
+  if (!delta) {
+    return false;
+  }
+
+  const touched: Array<[string, string]> = [];
+  if (typeof delta.reasoning_content === 'string' && delta.reasoning_content.length > 0) {
+    touched.push(['thinking', 'thinking']);
+  }
+  if (typeof delta.content === 'string' && delta.content.length > 0) {
+    touched.push(['text', 'text']);
+  }
+  if (Array.isArray(delta.tool_calls)) {
+    for (const call of delta.tool_calls as Array<Record<string, unknown>>) {
+      touched.push([`tool:${typeof call.index === 'number' ? call.index : 0}`, 'tool_use']);
+    }
+  }
+
+  for (const [key, type] of touched) {
+    const existing = blocks.get(key);
+    if (existing) {
+      existing.endMs = timeMs;
+    } else {
+      blocks.set(key, { index: blocks.size, type, startMs: timeMs, endMs: timeMs });
+    }
+  }
+  return touched.length > 0;
+}
+
+/**
+ * Derive the timing of a streamed response. `timesMs` holds the arrival time of each
+ * chunk; returns null when there are no chunks or the times don't line up with them.
+ */
+export function computeStreamTiming(
+  provider: Provider,
+  chunks: string[],
+  timesMs: number[],
+  outputTokens: number | null | undefined
+): StreamTiming | null {
+  if (chunks.length === 0 || chunks.length !== timesMs.length) {
+    return null;
+  }
+
+  const blocks: BlockTimes = new Map();
+  let currentMs = 0;
+  let ttftMs: number | undefined;
+  const parser = new SseParser((event) => {
+    const payload = parsePayload(event);
+    if (!payload) {
+      return;
+    }
+    const hadOutput =
+      provider === 'openai'
+        ? recordOpenAIEvent(payload, currentMs, blocks)
+        : recordAnthropicEvent(payload, currentMs, blocks);
+    if (hadOutput && ttftMs === undefined) {
+      ttftMs = currentMs;
+    }
+  });
+
+  chunks.forEach((chunk, index) => {
+    currentMs = timesMs[index]!;
+    parser.feed(chunk);
+  });
+  parser.finalize();
+
+  const firstChunkMs = timesMs[0]!;
+  const lastChunkMs = timesMs[timesMs.length - 1]!;
+  const blockTimes = Array.from(blocks.values()).sort((a, b) => a.startMs - b.startMs || a.index - b.index);
+  const timing: StreamTiming = { firstChunkMs, lastChunkMs, blocks: blockTimes };
+  if (blockTimes.length > 0) {
+    timing.firstContentBlockMs = blockTimes[0]!.startMs;
+  }
+  if (ttftMs !== undefined) {
+    timing.ttftMs = ttftMs;
+    const generationMs = lastChunkMs - ttftMs;
+    if (outputTokens && generationMs > 0) {
+      timing.outputTokensPerSecond = Math.round((outputTokens / generationMs) * 1000 * 10) / 10;
+    }
+  }
+  return timing;
+}
@@ -0,0 +1,201 @@
+import { readFileSync } from 'fs';
+import type { InteractionLog } from '../shared/types';
+import { appConfig } from './config';
+import { UPSTREAM_RETRY_BASE_MS, UPSTREAM_RETRY_MAX_MS } from './constants';
+import { extractModel } from './logIndex';
+import { logger } from './logger';
+
+/**
+ * Named upstreams and the routes that pick between them.
+ *
+ * `UPSTREAMS_FILE` points at a JSON object such as
+ *
+ *   {
+ *     "upstreams": {
+ *       "gateway": { "baseUrl": "https://llm-gateway.internal", "headers": { "x-team": "tools" } },
+ *       "mock": { "baseUrl": "http://localhost:9000" },
+ *       "vllm": { "baseUrl": "http://gpu-box:8000" }
+ *     },
+ *     "routes": [
+ *       { "path": "/chat/completions", "upstream": "vllm" },
+ *       { "model": "haiku", "upstream": "mock" },
+ *       { "labels": { "team": "search" }, "upstream": "gateway", "failover": ["default"] }
+ *     ]
+ *   }
+ *
+ * The first route whose filters all match a request picks its upstream; a route without
+ * filters matches everything. Unrouted requests go to `default`, which is
+ * UPSTREAM_BASE_URL unless the file defines it. The proxy retries each upstream of the
+ * chain (the route's upstream, then its `failover` list) on 429/529 responses and
+ * connection errors, up to UPSTREAM_MAX_RETRIES times, before moving to the next.
+ */
+
+export const DEFAULT_UPSTREAM_NAME = 'default';
+
+export interface Upstream {
+  name: string;
+  baseUrl: string;
+  /** Headers added to every request sent to this upstream, after the auth headers */
+  headers: Record<string, string>;
+}
+
+export interface UpstreamRoute {
+  /** Case-insensitive substring of the request model */
+  model?: string;
+  /** Substring of the request path, e.g. "/chat/completions" */
+  path?: string;
+  /** Labels the request must carry (key -> exact value) */
+  labels?: Record<string, string>;
+  upstream: string;
+  /** Upstreams tried in order once `upstream` has failed */
+  failover?: string[];
+}
+
+interface UpstreamSettings {
+  upstreams: Map<string, Upstream>;
+  routes: UpstreamRoute[];
+}
+
+/** Rate limited (429) and overloaded (529) responses are worth another try */
+const RETRYABLE_STATUSES = new Set([429, 529]);
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return isPlainRecord(value) && Object.values(value).every((entry) => typeof entry === 'string');
+}
+
+function defaultUpstream(): Upstream {
+  return { name: DEFAULT_UPSTREAM_NAME, baseUrl: appConfig.upstreamBaseUrl, headers: {} };
+}
+
+/**
+ * Parse one entry of `upstreams`. Returns an error message for invalid entries.
+ */
+function parseUpstream(name: string, value: unknown): Upstream | string {
+  if (!isPlainRecord(value)) {
+    return 'expected an object';
+  }
+  if (typeof value.baseUrl !== 'string' || !URL.canParse(value.baseUrl)) {
+    return 'baseUrl must be an absolute URL';
+  }
+  if (value.headers !== undefined && !isStringRecord(value.headers)) {
+    return 'headers must map header names to strings';
+  }
+  const headers = Object.fromEntries(
+    Object.entries(value.headers ?? {}).map(([key, header]) => [key.toLowerCase(), header])
+  );
+  return { name, baseUrl: value.baseUrl, headers };
+}
+
+/**
+ * Parse one entry of `routes`. Returns an error message for invalid entries.
+ */
+function parseRoute(value: unknown, upstreams: Map<string, Upstream>): UpstreamRoute | string {
+  if (!isPlainRecord(value)) {
+    return 'expected an object';
+  }
+  if (typeof value.upstream !== 'string' || !upstreams.has(value.upstream)) {
+    return 'upstream must name a configured upstream';
+  }
+  if (value.model !== undefined && typeof value.model !== 'string') {
+    return 'model must be a string';
+  }
+  if (value.path !== undefined && typeof value.path !== 'string') {
+    return 'path must be a string';
+  }
+  if (value.labels !== undefined && !isStringRecord(value.labels)) {
+    return 'labels must map label keys to strings';
+  }
+  const failover = value.failover;
+  if (
+    failover !== undefined &&
+    (!Array.isArray(failover) || !failover.every((name) => typeof name === 'string' && upstreams.has(name)))
+  ) {
+    return 'failover must list configured upstreams';
+  }
+  return value as unknown as UpstreamRoute;
+}
+
+function loadUpstreamSettings(filePath: string): UpstreamSettings {
+  const upstreams = new Map([[DEFAULT_UPSTREAM_NAME, defaultUpstream()]]);
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as unknown;
+    if (!isPlainRecord(parsed) || (parsed.routes !== undefined && !Array.isArray(parsed.routes))) {
+      throw new Error('expected an object with "upstreams" and "routes"');
+    }
+    for (const [name, value] of Object.entries(isPlainRecord(parsed.upstreams) ? parsed.upstreams : {})) {
+      const result = parseUpstream(name, value);
+      if (typeof result === 'string') {
+        logger.warn({ filePath, upstream: name }, `Upstreams: Ignoring upstream: ${result}`);
+        continue;
+      }
+      upstreams.set(name, result);
+    }
+    const routes: UpstreamRoute[] = [];
+    (parsed.routes ?? []).forEach((value: unknown, index: number) => {
+      const result = parseRoute(value, upstreams);
+      if (typeof result === 'string') {
+        logger.warn({ filePath, index }, `Upstreams: Ignoring route: ${result}`);
+        return;
+      }
+      routes.push(result);
+    });
+    logger.info({ filePath, upstreams: upstreams.size, routes: routes.length }, 'Upstreams: Loaded upstreams');
+    return { upstreams, routes };
+  } catch (error) {
+    logger.warn({ err: error, filePath }, 'Upstreams: Failed to load upstreams file, using UPSTREAM_BASE_URL only');
+    return { upstreams, routes: [] };
+  }
+}
+
+let upstreamSettings: UpstreamSettings | null = null;
+
+function getUpstreamSettings(): UpstreamSettings {
+  if (!upstreamSettings) {
+    upstreamSettings = appConfig.upstreamsFile
+      ? loadUpstreamSettings(appConfig.upstreamsFile)
+      : { upstreams: new Map([[DEFAULT_UPSTREAM_NAME, defaultUpstream()]]), routes: [] };
+  }
+  return upstreamSettings;
+}
+
+/**
+ * Upstreams to try for a request, in order: the routed upstream, then its failover list.
+ */
+export function selectUpstreams(log: InteractionLog): Upstream[] {
+  const { upstreams, routes } = getUpstreamSettings();
+  const model = extractModel(log)?.toLowerCase();
+  const route = routes.find(
+    (candidate) =>
+      (!candidate.model || model?.includes(candidate.model.toLowerCase())) &&
+      (!candidate.path || log.path.includes(candidate.path)) &&
+      (!candidate.labels ||
+        Object.entries(candidate.labels).every(([key, value]) => log.labels?.[key] === value))
+  );
+
+  const names = route ? [route.upstream, ...(route.failover ?? [])] : [DEFAULT_UPSTREAM_NAME];
+  return [...new Set(names)].map((name) => upstreams.get(name) ?? defaultUpstream());
+}
+
+export function buildUpstreamUrl(upstream: Upstream, originalUrl: string): string {
+  return new URL(originalUrl, upstream.baseUrl).toString();
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Delay before retry `retry` (0-based) on the same upstream: the server's retry-after
+ * when present, otherwise exponential backoff with jitter.
+ */
+export function upstreamRetryDelayMs(retry: number, retryAfter: string | null): number {
+  const retryAfterSeconds = retryAfter ? Number.parseFloat(retryAfter) : Number.NaN;
+  const delay = Number.isFinite(retryAfterSeconds)
+    ? retryAfterSeconds * 1000
+    : UPSTREAM_RETRY_BASE_MS * 2 ** retry * (0.5 + Math.random() / 2);
+  return Math.round(Math.min(delay, UPSTREAM_RETRY_MAX_MS));
+}
@@ -0,0 +1,136 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { appConfig } from '../config';
+import { logger } from '../logger';
+
+/**
+ * Cache of count_tokens results keyed by a hash of the request body, which covers the
+ * model and every piece of counted text. Claude Code resends the same system prompt and
+ * tool list with every request, so after the first log nearly every count is a hit.
+ *
+ * Counts live in memory and in an append-only JSONL file next to the logs so they
+ * survive restarts. Counts never change for a given body, so lines are never superseded
+ * and the file needs no compaction.
+ */
+
+const CACHE_FILE_NAME = '.snoopty-token-cache.jsonl';
+
+interface CacheLine {
+  key: string;
+  tokens: number;
+}
+
+export function tokenCountCacheKey(requestBody: unknown): string {
+  return createHash('sha256').update(JSON.stringify(requestBody)).digest('hex');
+}
+
+export class TokenCountCache {
+  private counts = new Map<string, number>();
+  private pending = new Map<string, Promise<number>>();
+  private loading: Promise<void> | null = null;
+  private unflushed: CacheLine[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private logDir: string) {}
+
+  private get cachePath(): string {
+    return path.join(this.logDir, CACHE_FILE_NAME);
+  }
+
+  /**
+   * Return the cached count for `key`, or run `compute` once and remember its result.
+   * Concurrent callers with the same key share a single computation.
+   */
+  async getOrCompute(key: string, compute: () => Promise<number>): Promise<number> {
+    await this.ensureLoaded();
+
+    const cached = this.counts.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const computation = compute()
+      .then((tokens) => {
+        this.counts.set(key, tokens);
+        this.append({ key, tokens });
+        return tokens;
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+    this.pending.set(key, computation);
+    return computation;
+  }
+
+  get size(): number {
+    return this.counts.size;
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.cachePath, 'utf8');
+    } catch {
+      return;
+    }
+
+    for (const line of raw.split('\n')) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+      try {
+        const parsed = JSON.parse(line) as CacheLine;
+        if (typeof parsed.key === 'string' && typeof parsed.tokens === 'number') {
+          this.counts.set(parsed.key, parsed.tokens);
+        }
+      } catch {
+        // A torn final line from a crash mid-append is expected; skip it.
+      }
+    }
+    logger.debug({ entries: this.counts.size }, 'TokenCountCache: loaded');
+  }
+
+  /**
+   * Queue a line for the cache file. Lines produced while a write is running are
+   * flushed together by the next write.
+   */
+  private append(line: CacheLine): void {
+    this.unflushed.push(line);
+    this.writeChain = this.writeChain
+      .then(async () => {
+        if (this.unflushed.length === 0) {
+          return;
+        }
+        const lines = this.unflushed;
+        this.unflushed = [];
+        await fs.mkdir(this.logDir, { recursive: true });
+        await fs.appendFile(
+          this.cachePath,
+          lines.map((entry) => JSON.stringify(entry)).join('\n') + '\n',
+          'utf8'
+        );
+      })
+      .catch((error) => {
+        // The in-memory cache still holds the counts; only persistence is lost.
+        logger.warn({ err: error, cachePath: this.cachePath }, 'TokenCountCache: failed to write cache');
+      });
+  }
+}
+
+/**
+ * Global token count cache for the configured log directory.
+ */
+export const globalTokenCountCache = new TokenCountCache(path.resolve(appConfig.logDir));
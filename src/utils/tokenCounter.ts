@@ -1,17 +1,45 @@
 /**
  * Token Counter Utility
  *
- * Provides a general-purpose abstraction for counting tokens using Anthropic's API.
- * This replaces the inline counting logic in tokenCounting.ts and can be reused
- * across all metrics analyzers.
+ * Provides a general-purpose abstraction for counting tokens that can be reused
+ * across all metrics analyzers. The backend is selected by `TOKEN_COUNTER`:
+ * - remote: Anthropic's count_tokens API. Exact, but needs the network and makes one
+ *   upstream call per segment; errors are thrown rather than estimated.
+ * - local: the bundled `@anthropic-ai/tokenizer`. Works offline, approximate.
+ * - hybrid: local counts that the caller calibrates against the usage Anthropic
+ *   reported for the request (see TokenBreakdownAnalyzer).
  *
- * Design principles:
- * - ALWAYS use Anthropic's official token counting API for accuracy
- * - NEVER estimate - throw errors if API is unavailable
- * - Support batching/parallelization for performance
+ * Every count is tagged with the backend's methodology so the UI can tell exact
+ * counts from estimates. count_tokens only knows Claude models, so requests for other
+ * models (OpenAI-compatible upstreams) fall back to hybrid counting.
+ *
+ * Remote counts are cached by request body (see tokenCountCache.ts), limited to a few
+ * concurrent upstream calls, and retried with backoff when rate limited.
  */
 
-import { appConfig } from '../config';
+import { countTokens as countLocalTokens } from '@anthropic-ai/tokenizer';
+import type { TokenMethodology } from '../../shared/types';
+import { appConfig, type TokenCounterMode } from '../config';
+import {
+  TOKEN_COUNT_CONCURRENCY,
+  TOKEN_COUNT_MAX_RETRIES,
+  TOKEN_COUNT_RETRY_BASE_MS,
+  TOKEN_COUNT_RETRY_MAX_MS,
+} from '../constants';
+import { logger } from '../logger';
+import { globalTokenCountCache, tokenCountCacheKey } from './tokenCountCache';
+
+/**
+ * A token counting backend. Each method returns the tokens contributed by its input.
+ */
+export interface TokenCounterBackend {
+  name: TokenCounterMode;
+  methodology: TokenMethodology;
+  countSystem(model: string, systemPrompt: string): Promise<number>;
+  countUser(model: string, userMessage: string): Promise<number>;
+  countAssistant(model: string, assistantMessage: string): Promise<number>;
+  countTools(model: string, tools: unknown[]): Promise<number>;
+}
 
 /**
  * Base interface for token counting requests.
@@ -24,12 +52,112 @@ interface TokenCountRequest {
   tools?: unknown[];
 }
 
+/** Responses worth retrying: rate limited or overloaded */
+const RETRYABLE_STATUSES = new Set([429, 529]);
+
+let activeRequests = 0;
+const waitingRequests: Array<() => void> = [];
+
+/**
+ * Run `task` once fewer than TOKEN_COUNT_CONCURRENCY upstream calls are active.
+ */
+async function withConcurrencyLimit<T>(task: () => Promise<T>): Promise<T> {
+  if (activeRequests >= TOKEN_COUNT_CONCURRENCY) {
+    // The finishing request hands its slot straight to us.
+    await new Promise<void>((resolve) => waitingRequests.push(resolve));
+  } else {
+    activeRequests++;
+  }
+  try {
+    return await task();
+  } finally {
+    const next = waitingRequests.shift();
+    if (next) {
+      next();
+    } else {
+      activeRequests--;
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Delay before retry `attempt` (0-based): the server's retry-after when present,
+ * otherwise exponential backoff with jitter.
+ */
+function retryDelayMs(attempt: number, retryAfter: string | null): number {
+  const retryAfterSeconds = retryAfter ? Number.parseFloat(retryAfter) : Number.NaN;
+  const delay = Number.isFinite(retryAfterSeconds)
+    ? retryAfterSeconds * 1000
+    : TOKEN_COUNT_RETRY_BASE_MS * 2 ** attempt * (0.5 + Math.random() / 2);
+  return Math.min(delay, TOKEN_COUNT_RETRY_MAX_MS);
+}
+
+type TokenCountResponse =
+  | { ok: true; inputTokens: number }
+  | { ok: false; status: number; statusText: string; retryAfter: string | null };
+
+/**
+ * One count_tokens call. The body is read inside the concurrency limit, so a slot is
+ * only released once the call has fully completed.
+ */
+function fetchTokenCount(requestBody: unknown): Promise<TokenCountResponse> {
+  return withConcurrencyLimit(async () => {
+    const response = await fetch(`${appConfig.upstreamBaseUrl}/v1/messages/count_tokens`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': appConfig.upstreamApiKey || '',
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    if (response.ok) {
+      const data = (await response.json()) as { input_tokens: number };
+      return { ok: true, inputTokens: data.input_tokens };
+    }
+    await response.body?.cancel();
+    return {
+      ok: false,
+      status: response.status,
+      statusText: response.statusText,
+      retryAfter: response.headers.get('retry-after'),
+    };
+  });
+}
+
+async function requestTokenCount(requestBody: unknown): Promise<number> {
+  for (let attempt = 0; ; attempt++) {
+    const result = await fetchTokenCount(requestBody);
+    if (result.ok) {
+      return result.inputTokens;
+    }
+
+    if (!RETRYABLE_STATUSES.has(result.status) || attempt >= TOKEN_COUNT_MAX_RETRIES) {
+      throw new Error(`Token count API failed: ${result.status} ${result.statusText}`);
+    }
+
+    // Wait outside the concurrency limit so other counts can use the slot.
+    const delayMs = retryDelayMs(attempt, result.retryAfter);
+    logger.debug(
+      { status: result.status, attempt: attempt + 1, delayMs },
+      'TokenCounter: count_tokens rate limited, retrying'
+    );
+    await sleep(delayMs);
+  }
+}
+
 /**
  * Call Anthropic's token counting API with the given parameters.
+ * Results are cached by request body, so repeated segments cost one upstream call.
  *
  * @param request - The token counting request parameters
  * @returns The input token count from Anthropic's API
- * @throws Error if the API call fails
+ * @throws Error if the API call fails (after retries for 429/529)
  */
 export async function callAnthropicTokenCountAPI(
   request: TokenCountRequest
@@ -64,27 +192,89 @@ export async function callAnthropicTokenCountAPI(
     requestBody.tools = tools;
   }
 
-  const response = await fetch(`${appConfig.upstreamBaseUrl}/v1/messages/count_tokens`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': appConfig.upstreamApiKey || '',
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify(requestBody),
-  });
+  return globalTokenCountCache.getOrCompute(tokenCountCacheKey(requestBody), () =>
+    requestTokenCount(requestBody)
+  );
+}
 
-  if (!response.ok) {
-    throw new Error(`Token count API failed: ${response.status} ${response.statusText}`);
-  }
+/**
+ * Counts through Anthropic's count_tokens API. System prompts and tools are measured
+ * differentially (with minus without) to isolate their contribution.
+ */
+const remoteBackend: TokenCounterBackend = {
+  name: 'remote',
+  methodology: 'anthropic',
+
+  async countSystem(model, systemPrompt) {
+    const withSystem = await callAnthropicTokenCountAPI({
+      model,
+      system: systemPrompt,
+      userMessage: 'Hi',
+    });
+    const withoutSystem = await callAnthropicTokenCountAPI({
+      model,
+      userMessage: 'Hi',
+    });
+    return withSystem - withoutSystem;
+  },
+
+  countUser(model, userMessage) {
+    return callAnthropicTokenCountAPI({ model, userMessage });
+  },
+
+  countAssistant(model, assistantMessage) {
+    return callAnthropicTokenCountAPI({ model, assistantMessage });
+  },
 
-  const data = (await response.json()) as { input_tokens: number };
-  return data.input_tokens;
+  // Uses "Hi" for both system and user as baseline (matching Python implementation).
+  async countTools(model, tools) {
+    const withTools = await callAnthropicTokenCountAPI({
+      model,
+      system: 'Hi',
+      userMessage: 'Hi',
+      tools,
+    });
+    const withoutTools = await callAnthropicTokenCountAPI({
+      model,
+      system: 'Hi',
+      userMessage: 'Hi',
+    });
+    return withTools - withoutTools;
+  },
+};
+
+/**
+ * Counts with the bundled tokenizer. Tool definitions are counted as their JSON.
+ */
+const localBackend: TokenCounterBackend = {
+  name: 'local',
+  methodology: 'estimate',
+  countSystem: async (_model, systemPrompt) => countLocalTokens(systemPrompt),
+  countUser: async (_model, userMessage) => countLocalTokens(userMessage),
+  countAssistant: async (_model, assistantMessage) => countLocalTokens(assistantMessage),
+  countTools: async (_model, tools) => countLocalTokens(JSON.stringify(tools)),
+};
+
+const hybridBackend: TokenCounterBackend = { ...localBackend, name: 'hybrid' };
+
+const BACKENDS: Record<TokenCounterMode, TokenCounterBackend> = {
+  remote: remoteBackend,
+  local: localBackend,
+  hybrid: hybridBackend,
+};
+
+/**
+ * The backend selected by configuration, for counting tokens of `model`.
+ */
+export function getTokenCounter(model?: string): TokenCounterBackend {
+  if (appConfig.tokenCounter === 'remote' && model !== undefined && !model.toLowerCase().includes('claude')) {
+    return hybridBackend;
+  }
+  return BACKENDS[appConfig.tokenCounter];
 }
 
 /**
- * Count tokens for system prompt by comparing with and without system.
- * Uses differential counting to isolate the system prompt's contribution.
+ * Count tokens for a system prompt.
  */
 export async function countSystemTokens(
   model: string,
@@ -94,18 +284,7 @@ export async function countSystemTokens(
     return 0;
   }
 
-  const withSystem = await callAnthropicTokenCountAPI({
-    model,
-    system: systemPrompt,
-    userMessage: 'Hi',
-  });
-
-  const withoutSystem = await callAnthropicTokenCountAPI({
-    model,
-    userMessage: 'Hi',
-  });
-
-  return withSystem - withoutSystem;
+  return await getTokenCounter(model).countSystem(model, systemPrompt);
 }
 
 /**
@@ -116,10 +295,7 @@ export async function countUserTokens(model: string, userMessage: string): Promi
     return 0;
   }
 
-  return await callAnthropicTokenCountAPI({
-    model,
-    userMessage,
-  });
+  return await getTokenCounter(model).countUser(model, userMessage);
 }
 
 /**
@@ -133,15 +309,11 @@ export async function countAssistantTokens(
     return 0;
   }
 
-  return await callAnthropicTokenCountAPI({
-    model,
-    assistantMessage,
-  });
+  return await getTokenCounter(model).countAssistant(model, assistantMessage);
 }
 
 /**
- * Count tokens for tools by comparing with and without tools.
- * Uses "Hi" for both system and user as baseline (matching Python implementation).
+ * Count tokens for tool definitions.
  */
 export async function countToolTokens(
   model: string,
@@ -151,30 +323,17 @@ export async function countToolTokens(
     return 0;
   }
 
-  const withTools = await callAnthropicTokenCountAPI({
-    model,
-    system: 'Hi',
-    userMessage: 'Hi',
-    tools,
-  });
-
-  const withoutTools = await callAnthropicTokenCountAPI({
-    model,
-    system: 'Hi',
-    userMessage: 'Hi',
-  });
-
-  return withTools - withoutTools;
+  return await getTokenCounter(model).countTools(model, tools);
 }
 
 /**
- * Count tokens for arbitrary text content using the user message API.
+ * Count tokens for arbitrary text content as a user message.
  * This is a general-purpose method for counting any text content.
  *
  * @param model - The model to use for token counting
  * @param content - The text content to count tokens for
  * @returns The token count
- * @throws Error if the API call fails
+ * @throws Error if the remote API call fails
  */
 export async function countContentTokens(model: string, content: string): Promise<number> {
   if (!content) {
@@ -193,7 +352,7 @@ export async function countContentTokens(model: string, content: string): Promis
  * @param model - The model to use for token counting
  * @param contents - Array of text content to count
  * @returns Array of token counts (same order as input)
- * @throws Error if any API call fails
+ * @throws Error if any remote API call fails
  */
 export async function batchCountContentTokens(
   model: string,
@@ -211,7 +370,7 @@ export async function batchCountContentTokens(
  * @param model - The model to use for token counting
  * @param contentMap - Map of name to content
  * @returns Map of name to token count
- * @throws Error if any API call fails
+ * @throws Error if any remote API call fails
  */
 export async function countNamedContents(
   model: string,
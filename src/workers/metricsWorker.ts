@@ -5,9 +5,11 @@
  * Runs independently of the proxy handler to avoid blocking responses.
  *
  * Design:
+ * - One worker per project (see projects.ts), bound to the project's log directory,
+ *   analyzers, agent tag rules and pricing
  * - Watches log directory for new/updated files
  * - Runs all registered analyzers on each log
- * - Updates log files with computed metrics
+ * - Updates log files with computed metrics (and their summaries in the log index)
  * - Graceful error handling per analyzer
  */
 
@@ -15,11 +17,14 @@ import { watch } from 'fs';
 import fs from 'fs/promises';
 import path from 'path';
 import type { InteractionLog } from '../../shared/types';
-import { appConfig } from '../config';
+import { extractModel } from '../logIndex';
 import { logger } from '../logger';
-import { globalMetricsRegistry } from '../metrics/MetricsAnalyzer';
+import { hasReportedUsage } from '../metrics/CostAnalyzer';
+import { resolveModelPricing } from '../pricing';
+import type { Project } from '../projects';
+import { isConversationPath, normalizeRequest } from '../providers';
 
-interface MetricsWorkerOptions {
+export interface MetricsWorkerOptions {
   /** Polling interval in milliseconds for checking unprocessed logs */
   pollInterval?: number;
   /** Whether to process existing logs on startup */
@@ -38,8 +43,11 @@ export class MetricsWorker {
   private watcher: ReturnType<typeof watch> | null = null;
   private processingQueue: Set<string> = new Set();
 
-  constructor(options: MetricsWorkerOptions = {}) {
-    this.logDir = appConfig.logDir;
+  constructor(
+    private project: Project,
+    options: MetricsWorkerOptions = {}
+  ) {
+    this.logDir = project.logDir;
     this.pollInterval = options.pollInterval ?? 5000; // 5 seconds default
     this.processExisting = options.processExisting ?? true;
     this.watchForNew = options.watchForNew ?? true;
@@ -65,10 +73,10 @@ export class MetricsWorker {
     }
 
     this.isRunning = true;
-    logger.info({ logDir: this.logDir }, 'MetricsWorker: Starting worker');
+    logger.info({ project: this.project.name, logDir: this.logDir }, 'MetricsWorker: Starting worker');
 
     // Log registered analyzers
-    const analyzers = globalMetricsRegistry.getAnalyzerNames();
+    const analyzers = this.project.metrics.getAnalyzerNames();
     logger.debug({ analyzers }, 'MetricsWorker: Registered analyzers');
 
     // Process existing logs on startup
@@ -142,7 +150,8 @@ export class MetricsWorker {
 
     try {
       const files = await fs.readdir(this.logDir);
-      const logFiles = files.filter((f) => f.endsWith('.json'));
+      // Oldest first (file names start with the timestamp) so session links can resolve.
+      const logFiles = files.filter((f) => f.endsWith('.json')).sort();
 
       logger.info(
         { totalFiles: files.length, logFiles: logFiles.length, force },
@@ -232,7 +241,7 @@ export class MetricsWorker {
       logger.debug({ logDir: this.logDir }, 'MetricsWorker: Polling for unprocessed logs');
 
       const files = await fs.readdir(this.logDir);
-      const logFiles = files.filter((f) => f.endsWith('.json'));
+      const logFiles = files.filter((f) => f.endsWith('.json')).sort();
 
       logger.debug({ count: logFiles.length }, 'MetricsWorker: Found log files during poll');
 
@@ -299,7 +308,7 @@ export class MetricsWorker {
       );
 
       // Check if we have all expected metrics
-      const analyzerNames = globalMetricsRegistry.getAnalyzerNames();
+      const analyzerNames = this.project.metrics.getAnalyzerNames();
       logger.debug({ filename, analyzerNames }, 'MetricsWorker: Checking against analyzers');
 
       // Check for agent-tag first (applies to all endpoints)
@@ -311,7 +320,29 @@ export class MetricsWorker {
         return true;
       }
 
-      if (log.path.includes('/messages')) {
+      if (
+        analyzerNames.includes('agent-tag') &&
+        log.agentTag?.rulesVersion !== this.project.agentTagRules.current().version
+      ) {
+        logger.debug(
+          { filename, path: log.path, rulesVersion: log.agentTag?.rulesVersion },
+          'MetricsWorker: Log needs processing (agentTag from older rules)'
+        );
+        return true;
+      }
+
+      if (analyzerNames.includes('cost') && !log.cost && hasReportedUsage(log)) {
+        const model = extractModel(log);
+        if (model && resolveModelPricing(model, this.project.pricingFile)) {
+          logger.debug(
+            { filename, path: log.path },
+            'MetricsWorker: Log needs processing (missing cost)'
+          );
+          return true;
+        }
+      }
+
+      if (isConversationPath(log.path)) {
         if (analyzerNames.includes('tool-metrics') && !log.toolMetrics) {
           logger.debug(
             { filename, path: log.path },
@@ -326,6 +357,18 @@ export class MetricsWorker {
           );
           return true;
         }
+        if (
+          analyzerNames.includes('session') &&
+          !log.session &&
+          !log.path.includes('/count_tokens') &&
+          (normalizeRequest(log)?.messages.length ?? 0) > 0
+        ) {
+          logger.debug(
+            { filename, path: log.path },
+            'MetricsWorker: Log needs processing (missing session)'
+          );
+          return true;
+        }
       }
 
       logger.debug({ filename }, 'MetricsWorker: Log does not need processing');
@@ -385,7 +428,7 @@ export class MetricsWorker {
 
       // Run all analyzers (pass force flag)
       const startTime = Date.now();
-      const results = await globalMetricsRegistry.analyzeAll(log, force);
+      const results = await this.project.metrics.analyzeAll(log, force);
       const duration = Date.now() - startTime;
 
       logger.debug(
@@ -394,8 +437,8 @@ export class MetricsWorker {
           analyzers: results.size,
           durationMs: duration,
           analyzerNames: Array.from(results.keys()),
-          registeredAnalyzers: globalMetricsRegistry.getAnalyzerNames(),
-          skippedAnalyzers: globalMetricsRegistry.getAnalyzerNames().filter(
+          registeredAnalyzers: this.project.metrics.getAnalyzerNames(),
+          skippedAnalyzers: this.project.metrics.getAnalyzerNames().filter(
             name => !results.has(name)
           ),
         },
@@ -481,13 +524,69 @@ export class MetricsWorker {
             log.agentTag = resultObj;
             updated = true;
           }
+        } else if (analyzerName === 'session' && result && typeof result === 'object') {
+          const hasError = 'error' in result;
+          if (hasError) {
+            logger.warn(
+              { filename, error: (result as any).error },
+              'MetricsWorker: session analyzer returned error'
+            );
+          } else {
+            const resultObj = result as any;
+            logger.debug(
+              {
+                filename,
+                sessionId: resultObj.sessionId,
+                parentLogId: resultObj.parentLogId,
+              },
+              'MetricsWorker: Adding session info to log'
+            );
+            log.session = resultObj;
+            updated = true;
+          }
+        } else if (analyzerName === 'cost' && result && typeof result === 'object') {
+          const hasError = 'error' in result;
+          if (hasError) {
+            logger.warn(
+              { filename, error: (result as any).error },
+              'MetricsWorker: cost analyzer returned error'
+            );
+          } else {
+            const resultObj = result as any;
+            logger.debug(
+              {
+                filename,
+                costUsd: resultObj.costUsd,
+                pricingModel: resultObj.pricingModel,
+              },
+              'MetricsWorker: Adding cost to log'
+            );
+            log.cost = resultObj;
+            updated = true;
+          }
         }
       }
 
+      // A stale tag that no current rule matches is dropped (the log becomes untagged)
+      if (
+        log.agentTag &&
+        !results.has('agent-tag') &&
+        this.project.metrics.getAnalyzerNames().includes('agent-tag') &&
+        log.agentTag.rulesVersion !== this.project.agentTagRules.current().version
+      ) {
+        logger.debug(
+          { filename, agentId: log.agentTag.id },
+          'MetricsWorker: Removing agent tag no longer matched by the rules'
+        );
+        delete log.agentTag;
+        updated = true;
+      }
+
       // Write back to file if updated
       if (updated) {
         logger.debug({ filename }, 'MetricsWorker: Writing updated log back to file');
         await fs.writeFile(filePath, JSON.stringify(log, null, 2), 'utf-8');
+        await this.project.logIndex.upsertEntry(log, filename);
         logger.debug(
           { filename, analyzers: results.size },
           'MetricsWorker: Successfully updated log with metrics'
@@ -525,43 +624,10 @@ export class MetricsWorker {
     const status = {
       isRunning: this.isRunning,
       queueSize: this.processingQueue.size,
-      registeredAnalyzers: globalMetricsRegistry.getAnalyzerNames(),
+      registeredAnalyzers: this.project.metrics.getAnalyzerNames(),
     };
 
     logger.debug(status, 'MetricsWorker: Status requested');
     return status;
   }
 }
-
-/**
- * Global singleton metrics worker instance.
- */
-export let globalMetricsWorker: MetricsWorker | null = null;
-
-/**
- * Initialize and start the global metrics worker.
- */
-export async function startMetricsWorker(options?: MetricsWorkerOptions): Promise<MetricsWorker> {
-  if (globalMetricsWorker) {
-    logger.warn('MetricsWorker: Worker already initialized, returning existing instance');
-    return globalMetricsWorker;
-  }
-
-  logger.info({ options }, 'MetricsWorker: Initializing global worker');
-  globalMetricsWorker = new MetricsWorker(options);
-  await globalMetricsWorker.start();
-  return globalMetricsWorker;
-}
-
-/**
- * Stop the global metrics worker.
- */
-export async function stopMetricsWorker(): Promise<void> {
-  if (globalMetricsWorker) {
-    logger.info('MetricsWorker: Stopping global worker');
-    await globalMetricsWorker.stop();
-    globalMetricsWorker = null;
-  } else {
-    logger.warn('MetricsWorker: No global worker to stop');
-  }
-}